@@ -0,0 +1,126 @@
+import type { Schema } from './structured.js';
+import type { ScheduleItem, Ticket } from '../../src/types/index.js';
+
+// Response schemas for the AI routes, each with the type it validates to. The enums are the
+// app's own, so a value that passes can be saved as a Ticket or ScheduleItem as is.
+
+const SCHEDULE_ITEM_TYPES: ScheduleItem['type'][] = ['travel', 'activity', 'meal', 'accommodation', 'free_time', 'meeting'];
+const TICKET_TYPES: Ticket['type'][] = ['flight', 'train', 'bus', 'event', 'other'];
+
+const text = { type: 'string', nullable: true } as const;
+const dateTime = { type: 'string', dateTime: true, nullable: true } as const;
+const amount = { type: 'number', nullable: true } as const;
+const currencyCode = { type: 'string', pattern: '^[A-Z]{3}$', nullable: true } as const; // ISO 4217
+
+export interface ExtractedTicket {
+  passenger_name: string | null;
+  ticket_type: Ticket['type'];
+  carrier: string | null;
+  flight_number: string | null;
+  departure_location: string | null;
+  arrival_location: string | null;
+  departure_time: string | null;
+  arrival_time: string | null;
+  seat_number: string | null;
+  gate: string | null;
+  booking_reference: string | null;
+  terminal: string | null;
+  event_name: string | null;
+  venue: string | null;
+}
+
+export const ticketSchema = {
+  type: 'object',
+  properties: {
+    passenger_name: text,
+    ticket_type: { type: 'string', enum: TICKET_TYPES },
+    carrier: text,
+    flight_number: text,
+    departure_location: text,
+    arrival_location: text,
+    departure_time: dateTime,
+    arrival_time: dateTime,
+    seat_number: text,
+    gate: text,
+    booking_reference: text,
+    terminal: text,
+    event_name: text,
+    venue: text,
+  },
+} satisfies Schema;
+
+export interface ParsedBookingItem {
+  title: string;
+  type: ScheduleItem['type'];
+  description: string | null;
+  location: string | null;
+  location_url: string | null;
+  start_time: string;
+  end_time: string | null;
+  estimated_cost: number | null;
+  currency: string | null;
+  reservation_code: string | null;
+  contact_info: string | null;
+}
+
+export const bookingSchema = {
+  type: 'object',
+  properties: {
+    items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          type: { type: 'string', enum: SCHEDULE_ITEM_TYPES },
+          description: text,
+          location: text,
+          location_url: text,
+          start_time: { type: 'string', dateTime: true },
+          end_time: dateTime,
+          estimated_cost: amount,
+          currency: currencyCode,
+          reservation_code: text,
+          contact_info: text,
+        },
+      },
+    },
+  },
+} satisfies Schema;
+
+export interface SuggestedActivity {
+  title: string;
+  description: string;
+  type: ScheduleItem['type'];
+  duration_hours: number;
+  estimated_cost: number;
+  best_time: 'morning' | 'afternoon' | 'evening' | 'night';
+  address: string | null;
+  booking_url: string | null;
+  rating: number | null;
+  tips: string | null;
+}
+
+export const activitiesSchema = {
+  type: 'object',
+  properties: {
+    activities: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          description: { type: 'string' },
+          type: { type: 'string', enum: SCHEDULE_ITEM_TYPES },
+          duration_hours: { type: 'number' },
+          estimated_cost: { type: 'number' },
+          best_time: { type: 'string', enum: ['morning', 'afternoon', 'evening', 'night'] },
+          address: text,
+          booking_url: text,
+          rating: amount,
+          tips: text,
+        },
+      },
+    },
+  },
+} satisfies Schema;
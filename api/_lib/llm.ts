@@ -0,0 +1,185 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { MOCK_FIXTURES } from './llmFixtures.js';
+
+// LLM providers for the AI routes. All of them speak the OpenAI chat completions format, so
+// only the URL and the auth header differ - except 'mock', which answers from fixtures without
+// any network, for local development of the upload and import modals.
+//
+// Provider and model are picked per route from the environment:
+//   LLM_PROVIDER_PARSE_BOOKING, falling back to LLM_PROVIDER, then 'openai'
+//   LLM_MODEL_PARSE_BOOKING, falling back to LLM_MODEL, then the route's default below
+
+export type AiRoute = 'extract-ticket' | 'parse-booking' | 'suggest-activities';
+export type LlmProviderId = 'openai' | 'azure' | 'local' | 'mock';
+
+const DEFAULT_MODELS: Record<AiRoute, string> = {
+  'extract-ticket': 'gpt-4o',
+  'parse-booking': 'gpt-4o',
+  'suggest-activities': 'gpt-4o-mini',
+};
+
+export type ChatMessage = {
+  role: 'system' | 'user' | 'assistant';
+  content: string | { type: string; [key: string]: unknown }[];
+};
+
+export interface ChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature?: number;
+  schemaName: string;
+  jsonSchema: Record<string, unknown>;
+}
+
+export interface ChatReply {
+  content: string | null;
+  refusal?: string | null;
+  finishReason?: string;
+}
+
+export type ChatResult =
+  | { status: 'ok'; reply: ChatReply }
+  | { status: 'failed'; error: string };
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  complete(request: ChatRequest): Promise<ChatResult>;
+}
+
+// The message of an OpenAI style error body, if that's what it is
+function errorMessage(body: string): string | null {
+  try {
+    const error = JSON.parse(body).error;
+    return typeof error === 'string' ? error : error?.message || null;
+  } catch {
+    return null;
+  }
+}
+
+// Any server with an OpenAI compatible /chat/completions endpoint
+function chatCompletionsProvider(id: LlmProviderId, url: (model: string) => string, headers: Record<string, string>): LlmProvider {
+  return {
+    id,
+    async complete(request) {
+      let response: Response;
+      try {
+        response = await fetch(url(request.model), {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...headers },
+          body: JSON.stringify({
+            model: request.model,
+            messages: request.messages,
+            max_tokens: request.maxTokens,
+            ...(request.temperature !== undefined && { temperature: request.temperature }),
+            response_format: {
+              type: 'json_schema',
+              json_schema: { name: request.schemaName, strict: true, schema: request.jsonSchema },
+            },
+          }),
+        });
+      } catch (err) {
+        console.error(`[llm] ${id} request failed:`, err);
+        return { status: 'failed', error: `Could not reach the ${id} LLM provider` };
+      }
+
+      // Error bodies are usually { error: { message } }, but gateways and proxies send HTML too
+      if (!response.ok) {
+        const body = await response.text().catch(() => '');
+        console.error(`[llm] ${id} error (HTTP ${response.status}):`, body);
+        return { status: 'failed', error: errorMessage(body) || `The ${id} LLM provider responded with HTTP ${response.status}` };
+      }
+
+      let data;
+      try {
+        data = await response.json();
+      } catch (err) {
+        console.error(`[llm] ${id} sent a response that isn't JSON:`, err);
+        return { status: 'failed', error: `The ${id} LLM provider sent an unreadable response` };
+      }
+
+      if (data.error) {
+        console.error(`[llm] ${id} error:`, data.error);
+        return { status: 'failed', error: data.error.message || String(data.error) };
+      }
+
+      const choice = data.choices?.[0];
+      return {
+        status: 'ok',
+        reply: { content: choice?.message?.content ?? null, refusal: choice?.message?.refusal, finishReason: choice?.finish_reason },
+      };
+    },
+  };
+}
+
+// Answers with the fixture for the schema - from LLM_MOCK_FIXTURES_DIR/<schema>.json when set
+const mockProvider: LlmProvider = {
+  id: 'mock',
+  async complete(request) {
+    const dir = process.env.LLM_MOCK_FIXTURES_DIR;
+    if (dir) {
+      try {
+        const content = await readFile(join(dir, `${request.schemaName}.json`), 'utf8');
+        return { status: 'ok', reply: { content, finishReason: 'stop' } };
+      } catch {
+        return { status: 'failed', error: `No mock fixture ${request.schemaName}.json in ${dir}` };
+      }
+    }
+
+    const fixture = MOCK_FIXTURES[request.schemaName];
+    if (!fixture) {
+      return { status: 'failed', error: `No mock fixture for ${request.schemaName}` };
+    }
+    return { status: 'ok', reply: { content: JSON.stringify(fixture), finishReason: 'stop' } };
+  },
+};
+
+function createProvider(id: string): LlmProvider | { error: string } {
+  const env = process.env;
+
+  switch (id) {
+    case 'openai':
+      if (!env.OPENAI_API_KEY) return { error: 'OpenAI API key not configured' };
+      return chatCompletionsProvider('openai', () => 'https://api.openai.com/v1/chat/completions', {
+        'Authorization': `Bearer ${env.OPENAI_API_KEY}`,
+      });
+    case 'azure': {
+      if (!env.AZURE_OPENAI_ENDPOINT || !env.AZURE_OPENAI_API_KEY) {
+        return { error: 'Azure OpenAI not configured (AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_API_KEY)' };
+      }
+      const endpoint = env.AZURE_OPENAI_ENDPOINT.replace(/\/+$/, '');
+      const apiVersion = env.AZURE_OPENAI_API_VERSION || '2024-10-21';
+      // On Azure the model is the name of a deployment
+      return chatCompletionsProvider(
+        'azure',
+        (model) => `${endpoint}/openai/deployments/${encodeURIComponent(model)}/chat/completions?api-version=${apiVersion}`,
+        { 'api-key': env.AZURE_OPENAI_API_KEY }
+      );
+    }
+    case 'local': {
+      // Ollama by default; llama.cpp's server listens on http://localhost:8080/v1
+      const baseUrl = (env.LLM_LOCAL_BASE_URL || 'http://localhost:11434/v1').replace(/\/+$/, '');
+      return chatCompletionsProvider(
+        'local',
+        () => `${baseUrl}/chat/completions`,
+        env.LLM_LOCAL_API_KEY ? { 'Authorization': `Bearer ${env.LLM_LOCAL_API_KEY}` } : {}
+      );
+    }
+    case 'mock':
+      return mockProvider;
+    default:
+      return { error: `Unknown LLM provider "${id}"` };
+  }
+}
+
+export function getLlmConfig(route: AiRoute): { provider: LlmProvider; model: string } | { error: string } {
+  const key = route.toUpperCase().replace(/-/g, '_');
+  const provider = createProvider(process.env[`LLM_PROVIDER_${key}`] || process.env.LLM_PROVIDER || 'openai');
+  if ('error' in provider) return provider;
+
+  return {
+    provider,
+    model: process.env[`LLM_MODEL_${key}`] || process.env.LLM_MODEL || DEFAULT_MODELS[route],
+  };
+}
@@ -0,0 +1,98 @@
+import type { ExtractedTicket, ParsedBookingItem, SuggestedActivity } from './aiSchemas.js';
+
+// Fixed answers of the mock LLM provider, keyed by schema name
+
+const ticket: ExtractedTicket = {
+  passenger_name: 'Jan de Vries',
+  ticket_type: 'flight',
+  carrier: 'KLM',
+  flight_number: 'KL1641',
+  departure_location: 'Amsterdam (AMS)',
+  arrival_location: 'Barcelona (BCN)',
+  departure_time: '2027-05-14T09:25:00',
+  arrival_time: '2027-05-14T11:40:00',
+  seat_number: '14C',
+  gate: 'D7',
+  booking_reference: 'X7KQ2M',
+  terminal: '2',
+  event_name: null,
+  venue: null,
+};
+
+const bookingItems: { items: ParsedBookingItem[] } = {
+  items: [
+    {
+      title: 'Hotel Casa Camper',
+      type: 'accommodation',
+      description: '3 kamers, 6 volwassenen, ontbijt inbegrepen',
+      location: 'Carrer d\'Elisabets, 11, 08001 Barcelona, Spanje',
+      location_url: 'https://www.google.com/maps/search/?api=1&query=Carrer+d%27Elisabets+11+Barcelona',
+      start_time: '2027-05-14T15:00:00',
+      end_time: '2027-05-17T11:00:00',
+      estimated_cost: 1284.5,
+      currency: 'EUR',
+      reservation_code: 'BKG-482913',
+      contact_info: '+34 933 42 62 80',
+    },
+    {
+      title: 'Dinner at El Nacional',
+      type: 'meal',
+      description: 'Tafel voor 6 personen',
+      location: 'Passeig de Gràcia, 24 Bis, 08007 Barcelona, Spanje',
+      location_url: null,
+      start_time: '2027-05-14T20:30:00',
+      end_time: null,
+      estimated_cost: null,
+      currency: null,
+      reservation_code: 'TF-77120',
+      contact_info: null,
+    },
+  ],
+};
+
+const activities: { activities: SuggestedActivity[] } = {
+  activities: [
+    {
+      title: 'Sagrada Familia Guided Tour',
+      description: 'Skip-the-line tour through Gaudí\'s basilica, including the towers.',
+      type: 'activity',
+      duration_hours: 2,
+      estimated_cost: 47,
+      best_time: 'morning',
+      address: 'Carrer de Mallorca, 401, 08013 Barcelona',
+      booking_url: 'https://sagradafamilia.org/en/tickets',
+      rating: 4.8,
+      tips: 'Book the first slot of the day for the best light on the stained glass.',
+    },
+    {
+      title: 'Tapas at El Xampanyet',
+      description: 'Busy, old-fashioned cava bar with classic tapas in El Born.',
+      type: 'meal',
+      duration_hours: 1.5,
+      estimated_cost: 25,
+      best_time: 'evening',
+      address: 'Carrer de Montcada, 22, 08003 Barcelona',
+      booking_url: null,
+      rating: 4.5,
+      tips: 'No reservations - arrive before 19:00 with a group.',
+    },
+    {
+      title: 'Bunkers del Carmel',
+      description: 'Old anti-aircraft battery with a 360° view over the city.',
+      type: 'free_time',
+      duration_hours: 1.5,
+      estimated_cost: 0,
+      best_time: 'evening',
+      address: 'Carrer de Marià Lavèrnia, 08032 Barcelona',
+      booking_url: null,
+      rating: 4.7,
+      tips: null,
+    },
+  ],
+};
+
+export const MOCK_FIXTURES: Record<string, unknown> = {
+  ticket,
+  booking_items: bookingItems,
+  activities,
+};
@@ -0,0 +1,72 @@
+import type Stripe from 'stripe';
+import { supabaseAdmin } from './supabase.js';
+
+export type PaymentClaim =
+  | { status: 'claimed' }
+  | { status: 'provisioned'; tripId: string }
+  | { status: 'rejected'; reason: string };
+
+// The user a checkout session was paid for. create-checkout sets metadata.userId,
+// Payment Links only have client_reference_id. If both are set they have to agree.
+export function getSessionUserId(session: Stripe.Checkout.Session): string | null {
+  const metadataUserId = session.metadata?.userId || null;
+  const referenceUserId = session.client_reference_id || null;
+  if (metadataUserId && referenceUserId && metadataUserId !== referenceUserId) {
+    return null;
+  }
+  return metadataUserId || referenceUserId;
+}
+
+// Claim a paid session in the payments ledger before creating a trip for it.
+// The session id is the primary key, so only one claim per session can ever succeed;
+// a second claim for the same user resumes or returns the earlier trip, anything else is refused.
+export async function claimPayment(session: Stripe.Checkout.Session, userId: string): Promise<PaymentClaim> {
+  if (session.mode !== 'payment' || session.payment_status !== 'paid') {
+    return { status: 'rejected', reason: `Session ${session.id} is not a completed payment` };
+  }
+
+  const { error } = await supabaseAdmin.from('payments').insert({
+    stripe_session_id: session.id,
+    user_id: userId,
+    amount_total: session.amount_total,
+    currency: session.currency,
+  });
+
+  if (!error) {
+    return { status: 'claimed' };
+  }
+  if (error.code !== '23505') {
+    throw new Error(`Failed to claim payment: ${error.message}`);
+  }
+
+  const { data: payment, error: lookupError } = await supabaseAdmin
+    .from('payments')
+    .select('user_id, trip_id')
+    .eq('stripe_session_id', session.id)
+    .single();
+
+  if (lookupError || !payment) {
+    throw new Error(`Failed to look up payment: ${lookupError?.message || 'not found'}`);
+  }
+  if (payment.user_id !== userId) {
+    return { status: 'rejected', reason: `Session ${session.id} belongs to another user` };
+  }
+  if (payment.trip_id) {
+    return { status: 'provisioned', tripId: payment.trip_id };
+  }
+
+  // Claimed earlier but the trip wasn't created (e.g. a failed delivery) - let this attempt finish it
+  return { status: 'claimed' };
+}
+
+// Mark a claimed payment as consumed by the trip it paid for
+export async function consumePayment(sessionId: string, tripId: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('payments')
+    .update({ trip_id: tripId, consumed_at: new Date().toISOString() })
+    .eq('stripe_session_id', sessionId);
+
+  if (error) {
+    throw new Error(`Failed to record payment: ${error.message}`);
+  }
+}
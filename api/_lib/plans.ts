@@ -0,0 +1,78 @@
+import type { PlanCurrency, PlanId, PlanTier, PricingPlan } from '../../src/types/index.js';
+
+interface PlanTierConfig {
+  max_members: number;
+  prices: Record<PlanCurrency, number>; // In cents
+}
+
+interface PlanConfig extends Omit<PricingPlan, 'tiers'> {
+  tiers: PlanTierConfig[]; // Ascending by max_members
+}
+
+// Single source of truth for what a trip costs - create-checkout charges from this,
+// /api/plans shows it to the payment step
+const PLANS: PlanConfig[] = [
+  {
+    id: 'small_group',
+    name: 'Small Group',
+    description: 'A weekend away with friends or family',
+    features: ['AI-powered ticket scanning', 'Timed destination reveal', 'Real-time location sharing'],
+    tiers: [
+      { max_members: 4, prices: { eur: 1499, usd: 1599, gbp: 1299 } },
+      { max_members: 8, prices: { eur: 2499, usd: 2699, gbp: 2199 } },
+    ],
+  },
+  {
+    id: 'large_group',
+    name: 'Large Group',
+    description: 'Clubs, teams and company outings',
+    features: ['Everything in Small Group', 'Aftermovie generation', 'Bigger groups'],
+    tiers: [
+      { max_members: 15, prices: { eur: 3999, usd: 4299, gbp: 3499 } },
+      { max_members: 30, prices: { eur: 5999, usd: 6499, gbp: 5199 } },
+      { max_members: 50, prices: { eur: 7999, usd: 8599, gbp: 6999 } },
+    ],
+  },
+  {
+    id: 'festival_pack',
+    name: 'Festival Pack',
+    description: 'Festivals and events with tickets for everyone',
+    features: ['Event tickets per member', 'Aftermovie generation', 'Real-time location sharing'],
+    tiers: [
+      { max_members: 10, prices: { eur: 3499, usd: 3799, gbp: 2999 } },
+      { max_members: 25, prices: { eur: 5499, usd: 5899, gbp: 4799 } },
+    ],
+  },
+];
+
+// Locales whose region pays in something other than euros
+const REGION_CURRENCIES: Record<string, PlanCurrency> = {
+  US: 'usd',
+  GB: 'gbp',
+};
+
+// Pick the checkout currency from a browser locale like "nl-NL" or "en-GB"
+export function currencyForLocale(locale?: string): PlanCurrency {
+  const region = locale?.split(/[-_]/)[1]?.toUpperCase();
+  return (region && REGION_CURRENCIES[region]) || 'eur';
+}
+
+export function getPlans(currency: PlanCurrency): PricingPlan[] {
+  return PLANS.map(({ tiers, ...plan }) => ({
+    ...plan,
+    tiers: tiers.map((tier): PlanTier => ({ max_members: tier.max_members, amount: tier.prices[currency] })),
+  }));
+}
+
+// Smallest tier of a plan that fits the group, or null when the plan or group size is invalid
+export function getPlanPrice(
+  planId: PlanId,
+  groupSize: number,
+  currency: PlanCurrency
+): { plan: PricingPlan; tier: PlanTier } | null {
+  const plan = getPlans(currency).find((p) => p.id === planId);
+  if (!plan || !Number.isInteger(groupSize) || groupSize < 1) return null;
+
+  const tier = plan.tiers.find((t) => groupSize <= t.max_members);
+  return tier ? { plan, tier } : null;
+}
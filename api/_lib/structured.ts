@@ -0,0 +1,137 @@
+import { getLlmConfig, type AiRoute, type ChatMessage, type ChatReply } from './llm.js';
+
+// Chat completions in structured output mode. The schema is sent along as a strict JSON schema
+// and the reply is checked against it again, since a reply can still be cut off or refused - and
+// not every provider enforces the schema. An invalid reply is retried once with the problems
+// spelled out, then reported as 'invalid'.
+
+export type Schema =
+  | { type: 'string'; enum?: readonly string[]; pattern?: string; dateTime?: boolean; nullable?: boolean }
+  | { type: 'number'; nullable?: boolean }
+  | { type: 'array'; items: Schema }
+  | { type: 'object'; properties: Record<string, Schema> };
+
+export type StructuredResult<T> =
+  | { status: 'ok'; data: T }
+  | { status: 'invalid'; errors: string[] } // The model kept answering outside the schema
+  | { status: 'failed'; error: string }; // The provider returned an error or isn't configured
+
+const MAX_REPORTED_ERRORS = 10;
+
+// Strict mode wants every property required and no others; optional values are nullable instead
+export function toJsonSchema(schema: Schema): Record<string, unknown> {
+  switch (schema.type) {
+    case 'string':
+      return {
+        type: schema.nullable ? ['string', 'null'] : 'string',
+        ...(schema.enum && { enum: schema.nullable ? [...schema.enum, null] : schema.enum }),
+        ...(schema.pattern && { pattern: schema.pattern }),
+      };
+    case 'number':
+      return { type: schema.nullable ? ['number', 'null'] : 'number' };
+    case 'array':
+      return { type: 'array', items: toJsonSchema(schema.items) };
+    case 'object':
+      return {
+        type: 'object',
+        properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])),
+        required: Object.keys(schema.properties),
+        additionalProperties: false,
+      };
+  }
+}
+
+// Problems with `value`, as "$.items[0].start_time: ..." lines - empty when it matches
+export function validate(schema: Schema, value: unknown, path = '$'): string[] {
+  if (value === null || value === undefined) {
+    return 'nullable' in schema && schema.nullable ? [] : [`${path}: is missing`];
+  }
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return [`${path}: expected a string`];
+      if (schema.enum && !schema.enum.includes(value)) return [`${path}: expected one of ${schema.enum.join(', ')}`];
+      if (schema.pattern && !new RegExp(schema.pattern).test(value)) return [`${path}: expected a value matching ${schema.pattern}`];
+      if (schema.dateTime && isNaN(Date.parse(value))) return [`${path}: expected an ISO 8601 date and time`];
+      return [];
+    case 'number':
+      return typeof value === 'number' && isFinite(value) ? [] : [`${path}: expected a number`];
+    case 'array':
+      if (!Array.isArray(value)) return [`${path}: expected an array`];
+      return value.flatMap((item, index) => validate(schema.items, item, `${path}[${index}]`));
+    case 'object':
+      if (typeof value !== 'object' || Array.isArray(value)) return [`${path}: expected an object`];
+      return Object.entries(schema.properties).flatMap(([key, propertySchema]) =>
+        validate(propertySchema, (value as Record<string, unknown>)[key], `${path}.${key}`)
+      );
+  }
+}
+
+// Parses and validates one reply, turning refusals and cut-off output into errors
+function checkReply(reply: ChatReply, schema: Schema): { data?: unknown; errors: string[] } {
+  if (reply.refusal) return { errors: [`Refused: ${reply.refusal}`] };
+  if (reply.finishReason === 'length') return { errors: ['The response was cut off'] };
+  if (!reply.content) return { errors: ['The response was empty'] };
+
+  let data: unknown;
+  try {
+    data = JSON.parse(reply.content);
+  } catch {
+    return { errors: ['The response is not valid JSON'] };
+  }
+  return { data, errors: validate(schema, data) };
+}
+
+export async function createStructuredCompletion<T>({
+  route,
+  messages,
+  schemaName,
+  schema,
+  maxTokens,
+  temperature,
+}: {
+  route: AiRoute;
+  messages: ChatMessage[];
+  schemaName: string;
+  schema: Schema & { type: 'object' }; // Structured output needs an object at the top
+  maxTokens: number;
+  temperature?: number;
+}): Promise<StructuredResult<T>> {
+  const config = getLlmConfig(route);
+  if ('error' in config) {
+    return { status: 'failed', error: config.error };
+  }
+
+  const { provider, model } = config;
+  const jsonSchema = toJsonSchema(schema);
+  const conversation = [...messages];
+  let errors: string[] = [];
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const result = await provider.complete({ model, messages: conversation, maxTokens, temperature, schemaName, jsonSchema });
+    if (result.status === 'failed') {
+      return result;
+    }
+
+    const reply = checkReply(result.reply, schema);
+    if (reply.errors.length === 0) {
+      return { status: 'ok', data: reply.data as T };
+    }
+
+    errors = reply.errors.slice(0, MAX_REPORTED_ERRORS);
+    console.warn(`[structured] Invalid ${schemaName} response from ${provider.id}/${model} (attempt ${attempt + 1}):`, errors);
+    conversation.push(
+      { role: 'assistant', content: result.reply.content || '' },
+      { role: 'user', content: `That response was invalid:\n${errors.join('\n')}\nAnswer again, following the schema exactly.` }
+    );
+  }
+
+  return { status: 'invalid', errors };
+}
+
+// Response body for a result that isn't 'ok': 422 when the model's output was unusable
+export function structuredErrorResponse(result: Exclude<StructuredResult<unknown>, { status: 'ok' }>) {
+  return result.status === 'invalid'
+    ? { status: 422, body: { error: 'The AI response could not be read. Please try again.', code: 'invalid_ai_response', details: result.errors } }
+    : { status: 500, body: { error: result.error } };
+}
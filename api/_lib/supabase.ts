@@ -0,0 +1,47 @@
+import type { VercelRequest } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL || '';
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+// Service role client - bypasses RLS, so every route using it must do its own access checks
+export const supabaseAdmin = createClient(supabaseUrl, serviceRoleKey, {
+  auth: {
+    persistSession: false,
+    autoRefreshToken: false,
+  },
+});
+
+// Resolve the calling user from the "Authorization: Bearer <access token>" header
+export async function getUserFromRequest(req: VercelRequest) {
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+  if (!token) return null;
+
+  const { data, error } = await supabaseAdmin.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user;
+}
+
+// Storage URLs are saved as public URLs; turn one back into an object path in its bucket
+export function storagePathFromUrl(url: string, bucket: string): string {
+  const marker = `/${bucket}/`;
+  if (!url.startsWith('http')) return url;
+
+  const { pathname } = new URL(url);
+  const index = pathname.indexOf(marker);
+  return index >= 0 ? decodeURIComponent(pathname.slice(index + marker.length)) : url;
+}
+
+// Issue a short-lived signed URL for a private storage object
+export async function createSignedUrl(bucket: string, url: string, expiresIn = 300): Promise<string | undefined> {
+  const { data, error } = await supabaseAdmin.storage
+    .from(bucket)
+    .createSignedUrl(storagePathFromUrl(url, bucket), expiresIn);
+
+  if (error) {
+    console.error('[storage] Failed to sign URL:', error.message);
+    return undefined;
+  }
+  return data.signedUrl;
+}
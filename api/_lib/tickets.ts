@@ -0,0 +1,30 @@
+import type { Ticket, TicketRevealStatus } from '../../src/types/index.js';
+
+// Fields a member may see at each reveal stage, shared by /api/ticket-reveal and /api/calendar
+export const hiddenFields = ['id', 'trip_id', 'member_id', 'type', 'label', 'created_at'] as const;
+export const qrOnlyFields = [
+  ...hiddenFields,
+  'carrier',
+  'departure_location',
+  'departure_time',
+  'booking_reference',
+  'qr_code_url',
+] as const;
+
+function pickFields(ticket: Ticket, fields: readonly (keyof Ticket)[]): Ticket {
+  const picked: Partial<Ticket> = {};
+  for (const field of fields) {
+    if (ticket[field] !== null && ticket[field] !== undefined) {
+      (picked as Record<string, unknown>)[field] = ticket[field];
+    }
+  }
+  return picked as Ticket;
+}
+
+// The ticket with only the fields its reveal stage allows. File paths are left as they are,
+// callers that hand them out sign them first.
+export function visibleTicketFields(ticket: Ticket, status: TicketRevealStatus): Ticket {
+  if (status === 'hidden') return pickFields(ticket, hiddenFields);
+  if (status === 'qr_only') return pickFields(ticket, qrOnlyFields);
+  return { ...ticket };
+}
@@ -0,0 +1,165 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type Stripe from 'stripe';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { FakeSupabase } from '../../src/test/fakeSupabase';
+
+const { stripe, getUserFromRequest } = vi.hoisted(() => ({
+  stripe: {
+    webhooks: { constructEvent: vi.fn() },
+    checkout: { sessions: { retrieve: vi.fn() } },
+  },
+  getUserFromRequest: vi.fn(),
+}));
+
+vi.mock('stripe', () => ({
+  default: class {
+    webhooks = stripe.webhooks;
+    checkout = stripe.checkout;
+  },
+}));
+
+vi.mock('../_lib/supabase.js', async () => {
+  const { FakeSupabase } = await import('../../src/test/fakeSupabase');
+  return {
+    supabaseAdmin: new FakeSupabase({
+      unique: { payments: [['stripe_session_id']], trips: [['stripe_session_id'], ['lobby_code']] },
+    }),
+    getUserFromRequest,
+  };
+});
+
+import { supabaseAdmin } from '../_lib/supabase.js';
+import { claimPayment, consumePayment } from '../_lib/payments.js';
+import webhookHandler from '../stripe-webhook.js';
+import verifyHandler from '../verify-payment.js';
+
+const db = supabaseAdmin as unknown as FakeSupabase;
+
+function paidSession(overrides: Partial<Stripe.Checkout.Session> = {}): Stripe.Checkout.Session {
+  return {
+    id: 'cs_paid',
+    mode: 'payment',
+    payment_status: 'paid',
+    amount_total: 4900,
+    currency: 'eur',
+    client_reference_id: null,
+    metadata: { userId: 'user-1', tripName: 'Surprise', departureTime: '2026-12-01T08:00:00Z' },
+    ...overrides,
+  } as Stripe.Checkout.Session;
+}
+
+function mockResponse() {
+  const res = { statusCode: 0, body: undefined as unknown };
+  Object.assign(res, {
+    status: (code: number) => Object.assign(res, { statusCode: code }),
+    json: (body: unknown) => Object.assign(res, { body }),
+  });
+  return res as typeof res & VercelResponse;
+}
+
+// A signed webhook request; the body is never read because constructEvent is mocked
+function webhookRequest() {
+  return Object.assign([Buffer.from('{}')], {
+    method: 'POST',
+    headers: { 'stripe-signature': 'sig' },
+  }) as unknown as VercelRequest;
+}
+
+async function deliver(session: Stripe.Checkout.Session) {
+  stripe.webhooks.constructEvent.mockReturnValue({
+    id: `evt_${session.id}`,
+    type: 'checkout.session.completed',
+    data: { object: session },
+  });
+  const res = mockResponse();
+  await webhookHandler(webhookRequest(), res);
+  return res;
+}
+
+async function verify(sessionId: string, userId: string) {
+  getUserFromRequest.mockResolvedValue({ id: userId });
+  const res = mockResponse();
+  await verifyHandler({ method: 'POST', body: { sessionId }, headers: {} } as VercelRequest, res);
+  return res;
+}
+
+beforeEach(() => {
+  db.reset();
+  vi.clearAllMocks();
+});
+
+describe('claimPayment', () => {
+  it('claims a paid session once', async () => {
+    expect(await claimPayment(paidSession(), 'user-1')).toEqual({ status: 'claimed' });
+    expect(db.rows('payments')).toHaveLength(1);
+  });
+
+  it('returns the trip of a session that was already consumed', async () => {
+    await claimPayment(paidSession(), 'user-1');
+    await consumePayment('cs_paid', 'trip-1');
+
+    expect(await claimPayment(paidSession(), 'user-1')).toEqual({ status: 'provisioned', tripId: 'trip-1' });
+  });
+
+  it('refuses a session claimed by another user', async () => {
+    await claimPayment(paidSession(), 'user-1');
+
+    expect(await claimPayment(paidSession(), 'user-2')).toMatchObject({ status: 'rejected' });
+  });
+
+  it('refuses an unpaid session', async () => {
+    const claim = await claimPayment(paidSession({ payment_status: 'unpaid' }), 'user-1');
+
+    expect(claim).toMatchObject({ status: 'rejected' });
+    expect(db.rows('payments')).toHaveLength(0);
+  });
+});
+
+describe('stripe-webhook', () => {
+  it('creates one trip for a redelivered event', async () => {
+    expect((await deliver(paidSession())).statusCode).toBe(200);
+    expect((await deliver(paidSession())).statusCode).toBe(200);
+
+    const trips = db.rows('trips');
+    expect(trips).toHaveLength(1);
+    expect(db.rows('trip_members')).toEqual([expect.objectContaining({ trip_id: trips[0].id, role: 'admin' })]);
+    expect(db.rows('payments')[0]).toMatchObject({ trip_id: trips[0].id });
+  });
+
+  it('creates no trip for an unpaid session', async () => {
+    await deliver(paidSession({ payment_status: 'unpaid' }));
+
+    expect(db.rows('trips')).toHaveLength(0);
+  });
+
+  it('creates no trip for a session whose user ids disagree', async () => {
+    await deliver(paidSession({ client_reference_id: 'user-2' }));
+
+    expect(db.rows('trips')).toHaveLength(0);
+    expect(db.rows('payments')).toHaveLength(0);
+  });
+});
+
+describe('verify-payment', () => {
+  it('reports the same trip on every check', async () => {
+    stripe.checkout.sessions.retrieve.mockResolvedValue(paidSession());
+    await deliver(paidSession());
+    const tripId = db.rows('trips')[0].id;
+
+    expect((await verify('cs_paid', 'user-1')).body).toEqual({ success: true, tripId });
+    expect((await verify('cs_paid', 'user-1')).body).toEqual({ success: true, tripId });
+    expect(db.rows('trips')).toHaveLength(1);
+  });
+
+  it("doesn't confirm another user's session", async () => {
+    stripe.checkout.sessions.retrieve.mockResolvedValue(paidSession());
+
+    expect((await verify('cs_paid', 'user-2')).statusCode).toBe(404);
+  });
+
+  it("doesn't confirm an unpaid session", async () => {
+    stripe.checkout.sessions.retrieve.mockResolvedValue(paidSession({ payment_status: 'unpaid' }));
+
+    expect((await verify('cs_paid', 'user-1')).statusCode).toBe(400);
+  });
+});
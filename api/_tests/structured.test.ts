@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createStructuredCompletion, structuredErrorResponse, toJsonSchema, validate } from '../_lib/structured.js';
+import { activitiesSchema, bookingSchema, ticketSchema } from '../_lib/aiSchemas.js';
+import { MOCK_FIXTURES } from '../_lib/llmFixtures.js';
+import suggestActivities from '../suggest-activities.js';
+
+const validActivities = MOCK_FIXTURES.activities as { activities: Record<string, unknown>[] };
+const invalidActivities = { activities: [{ ...validActivities.activities[0], best_time: 'noon', duration_hours: '2' }] };
+
+const fetchMock = vi.fn<typeof fetch>();
+
+// What an OpenAI compatible server answers with `content` as the model's reply
+function completion(content: unknown) {
+  return new Response(JSON.stringify({ choices: [{ message: { content: JSON.stringify(content) }, finish_reason: 'stop' }] }));
+}
+
+function requestBody(call: number) {
+  return JSON.parse(fetchMock.mock.calls[call][1]?.body as string) as { messages: { role: string; content: string }[] };
+}
+
+function suggest() {
+  return createStructuredCompletion({
+    route: 'suggest-activities',
+    schemaName: 'activities',
+    schema: activitiesSchema,
+    messages: [{ role: 'user', content: 'Barcelona' }],
+    maxTokens: 100,
+  });
+}
+
+function mockResponse() {
+  const res = { statusCode: 0, body: undefined as unknown };
+  Object.assign(res, {
+    status: (code: number) => Object.assign(res, { statusCode: code }),
+    json: (body: unknown) => Object.assign(res, { body }),
+  });
+  return res as typeof res & VercelResponse;
+}
+
+beforeEach(() => {
+  fetchMock.mockReset();
+  vi.stubGlobal('fetch', fetchMock);
+  vi.stubEnv('LLM_PROVIDER', 'local');
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('validate', () => {
+  it('accepts the mock fixtures', () => {
+    expect(validate(ticketSchema, MOCK_FIXTURES.ticket)).toEqual([]);
+    expect(validate(bookingSchema, MOCK_FIXTURES.booking_items)).toEqual([]);
+    expect(validate(activitiesSchema, MOCK_FIXTURES.activities)).toEqual([]);
+  });
+
+  it('reports every problem with its path', () => {
+    expect(validate(activitiesSchema, invalidActivities)).toEqual([
+      '$.activities[0].duration_hours: expected a number',
+      '$.activities[0].best_time: expected one of morning, afternoon, evening, night',
+    ]);
+  });
+
+  it('allows null only where the schema is nullable', () => {
+    const [item] = (MOCK_FIXTURES.booking_items as { items: Record<string, unknown>[] }).items;
+
+    expect(validate(bookingSchema, { items: [{ ...item, end_time: null }] })).toEqual([]);
+    expect(validate(bookingSchema, { items: [{ ...item, start_time: null }] })).toEqual(['$.items[0].start_time: is missing']);
+    expect(validate(bookingSchema, { items: [{ ...item, start_time: 'tomorrow' }] })).toEqual([
+      '$.items[0].start_time: expected an ISO 8601 date and time',
+    ]);
+  });
+
+  it('only accepts ISO 4217 currency codes', () => {
+    const [item] = (MOCK_FIXTURES.booking_items as { items: Record<string, unknown>[] }).items;
+
+    expect(validate(bookingSchema, { items: [{ ...item, currency: 'GBP' }] })).toEqual([]);
+    for (const currency of ['€', 'eur', 'EURO', 'US$']) {
+      expect(validate(bookingSchema, { items: [{ ...item, currency }] })).toEqual([
+        '$.items[0].currency: expected a value matching ^[A-Z]{3}$',
+      ]);
+    }
+  });
+});
+
+describe('toJsonSchema', () => {
+  it('sends the currency pattern along to the provider', () => {
+    const items = toJsonSchema(bookingSchema) as { properties: { items: { items: { properties: Record<string, unknown> } } } };
+
+    expect(items.properties.items.items.properties.currency).toEqual({ type: ['string', 'null'], pattern: '^[A-Z]{3}$' });
+  });
+});
+
+describe('createStructuredCompletion', () => {
+  it('retries an invalid reply once, with the problems spelled out', async () => {
+    fetchMock.mockResolvedValueOnce(completion(invalidActivities)).mockResolvedValueOnce(completion(validActivities));
+
+    expect(await suggest()).toEqual({ status: 'ok', data: validActivities });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    const retry = requestBody(1).messages;
+    expect(retry.at(-2)).toEqual({ role: 'assistant', content: JSON.stringify(invalidActivities) });
+    expect(retry.at(-1)?.content).toContain('$.activities[0].best_time: expected one of');
+  });
+
+  it('reports the reply as invalid when the retry is invalid too', async () => {
+    fetchMock.mockImplementation(async () => completion(invalidActivities));
+
+    const result = await suggest();
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(result).toEqual({ status: 'invalid', errors: validate(activitiesSchema, invalidActivities) });
+  });
+
+  it('treats a reply that is not JSON as invalid', async () => {
+    fetchMock.mockImplementation(async () =>
+      new Response(JSON.stringify({ choices: [{ message: { content: 'Sure! Here are some' }, finish_reason: 'stop' }] }))
+    );
+
+    expect(await suggest()).toEqual({ status: 'invalid', errors: ['The response is not valid JSON'] });
+  });
+
+  it('does not retry when the provider fails', async () => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({ error: { message: 'Rate limited' } })));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await suggest()).toEqual({ status: 'failed', error: 'Rate limited' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports HTTP errors as failed, whatever their body', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({ error: { message: 'Invalid API key' } }), { status: 401 }));
+    expect(await suggest()).toEqual({ status: 'failed', error: 'Invalid API key' });
+
+    fetchMock.mockResolvedValueOnce(new Response('<html>502 Bad Gateway</html>', { status: 502 }));
+    expect(await suggest()).toEqual({ status: 'failed', error: 'The local LLM provider responded with HTTP 502' });
+
+    fetchMock.mockRejectedValueOnce(new TypeError('fetch failed'));
+    expect(await suggest()).toEqual({ status: 'failed', error: 'Could not reach the local LLM provider' });
+  });
+});
+
+describe('structuredErrorResponse', () => {
+  it('maps invalid output to 422 and provider failures to 500', () => {
+    expect(structuredErrorResponse({ status: 'invalid', errors: ['$.x: is missing'] })).toMatchObject({
+      status: 422,
+      body: { code: 'invalid_ai_response', details: ['$.x: is missing'] },
+    });
+    expect(structuredErrorResponse({ status: 'failed', error: 'Rate limited' })).toEqual({
+      status: 500,
+      body: { error: 'Rate limited' },
+    });
+  });
+
+  it('is what an AI route answers when the output stays invalid', async () => {
+    fetchMock.mockImplementation(async () => completion(invalidActivities));
+    const res = mockResponse();
+
+    await suggestActivities({ method: 'POST', body: { location: 'Barcelona' } } as VercelRequest, res);
+
+    expect(res.statusCode).toBe(422);
+    expect(res.body).toMatchObject({ code: 'invalid_ai_response' });
+  });
+});
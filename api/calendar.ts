@@ -0,0 +1,160 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { supabaseAdmin } from './_lib/supabase.js';
+import { visibleTicketFields } from './_lib/tickets.js';
+import { resolveRevealPolicy, isStageRevealed, getTicketRevealStatus } from '../src/lib/reveal.js';
+import { buildCalendar, type CalendarEvent } from '../src/lib/ical.js';
+import { expandRecurringItems } from '../src/lib/recurrence.js';
+import { isInAudience } from '../src/lib/audience.js';
+import type { RevealPolicy, ScheduleItem, Ticket, Trip, TripSubgroup } from '../src/types/index.js';
+
+// Served as /api/trips/:id/calendar.ics?token=... (see the rewrite in vercel.json).
+// Calendar apps can't send auth headers, so the per-member token in calendar_tokens
+// is the only credential - it identifies the member and with that what they may see.
+
+function scheduleEvent(item: ScheduleItem, revealed: boolean): CalendarEvent {
+  const uid = `schedule-${item.id}@grouptrips`;
+  if (!revealed) {
+    return { uid, start: item.start_time, end: item.end_time, summary: 'Surprise activity' };
+  }
+
+  const details = [
+    item.description,
+    item.reservation_code && `Reservation code: ${item.reservation_code}`,
+    item.contact_info && `Contact: ${item.contact_info}`,
+    item.booking_url && `Booking: ${item.booking_url}`,
+    item.location_url && `Map: ${item.location_url}`,
+  ].filter(Boolean);
+
+  return {
+    uid,
+    start: item.start_time,
+    end: item.end_time,
+    summary: item.title,
+    location: item.location,
+    description: details.join('\n') || undefined,
+    url: item.booking_url,
+  };
+}
+
+// Tickets follow the same stages as /api/ticket-reveal, built only from the fields the stage
+// reveals: nothing while hidden, departure details once the QR code is out, everything when the
+// full ticket is revealed.
+function ticketEvent(ticket: Ticket, trip: Trip, policy: RevealPolicy): CalendarEvent | null {
+  const anchor = ticket.departure_time || trip.departure_time;
+  const status = getTicketRevealStatus(anchor, policy);
+  const visible = visibleTicketFields(ticket, status);
+  if (status === 'hidden' || !visible.departure_time) return null;
+
+  const name = visible.event_name || [visible.carrier, visible.flight_number].filter(Boolean).join(' ');
+  const summary = [visible.label || 'Ticket', name].filter(Boolean).join(': ');
+  const details = [
+    visible.booking_reference && `Booking reference: ${visible.booking_reference}`,
+    visible.arrival_location && `To: ${visible.arrival_location}`,
+    visible.seat_number && `Seat: ${visible.seat_number}`,
+    visible.gate && `Gate: ${visible.gate}`,
+  ];
+
+  return {
+    uid: `ticket-${visible.id}@grouptrips`,
+    start: visible.departure_time,
+    end: visible.arrival_time,
+    summary,
+    location: visible.venue || visible.departure_location,
+    description: details.filter(Boolean).join('\n') || undefined,
+  };
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const tripId = typeof req.query.tripId === 'string' ? req.query.tripId : '';
+  const token = typeof req.query.token === 'string' ? req.query.token : '';
+
+  if (!tripId || !token) {
+    return res.status(400).json({ error: 'Trip ID and token are required' });
+  }
+
+  try {
+    const { data: access } = await supabaseAdmin
+      .from('calendar_tokens')
+      .select('user_id')
+      .eq('token', token)
+      .eq('trip_id', tripId)
+      .maybeSingle();
+
+    if (!access) {
+      return res.status(404).json({ error: 'Calendar not found' });
+    }
+
+    const { data: trip, error: tripError } = await supabaseAdmin
+      .from('trips')
+      .select('*')
+      .eq('id', tripId)
+      .single();
+
+    if (tripError || !trip) {
+      return res.status(404).json({ error: 'Calendar not found' });
+    }
+
+    // Members who left or were removed lose the feed along with the trip
+    const isAdmin = trip.admin_id === access.user_id;
+    if (!isAdmin) {
+      const { data: membership } = await supabaseAdmin
+        .from('trip_members')
+        .select('id')
+        .eq('trip_id', tripId)
+        .eq('user_id', access.user_id)
+        .maybeSingle();
+
+      if (!membership) {
+        return res.status(404).json({ error: 'Calendar not found' });
+      }
+    }
+
+    const [
+      { data: schedule, error: scheduleError },
+      { data: tickets, error: ticketError },
+      { data: subgroups, error: subgroupError },
+    ] = await Promise.all([
+      supabaseAdmin.from('schedule_items').select('*').eq('trip_id', tripId).order('start_time'),
+      supabaseAdmin.from('tickets').select('*').eq('trip_id', tripId).eq('member_id', access.user_id),
+      supabaseAdmin.from('trip_subgroups').select('*').eq('trip_id', tripId),
+    ]);
+
+    if (scheduleError || ticketError) {
+      console.error('[calendar] Lookup error:', scheduleError || ticketError);
+      return res.status(500).json({ error: 'Failed to load schedule' });
+    }
+    if (subgroupError) {
+      // Without sub-groups, items aimed at one stay hidden - the feed fails closed
+      console.warn('[calendar] Sub-groups lookup error:', subgroupError);
+    }
+
+    // The service role skips the schedule RLS policy, so items for other sub-groups are left out here
+    const visibleSchedule = ((schedule || []) as ScheduleItem[]).filter((item) =>
+      isAdmin || isInAudience(item, access.user_id, (subgroups || []) as TripSubgroup[])
+    );
+
+    // Recurring items become one event per occurrence. Days are stepped in server time (UTC),
+    // so an occurrence after a DST change can be an hour off the local time of the series.
+    const policy = resolveRevealPolicy(trip);
+    const events: CalendarEvent[] = [
+      ...expandRecurringItems(visibleSchedule, trip.return_time).map((item) =>
+        scheduleEvent(item, isAdmin || isStageRevealed(policy, 'schedule_item', item.start_time))
+      ),
+      ...((tickets || []) as Ticket[])
+        .map((ticket) => ticketEvent(ticket, trip as Trip, policy))
+        .filter((event): event is CalendarEvent => event !== null),
+    ];
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="calendar.ics"');
+    res.setHeader('Cache-Control', 'private, no-cache');
+    return res.status(200).send(buildCalendar(trip.name, events));
+  } catch (error) {
+    console.error('Error building calendar:', error);
+    return res.status(500).json({ error: 'Failed to build calendar' });
+  }
+}
@@ -1,5 +1,6 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import Stripe from 'stripe';
+import { currencyForLocale, getPlanPrice } from './_lib/plans.js';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '');
 
@@ -9,29 +10,65 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   try {
-    const { tripName, userId, successUrl, cancelUrl, groupName, description, departureTime, returnTime } = req.body;
+    const {
+      tripName,
+      userId,
+      successUrl,
+      cancelUrl,
+      groupName,
+      description,
+      departureTime,
+      returnTime,
+      planId,
+      groupSize,
+      locale,
+      promoCode,
+    } = req.body;
 
     if (!tripName || !userId) {
       return res.status(400).json({ error: 'Trip name and user ID are required' });
     }
 
+    // Price always comes from the server-side plan config, never from the client
+    const currency = currencyForLocale(locale);
+    const price = getPlanPrice(planId, Number(groupSize), currency);
+    if (!price) {
+      return res.status(400).json({ error: 'Invalid plan or group size' });
+    }
+
+    // An explicit promo code is applied up front, otherwise customers can still enter one on the Stripe page
+    let discounts: Stripe.Checkout.SessionCreateParams.Discount[] | undefined;
+    if (promoCode) {
+      const { data: promotionCodes } = await stripe.promotionCodes.list({
+        code: String(promoCode).trim(),
+        active: true,
+        limit: 1,
+      });
+      if (promotionCodes.length === 0) {
+        return res.status(400).json({ error: 'Invalid or expired promo code' });
+      }
+      discounts = [{ promotion_code: promotionCodes[0].id }];
+    }
+
     // Create Stripe checkout session with all trip data in metadata
     const session = await stripe.checkout.sessions.create({
-      payment_method_types: ['card', 'ideal'],
+      // iDEAL only works for euro payments
+      payment_method_types: currency === 'eur' ? ['card', 'ideal'] : ['card'],
       line_items: [
         {
           price_data: {
-            currency: 'eur',
+            currency,
             product_data: {
-              name: `GroupTrips - ${tripName}`,
-              description: 'Create a new group trip with unlimited members, AI ticket scanning, aftermovie generation, and more.',
+              name: `GroupTrips ${price.plan.name} - ${tripName}`,
+              description: `${price.plan.description}. Up to ${price.tier.max_members} members.`,
               images: ['https://grouptrips.app/og-image.png'],
             },
-            unit_amount: 2499, // €24.99 in cents
+            unit_amount: price.tier.amount,
           },
           quantity: 1,
         },
       ],
+      ...(discounts ? { discounts } : { allow_promotion_codes: true }),
       mode: 'payment',
       success_url: successUrl || `${process.env.NEXT_PUBLIC_APP_URL}/dashboard?payment=success&session_id={CHECKOUT_SESSION_ID}`,
       cancel_url: cancelUrl || `${process.env.NEXT_PUBLIC_APP_URL}/dashboard?payment=cancelled`,
@@ -42,6 +79,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         description: description || '',
         departureTime: departureTime || '',
         returnTime: returnTime || '',
+        planId: price.plan.id,
+        maxMembers: String(price.tier.max_members),
       },
       customer_email: req.body.email,
     });
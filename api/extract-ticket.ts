@@ -1,4 +1,6 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createStructuredCompletion, structuredErrorResponse } from './_lib/structured.js';
+import { ticketSchema, type ExtractedTicket } from './_lib/aiSchemas.js';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method !== 'POST') {
@@ -11,27 +13,18 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(400).json({ error: 'No image provided' });
   }
 
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    return res.status(500).json({ error: 'OpenAI API key not configured' });
-  }
-
   try {
     // Get current year for date context
     const currentYear = new Date().getFullYear();
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a ticket data extractor. Extract information from tickets (transport OR events like festivals, concerts, sports).
+    const result = await createStructuredCompletion<ExtractedTicket>({
+      route: 'extract-ticket',
+      schemaName: 'ticket',
+      schema: ticketSchema,
+      messages: [
+        {
+          role: 'system',
+          content: `You are a ticket data extractor. Extract information from tickets (transport OR events like festivals, concerts, sports).
 
 IMPORTANT: The current year is ${currentYear}. When dates on tickets don't include a year, assume they are for ${currentYear} or ${currentYear + 1} (whichever makes more sense based on the current date). Never use years before ${currentYear}.
 
@@ -62,48 +55,33 @@ For EVENT tickets (festivals, concerts, sports, exhibitions):
 - booking_reference: Order/ticket number
 - gate: Entry gate if visible
 
-Use "other" for ticket_type if unclear. Return ONLY valid JSON with these fields. Use null for missing values.`
-          },
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: 'Extract ticket information from this image:'
-              },
-              {
-                type: 'image_url',
-                image_url: {
-                  url: `data:${mimeType || 'image/jpeg'};base64,${imageBase64}`
-                }
+Use "other" for ticket_type if unclear. Use null for missing values.`
+        },
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'text',
+              text: 'Extract ticket information from this image:'
+            },
+            {
+              type: 'image_url',
+              image_url: {
+                url: `data:${mimeType || 'image/jpeg'};base64,${imageBase64}`
               }
-            ]
-          }
-        ],
-        max_tokens: 1000,
-      }),
+            }
+          ]
+        }
+      ],
+      maxTokens: 1000,
     });
 
-    const data = await response.json();
-
-    if (data.error) {
-      console.error('OpenAI error:', data.error);
-      return res.status(500).json({ error: data.error.message });
+    if (result.status !== 'ok') {
+      const { status, body } = structuredErrorResponse(result);
+      return res.status(status).json(body);
     }
 
-    const content = data.choices?.[0]?.message?.content;
-    if (!content) {
-      return res.status(500).json({ error: 'No response from AI' });
-    }
-
-    // Parse the JSON response
-    try {
-      const ticketData = JSON.parse(content.replace(/```json\n?|\n?```/g, ''));
-      return res.status(200).json(ticketData);
-    } catch {
-      // If JSON parsing fails, return raw content
-      return res.status(200).json({ raw: content });
-    }
+    return res.status(200).json(result.data);
   } catch (error) {
     console.error('Error extracting ticket:', error);
     return res.status(500).json({ error: 'Failed to extract ticket data' });
@@ -0,0 +1,14 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { currencyForLocale, getPlans } from './_lib/plans.js';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const locale = typeof req.query.locale === 'string' ? req.query.locale : undefined;
+  const currency = currencyForLocale(locale);
+
+  res.setHeader('Cache-Control', 's-maxage=3600, stale-while-revalidate');
+  return res.status(200).json({ currency, plans: getPlans(currency) });
+}
@@ -0,0 +1,212 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import Stripe from 'stripe';
+import { supabaseAdmin } from './_lib/supabase.js';
+import { claimPayment, consumePayment, getSessionUserId } from './_lib/payments.js';
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '');
+const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET || '';
+
+// Stripe signs the raw request body, so Vercel must not parse it
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+interface TripDetails {
+  name: string;
+  groupName: string;
+  description: string;
+  departureTime: string;
+  returnTime: string;
+  planId: string | null;
+  maxMembers: number | null;
+}
+
+async function readRawBody(req: VercelRequest): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Helper function to generate a unique lobby code
+function generateLobbyCode(): string {
+  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // Removed ambiguous characters
+  let code = '';
+  for (let i = 0; i < 6; i++) {
+    code += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return code;
+}
+
+// Checkout sessions from create-checkout carry the trip in their metadata.
+// Payment Link sessions don't, so fall back to the pending_trips row saved before checkout.
+async function getTripDetails(session: Stripe.Checkout.Session, userId: string): Promise<TripDetails | null> {
+  const metadata = session.metadata || {};
+  if (metadata.tripName) {
+    return {
+      name: metadata.tripName,
+      groupName: metadata.groupName || '',
+      description: metadata.description || '',
+      departureTime: metadata.departureTime || '',
+      returnTime: metadata.returnTime || '',
+      planId: metadata.planId || null,
+      maxMembers: Number(metadata.maxMembers) || null,
+    };
+  }
+
+  const { data: pendingTrip } = await supabaseAdmin
+    .from('pending_trips')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (!pendingTrip) return null;
+  return {
+    name: pendingTrip.name,
+    groupName: pendingTrip.group_name || '',
+    description: pendingTrip.description || '',
+    departureTime: pendingTrip.departure_time || '',
+    returnTime: pendingTrip.return_time || '',
+    planId: null,
+    maxMembers: null,
+  };
+}
+
+async function findProvisionedTrip(sessionId: string) {
+  const { data } = await supabaseAdmin
+    .from('trips')
+    .select('id, admin_id')
+    .eq('stripe_session_id', sessionId)
+    .maybeSingle();
+  return data;
+}
+
+// Create the trip and its admin membership for a paid session. Safe to run more than once:
+// the session is claimed in the payments ledger first, and trips.stripe_session_id is unique,
+// so a redelivered event finds the existing trip instead of creating another one.
+async function provisionTrip(session: Stripe.Checkout.Session): Promise<string | null> {
+  const userId = getSessionUserId(session);
+  if (!userId) {
+    console.error('[stripe-webhook] Session has no (consistent) user, ignoring:', session.id);
+    return null;
+  }
+
+  const claim = await claimPayment(session, userId);
+  if (claim.status === 'rejected') {
+    console.error('[stripe-webhook] Payment claim refused:', claim.reason);
+    return null;
+  }
+  if (claim.status === 'provisioned') {
+    return claim.tripId;
+  }
+
+  let trip = await findProvisionedTrip(session.id);
+
+  if (!trip) {
+    const details = await getTripDetails(session, userId);
+    if (!details) {
+      throw new Error(`No trip details found for session ${session.id}`);
+    }
+
+    const departure = new Date(details.departureTime);
+    if (isNaN(departure.getTime())) {
+      throw new Error(`Invalid departure date: ${details.departureTime}`);
+    }
+    const returnDate = details.returnTime ? new Date(details.returnTime) : null;
+
+    // Retry on the rare lobby code collision
+    for (let attempt = 0; attempt < 5 && !trip; attempt++) {
+      const { data, error } = await supabaseAdmin
+        .from('trips')
+        .insert({
+          name: details.name,
+          group_name: details.groupName || null,
+          description: details.description || null,
+          lobby_code: generateLobbyCode(),
+          admin_id: userId,
+          departure_time: departure.toISOString(),
+          return_time: returnDate && !isNaN(returnDate.getTime()) ? returnDate.toISOString() : null,
+          status: 'planning',
+          stripe_session_id: session.id,
+          plan_id: details.planId,
+          max_members: details.maxMembers,
+        })
+        .select('id, admin_id')
+        .single();
+
+      if (!error) {
+        trip = data;
+      } else if (error.code === '23505' && error.message.includes('stripe_session_id')) {
+        // A concurrent delivery of the same event got there first
+        trip = await findProvisionedTrip(session.id);
+      } else if (error.code !== '23505') {
+        throw new Error(`Failed to create trip: ${error.message}`);
+      }
+    }
+
+    if (!trip) {
+      throw new Error('Failed to generate a unique lobby code');
+    }
+  }
+
+  const { error: memberError } = await supabaseAdmin
+    .from('trip_members')
+    .upsert(
+      { trip_id: trip.id, user_id: trip.admin_id, role: 'admin' },
+      { onConflict: 'trip_id,user_id', ignoreDuplicates: true }
+    );
+
+  if (memberError) {
+    throw new Error(`Failed to add admin member: ${memberError.message}`);
+  }
+
+  await consumePayment(session.id, trip.id);
+  await supabaseAdmin.from('pending_trips').delete().eq('user_id', userId);
+  return trip.id;
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  let event: Stripe.Event;
+  try {
+    const signature = req.headers['stripe-signature'];
+    if (typeof signature !== 'string') {
+      return res.status(400).json({ error: 'Missing Stripe signature' });
+    }
+    event = stripe.webhooks.constructEvent(await readRawBody(req), signature, webhookSecret);
+  } catch (error) {
+    console.error('[stripe-webhook] Signature verification failed:', error);
+    return res.status(400).json({ error: 'Invalid signature' });
+  }
+
+  try {
+    // iDEAL and other delayed methods complete later with async_payment_succeeded
+    if (event.type === 'checkout.session.completed' || event.type === 'checkout.session.async_payment_succeeded') {
+      const session = event.data.object;
+
+      if (session.payment_status === 'paid') {
+        const tripId = await provisionTrip(session);
+        if (tripId) {
+          console.log('[stripe-webhook] Trip provisioned for session:', session.id, tripId);
+        }
+      } else {
+        console.log('[stripe-webhook] Session not paid yet, waiting:', session.id, session.payment_status);
+      }
+    }
+
+    return res.status(200).json({ received: true });
+  } catch (error) {
+    // A non-2xx response makes Stripe retry the event later
+    console.error('[stripe-webhook] Error handling event:', event.id, error);
+    return res.status(500).json({
+      error: 'Failed to handle event',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -0,0 +1,79 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { supabaseAdmin, getUserFromRequest, createSignedUrl } from './_lib/supabase.js';
+import { visibleTicketFields } from './_lib/tickets.js';
+import { getTicketRevealStatus, getNextTicketRevealTime, resolveRevealPolicy } from '../src/lib/reveal.js';
+import type { Ticket, TicketRevealStatus } from '../src/types/index.js';
+
+async function revealTicket(ticket: Ticket, status: TicketRevealStatus): Promise<Ticket> {
+  const revealed = visibleTicketFields(ticket, status);
+  if (revealed.qr_code_url) {
+    revealed.qr_code_url = await createSignedUrl('tickets', revealed.qr_code_url);
+  }
+  if (revealed.full_ticket_url) {
+    revealed.full_ticket_url = await createSignedUrl('tickets', revealed.full_ticket_url);
+  }
+  return revealed;
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { tripId } = req.body;
+
+  if (!tripId) {
+    return res.status(400).json({ error: 'Trip ID is required' });
+  }
+
+  try {
+    const user = await getUserFromRequest(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const { data: trip, error: tripError } = await supabaseAdmin
+      .from('trips')
+      .select('departure_time, reveal_policy')
+      .eq('id', tripId)
+      .single();
+
+    if (tripError || !trip) {
+      return res.status(404).json({ error: 'Trip not found' });
+    }
+
+    const { data: tickets, error: ticketError } = await supabaseAdmin
+      .from('tickets')
+      .select('*')
+      .eq('trip_id', tripId)
+      .eq('member_id', user.id);
+
+    if (ticketError) {
+      console.error('[ticket-reveal] Ticket lookup error:', ticketError);
+      return res.status(500).json({ error: 'Failed to load tickets' });
+    }
+
+    // Reveal stage is always decided here, against the server clock and the trip's policy.
+    // Each ticket counts down to its own departure, falling back to the trip departure.
+    const policy = resolveRevealPolicy(trip);
+    const ordered = ((tickets || []) as Ticket[])
+      .map((ticket) => ({ ticket, anchor: ticket.departure_time || trip.departure_time }))
+      .sort((a, b) => new Date(a.anchor).getTime() - new Date(b.anchor).getTime());
+
+    const revealed = await Promise.all(
+      ordered.map(async ({ ticket, anchor }) => {
+        const revealStatus = getTicketRevealStatus(anchor, policy);
+        return {
+          ticket: await revealTicket(ticket, revealStatus),
+          reveal_status: revealStatus,
+          next_reveal_at: getNextTicketRevealTime(anchor, policy),
+        };
+      })
+    );
+
+    return res.status(200).json({ tickets: revealed });
+  } catch (error) {
+    console.error('Error revealing ticket:', error);
+    return res.status(500).json({ error: 'Failed to reveal ticket' });
+  }
+}
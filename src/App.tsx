@@ -40,23 +40,20 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
     const urlParams = new URLSearchParams(window.location.search);
     const paymentStatus = urlParams.get('payment');
     const sessionId = urlParams.get('session_id');
-    const hasPendingPayment = localStorage.getItem('pendingPayment') === 'true';
-    const hasPendingTripData = localStorage.getItem('pendingTripData');
+    const hasPendingPayment = !!localStorage.getItem('pendingPayment');
 
     // Log diagnostic info when not authenticated
     console.log('[ProtectedRoute] User not authenticated, checking payment return...', {
       paymentStatus,
       sessionId: sessionId ? 'present' : 'null',
-      hasPendingTripData: !!hasPendingTripData,
       hasPendingPayment,
       url: window.location.href,
     });
 
     // Save URL for after login if:
-    // 1. Has session_id (can retrieve trip data from Stripe)
-    // 2. OR has pendingTripData in localStorage (persistent storage)
-    // 3. OR has pendingPayment flag (Payment Link flow)
-    if (paymentStatus === 'success' && (sessionId || hasPendingTripData || hasPendingPayment)) {
+    // 1. Has session_id (dashboard waits for that session's trip)
+    // 2. OR has pendingPayment flag (Payment Link flow)
+    if (paymentStatus === 'success' && (sessionId || hasPendingPayment)) {
       console.log('[ProtectedRoute] Saving payment return URL for after login');
       localStorage.setItem('returnAfterLogin', window.location.href);
     }
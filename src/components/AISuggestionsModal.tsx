@@ -0,0 +1,396 @@
+import { useState } from 'react';
+import { Clock, MapPin, Plus, Sparkles, ExternalLink, BarChart3 } from 'lucide-react';
+import type { PollOption, ScheduleItem, Trip } from '../types';
+import { createScheduleItem, type ScheduleItemFields } from '../lib/schedule';
+import { typeGradients, typeIcons } from './scheduleTypes';
+import PollComposer from './PollComposer';
+
+// AI Suggestions Modal
+interface AIActivity {
+  title: string;
+  description: string;
+  type: ScheduleItem['type'];
+  duration_hours: number;
+  estimated_cost: number;
+  best_time: string;
+  booking_url: string | null;
+  address: string | null;
+  rating: number | null;
+  tips: string | null;
+}
+
+export default function AISuggestionsModal({
+  tripId,
+  trip,
+  memberCount,
+  onClose,
+  onAdded,
+}: {
+  tripId: string;
+  trip?: Trip | null;
+  memberCount?: number;
+  onClose: () => void;
+  onAdded?: () => void; // After each added suggestion, the modal stays open
+}) {
+  // Pre-fill with trip data
+  const [location, setLocation] = useState(trip?.destination || '');
+  const [groupSize, setGroupSize] = useState(memberCount?.toString() || '');
+  const [date, setDate] = useState(trip?.departure_time ? new Date(trip.departure_time).toISOString().split('T')[0] : '');
+  const [preferences, setPreferences] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [suggestions, setSuggestions] = useState<AIActivity[]>([]);
+  const [error, setError] = useState('');
+  const [adding, setAdding] = useState<number | null>(null);
+  // Suggestions picked for a poll, by index
+  const [shortlist, setShortlist] = useState<number[]>([]);
+  const [showPollComposer, setShowPollComposer] = useState(false);
+
+  async function handleGetSuggestions(e: React.FormEvent) {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+    setSuggestions([]);
+    setShortlist([]);
+
+    try {
+      const response = await fetch('/api/suggest-activities', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ location, groupSize, date, preferences }),
+      });
+
+      const data = await response.json();
+
+      if (data.error) {
+        setError(data.error);
+      } else {
+        setSuggestions(data.activities);
+      }
+    } catch {
+      setError('Failed to get suggestions. Please try again.');
+    }
+
+    setLoading(false);
+  }
+
+  // Generate a search URL for TripAdvisor/Google if no booking_url provided
+  function getSearchUrl(activityTitle: string, activityLocation: string): string {
+    const searchQuery = encodeURIComponent(`${activityTitle} ${activityLocation}`);
+    // Use TripAdvisor search as primary, fallback to Google
+    return `https://www.tripadvisor.com/Search?q=${searchQuery}`;
+  }
+
+  // The schedule item a suggestion becomes, whether added directly or as the winner of a poll
+  function toScheduleFields(activity: AIActivity): ScheduleItemFields {
+    // Calculate start time based on best_time
+    const activityDate = date ? new Date(date) : new Date();
+    const timeMap: Record<string, number> = {
+      morning: 9,
+      afternoon: 14,
+      evening: 18,
+      night: 21,
+    };
+    activityDate.setHours(timeMap[activity.best_time] || 10, 0, 0, 0);
+
+    const endTime = new Date(activityDate);
+    endTime.setHours(endTime.getHours() + activity.duration_hours);
+
+    // Use provided booking_url or generate a search URL
+    const bookingUrl = activity.booking_url || getSearchUrl(activity.title, location);
+
+    // Build description with tips if available
+    let fullDescription = activity.description;
+    if (activity.tips) {
+      fullDescription += `\n\nTip: ${activity.tips}`;
+    }
+    if (activity.rating) {
+      fullDescription += `\n\nRating: ${activity.rating}/5`;
+    }
+
+    return {
+      title: activity.title,
+      description: fullDescription,
+      type: activity.type,
+      location: activity.address || location,
+      booking_url: bookingUrl,
+      // Suggestions are priced per person, the schedule stores the group total
+      estimated_cost: activity.estimated_cost * (parseInt(groupSize) || memberCount || 1),
+      start_time: activityDate.toISOString(),
+      end_time: endTime.toISOString(),
+    };
+  }
+
+  function toPollOption(activity: AIActivity): Omit<PollOption, 'id'> {
+    const fields = toScheduleFields(activity);
+    return {
+      title: activity.title,
+      description: activity.description,
+      item: {
+        type: activity.type,
+        start_time: fields.start_time || undefined,
+        end_time: fields.end_time || undefined,
+        description: fields.description || undefined,
+        location: fields.location || undefined,
+        booking_url: fields.booking_url || undefined,
+        estimated_cost: fields.estimated_cost ?? undefined,
+      },
+    };
+  }
+
+  async function handleAddActivity(activity: AIActivity, index: number) {
+    setAdding(index);
+    setError('');
+
+    try {
+      await createScheduleItem(tripId, toScheduleFields(activity));
+    } catch (err) {
+      setError(`Failed to add "${activity.title}": ${err instanceof Error ? err.message : err}`);
+      setAdding(null);
+      return;
+    }
+
+    // Remove from suggestions
+    setSuggestions(suggestions.filter((_, i) => i !== index));
+    setShortlist(shortlist.filter((i) => i !== index).map((i) => (i > index ? i - 1 : i)));
+    setAdding(null);
+
+    // Refresh the schedule immediately after adding (without closing modal)
+    if (onAdded) {
+      onAdded();
+    }
+  }
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
+        <div className="bg-slate-800 border border-white/10 rounded-2xl p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+          <div className="flex items-center gap-3 mb-6">
+            <div className="w-10 h-10 rounded-full bg-gradient-to-br from-fuchsia-500 to-blue-500 flex items-center justify-center">
+              <Sparkles className="w-5 h-5" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold">Activity Suggestions</h2>
+              <p className="text-sm text-white/50">Get personalized activity ideas for your trip</p>
+            </div>
+          </div>
+
+          {suggestions.length === 0 ? (
+            <form onSubmit={handleGetSuggestions} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-white/70 mb-2">
+                  Destination
+                </label>
+                <input
+                  type="text"
+                  value={location}
+                  onChange={(e) => setLocation(e.target.value)}
+                  className="input-field"
+                  placeholder="e.g., Barcelona, Spain"
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-white/70 mb-2">
+                    Group Size
+                  </label>
+                  <input
+                    type="number"
+                    value={groupSize}
+                    onChange={(e) => setGroupSize(e.target.value)}
+                    className="input-field"
+                    placeholder="e.g., 8"
+                    min="1"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-white/70 mb-2">
+                    Date
+                  </label>
+                  <input
+                    type="date"
+                    value={date}
+                    onChange={(e) => setDate(e.target.value)}
+                    className="input-field"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-white/70 mb-2">
+                  Preferences (optional)
+                </label>
+                <textarea
+                  value={preferences}
+                  onChange={(e) => setPreferences(e.target.value)}
+                  className="input-field resize-none"
+                  rows={2}
+                  placeholder="e.g., adventurous, local cuisine, budget-friendly, nightlife..."
+                />
+              </div>
+
+              {error && (
+                <div className="p-3 bg-red-500/20 border border-red-500/50 rounded-lg text-red-200 text-sm">
+                  {error}
+                </div>
+              )}
+
+              <div className="flex gap-3 pt-4">
+                <button type="button" onClick={onClose} className="btn-secondary flex-1">
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="btn-primary flex-1 flex items-center justify-center gap-2"
+                >
+                  {loading ? (
+                    <>
+                      <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                      Generating...
+                    </>
+                  ) : (
+                    <>
+                      <Sparkles className="w-4 h-4" />
+                      Get Suggestions
+                    </>
+                  )}
+                </button>
+              </div>
+            </form>
+          ) : (
+            <div className="space-y-4">
+              <p className="text-sm text-white/60 mb-4">
+                Add an activity to your schedule, or tick a few and let the group vote:
+              </p>
+
+              {error && (
+                <div className="p-3 bg-red-500/20 border border-red-500/50 rounded-lg text-red-200 text-sm">
+                  {error}
+                </div>
+              )}
+
+              {suggestions.map((activity, index) => {
+                // Generate fallback search URL
+                const viewUrl = activity.booking_url || `https://www.tripadvisor.com/Search?q=${encodeURIComponent(`${activity.title} ${location}`)}`;
+
+                return (
+                  <div
+                    key={index}
+                    className="p-4 bg-white/5 border border-white/10 rounded-xl hover:border-fuchsia-500/50 transition-colors"
+                  >
+                    <div className="flex items-start justify-between gap-4">
+                      <input
+                        type="checkbox"
+                        checked={shortlist.includes(index)}
+                        onChange={() => setShortlist(
+                          shortlist.includes(index) ? shortlist.filter((i) => i !== index) : [...shortlist, index]
+                        )}
+                        className="rounded mt-2"
+                        title="Shortlist for a poll"
+                      />
+                      <div className="flex-1">
+                        <div className="flex items-center gap-2 mb-2">
+                          <span className={`p-1.5 rounded-lg bg-gradient-to-br ${typeGradients[activity.type] || 'from-gray-500 to-gray-600'}`}>
+                            {typeIcons[activity.type] || <Clock className="w-4 h-4" />}
+                          </span>
+                          <h4 className="font-semibold">{activity.title}</h4>
+                          {activity.rating && (
+                            <span className="text-xs bg-yellow-500/20 text-yellow-400 px-2 py-0.5 rounded-full">
+                              ⭐ {activity.rating}/5
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-sm text-white/60 mb-2">{activity.description}</p>
+
+                        {/* Location/Address */}
+                        {activity.address && (
+                          <p className="text-xs text-white/50 mb-2 flex items-center gap-1">
+                            <MapPin className="w-3 h-3" />
+                            {activity.address}
+                          </p>
+                        )}
+
+                        {/* Tip */}
+                        {activity.tips && (
+                          <p className="text-xs text-fuchsia-400/80 mb-2 italic">
+                            💡 {activity.tips}
+                          </p>
+                        )}
+
+                        <div className="flex flex-wrap items-center gap-3 text-xs text-white/40">
+                          <span>⏱️ {activity.duration_hours}h</span>
+                          <span>💰 €{activity.estimated_cost}/person</span>
+                          <span>🌅 Best: {activity.best_time}</span>
+
+                          {/* View Details link */}
+                          <a
+                            href={viewUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-blue-400 hover:text-blue-300 flex items-center gap-1"
+                            onClick={(e) => e.stopPropagation()}
+                          >
+                            <ExternalLink className="w-3 h-3" />
+                            View Details
+                          </a>
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => handleAddActivity(activity, index)}
+                        disabled={adding !== null}
+                        className="btn-primary text-sm py-2 px-4"
+                      >
+                        {adding === index ? (
+                          <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                        ) : (
+                          <Plus className="w-4 h-4" />
+                        )}
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+
+              <button
+                onClick={() => setShowPollComposer(true)}
+                disabled={shortlist.length < 2}
+                className="btn-primary w-full flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                <BarChart3 className="w-4 h-4" />
+                {shortlist.length < 2 ? 'Tick at least two to start a poll' : `Let the group vote on ${shortlist.length}`}
+              </button>
+
+              <div className="flex gap-3 pt-4">
+                <button onClick={onClose} className="btn-secondary flex-1">
+                  Done
+                </button>
+                <button
+                  onClick={() => setSuggestions([])}
+                  className="btn-secondary flex-1"
+                >
+                  Get New Suggestions
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {showPollComposer && (
+        <PollComposer
+          tripId={tripId}
+          initialQuestion="Which activity should we do?"
+          initialOptions={shortlist.map((index) => toPollOption(suggestions[index]))}
+          onClose={() => setShowPollComposer(false)}
+          onCreated={() => {
+            setShowPollComposer(false);
+            setShortlist([]);
+            alert('Poll posted in Messages');
+          }}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,351 @@
+import { useState } from 'react';
+import {
+  Clock,
+  MapPin,
+  X,
+  Calendar,
+  Info,
+  Phone,
+  Euro,
+  Copy,
+  Check,
+  Navigation,
+  Save,
+  ExternalLink,
+  Edit2,
+  Repeat,
+  Users,
+} from 'lucide-react';
+import type { ScheduleItem, ScheduleRsvp, TripMember, TripSubgroup } from '../types';
+import type { ScheduleIssue } from '../lib/scheduleChecks';
+import { formatMoney } from '../lib/expenses';
+import { getItemCurrency } from '../lib/budget';
+import { getScheduleFormValues, toScheduleItemFields, updateRecurringItem, updateScheduleItem, validateScheduleForm, type RecurrenceScope } from '../lib/schedule';
+import { describeRecurrence } from '../lib/recurrence';
+import { typeGradients, typeIcons } from './scheduleTypes';
+import ScheduleExpenseButton from './ScheduleExpenseButton';
+import ScheduleIssueList from './ScheduleIssueList';
+import ScheduleItemFields from './ScheduleItemFields';
+import RecurrenceScopeDialog from './RecurrenceScopeDialog';
+import AudienceBadges from './AudienceBadges';
+import RsvpPanel from './RsvpPanel';
+import { hasAudience } from '../lib/audience';
+import { summarizeRsvps } from '../lib/rsvp';
+
+// Activity Detail Modal with Edit functionality
+export default function ActivityDetailModal({
+  activity,
+  series,
+  isAdmin,
+  issues = [],
+  members = [],
+  subgroups = [],
+  rsvps = [],
+  onRsvpChange,
+  onClose,
+  onSaved,
+}: {
+  activity: ScheduleItem;
+  series?: ScheduleItem; // The stored recurring item when activity is one of its occurrences
+  isAdmin?: boolean;
+  issues?: ScheduleIssue[];
+  members?: TripMember[];
+  subgroups?: TripSubgroup[];
+  rsvps?: ScheduleRsvp[];
+  onRsvpChange?: () => void;
+  onClose: () => void;
+  onSaved?: () => void;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [askScope, setAskScope] = useState(false);
+
+  // Edit form state
+  const [values, setValues] = useState(() => getScheduleFormValues(activity));
+
+  const displayStartTime = new Date(activity.start_time);
+  const displayEndTime = activity.end_time ? new Date(activity.end_time) : null;
+
+  async function handleSave(scope?: RecurrenceScope) {
+    const formError = validateScheduleForm(values);
+    if (formError) {
+      alert(formError);
+      return;
+    }
+
+    if (series && !scope) {
+      setAskScope(true);
+      return;
+    }
+
+    setAskScope(false);
+    setSaving(true);
+
+    try {
+      if (series && scope) {
+        await updateRecurringItem(series, activity, toScheduleItemFields(values), scope);
+      } else {
+        await updateScheduleItem(activity.id, toScheduleItemFields(values));
+      }
+    } catch (error) {
+      setSaving(false);
+      alert('Failed to save: ' + (error instanceof Error ? error.message : error));
+      return;
+    }
+
+    setSaving(false);
+    onClose();
+    if (onSaved) {
+      onSaved();
+    }
+  }
+
+  function copyToClipboard(text: string) {
+    navigator.clipboard.writeText(text);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  }
+
+  // Generate Google Maps URL from location
+  function getGoogleMapsUrl(loc: string): string {
+    return `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(loc)}`;
+  }
+
+  if (isEditing && isAdmin) {
+    return (
+      <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
+        <div className="bg-slate-800 border border-white/10 rounded-2xl p-6 max-w-md w-full max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-xl font-bold">Edit Activity</h2>
+            <button onClick={() => setIsEditing(false)} className="p-2 hover:bg-white/10 rounded-full">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <ScheduleItemFields values={values} onChange={setValues} audienceOptions={{ subgroups, members }} />
+
+          <div className="flex gap-3 mt-6">
+            <button onClick={() => setIsEditing(false)} className="btn-secondary flex-1">
+              Cancel
+            </button>
+            <button
+              onClick={() => handleSave()}
+              disabled={saving}
+              className="btn-primary flex-1 flex items-center justify-center gap-2"
+            >
+              {saving ? (
+                <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+              ) : (
+                <Save className="w-4 h-4" />
+              )}
+              {saving ? 'Saving...' : 'Save Changes'}
+            </button>
+          </div>
+        </div>
+
+        {askScope && (
+          <RecurrenceScopeDialog
+            title={activity.title}
+            action="edit"
+            onChoose={handleSave}
+            onCancel={() => setAskScope(false)}
+          />
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-slate-800 border border-white/10 rounded-2xl p-6 max-w-md w-full max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <span className={`p-2 rounded-xl bg-gradient-to-br ${typeGradients[activity.type] || 'from-gray-500 to-gray-600'}`}>
+              {typeIcons[activity.type] || <Clock className="w-5 h-5" />}
+            </span>
+            <div>
+              <h2 className="text-xl font-bold">{activity.title}</h2>
+              <p className="text-sm text-white/50 capitalize">{activity.type.replace('_', ' ')}</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            {isAdmin && (
+              <button
+                onClick={() => setIsEditing(true)}
+                className="p-2 hover:bg-white/10 rounded-full text-blue-400"
+                title="Edit activity"
+              >
+                <Edit2 className="w-5 h-5" />
+              </button>
+            )}
+            <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <ScheduleIssueList issues={issues} />
+
+          {/* Time */}
+          <div className="flex items-center gap-3 p-3 bg-white/5 rounded-xl">
+            <Calendar className="w-5 h-5 text-blue-400" />
+            <div>
+              <p className="text-sm text-white/50">Date & Time</p>
+              <p className="font-medium">
+                {displayStartTime.toLocaleDateString('en-US', {
+                  weekday: 'long',
+                  month: 'long',
+                  day: 'numeric',
+                })}
+              </p>
+              <p className="text-sm">
+                {displayStartTime.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}
+                {displayEndTime && ` - ${displayEndTime.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}`}
+              </p>
+            </div>
+          </div>
+
+          {/* Recurrence */}
+          {activity.recurrence && (
+            <div className="flex items-center gap-3 p-3 bg-white/5 rounded-xl">
+              <Repeat className="w-5 h-5 text-blue-400" />
+              <div>
+                <p className="text-sm text-white/50">Repeats</p>
+                <p className="font-medium">{describeRecurrence(activity)}</p>
+              </div>
+            </div>
+          )}
+
+          {/* Audience */}
+          {isAdmin && hasAudience(activity) && (
+            <div className="flex items-center gap-3 p-3 bg-white/5 rounded-xl">
+              <Users className="w-5 h-5 text-blue-400" />
+              <div>
+                <p className="text-sm text-white/50 mb-1">Only for</p>
+                <AudienceBadges item={activity} subgroups={subgroups} members={members} />
+              </div>
+            </div>
+          )}
+
+          {/* RSVP */}
+          {activity.rsvp_enabled && (
+            <RsvpPanel
+              item={activity}
+              summary={summarizeRsvps(activity, rsvps, members, subgroups)}
+              members={members}
+              isAdmin={isAdmin}
+              onChange={() => onRsvpChange?.()}
+            />
+          )}
+
+          {/* Location */}
+          {activity.location && (
+            <div className="flex items-center gap-3 p-3 bg-white/5 rounded-xl">
+              <MapPin className="w-5 h-5 text-green-400" />
+              <div className="flex-1">
+                <p className="text-sm text-white/50">Location</p>
+                <p className="font-medium">{activity.location}</p>
+              </div>
+              <a
+                href={activity.location_url || getGoogleMapsUrl(activity.location)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="p-2 bg-green-500/20 hover:bg-green-500/30 rounded-lg transition-colors"
+                title="Open in Maps"
+              >
+                <Navigation className="w-4 h-4 text-green-400" />
+              </a>
+            </div>
+          )}
+
+          {/* Estimated Cost */}
+          {activity.estimated_cost && (
+            <div className="flex items-center gap-3 p-3 bg-white/5 rounded-xl">
+              <Euro className="w-5 h-5 text-yellow-400" />
+              <div>
+                <p className="text-sm text-white/50">Estimated Cost (group total)</p>
+                <p className="font-medium">{formatMoney(activity.estimated_cost, getItemCurrency(activity))}</p>
+              </div>
+            </div>
+          )}
+
+          {/* Reservation Code */}
+          {activity.reservation_code && (
+            <div className="flex items-center gap-3 p-3 bg-white/5 rounded-xl">
+              <Copy className="w-5 h-5 text-fuchsia-400" />
+              <div className="flex-1">
+                <p className="text-sm text-white/50">Reservation Code</p>
+                <p className="font-medium font-mono">{activity.reservation_code}</p>
+              </div>
+              <button
+                onClick={() => copyToClipboard(activity.reservation_code!)}
+                className="p-2 bg-fuchsia-500/20 hover:bg-fuchsia-500/30 rounded-lg transition-colors"
+                title="Copy to clipboard"
+              >
+                {copied ? (
+                  <Check className="w-4 h-4 text-green-400" />
+                ) : (
+                  <Copy className="w-4 h-4 text-fuchsia-400" />
+                )}
+              </button>
+            </div>
+          )}
+
+          {/* Contact Info */}
+          {activity.contact_info && (
+            <div className="flex items-center gap-3 p-3 bg-white/5 rounded-xl">
+              <Phone className="w-5 h-5 text-blue-400" />
+              <div className="flex-1">
+                <p className="text-sm text-white/50">Contact</p>
+                <p className="font-medium">{activity.contact_info}</p>
+              </div>
+              <a
+                href={`tel:${activity.contact_info.replace(/\s/g, '')}`}
+                className="p-2 bg-blue-500/20 hover:bg-blue-500/30 rounded-lg transition-colors"
+                title="Call"
+              >
+                <Phone className="w-4 h-4 text-blue-400" />
+              </a>
+            </div>
+          )}
+
+          {/* Description */}
+          {activity.description && (
+            <div className="p-3 bg-white/5 rounded-xl">
+              <div className="flex items-center gap-2 mb-2">
+                <Info className="w-4 h-4 text-fuchsia-400" />
+                <p className="text-sm text-white/50">Description</p>
+              </div>
+              <p className="text-white/80 whitespace-pre-wrap">{activity.description}</p>
+            </div>
+          )}
+
+          {/* Booking URL */}
+          {activity.booking_url && (
+            <a
+              href={activity.booking_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center justify-center gap-2 w-full p-3 bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/50 rounded-xl text-blue-400 font-medium transition-colors"
+            >
+              <ExternalLink className="w-4 h-4" />
+              View Booking / More Info
+            </a>
+          )}
+
+          {/* Split the cost as a group expense */}
+          <ScheduleExpenseButton item={activity} />
+        </div>
+
+        <button
+          onClick={onClose}
+          className="w-full mt-6 btn-secondary"
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
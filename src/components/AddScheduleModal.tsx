@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { createScheduleItem, getScheduleFormValues, toScheduleItemFields, validateScheduleForm } from '../lib/schedule';
+import ScheduleItemFields from './ScheduleItemFields';
+import type { TripMember, TripSubgroup } from '../types';
+
+// Add Schedule Modal - defaultDate/defaultHour prefill the start when opened from a calendar slot
+export default function AddScheduleModal({
+  tripId,
+  defaultDate,
+  defaultHour,
+  audienceOptions,
+  onClose,
+  onAdded,
+}: {
+  tripId: string;
+  defaultDate?: string;
+  defaultHour?: number;
+  audienceOptions?: { subgroups: TripSubgroup[]; members: TripMember[] };
+  onClose: () => void;
+  onAdded: () => void;
+}) {
+  // Calculate default datetime
+  const getDefaultDateTime = () => {
+    if (defaultDate && defaultHour !== undefined) {
+      return `${defaultDate}T${defaultHour.toString().padStart(2, '0')}:00`;
+    }
+    if (defaultDate) {
+      return `${defaultDate}T10:00`;
+    }
+    return '';
+  };
+
+  const [values, setValues] = useState(() => ({ ...getScheduleFormValues(), startTime: getDefaultDateTime() }));
+  const [loading, setLoading] = useState(false);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+
+    const formError = validateScheduleForm(values);
+    if (formError) {
+      alert(formError);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await createScheduleItem(tripId, toScheduleItemFields(values));
+    } catch (error) {
+      console.error('[AddScheduleModal] Insert error:', error);
+      alert(`Failed to add activity: ${error instanceof Error ? error.message : error}`);
+      setLoading(false);
+      return;
+    }
+
+    onAdded();
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-slate-800 border border-white/10 rounded-2xl p-6 max-w-md w-full max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <h2 className="text-xl font-bold mb-6">Add Activity</h2>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <ScheduleItemFields values={values} onChange={setValues} collapseDetails audienceOptions={audienceOptions} />
+
+          <div className="flex gap-3 pt-4">
+            <button type="button" onClick={onClose} className="btn-secondary flex-1">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="btn-primary flex-1"
+            >
+              {loading ? 'Adding...' : 'Add Activity'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
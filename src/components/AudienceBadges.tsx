@@ -0,0 +1,46 @@
+import type { ScheduleItem, TripMember, TripSubgroup } from '../types';
+import { getSubgroupColor } from './scheduleTypes';
+
+// Who a schedule item is for, as coloured sub-group chips and member names. Renders nothing
+// for items meant for the whole trip.
+export default function AudienceBadges({
+  item,
+  subgroups,
+  members,
+  compact,
+}: {
+  item: ScheduleItem;
+  subgroups: TripSubgroup[];
+  members: TripMember[];
+  compact?: boolean; // Colour dots only, for the calendar grid
+}) {
+  const groups = subgroups.filter((group) => item.audience_subgroup_ids?.includes(group.id));
+  const people = members.filter((member) => item.audience_user_ids?.includes(member.user_id));
+  if (groups.length === 0 && people.length === 0) return null;
+
+  if (compact) {
+    return (
+      <span className="inline-flex gap-0.5 mr-1 align-middle" title={[...groups.map((g) => g.name), ...people.map((m) => m.user?.name)].join(', ')}>
+        {groups.map((group) => (
+          <span key={group.id} className={`w-2 h-2 rounded-full ${getSubgroupColor(group.color).dot}`} />
+        ))}
+        {people.length > 0 && <span className="w-2 h-2 rounded-full bg-white/70" />}
+      </span>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {groups.map((group) => (
+        <span key={group.id} className={`px-2 py-0.5 rounded-full text-xs border ${getSubgroupColor(group.color).badge}`}>
+          {group.name}
+        </span>
+      ))}
+      {people.map((member) => (
+        <span key={member.user_id} className="px-2 py-0.5 rounded-full text-xs border bg-white/10 text-white/70 border-white/20">
+          {member.user?.name || 'Member'}
+        </span>
+      ))}
+    </div>
+  );
+}
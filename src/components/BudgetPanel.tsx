@@ -0,0 +1,152 @@
+import { useMemo } from 'react';
+import { PiggyBank, AlertTriangle } from 'lucide-react';
+import { getBudgetSummary } from '../lib/budget';
+import { expandRecurringItems } from '../lib/recurrence';
+import { formatMoney } from '../lib/expenses';
+import type { ScheduleItem, Trip } from '../types';
+
+interface BudgetPanelProps {
+  schedule: ScheduleItem[];
+  memberCount: number;
+  trip?: Trip | null;
+  compact?: boolean; // Single-line summary for the schedule header
+}
+
+const typeLabels: Record<ScheduleItem['type'], string> = {
+  travel: 'Travel',
+  accommodation: 'Stay',
+  activity: 'Activities',
+  meal: 'Food',
+  meeting: 'Meetings',
+  free_time: 'Free time',
+};
+
+const typeBarColors: Record<ScheduleItem['type'], string> = {
+  travel: 'bg-blue-400',
+  accommodation: 'bg-fuchsia-400',
+  activity: 'bg-orange-400',
+  meal: 'bg-yellow-400',
+  meeting: 'bg-cyan-400',
+  free_time: 'bg-green-400',
+};
+
+export default function BudgetPanel({ schedule, memberCount, trip, compact }: BudgetPanelProps) {
+  // Every occurrence of a recurring item costs again
+  const summary = useMemo(
+    () => getBudgetSummary(expandRecurringItems(schedule, trip?.return_time), memberCount, trip),
+    [schedule, memberCount, trip]
+  );
+  const { totals, budget, uncountedCurrencies } = summary;
+  const main = totals[0];
+
+  if (!main && !budget) {
+    return null;
+  }
+
+  if (compact) {
+    return (
+      <div
+        className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm ${
+          budget?.isOver ? 'bg-red-500/20 text-red-300' : 'bg-white/5 text-white/70'
+        }`}
+        title={uncountedCurrencies.length ? `Not counted: costs in ${uncountedCurrencies.join(', ')}` : undefined}
+      >
+        {budget?.isOver ? <AlertTriangle className="w-4 h-4" /> : <PiggyBank className="w-4 h-4" />}
+        {budget
+          ? `${formatMoney(budget.planned, budget.currency)} of ${formatMoney(budget.amount, budget.currency)}`
+          : formatMoney(main.total, main.currency)}
+        {main && <span className="text-white/40">· {formatMoney(main.perPerson, main.currency)} pp</span>}
+      </div>
+    );
+  }
+
+  const largestDay = Math.max(...(main?.byDay.map((d) => d.total) || [0]), 1);
+
+  return (
+    <div className="card p-6">
+      <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <PiggyBank className="w-5 h-5 text-green-400" />
+        Budget
+      </h2>
+
+      {budget && (
+        <div className="mb-5">
+          <div className="flex items-baseline justify-between mb-2">
+            <span className="text-2xl font-bold">{formatMoney(budget.planned, budget.currency)}</span>
+            <span className="text-sm text-white/50">of {formatMoney(budget.amount, budget.currency)}</span>
+          </div>
+          <div className="h-2 bg-white/10 rounded-full overflow-hidden">
+            <div
+              className={`h-full rounded-full ${
+                budget.isOver ? 'bg-red-500' : budget.usage > 0.9 ? 'bg-yellow-500' : 'bg-green-500'
+              }`}
+              style={{ width: `${Math.min(budget.usage, 1) * 100}%` }}
+            />
+          </div>
+          {budget.isOver ? (
+            <p className="mt-2 text-sm text-red-300 flex items-center gap-1">
+              <AlertTriangle className="w-4 h-4" />
+              Over budget by {formatMoney(-budget.remaining, budget.currency)}
+            </p>
+          ) : (
+            <p className="mt-2 text-sm text-white/50">
+              {formatMoney(budget.remaining, budget.currency)} left to plan
+            </p>
+          )}
+        </div>
+      )}
+
+      {totals.map((totalsForCurrency) => (
+        <div key={totalsForCurrency.currency} className="space-y-4 mb-4 last:mb-0">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="p-3 bg-white/5 rounded-xl">
+              <p className="text-xs text-white/50">Planned total</p>
+              <p className="font-semibold">{formatMoney(totalsForCurrency.total, totalsForCurrency.currency)}</p>
+            </div>
+            <div className="p-3 bg-white/5 rounded-xl">
+              <p className="text-xs text-white/50">Per person ({memberCount})</p>
+              <p className="font-semibold">{formatMoney(totalsForCurrency.perPerson, totalsForCurrency.currency)}</p>
+            </div>
+          </div>
+
+          {/* By type */}
+          <div className="space-y-1.5">
+            {(Object.entries(totalsForCurrency.byType) as [ScheduleItem['type'], number][])
+              .sort(([, a], [, b]) => b - a)
+              .map(([type, amount]) => (
+                <div key={type} className="flex items-center gap-2 text-sm">
+                  <span className={`w-2 h-2 rounded-full ${typeBarColors[type]}`} />
+                  <span className="flex-1 text-white/70">{typeLabels[type]}</span>
+                  <span>{formatMoney(amount, totalsForCurrency.currency)}</span>
+                </div>
+              ))}
+          </div>
+
+          {/* By day - only for the main currency to keep the panel short */}
+          {totalsForCurrency === main && main.byDay.length > 1 && (
+            <div className="space-y-1">
+              <p className="text-xs text-white/40 uppercase tracking-wider">Per day</p>
+              {main.byDay.map(({ date, total }) => (
+                <div key={date} className="flex items-center gap-2 text-xs">
+                  <span className="w-16 text-white/50">
+                    {new Date(`${date}T12:00`).toLocaleDateString('en-US', { weekday: 'short', day: 'numeric' })}
+                  </span>
+                  <div className="flex-1 h-1.5 bg-white/10 rounded-full overflow-hidden">
+                    <div className="h-full bg-blue-400 rounded-full" style={{ width: `${(total / largestDay) * 100}%` }} />
+                  </div>
+                  <span className="w-20 text-right">{formatMoney(total, main.currency)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+
+      {uncountedCurrencies.length > 0 && (
+        <p className="text-xs text-white/40 mt-2">
+          Costs in {uncountedCurrencies.join(', ')} aren't counted towards the {budget?.currency} budget.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { useState, useEffect } from 'react';
+import { Lock, MapPin, Sparkles } from 'lucide-react';
+import { fetchClues, fetchClueSchedule } from '../lib/clues';
+import { resolveRevealPolicy, getStageRevealTime } from '../lib/reveal';
+import type { Trip, TripClue, TripClueSlot } from '../types';
+
+interface CluesFeedProps {
+  trip: Trip;
+  isAdmin: boolean;
+}
+
+const clueIcons: Record<TripClue['type'], string> = {
+  text: '🔎',
+  image: '🖼️',
+  emoji: '🤔',
+  weather: '🌤️',
+};
+
+function formatTimeLeft(ms: number): string {
+  const days = Math.floor(ms / (1000 * 60 * 60 * 24));
+  const hours = Math.floor((ms % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
+  const minutes = Math.floor((ms % (1000 * 60 * 60)) / (1000 * 60));
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+}
+
+export default function CluesFeed({ trip, isAdmin }: CluesFeedProps) {
+  // RLS only returns clues that have unlocked, the schedule RPC tells us what's still coming
+  const [clues, setClues] = useState<TripClue[]>([]);
+  const [slots, setSlots] = useState<TripClueSlot[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([fetchClues(trip.id), fetchClueSchedule(trip.id)])
+      .then(([cluesData, slotsData]) => {
+        if (cancelled) return;
+        setClues(cluesData);
+        setSlots(slotsData);
+        setNow(Date.now());
+      })
+      .catch((err) => console.error('[CluesFeed] Load error:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [trip.id, reloadKey]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Reload as soon as the next clue unlocks
+  const nextSlot = slots.find((slot) => new Date(slot.unlock_at).getTime() > now);
+  useEffect(() => {
+    if (!nextSlot) return;
+    const delay = new Date(nextSlot.unlock_at).getTime() - Date.now();
+    const timer = setTimeout(() => setReloadKey((key) => key + 1), Math.max(delay, 0) + 1000);
+    return () => clearTimeout(timer);
+  }, [nextSlot]);
+
+  const policy = resolveRevealPolicy(trip);
+  const destinationRevealAt = getStageRevealTime(policy, 'destination_city', trip.departure_time).getTime();
+  const destinationRevealed = now >= destinationRevealAt;
+  const unlockedIds = new Set(
+    clues
+      .filter((clue) => now >= new Date(trip.departure_time).getTime() - clue.unlock_minutes_before * 60 * 1000)
+      .map((clue) => clue.id)
+  );
+  const lockedCount = slots.filter((slot) => !unlockedIds.has(slot.id)).length;
+
+  if (slots.length === 0 && clues.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="card p-6">
+      <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <Sparkles className="w-5 h-5 text-fuchsia-400" />
+        Where Are We Going?
+      </h2>
+
+      <div className="space-y-3">
+        {clues.map((clue, index) => {
+          const unlocked = unlockedIds.has(clue.id);
+          return (
+            <div
+              key={clue.id}
+              className={`p-4 rounded-xl border ticket-reveal ${
+                unlocked ? 'bg-fuchsia-500/10 border-fuchsia-500/30' : 'bg-white/5 border-white/10 border-dashed'
+              }`}
+            >
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-xs text-fuchsia-300 font-medium uppercase tracking-wider">
+                  {clueIcons[clue.type]} Clue {index + 1}
+                </p>
+                {!unlocked && isAdmin && (
+                  <span className="text-xs text-white/40 flex items-center gap-1">
+                    <Lock className="w-3 h-3" />
+                    Locked for members
+                  </span>
+                )}
+              </div>
+              {clue.type === 'image' && clue.image_url && (
+                <img src={clue.image_url} alt="Clue" className="w-full max-h-64 object-cover rounded-lg mb-2" />
+              )}
+              <p className={clue.type === 'emoji' ? 'text-4xl text-center' : 'text-sm'}>{clue.content}</p>
+            </div>
+          );
+        })}
+
+        {!isAdmin && lockedCount > 0 && nextSlot && (
+          <div className="p-4 rounded-xl border border-dashed border-white/10 bg-white/5 flex items-center gap-3">
+            <Lock className="w-5 h-5 text-white/30" />
+            <div>
+              <p className="text-sm font-medium">
+                {lockedCount} more {lockedCount === 1 ? 'clue' : 'clues'} to come
+              </p>
+              <p className="text-xs text-white/50">
+                Next clue in {formatTimeLeft(new Date(nextSlot.unlock_at).getTime() - now)}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {/* Final reveal */}
+        {trip.destination && (destinationRevealed || isAdmin) ? (
+          <div className="p-6 rounded-xl bg-gradient-to-br from-blue-500/30 to-fuchsia-500/30 border border-fuchsia-400/50 text-center ticket-reveal">
+            <p className="text-sm text-white/60 mb-1">
+              {destinationRevealed ? "You're going to" : 'Final reveal (members see this later)'}
+            </p>
+            <p className="text-3xl font-bold flex items-center justify-center gap-2">
+              <MapPin className="w-7 h-7 text-fuchsia-400" />
+              {trip.destination}
+            </p>
+            {trip.destination_country && (
+              <p className="text-white/60 mt-1">{trip.destination_country}</p>
+            )}
+          </div>
+        ) : (
+          <div className="p-4 rounded-xl bg-white/5 text-center">
+            <p className="text-2xl mb-1">🎁</p>
+            <p className="text-sm text-white/60">
+              Destination revealed in {formatTimeLeft(Math.max(destinationRevealAt - now, 0))}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import { useEffect, useState } from 'react';
+import { LayoutTemplate, Loader2, Stamp, Trash2, Save } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  applyDayTemplate,
+  deleteDayTemplate,
+  fetchDayTemplates,
+  getPlannedDays,
+  saveDayTemplate,
+} from '../lib/dayTemplates';
+import { toDateKey } from '../lib/recurrence';
+import type { DayTemplate, ScheduleItem } from '../types';
+
+const formatDay = (dateKey: string) =>
+  new Date(`${dateKey}T12:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+// Day Templates Modal - stamp a saved day programme onto a trip day, or save a day as one
+export default function DayTemplatesModal({
+  tripId,
+  schedule,
+  tripStartDate,
+  tripEndDate,
+  defaultDate,
+  onClose,
+  onApplied,
+}: {
+  tripId: string;
+  schedule: ScheduleItem[]; // Expanded, so recurring items are saved with the day
+  tripStartDate?: string;
+  tripEndDate?: string;
+  defaultDate?: string;
+  onClose: () => void;
+  onApplied: () => void;
+}) {
+  const { user } = useAuth();
+  const plannedDays = getPlannedDays(schedule);
+  const firstDay = tripStartDate ? toDateKey(new Date(tripStartDate)) : '';
+  const lastDay = tripEndDate ? toDateKey(new Date(tripEndDate)) : '';
+
+  const [templates, setTemplates] = useState<DayTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null); // Template id being applied or deleted, 'save' while saving
+  const [error, setError] = useState('');
+  const [applyDate, setApplyDate] = useState(defaultDate || firstDay);
+  const [saveDate, setSaveDate] = useState(plannedDays[0] || '');
+  const [saveName, setSaveName] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchDayTemplates()
+      .then((data) => {
+        if (!cancelled) setTemplates(data);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err.message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  async function handleApply(template: DayTemplate) {
+    if (!applyDate) {
+      setError('Pick a day to add the template to');
+      return;
+    }
+    setBusy(template.id);
+    setError('');
+    try {
+      await applyDayTemplate(tripId, template, applyDate);
+      onApplied();
+    } catch (err) {
+      setError(`Failed to apply "${template.name}": ${err instanceof Error ? err.message : err}`);
+    }
+    setBusy(null);
+  }
+
+  async function handleDelete(template: DayTemplate) {
+    if (!confirm(`Delete the template "${template.name}"?`)) return;
+    setBusy(template.id);
+    setError('');
+    try {
+      await deleteDayTemplate(template.id);
+      setTemplates((prev) => prev.filter((t) => t.id !== template.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+    setBusy(null);
+  }
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    if (!user || !saveDate || !saveName.trim()) return;
+
+    const dayItems = schedule.filter((item) => toDateKey(new Date(item.start_time)) === saveDate);
+    setBusy('save');
+    setError('');
+    try {
+      await saveDayTemplate(user.id, saveName.trim(), dayItems);
+      setTemplates(await fetchDayTemplates());
+      setSaveName('');
+    } catch (err) {
+      setError(`Failed to save template: ${err instanceof Error ? err.message : err}`);
+    }
+    setBusy(null);
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-slate-800 border border-white/10 rounded-2xl p-6 max-w-lg w-full max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center gap-3 mb-6">
+          <div className="w-10 h-10 rounded-full bg-gradient-to-br from-green-500 to-blue-500 flex items-center justify-center">
+            <LayoutTemplate className="w-5 h-5" />
+          </div>
+          <div>
+            <h2 className="text-xl font-bold">Day Templates</h2>
+            <p className="text-sm text-white/50">Reuse a day programme on any day of any trip</p>
+          </div>
+        </div>
+
+        {error && (
+          <div className="p-3 mb-4 bg-red-500/20 border border-red-500/50 rounded-lg text-red-200 text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-white/70 mb-2">
+            Add to day
+          </label>
+          <input
+            type="date"
+            value={applyDate}
+            onChange={(e) => setApplyDate(e.target.value)}
+            min={firstDay || undefined}
+            max={lastDay || undefined}
+            className="input-field"
+          />
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-white/50" />
+          </div>
+        ) : templates.length === 0 ? (
+          <p className="text-sm text-white/50 py-4 text-center">
+            No templates yet. Save a planned day below to start your library.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {templates.map((template) => (
+              <div key={template.id} className="p-3 bg-white/5 border border-white/10 rounded-xl flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="font-medium">{template.name}</p>
+                  <p className="text-xs text-white/50 truncate">
+                    {template.items.map((item) => `${item.start} ${item.title}`).join(' · ')}
+                  </p>
+                </div>
+                <div className="flex gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => handleApply(template)}
+                    disabled={busy !== null}
+                    className="flex items-center gap-1 px-3 py-1.5 bg-green-500/20 text-green-400 rounded-lg hover:bg-green-500/30 transition-colors text-sm"
+                    title={applyDate ? `Add to ${formatDay(applyDate)}` : 'Pick a day first'}
+                  >
+                    {busy === template.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Stamp className="w-4 h-4" />}
+                    Apply
+                  </button>
+                  <button
+                    onClick={() => handleDelete(template)}
+                    disabled={busy !== null}
+                    className="p-2 hover:bg-red-500/20 rounded-lg transition-colors"
+                    title="Delete template"
+                  >
+                    <Trash2 className="w-4 h-4 text-red-400" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {plannedDays.length > 0 && (
+          <form onSubmit={handleSave} className="mt-6 pt-6 border-t border-white/10 space-y-3">
+            <p className="text-sm font-medium text-white/70">Save a day as template</p>
+            <div className="grid grid-cols-2 gap-3">
+              <select
+                value={saveDate}
+                onChange={(e) => setSaveDate(e.target.value)}
+                className="input-field bg-slate-700 text-white"
+              >
+                {plannedDays.map((day) => (
+                  <option key={day} value={day} className="bg-slate-700 text-white">{formatDay(day)}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={saveName}
+                onChange={(e) => setSaveName(e.target.value)}
+                className="input-field"
+                placeholder="e.g., City day"
+                required
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={busy !== null}
+              className="btn-secondary w-full flex items-center justify-center gap-2"
+            >
+              {busy === 'save' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              Save Template
+            </button>
+          </form>
+        )}
+
+        <button onClick={onClose} className="w-full mt-6 btn-secondary">
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
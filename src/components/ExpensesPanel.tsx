@@ -0,0 +1,472 @@
+import { useState, useEffect } from 'react';
+import { Plus, Wallet, ArrowRight, Pencil, Trash2, X, Calendar } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  getExpenseShares,
+  getSplitError,
+  getBalances,
+  settleUp,
+  formatMoney,
+  fetchExpenses,
+  createExpense,
+  updateExpense,
+  deleteExpense,
+} from '../lib/expenses';
+import type { TripExpense, TripMember, ExpenseSplitMode, ExpenseParticipant } from '../types';
+
+interface ExpensesPanelProps {
+  tripId: string;
+  members: TripMember[];
+  isAdmin: boolean;
+}
+
+const CURRENCIES = ['EUR', 'USD', 'GBP', 'CHF', 'SEK', 'NOK', 'DKK', 'PLN', 'CZK'];
+
+const splitModeLabels: Record<ExpenseSplitMode, string> = {
+  equal: 'Equally',
+  shares: 'By shares',
+  exact: 'Exact amounts',
+};
+
+export default function ExpensesPanel({ tripId, members, isAdmin }: ExpensesPanelProps) {
+  const { user } = useAuth();
+  const [expenses, setExpenses] = useState<TripExpense[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [showForm, setShowForm] = useState(false);
+  const [editingExpense, setEditingExpense] = useState<TripExpense | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchExpenses(tripId)
+      .catch((err) => {
+        console.error('[Expenses] Load error:', err);
+        return [];
+      })
+      .then((result) => {
+        if (cancelled) return;
+        setExpenses(result);
+        setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tripId, reloadKey]);
+
+  const balances = getBalances(expenses);
+  const transfers = settleUp(balances);
+  const memberName = (userId: string) =>
+    userId === user?.id ? 'You' : members.find((m) => m.user_id === userId)?.user?.name || 'Former member';
+
+  function openForm(expense: TripExpense | null = null) {
+    setEditingExpense(expense);
+    setShowForm(true);
+  }
+
+  async function handleDelete(expense: TripExpense) {
+    if (!confirm(`Delete "${expense.description}"?`)) return;
+
+    try {
+      await deleteExpense(expense.id);
+    } catch (err) {
+      alert(`Failed to delete expense: ${err instanceof Error ? err.message : err}`);
+      return;
+    }
+    setReloadKey((key) => key + 1);
+  }
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin w-8 h-8 border-2 border-blue-500 border-t-transparent rounded-full mx-auto" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid lg:grid-cols-3 gap-6">
+      {/* Balances & settle up */}
+      <div className="space-y-6">
+        <div className="card p-6">
+          <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+            <Wallet className="w-5 h-5 text-green-400" />
+            Balances
+          </h2>
+          {Object.keys(balances).length === 0 ? (
+            <p className="text-sm text-white/50">No expenses yet</p>
+          ) : (
+            <div className="space-y-4">
+              {Object.entries(balances).map(([currency, byMember]) => (
+                <div key={currency} className="space-y-2">
+                  {Object.keys(balances).length > 1 && (
+                    <p className="text-xs text-white/40 uppercase tracking-wider">{currency}</p>
+                  )}
+                  {Object.entries(byMember)
+                    .sort(([, a], [, b]) => b - a)
+                    .map(([userId, amount]) => (
+                      <div key={userId} className="flex items-center justify-between text-sm">
+                        <span>{memberName(userId)}</span>
+                        <span
+                          className={
+                            amount > 0.004 ? 'text-green-400' : amount < -0.004 ? 'text-red-400' : 'text-white/40'
+                          }
+                        >
+                          {amount > 0.004 ? '+' : ''}
+                          {formatMoney(amount, currency)}
+                        </span>
+                      </div>
+                    ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="card p-6">
+          <h2 className="text-lg font-semibold mb-4">Settle Up</h2>
+          {transfers.length === 0 ? (
+            <p className="text-sm text-white/50">Everyone is square</p>
+          ) : (
+            <div className="space-y-2">
+              {transfers.map((transfer, index) => (
+                <div
+                  key={index}
+                  className={`flex items-center gap-2 p-3 rounded-xl text-sm ${
+                    transfer.from === user?.id || transfer.to === user?.id ? 'bg-blue-500/20' : 'bg-white/5'
+                  }`}
+                >
+                  <span className="font-medium">{memberName(transfer.from)}</span>
+                  <ArrowRight className="w-4 h-4 text-white/40 shrink-0" />
+                  <span className="font-medium flex-1">{memberName(transfer.to)}</span>
+                  <span className="font-bold">{formatMoney(transfer.amount, transfer.currency)}</span>
+                </div>
+              ))}
+              <p className="text-xs text-white/40 pt-1">
+                {transfers.length} {transfers.length === 1 ? 'payment settles' : 'payments settle'} all debts
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Expense list */}
+      <div className="lg:col-span-2 card p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold">Expenses</h2>
+          <button onClick={() => openForm()} className="btn-primary text-sm flex items-center gap-2">
+            <Plus className="w-4 h-4" />
+            Add Expense
+          </button>
+        </div>
+
+        {expenses.length === 0 ? (
+          <div className="text-center py-12 text-white/50">
+            <Wallet className="w-12 h-12 mx-auto mb-3 text-white/20" />
+            <p>Track who paid what and split it fairly</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {expenses.map((expense) => {
+              const myShare = user ? getExpenseShares(expense)[user.id] : undefined;
+              const canEdit = isAdmin || expense.created_by === user?.id;
+              return (
+                <div key={expense.id} className="flex items-center gap-3 p-4 bg-white/5 rounded-xl">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{expense.description}</p>
+                    <p className="text-xs text-white/50 flex items-center gap-1">
+                      <Calendar className="w-3 h-3" />
+                      {new Date(expense.spent_at).toLocaleDateString('en-US', { day: 'numeric', month: 'short' })}
+                      {' · '}
+                      {memberName(expense.paid_by)} paid · split {splitModeLabels[expense.split_mode].toLowerCase()}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-bold">{formatMoney(expense.amount, expense.currency)}</p>
+                    {myShare !== undefined && (
+                      <p className="text-xs text-white/50">Your share {formatMoney(myShare, expense.currency)}</p>
+                    )}
+                  </div>
+                  {canEdit && (
+                    <div className="flex gap-1">
+                      <button
+                        onClick={() => openForm(expense)}
+                        className="p-2 hover:bg-white/10 rounded-lg"
+                        title="Edit expense"
+                      >
+                        <Pencil className="w-4 h-4 text-white/60" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(expense)}
+                        className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg"
+                        title="Delete expense"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {showForm && user && (
+        <ExpenseFormModal
+          tripId={tripId}
+          members={members}
+          currentUserId={user.id}
+          expense={editingExpense}
+          onClose={() => setShowForm(false)}
+          onSaved={() => {
+            setShowForm(false);
+            setReloadKey((key) => key + 1);
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+function ExpenseFormModal({
+  tripId,
+  members,
+  currentUserId,
+  expense,
+  onClose,
+  onSaved,
+}: {
+  tripId: string;
+  members: TripMember[];
+  currentUserId: string;
+  expense: TripExpense | null; // Set when editing
+  onClose: () => void;
+  onSaved: () => void;
+}) {
+  const [description, setDescription] = useState(expense?.description || '');
+  const [amount, setAmount] = useState(expense?.amount.toString() || '');
+  const [currency, setCurrency] = useState(expense?.currency || 'EUR');
+  const [paidBy, setPaidBy] = useState(expense?.paid_by || currentUserId);
+  const [spentAt, setSpentAt] = useState((expense?.spent_at || new Date().toISOString()).split('T')[0]);
+  const [splitMode, setSplitMode] = useState<ExpenseSplitMode>(expense?.split_mode || 'equal');
+  const [participants, setParticipants] = useState<ExpenseParticipant[]>(
+    expense?.participants || members.map((m) => ({ user_id: m.user_id }))
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  function toggleParticipant(userId: string) {
+    setParticipants((current) =>
+      current.some((p) => p.user_id === userId)
+        ? current.filter((p) => p.user_id !== userId)
+        : [...current, { user_id: userId }]
+    );
+  }
+
+  function updateParticipant(userId: string, changes: Partial<ExpenseParticipant>) {
+    setParticipants((current) => current.map((p) => (p.user_id === userId ? { ...p, ...changes } : p)));
+  }
+
+  const draft = { amount: parseFloat(amount) || 0, split_mode: splitMode, participants };
+  const preview = getExpenseShares(draft);
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+
+    const splitError = getSplitError(draft);
+    if (splitError) {
+      setError(splitError);
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+
+    // Only keep the fields that matter for the chosen split mode
+    const cleanParticipants = participants.map((p) => ({
+      user_id: p.user_id,
+      ...(splitMode === 'shares' ? { share: p.share ?? 1 } : {}),
+      ...(splitMode === 'exact' ? { amount: p.amount || 0 } : {}),
+    }));
+
+    const expenseData = {
+      description: description.trim(),
+      amount: draft.amount,
+      currency,
+      paid_by: paidBy,
+      split_mode: splitMode,
+      participants: cleanParticipants,
+      spent_at: new Date(`${spentAt}T12:00`).toISOString(), // Midday keeps the date stable across timezones
+    };
+
+    try {
+      if (expense) {
+        await updateExpense(expense.id, expenseData);
+      } else {
+        await createExpense(tripId, currentUserId, expenseData);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return;
+    } finally {
+      setSaving(false);
+    }
+    onSaved();
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="card p-6 max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold">{expense ? 'Edit Expense' : 'Add Expense'}</h2>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/50 rounded-xl p-3 mb-4 text-red-200 text-sm">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSave} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-2">Description</label>
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="input-field"
+              placeholder="Dinner, taxi, museum tickets..."
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-white/70 mb-2">Amount</label>
+              <input
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="input-field"
+                placeholder="0.00"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-white/70 mb-2">Currency</label>
+              <select value={currency} onChange={(e) => setCurrency(e.target.value)} className="input-field">
+                {CURRENCIES.map((c) => (
+                  <option key={c} value={c}>{c}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-white/70 mb-2">Paid by</label>
+              <select value={paidBy} onChange={(e) => setPaidBy(e.target.value)} className="input-field">
+                {members.map((m) => (
+                  <option key={m.user_id} value={m.user_id}>
+                    {m.user_id === currentUserId ? 'You' : m.user?.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-white/70 mb-2">Date</label>
+              <input
+                type="date"
+                value={spentAt}
+                onChange={(e) => setSpentAt(e.target.value)}
+                className="input-field"
+                required
+              />
+            </div>
+          </div>
+
+          {/* Split */}
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-2">Split</label>
+            <div className="inline-flex bg-white/5 rounded-lg p-1 mb-3">
+              {(Object.keys(splitModeLabels) as ExpenseSplitMode[]).map((mode) => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => setSplitMode(mode)}
+                  className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                    splitMode === mode ? 'bg-blue-500 text-white' : 'text-white/60 hover:text-white'
+                  }`}
+                >
+                  {splitModeLabels[mode]}
+                </button>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              {members.map((member) => {
+                const participant = participants.find((p) => p.user_id === member.user_id);
+                return (
+                  <div key={member.user_id} className="flex items-center gap-3 p-2 bg-white/5 rounded-lg">
+                    <label className="flex items-center gap-2 flex-1 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={!!participant}
+                        onChange={() => toggleParticipant(member.user_id)}
+                        className="w-4 h-4 rounded"
+                      />
+                      <span className="text-sm">{member.user_id === currentUserId ? 'You' : member.user?.name}</span>
+                    </label>
+                    {participant && splitMode === 'shares' && (
+                      <input
+                        type="number"
+                        min="0"
+                        step="1"
+                        value={participant.share ?? 1}
+                        onChange={(e) => updateParticipant(member.user_id, { share: parseFloat(e.target.value) || 0 })}
+                        className="input-field w-20 py-1 text-sm"
+                        title="Shares"
+                      />
+                    )}
+                    {participant && splitMode === 'exact' && (
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={participant.amount ?? ''}
+                        onChange={(e) => updateParticipant(member.user_id, { amount: parseFloat(e.target.value) || 0 })}
+                        className="input-field w-24 py-1 text-sm"
+                        placeholder="0.00"
+                      />
+                    )}
+                    {participant && splitMode !== 'exact' && (
+                      <span className="text-xs text-white/50 w-20 text-right">
+                        {formatMoney(preview[member.user_id] || 0, currency)}
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            <button type="button" onClick={onClose} className="btn-secondary flex-1">
+              Cancel
+            </button>
+            <button type="submit" disabled={saving} className="btn-primary flex-1">
+              {saving ? 'Saving...' : 'Save Expense'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
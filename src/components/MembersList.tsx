@@ -10,7 +10,7 @@ import {
   Copy,
   Check,
 } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { removeMember, setMemberRole } from '../lib/members';
 import type { TripMember } from '../types';
 
 interface MembersListProps {
@@ -18,6 +18,7 @@ interface MembersListProps {
   isAdmin: boolean;
   tripId: string;
   lobbyCode?: string;
+  onRefresh: () => void;
 }
 
 export default function MembersList({
@@ -25,6 +26,7 @@ export default function MembersList({
   isAdmin,
   tripId,
   lobbyCode,
+  onRefresh,
 }: MembersListProps) {
   const [showLocationMap, setShowLocationMap] = useState(false);
   const [showInvite, setShowInvite] = useState(false);
@@ -123,6 +125,7 @@ export default function MembersList({
                     isAdmin={isAdmin}
                     isCurrentUserAdmin
                     tripId={tripId}
+                    onChange={onRefresh}
                   />
                 ))}
               </div>
@@ -143,6 +146,7 @@ export default function MembersList({
                     member={member}
                     isAdmin={isAdmin}
                     tripId={tripId}
+                    onChange={onRefresh}
                   />
                 ))}
               </div>
@@ -158,26 +162,35 @@ function MemberCard({
   member,
   isAdmin,
   isCurrentUserAdmin = false,
+  onChange,
 }: {
   member: TripMember;
   isAdmin: boolean;
   isCurrentUserAdmin?: boolean;
   tripId: string;
+  onChange: () => void;
 }) {
   const [showMenu, setShowMenu] = useState(false);
 
   async function handleRemove() {
     if (!confirm(`Are you sure you want to remove ${member.user?.name}?`)) return;
-    await supabase.from('trip_members').delete().eq('id', member.id);
-    window.location.reload();
+    try {
+      await removeMember(member.id);
+    } catch (err) {
+      alert(`Failed to remove member: ${err instanceof Error ? err.message : err}`);
+      return;
+    }
+    onChange();
   }
 
   async function handleMakeAdmin() {
-    await supabase
-      .from('trip_members')
-      .update({ role: 'admin' })
-      .eq('id', member.id);
-    window.location.reload();
+    try {
+      await setMemberRole(member.id, 'admin');
+    } catch (err) {
+      alert(`Failed to make admin: ${err instanceof Error ? err.message : err}`);
+      return;
+    }
+    onChange();
   }
 
   return (
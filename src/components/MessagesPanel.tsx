@@ -5,10 +5,20 @@ import {
   MessageSquare,
   Image,
   X,
+  BarChart3,
+  Clock,
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase } from '../lib/supabase';
+import { useOnline } from '../contexts/useOnline';
+import { postMessage, postQueuedMessage, setMessagePinned, uploadChatMedia } from '../lib/messages';
+import { fetchQueuedMessages, queueMessage, removeQueuedMessage, type QueuedMessage } from '../lib/offline';
 import type { TripMessage } from '../types';
+import PollCard from './PollCard';
+import PollComposer from './PollComposer';
+
+// Queued messages that fail to send are tried again after 5s, 10s, 20s... up to every 5 minutes
+const RETRY_BASE_MS = 5000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
 
 interface MessagesPanelProps {
   messages: TripMessage[];
@@ -24,19 +34,66 @@ export default function MessagesPanel({
   onRefresh,
 }: MessagesPanelProps) {
   const { user } = useAuth();
+  const online = useOnline();
   const [newMessage, setNewMessage] = useState('');
   const [sending, setSending] = useState(false);
   const [mediaFile, setMediaFile] = useState<File | null>(null);
   const [mediaPreview, setMediaPreview] = useState<string | null>(null);
+  const [showPollComposer, setShowPollComposer] = useState(false);
+  const [queued, setQueued] = useState<QueuedMessage[]>([]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const replaying = useRef(false);
+  const retryTimer = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const retryAttempt = useRef(0);
+  const [retryCount, setRetryCount] = useState(0);
 
   // Reverse messages for display (newest at bottom)
   const sortedMessages = [...messages].reverse();
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, queued]);
+
+  // Messages written while offline are kept on the device and sent, oldest first, once
+  // there's a connection again. Realtime then adds them to the chat. Each is sent with its
+  // queue id, so one that went through before it could be removed from the queue isn't
+  // posted again on the next try.
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+
+    fetchQueuedMessages(tripId, user.id)
+      .then(async (pending) => {
+        if (cancelled) return;
+        setQueued(pending);
+        if (!online || replaying.current || pending.length === 0) return;
+
+        replaying.current = true;
+        clearTimeout(retryTimer.current);
+        try {
+          for (const item of pending) {
+            await postQueuedMessage(tripId, user.id, item.id, item.message);
+            await removeQueuedMessage(item.id);
+            setQueued((prev) => prev.filter((other) => other.id !== item.id));
+          }
+          retryAttempt.current = 0;
+        } catch (err) {
+          const delay = Math.min(RETRY_BASE_MS * 2 ** retryAttempt.current++, RETRY_MAX_MS);
+          console.error(`[Messages] Failed to send queued messages, retrying in ${delay / 1000}s:`, err);
+          retryTimer.current = setTimeout(() => setRetryCount((count) => count + 1), delay);
+        } finally {
+          replaying.current = false;
+        }
+      })
+      .catch((err) => console.error('[Messages] Failed to load queued messages:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tripId, user, online, retryCount]);
+
+  useEffect(() => () => clearTimeout(retryTimer.current), []);
 
   function handleMediaSelect(e: React.ChangeEvent<HTMLInputElement>) {
     const file = e.target.files?.[0];
@@ -62,38 +119,46 @@ export default function MessagesPanel({
     e.preventDefault();
     if ((!newMessage.trim() && !mediaFile) || !user) return;
 
+    if (!online) {
+      if (mediaFile) {
+        alert('Photos and videos can only be sent with a connection');
+        return;
+      }
+
+      try {
+        const item = await queueMessage(tripId, user.id, { content: newMessage.trim() });
+        setQueued((prev) => [...prev, item]);
+      } catch (err) {
+        alert(`Failed to save message: ${err instanceof Error ? err.message : err}`);
+        return;
+      }
+      setNewMessage('');
+      return;
+    }
+
     setSending(true);
 
-    let mediaUrl: string | null = null;
+    let mediaUrl: string | undefined;
 
-    // Upload media if present
+    // Upload media if present, the text is still sent when that fails
     if (mediaFile) {
-      const fileExt = mediaFile.name.split('.').pop()?.toLowerCase();
-      const fileName = `${tripId}/chat/${Date.now()}-${Math.random().toString(36).substr(2, 9)}.${fileExt}`;
-
-      const { error: uploadError, data: uploadData } = await supabase.storage
-        .from('trip-media')
-        .upload(fileName, mediaFile, {
-          cacheControl: '3600',
-          upsert: false
-        });
-
-      if (!uploadError && uploadData) {
-        const { data: { publicUrl } } = supabase.storage
-          .from('trip-media')
-          .getPublicUrl(fileName);
-        mediaUrl = publicUrl;
+      try {
+        mediaUrl = await uploadChatMedia(tripId, mediaFile);
+      } catch (err) {
+        console.error('[Messages] Media upload error:', err);
       }
     }
 
-    await supabase.from('trip_messages').insert({
-      trip_id: tripId,
-      sender_id: user.id,
-      content: newMessage.trim() || (mediaUrl ? '📷' : ''),
-      type: 'update',
-      is_pinned: false,
-      media_url: mediaUrl,
-    });
+    try {
+      await postMessage(tripId, user.id, {
+        content: newMessage.trim() || (mediaUrl ? '📷' : ''),
+        media_url: mediaUrl,
+      });
+    } catch (err) {
+      alert(`Failed to send message: ${err instanceof Error ? err.message : err}`);
+      setSending(false);
+      return;
+    }
 
     setNewMessage('');
     clearMedia();
@@ -102,10 +167,12 @@ export default function MessagesPanel({
   }
 
   async function togglePin(messageId: string, currentPinned: boolean) {
-    await supabase
-      .from('trip_messages')
-      .update({ is_pinned: !currentPinned })
-      .eq('id', messageId);
+    try {
+      await setMessagePinned(messageId, !currentPinned);
+    } catch (err) {
+      alert(`Failed to pin message: ${err instanceof Error ? err.message : err}`);
+      return;
+    }
     onRefresh();
   }
 
@@ -113,7 +180,7 @@ export default function MessagesPanel({
     <div className="flex flex-col h-[500px] sm:h-[600px]">
       {/* Messages List */}
       <div className="flex-1 overflow-y-auto space-y-3 sm:space-y-4 mb-4 px-1">
-        {sortedMessages.length === 0 ? (
+        {sortedMessages.length === 0 && queued.length === 0 ? (
           <div className="text-center py-12">
             <MessageSquare className="w-12 h-12 text-white/20 mx-auto mb-4" />
             <p className="text-white/50">No messages yet</p>
@@ -130,6 +197,9 @@ export default function MessagesPanel({
             />
           ))
         )}
+        {queued.map((item) => (
+          <QueuedBubble key={item.id} message={item} />
+        ))}
         <div ref={messagesEndRef} />
       </div>
 
@@ -169,11 +239,19 @@ export default function MessagesPanel({
           >
             <Image className="w-5 h-5" />
           </button>
+          <button
+            type="button"
+            onClick={() => setShowPollComposer(true)}
+            className="btn-secondary px-2 sm:px-3 flex-shrink-0"
+            title="Create a poll"
+          >
+            <BarChart3 className="w-5 h-5" />
+          </button>
           <input
             type="text"
             value={newMessage}
             onChange={(e) => setNewMessage(e.target.value)}
-            placeholder="Type a message..."
+            placeholder={online ? 'Type a message...' : 'Offline - sent when you reconnect'}
             className="input-field flex-1 min-w-0"
           />
           <button
@@ -189,6 +267,34 @@ export default function MessagesPanel({
           </button>
         </div>
       </form>
+
+      {showPollComposer && (
+        <PollComposer
+          tripId={tripId}
+          onClose={() => setShowPollComposer(false)}
+          onCreated={() => {
+            setShowPollComposer(false);
+            onRefresh();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+// Own message that's waiting for a connection
+function QueuedBubble({ message }: { message: QueuedMessage }) {
+  return (
+    <div className="flex justify-end">
+      <div className="max-w-[85%] sm:max-w-[80%]">
+        <div className="card p-2.5 sm:p-3 bg-blue-500/10 border-blue-500/20 opacity-70">
+          <p className="text-sm whitespace-pre-wrap break-words">{message.message.content}</p>
+        </div>
+        <div className="flex items-center gap-1 justify-end mt-1 text-xs text-white/40">
+          <Clock className="w-3 h-3" />
+          <span>Waiting for connection</span>
+        </div>
+      </div>
     </div>
   );
 }
@@ -255,8 +361,10 @@ function MessageBubble({
             </div>
           )}
 
-          {/* Text content - only show if not just emoji */}
-          {message.content && message.content !== '📷' && (
+          {/* Poll, or text content - only show if not just emoji */}
+          {message.poll_id ? (
+            <PollCard pollId={message.poll_id} isAdmin={isAdmin} />
+          ) : message.content && message.content !== '📷' && (
             <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
           )}
         </div>
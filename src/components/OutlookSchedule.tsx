@@ -10,25 +10,49 @@ import {
   Sparkles,
   X,
   Calendar,
-  Info,
-  Phone,
   Euro,
   Copy,
   Check,
-  Navigation,
-  Save,
   ExternalLink,
-  Plane,
-  Utensils,
   Hotel,
-  Camera,
-  Users,
-  Coffee,
   FileText,
   Loader2,
+  EyeOff,
+  CalendarPlus,
+  RefreshCw,
+  AlertTriangle,
+  LayoutTemplate,
 } from 'lucide-react';
-import { supabase } from '../lib/supabase';
-import type { ScheduleItem, Trip } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { getCalendarFeedUrl, resetCalendarFeedUrl, toWebcalUrl } from '../lib/calendar';
+import { parseCalendar } from '../lib/ical';
+import { getImportDiff, type ImportDiff, type ImportFieldChange } from '../lib/scheduleImport';
+import { resolveRevealPolicy, isStageRevealed } from '../lib/reveal';
+import { formatMoney } from '../lib/expenses';
+import { getItemCurrency, toCurrencyCode } from '../lib/budget';
+import {
+  createScheduleItem,
+  deleteRecurringItem,
+  deleteScheduleItem,
+  moveScheduleItem,
+  updateRecurringItem,
+  updateScheduleItem,
+  type RecurrenceScope,
+  type ScheduleItemFields,
+} from '../lib/schedule';
+import { expandRecurringItems } from '../lib/recurrence';
+import { summarizeRsvps } from '../lib/rsvp';
+import { checkSchedule, getIssuesByItem, getItemEnd, getOverlappingItems } from '../lib/scheduleChecks';
+import type { ScheduleItem, ScheduleRsvp, Trip, TripMember, TripSubgroup } from '../types';
+import BudgetPanel from './BudgetPanel';
+import AddScheduleModal from './AddScheduleModal';
+import ActivityDetailModal from './ActivityDetailModal';
+import AISuggestionsModal from './AISuggestionsModal';
+import RecurrenceScopeDialog from './RecurrenceScopeDialog';
+import DayTemplatesModal from './DayTemplatesModal';
+import AudienceBadges from './AudienceBadges';
+import RsvpHeadcount from './RsvpHeadcount';
+import { typeIcons } from './scheduleTypes';
 
 // Activity type colors
 const typeColors: Record<string, { bg: string; border: string; text: string }> = {
@@ -40,27 +64,39 @@ const typeColors: Record<string, { bg: string; border: string; text: string }> =
   meeting: { bg: 'bg-yellow-500/30', border: 'border-yellow-400', text: 'text-yellow-200' },
 };
 
-const typeColorsGradient: Record<string, string> = {
-  travel: 'from-blue-500 to-blue-600',
-  activity: 'from-fuchsia-500 to-fuchsia-600',
-  meal: 'from-orange-500 to-orange-600',
-  accommodation: 'from-purple-500 to-purple-600',
-  free_time: 'from-green-500 to-green-600',
-  meeting: 'from-yellow-500 to-yellow-600',
-};
-
-const typeIcons: Record<string, React.ReactNode> = {
-  travel: <Plane className="w-4 h-4" />,
-  activity: <Camera className="w-4 h-4" />,
-  meal: <Utensils className="w-4 h-4" />,
-  accommodation: <Hotel className="w-4 h-4" />,
-  free_time: <Coffee className="w-4 h-4" />,
-  meeting: <Users className="w-4 h-4" />,
-};
-
 // Hours to display (full 24 hours: 0-23 + 24 for midnight display)
 const HOURS = Array.from({ length: 25 }, (_, i) => i); // 0-24
 
+// Grid geometry - each hour row is 48px, drag and resize snap to 15 minutes
+const HOUR_HEIGHT = 48;
+const SNAP_MINUTES = 15;
+const DRAG_THRESHOLD_PX = 4;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+function snapTime(timestamp: number): number {
+  const step = SNAP_MINUTES * MINUTE_MS;
+  return Math.round(timestamp / step) * step;
+}
+
+interface DragState {
+  item: ScheduleItem;
+  mode: 'move' | 'resize';
+  originX: number;
+  originY: number;
+  originDate: string; // Day column the drag started in
+  start: number;
+  end: number;
+  active: boolean; // Past the threshold - until then it is still a click
+}
+
+// Saved times shown while the refetch is underway, keyed by item id
+interface PendingTimes {
+  previous: Pick<ScheduleItem, 'start_time' | 'end_time'>;
+  start_time: string;
+  end_time?: string;
+}
+
 interface OutlookScheduleProps {
   items: ScheduleItem[];
   tripStartDate: string;
@@ -69,17 +105,25 @@ interface OutlookScheduleProps {
   tripId: string;
   trip?: Trip | null;
   memberCount?: number;
-  onRefresh?: () => void;
+  members?: TripMember[];
+  subgroups?: TripSubgroup[];
+  rsvps?: ScheduleRsvp[];
+  onRsvpChange?: () => void; // Reloads the RSVPs only, the whole trip when not given
+  onRefresh?: () => void | Promise<void>; // Resolves once the schedule is refetched
 }
 
 export default function OutlookSchedule({
-  items,
+  items: storedItems,
   tripStartDate,
   tripEndDate,
   isAdmin,
   tripId,
   trip,
   memberCount,
+  members = [],
+  subgroups = [],
+  rsvps = [],
+  onRsvpChange,
   onRefresh,
 }: OutlookScheduleProps) {
   // Modal states
@@ -89,6 +133,21 @@ export default function OutlookSchedule({
   const [selectedActivity, setSelectedActivity] = useState<ScheduleItem | null>(null);
   const [showSuggestionsModal, setShowSuggestionsModal] = useState(false);
   const [showImportModal, setShowImportModal] = useState(false);
+  const [showSubscribeModal, setShowSubscribeModal] = useState(false);
+  const [showTemplatesModal, setShowTemplatesModal] = useState(false);
+  // Move or delete of a recurring occurrence, waiting for "this occurrence / all following"
+  const [scopePrompt, setScopePrompt] = useState<{
+    action: 'move' | 'delete';
+    item: ScheduleItem;
+    startTime?: string;
+    endTime?: string;
+  } | null>(null);
+
+  // Drag-and-drop rescheduling (admin only)
+  const dragRef = useRef<DragState | null>(null);
+  const suppressClickRef = useRef(false);
+  const [dragPreview, setDragPreview] = useState<{ id: string; start_time: string; end_time?: string; conflicts: number } | null>(null);
+  const [pendingTimes, setPendingTimes] = useState<Record<string, PendingTimes>>({});
 
   // Ref for scroll container
   const scrollContainerRef = useRef<HTMLDivElement>(null);
@@ -122,6 +181,25 @@ export default function OutlookSchedule({
 
   const daysToShow = isMobile ? 1 : viewMode;
 
+  // Recurring items show once per day they occur on
+  const items = useMemo(() => expandRecurringItems(storedItems, tripEndDate), [storedItems, tripEndDate]);
+  const getSeries = (item: ScheduleItem) =>
+    item.series_id ? storedItems.find(stored => stored.id === item.series_id) : undefined;
+
+  // Members only see items once their 'schedule_item' reveal stage is reached
+  const revealPolicy = useMemo(() => resolveRevealPolicy(trip), [trip]);
+  const isItemRevealed = (item: ScheduleItem) =>
+    isAdmin || isStageRevealed(revealPolicy, 'schedule_item', item.start_time);
+
+  // Feasibility warnings are for the people planning the trip
+  const issuesByItem = useMemo(
+    () => (isAdmin ? getIssuesByItem(checkSchedule(items, trip, subgroups)) : {}),
+    [isAdmin, items, trip, subgroups]
+  );
+
+  // Admins can aim items at sub-groups or members, everyone else only gets the items meant for them
+  const audienceOptions = isAdmin ? { subgroups, members } : undefined;
+
   // Calculate the date range for the trip
   const tripStart = new Date(tripStartDate);
   const tripEnd = tripEndDate ? new Date(tripEndDate) : tripStart;
@@ -165,12 +243,25 @@ export default function OutlookSchedule({
     setViewStartDate(new Date());
   };
 
+  // Items with the live drag preview and not yet refetched saves applied
+  const scheduleItems = useMemo(() => items.map(item => {
+    if (dragPreview?.id === item.id) {
+      return { ...item, start_time: dragPreview.start_time, end_time: dragPreview.end_time };
+    }
+    const pending = pendingTimes[item.id];
+    // Once the refetched item has moved on from its old times, the server copy wins
+    if (pending && pending.previous.start_time === item.start_time && pending.previous.end_time === item.end_time) {
+      return { ...item, start_time: pending.start_time, end_time: pending.end_time };
+    }
+    return item;
+  }), [items, dragPreview, pendingTimes]);
+
   // Separate accommodations from regular items
   const { accommodations, regularItems } = useMemo(() => {
     const acc: ScheduleItem[] = [];
     const reg: ScheduleItem[] = [];
 
-    items.forEach(item => {
+    scheduleItems.forEach(item => {
       if (item.type === 'accommodation') {
         acc.push(item);
       } else {
@@ -179,7 +270,7 @@ export default function OutlookSchedule({
     });
 
     return { accommodations: acc, regularItems: reg };
-  }, [items]);
+  }, [scheduleItems]);
 
   // Group regular items by date (excluding accommodations)
   const itemsByDate = useMemo(() => {
@@ -238,14 +329,14 @@ export default function OutlookSchedule({
       durationHours = (endTime.getTime() - startTime.getTime()) / (1000 * 60 * 60);
     }
 
-    // Position from top (relative to 0 AM start, 24 hours total)
-    const topPercent = (startHour / 24) * 100;
-    const heightPercent = (durationHours / 24) * 100;
+    // Position from top, in pixels so it lines up with the hour rows and the drag math
+    const top = Math.max(0, startHour * HOUR_HEIGHT);
+    const height = Math.min(durationHours * HOUR_HEIGHT, 24 * HOUR_HEIGHT - top);
 
     return {
-      top: `${Math.max(0, topPercent)}%`,
-      height: `${Math.min(heightPercent, 100 - topPercent)}%`,
-      minHeight: '48px',
+      top: `${top}px`,
+      height: `${height}px`,
+      minHeight: `${HOUR_HEIGHT / 2}px`,
     };
   };
 
@@ -257,18 +348,167 @@ export default function OutlookSchedule({
   };
 
   // Helper to refresh data
-  const refreshData = () => {
+  const refreshData = async () => {
     if (onRefresh) {
-      onRefresh();
+      await onRefresh();
     } else {
       window.location.reload();
     }
   };
 
+  // Save new times right away and roll back if the update fails
+  const saveItemTimes = async (item: ScheduleItem, startTime: string, endTime?: string, scope?: RecurrenceScope) => {
+    const series = getSeries(item);
+    if (series && !scope) {
+      setScopePrompt({ action: 'move', item, startTime, endTime });
+      return;
+    }
+
+    setPendingTimes(prev => ({
+      ...prev,
+      [item.id]: {
+        previous: { start_time: item.start_time, end_time: item.end_time },
+        start_time: startTime,
+        end_time: endTime,
+      },
+    }));
+
+    try {
+      if (series && scope) {
+        await updateRecurringItem(series, item, { start_time: startTime, end_time: endTime ?? null }, scope);
+      } else {
+        await moveScheduleItem(item.id, startTime, endTime);
+      }
+    } catch (error) {
+      console.error('[OutlookSchedule] Failed to reschedule:', error);
+      clearPendingTimes(item.id);
+      alert(`Could not move "${item.title}": ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+    // From the refetch on the server copy is shown, also when it ended up back at the old times
+    await refreshData();
+    clearPendingTimes(item.id);
+  };
+
+  const clearPendingTimes = (id: string) => {
+    setPendingTimes(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  };
+
+  const handleItemPointerDown = (
+    e: React.PointerEvent<HTMLElement>,
+    item: ScheduleItem,
+    mode: DragState['mode'],
+    dateStr: string
+  ) => {
+    if (!isAdmin || e.button !== 0) return;
+    // Touch moves scroll the calendar; only the resize handle takes touch drags
+    if (mode === 'move' && e.pointerType === 'touch') return;
+
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    suppressClickRef.current = false;
+    dragRef.current = {
+      item,
+      mode,
+      originX: e.clientX,
+      originY: e.clientY,
+      originDate: dateStr,
+      start: new Date(item.start_time).getTime(),
+      end: getItemEnd(item),
+      active: false,
+    };
+  };
+
+  const getDragTimes = (drag: DragState, e: React.PointerEvent) => {
+    const deltaMs = ((e.clientY - drag.originY) / HOUR_HEIGHT) * 60 * MINUTE_MS;
+
+    if (drag.mode === 'resize') {
+      return { start: drag.start, end: Math.max(snapTime(drag.end + deltaMs), drag.start + SNAP_MINUTES * MINUTE_MS) };
+    }
+
+    // Moving sideways into another day column keeps the time of day
+    const column = document
+      .elementsFromPoint(e.clientX, e.clientY)
+      .find((el): el is HTMLElement => el instanceof HTMLElement && !!el.dataset.scheduleDate);
+    const dayDelta = column
+      ? Math.round((Date.parse(column.dataset.scheduleDate!) - Date.parse(drag.originDate)) / DAY_MS)
+      : 0;
+
+    const startDate = new Date(snapTime(drag.start + deltaMs));
+    startDate.setDate(startDate.getDate() + dayDelta);
+    const start = startDate.getTime();
+    return { start, end: start + (drag.end - drag.start) };
+  };
+
+  const handleItemPointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (!drag.active && Math.hypot(e.clientX - drag.originX, e.clientY - drag.originY) < DRAG_THRESHOLD_PX) return;
+
+    drag.active = true;
+    const { start, end } = getDragTimes(drag, e);
+    setDragPreview({
+      id: drag.item.id,
+      start_time: new Date(start).toISOString(),
+      end_time: drag.mode === 'resize' || drag.item.end_time ? new Date(end).toISOString() : undefined,
+      conflicts: getOverlappingItems(drag.item, start, end, items, subgroups).length,
+    });
+  };
+
+  const handleItemPointerUp = async (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag?.active) return; // A plain click opens the detail modal
+
+    suppressClickRef.current = true;
+    setDragPreview(null);
+
+    const { start, end } = getDragTimes(drag, e);
+    if (start === drag.start && end === drag.end) return;
+
+    const conflicts = getOverlappingItems(drag.item, start, end, items, subgroups);
+    if (
+      conflicts.length > 0
+      && !confirm(`"${drag.item.title}" would overlap with ${conflicts.map(c => `"${c.title}"`).join(', ')}. Move it anyway?`)
+    ) {
+      return;
+    }
+
+    await saveItemTimes(
+      drag.item,
+      new Date(start).toISOString(),
+      drag.mode === 'resize' || drag.item.end_time ? new Date(end).toISOString() : undefined
+    );
+  };
+
+  const handleItemPointerCancel = () => {
+    dragRef.current = null;
+    setDragPreview(null);
+  };
+
   // Handle delete
-  const handleDelete = async (item: ScheduleItem) => {
-    if (!confirm('Are you sure you want to delete this activity?')) return;
-    await supabase.from('schedule_items').delete().eq('id', item.id);
+  const handleDelete = async (item: ScheduleItem, scope?: RecurrenceScope) => {
+    const series = getSeries(item);
+    if (series && !scope) {
+      setScopePrompt({ action: 'delete', item });
+      return;
+    }
+    if (!series && !confirm('Are you sure you want to delete this activity?')) return;
+
+    try {
+      if (series && scope) {
+        await deleteRecurringItem(series, item, scope);
+      } else {
+        await deleteScheduleItem(item.id);
+      }
+    } catch (error) {
+      alert(`Failed to delete activity: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
     refreshData();
   };
 
@@ -316,39 +556,59 @@ export default function OutlookSchedule({
           )}
         </div>
 
-        <div className="text-lg font-semibold">
-          {displayDates[0].toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+        <div className="flex items-center gap-3 flex-wrap">
+          <div className="text-lg font-semibold">
+            {displayDates[0].toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+          </div>
+          <BudgetPanel schedule={items} memberCount={memberCount || 1} trip={trip} compact />
         </div>
 
-        {isAdmin && (
-          <div className="flex items-center gap-2 flex-wrap">
-            <button
-              onClick={() => setShowImportModal(true)}
-              className="flex items-center gap-2 px-3 py-1.5 bg-blue-500/20 text-blue-400 rounded-lg hover:bg-blue-500/30 transition-colors text-sm"
-            >
-              <FileText className="w-4 h-4" />
-              <span className="hidden sm:inline">AI Import</span>
-            </button>
-            <button
-              onClick={() => setShowSuggestionsModal(true)}
-              className="flex items-center gap-2 px-3 py-1.5 bg-fuchsia-500/20 text-fuchsia-400 rounded-lg hover:bg-fuchsia-500/30 transition-colors text-sm"
-            >
-              <Sparkles className="w-4 h-4" />
-              <span className="hidden sm:inline">Suggestions</span>
-            </button>
-            <button
-              onClick={() => {
-                setAddModalDate(displayDates[0].toISOString().split('T')[0]);
-                setAddModalHour(undefined);
-                setShowAddModal(true);
-              }}
-              className="flex items-center gap-2 px-3 py-1.5 bg-green-500/20 text-green-400 rounded-lg hover:bg-green-500/30 transition-colors text-sm"
-            >
-              <Plus className="w-4 h-4" />
-              <span className="hidden sm:inline">Add</span>
-            </button>
-          </div>
-        )}
+        <div className="flex items-center gap-2 flex-wrap">
+          <button
+            onClick={() => setShowSubscribeModal(true)}
+            className="flex items-center gap-2 px-3 py-1.5 bg-white/5 text-white/70 rounded-lg hover:bg-white/10 transition-colors text-sm"
+            title="Subscribe in calendar"
+          >
+            <CalendarPlus className="w-4 h-4" />
+            <span className="hidden sm:inline">Subscribe in calendar</span>
+          </button>
+          {isAdmin && (
+            <>
+              <button
+                onClick={() => setShowImportModal(true)}
+                className="flex items-center gap-2 px-3 py-1.5 bg-blue-500/20 text-blue-400 rounded-lg hover:bg-blue-500/30 transition-colors text-sm"
+              >
+                <FileText className="w-4 h-4" />
+                <span className="hidden sm:inline">AI Import</span>
+              </button>
+              <button
+                onClick={() => setShowSuggestionsModal(true)}
+                className="flex items-center gap-2 px-3 py-1.5 bg-fuchsia-500/20 text-fuchsia-400 rounded-lg hover:bg-fuchsia-500/30 transition-colors text-sm"
+              >
+                <Sparkles className="w-4 h-4" />
+                <span className="hidden sm:inline">Suggestions</span>
+              </button>
+              <button
+                onClick={() => setShowTemplatesModal(true)}
+                className="flex items-center gap-2 px-3 py-1.5 bg-white/5 text-white/70 rounded-lg hover:bg-white/10 transition-colors text-sm"
+              >
+                <LayoutTemplate className="w-4 h-4" />
+                <span className="hidden sm:inline">Templates</span>
+              </button>
+              <button
+                onClick={() => {
+                  setAddModalDate(displayDates[0].toISOString().split('T')[0]);
+                  setAddModalHour(undefined);
+                  setShowAddModal(true);
+                }}
+                className="flex items-center gap-2 px-3 py-1.5 bg-green-500/20 text-green-400 rounded-lg hover:bg-green-500/30 transition-colors text-sm"
+              >
+                <Plus className="w-4 h-4" />
+                <span className="hidden sm:inline">Add</span>
+              </button>
+            </>
+          )}
+        </div>
       </div>
 
       {/* Accommodation bar - like Outlook all-day events */}
@@ -363,6 +623,7 @@ export default function OutlookSchedule({
             {/* Accommodation spans across days */}
             <div className="flex-1 relative min-h-[60px] py-2 px-1">
               {visibleAccommodations.map(acc => {
+                const revealed = isItemRevealed(acc);
                 const accStart = new Date(acc.start_time);
                 const accEnd = acc.end_time ? new Date(acc.end_time) : accStart;
                 const rangeStart = new Date(displayDates[0]);
@@ -385,11 +646,19 @@ export default function OutlookSchedule({
                       left: `${leftPercent}%`,
                       width: `${Math.max(widthPercent, 100 / totalDays)}%`,
                     }}
-                    onClick={() => setSelectedActivity(acc)}
+                    onClick={() => revealed && setSelectedActivity(acc)}
                   >
-                    <Hotel className="w-4 h-4 text-purple-300 flex-shrink-0" />
+                    {issuesByItem[acc.id] ? (
+                      <span title={issuesByItem[acc.id].map(issue => issue.message).join('\n')}>
+                        <AlertTriangle className="w-4 h-4 text-yellow-400 flex-shrink-0" />
+                      </span>
+                    ) : (
+                      <Hotel className="w-4 h-4 text-purple-300 flex-shrink-0" />
+                    )}
                     <div className="min-w-0 flex-1">
-                      <p className="text-sm font-medium text-purple-200 truncate">{acc.title}</p>
+                      <p className="text-sm font-medium text-purple-200 truncate">
+                        {revealed ? acc.title : 'Surprise stay'}
+                      </p>
                       <p className="text-xs text-white/50 truncate">
                         {accStart.toLocaleDateString('nl-NL', { day: 'numeric', month: 'short' })}
                         {acc.end_time && ` - ${accEnd.toLocaleDateString('nl-NL', { day: 'numeric', month: 'short' })}`}
@@ -444,7 +713,7 @@ export default function OutlookSchedule({
               </div>
 
               {/* Time slots */}
-              <div className="relative" style={{ height: `${HOURS.length * 48}px` }}>
+              <div className="relative" style={{ height: `${HOURS.length * HOUR_HEIGHT}px` }} data-schedule-date={dateStr}>
                 {/* Hour grid lines */}
                 {HOURS.map((_, index) => (
                   <div
@@ -472,21 +741,63 @@ export default function OutlookSchedule({
                   const style = getItemStyle(item);
                   const colors = typeColors[item.type] || typeColors.activity;
 
+                  if (!isItemRevealed(item)) {
+                    return (
+                      <div
+                        key={item.id}
+                        className="absolute left-1 right-1 rounded-lg p-2 overflow-hidden z-10 bg-slate-800/80 border-l-4 border-fuchsia-400"
+                        style={style}
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        <p className="font-medium text-sm text-fuchsia-300 flex items-center gap-1">
+                          <EyeOff className="w-3 h-3" />
+                          Surprise activity
+                        </p>
+                      </div>
+                    );
+                  }
+
+                  const preview = dragPreview?.id === item.id ? dragPreview : null;
+                  const itemIssues = issuesByItem[item.id];
+
                   return (
                     <div
                       key={item.id}
-                      className={`absolute left-1 right-1 rounded-lg p-2 overflow-hidden cursor-pointer z-10
+                      className={`absolute left-1 right-1 rounded-lg p-2 overflow-hidden z-10 select-none
                         ${colors.bg} border-l-4 ${colors.border}
-                        hover:brightness-110 transition-all group`}
+                        hover:brightness-110 group
+                        ${isAdmin ? 'cursor-grab' : 'cursor-pointer'}
+                        ${preview
+                          ? `z-20 cursor-grabbing shadow-lg ring-2 ${preview.conflicts > 0 ? 'ring-red-400' : 'ring-white/40'}`
+                          : 'transition-all'}`}
                       style={style}
+                      title={preview && preview.conflicts > 0 ? 'Overlaps with another item' : undefined}
+                      onPointerDown={(e) => handleItemPointerDown(e, item, 'move', dateStr)}
+                      onPointerMove={handleItemPointerMove}
+                      onPointerUp={handleItemPointerUp}
+                      onPointerCancel={handleItemPointerCancel}
                       onClick={(e) => {
                         e.stopPropagation();
+                        if (suppressClickRef.current) {
+                          suppressClickRef.current = false;
+                          return;
+                        }
                         setSelectedActivity(item);
                       }}
                     >
                       <div className="flex items-start justify-between gap-1">
                         <div className="min-w-0 flex-1">
                           <p className={`font-medium text-sm truncate ${colors.text}`}>
+                            {itemIssues && (
+                              <span title={itemIssues.map(issue => issue.message).join('\n')}>
+                                <AlertTriangle
+                                  className={`w-3 h-3 inline mr-1 -mt-0.5 ${
+                                    itemIssues.some(issue => issue.severity === 'error') ? 'text-red-400' : 'text-yellow-400'
+                                  }`}
+                                />
+                              </span>
+                            )}
+                            <AudienceBadges item={item} subgroups={subgroups} members={members} compact />
                             {item.title}
                           </p>
                           <p className="text-xs text-white/50 flex items-center gap-1">
@@ -511,11 +822,19 @@ export default function OutlookSchedule({
                               {item.location}
                             </p>
                           )}
+                          {item.rsvp_enabled && (
+                            <div className="mt-1">
+                              <RsvpHeadcount summary={summarizeRsvps(item, rsvps, members, subgroups)} capacity={item.capacity} />
+                            </div>
+                          )}
                         </div>
 
                         {/* Admin actions */}
                         {isAdmin && (
-                          <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                          <div
+                            className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity"
+                            onPointerDown={(e) => e.stopPropagation()}
+                          >
                             <button
                               onClick={(e) => {
                                 e.stopPropagation();
@@ -537,6 +856,14 @@ export default function OutlookSchedule({
                           </div>
                         )}
                       </div>
+
+                      {/* Drag the bottom edge to change the end time */}
+                      {isAdmin && (
+                        <div
+                          className="absolute bottom-0 left-0 right-0 h-2 cursor-ns-resize touch-none"
+                          onPointerDown={(e) => handleItemPointerDown(e, item, 'resize', dateStr)}
+                        />
+                      )}
                     </div>
                   );
                 })}
@@ -562,6 +889,7 @@ export default function OutlookSchedule({
           tripId={tripId}
           defaultDate={addModalDate}
           defaultHour={addModalHour}
+          audienceOptions={audienceOptions}
           onClose={() => setShowAddModal(false)}
           onAdded={() => {
             setShowAddModal(false);
@@ -574,7 +902,13 @@ export default function OutlookSchedule({
       {selectedActivity && (
         <ActivityDetailModal
           activity={selectedActivity}
+          series={getSeries(selectedActivity)}
           isAdmin={isAdmin}
+          issues={issuesByItem[selectedActivity.id]}
+          members={members}
+          subgroups={subgroups}
+          rsvps={rsvps}
+          onRsvpChange={onRsvpChange || refreshData}
           onClose={() => setSelectedActivity(null)}
           onSaved={refreshData}
         />
@@ -590,7 +924,7 @@ export default function OutlookSchedule({
             setShowSuggestionsModal(false);
             refreshData();
           }}
-          onRefreshCalendar={refreshData}
+          onAdded={refreshData}
         />
       )}
 
@@ -598,6 +932,7 @@ export default function OutlookSchedule({
       {showImportModal && (
         <AIImportModal
           tripId={tripId}
+          existingItems={storedItems}
           tripStartDate={tripStartDate}
           tripEndDate={tripEndDate}
           onClose={() => {
@@ -607,1062 +942,257 @@ export default function OutlookSchedule({
           onRefreshCalendar={refreshData}
         />
       )}
-    </div>
-  );
-}
 
-// Add Schedule Modal
-function AddScheduleModal({
-  tripId,
-  defaultDate,
-  defaultHour,
-  onClose,
-  onAdded,
-}: {
-  tripId: string;
-  defaultDate?: string;
-  defaultHour?: number;
-  onClose: () => void;
-  onAdded: () => void;
-}) {
-  // Calculate default datetime
-  const getDefaultDateTime = () => {
-    if (defaultDate && defaultHour !== undefined) {
-      return `${defaultDate}T${defaultHour.toString().padStart(2, '0')}:00`;
-    }
-    if (defaultDate) {
-      return `${defaultDate}T10:00`;
-    }
-    return '';
-  };
+      {/* Day Templates Modal */}
+      {showTemplatesModal && (
+        <DayTemplatesModal
+          tripId={tripId}
+          schedule={items}
+          tripStartDate={tripStartDate}
+          tripEndDate={tripEndDate}
+          onClose={() => setShowTemplatesModal(false)}
+          onApplied={() => {
+            setShowTemplatesModal(false);
+            refreshData();
+          }}
+        />
+      )}
 
-  const [title, setTitle] = useState('');
-  const [description, setDescription] = useState('');
-  const [location, setLocation] = useState('');
-  const [locationUrl, setLocationUrl] = useState('');
-  const [bookingUrl, setBookingUrl] = useState('');
-  const [reservationCode, setReservationCode] = useState('');
-  const [contactInfo, setContactInfo] = useState('');
-  const [estimatedCost, setEstimatedCost] = useState('');
-  const [type, setType] = useState<ScheduleItem['type']>('activity');
-  const [startTime, setStartTime] = useState(getDefaultDateTime());
-  const [endTime, setEndTime] = useState('');
-  const [loading, setLoading] = useState(false);
-  const [showAdvanced, setShowAdvanced] = useState(false);
+      {/* This occurrence / all following */}
+      {scopePrompt && (
+        <RecurrenceScopeDialog
+          title={scopePrompt.item.title}
+          action={scopePrompt.action}
+          onChoose={(scope) => {
+            setScopePrompt(null);
+            if (scopePrompt.action === 'move') {
+              saveItemTimes(scopePrompt.item, scopePrompt.startTime!, scopePrompt.endTime, scope);
+            } else {
+              handleDelete(scopePrompt.item, scope);
+            }
+          }}
+          onCancel={() => setScopePrompt(null)}
+        />
+      )}
 
-  async function handleSubmit(e: React.FormEvent) {
-    e.preventDefault();
-    setLoading(true);
+      {/* Calendar Subscription Modal */}
+      {showSubscribeModal && (
+        <SubscribeCalendarModal tripId={tripId} onClose={() => setShowSubscribeModal(false)} />
+      )}
+    </div>
+  );
+}
 
-    // Validate start_time
-    if (!startTime) {
-      alert('Please select a start time');
-      setLoading(false);
-      return;
-    }
+// Subscribe Calendar Modal - the member's private .ics feed for Apple, Google or Outlook calendars
+function SubscribeCalendarModal({ tripId, onClose }: { tripId: string; onClose: () => void }) {
+  const { user } = useAuth();
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [copied, setCopied] = useState(false);
+  const [resetting, setResetting] = useState(false);
 
-    // Only include basic columns that are guaranteed to exist
-    // Additional columns like booking_url, location_url etc. may not exist in all deployments
-    const insertData: Record<string, unknown> = {
-      trip_id: tripId,
-      title,
-      description: description || null,
-      location: location || null,
-      type,
-      start_time: new Date(startTime).toISOString(),
-      end_time: endTime ? new Date(endTime).toISOString() : null,
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+    getCalendarFeedUrl(tripId, user.id)
+      .then((url) => {
+        if (!cancelled) setFeedUrl(url);
+      })
+      .catch((err) => {
+        console.error('[Calendar] Failed to load feed URL:', err);
+        if (!cancelled) setError('Could not create your calendar link');
+      });
+    return () => {
+      cancelled = true;
     };
+  }, [tripId, user]);
 
-    // Try to add optional columns - they may or may not exist in the database
-    // These will be silently ignored if they don't exist
-    if (locationUrl) insertData.location_url = locationUrl;
-    if (bookingUrl) insertData.booking_url = bookingUrl;
-    if (reservationCode) insertData.reservation_code = reservationCode;
-    if (contactInfo) insertData.contact_info = contactInfo;
-    if (estimatedCost) insertData.estimated_cost = parseFloat(estimatedCost);
-
-    console.log('[AddScheduleModal] Inserting:', insertData);
-
-    const { error } = await supabase.from('schedule_items').insert(insertData);
-
-    if (error) {
-      console.error('[AddScheduleModal] Insert error:', error);
-
-      // If error is about missing column, try with minimal data
-      if (error.message.includes('column') && error.message.includes('schema cache')) {
-        console.log('[AddScheduleModal] Retrying with minimal columns...');
-        const minimalData = {
-          trip_id: tripId,
-          title,
-          description: description || null,
-          location: location || null,
-          type,
-          start_time: new Date(startTime).toISOString(),
-          end_time: endTime ? new Date(endTime).toISOString() : null,
-        };
-
-        const { error: retryError } = await supabase.from('schedule_items').insert(minimalData);
-
-        if (retryError) {
-          alert(`Failed to add activity: ${retryError.message}`);
-          setLoading(false);
-          return;
-        }
-
-        console.log('[AddScheduleModal] Insert successful with minimal data');
-        onAdded();
-        return;
-      }
+  async function handleCopy() {
+    if (!feedUrl) return;
+    await navigator.clipboard.writeText(feedUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  }
 
-      alert(`Failed to add activity: ${error.message}`);
-      setLoading(false);
-      return;
+  async function handleReset() {
+    if (!user || !confirm('Reset your calendar link? Calendars subscribed to the old link stop updating.')) return;
+    setResetting(true);
+    try {
+      setFeedUrl(await resetCalendarFeedUrl(tripId, user.id));
+    } catch (err) {
+      console.error('[Calendar] Failed to reset feed URL:', err);
+      setError('Could not reset your calendar link');
     }
-
-    console.log('[AddScheduleModal] Insert successful');
-    onAdded();
+    setResetting(false);
   }
 
   return (
     <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
-      <div className="bg-slate-800 border border-white/10 rounded-2xl p-6 max-w-md w-full max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
-        <h2 className="text-xl font-bold mb-6">Add Activity</h2>
-
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div>
-            <label className="block text-sm font-medium text-white/70 mb-2">
-              Title
-            </label>
-            <input
-              type="text"
-              value={title}
-              onChange={(e) => setTitle(e.target.value)}
-              className="input-field"
-              required
-            />
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-white/70 mb-2">
-              Type
-            </label>
-            <select
-              value={type}
-              onChange={(e) => setType(e.target.value as ScheduleItem['type'])}
-              className="input-field bg-slate-700 text-white"
-            >
-              <option value="travel" className="bg-slate-700 text-white">Travel</option>
-              <option value="activity" className="bg-slate-700 text-white">Activity</option>
-              <option value="meal" className="bg-slate-700 text-white">Meal</option>
-              <option value="accommodation" className="bg-slate-700 text-white">Accommodation</option>
-              <option value="free_time" className="bg-slate-700 text-white">Free Time</option>
-              <option value="meeting" className="bg-slate-700 text-white">Meeting Point</option>
-            </select>
-          </div>
-
-          <div className="grid grid-cols-2 gap-4">
-            <div>
-              <label className="block text-sm font-medium text-white/70 mb-2">
-                Start Time
-              </label>
-              <input
-                type="datetime-local"
-                value={startTime}
-                onChange={(e) => setStartTime(e.target.value)}
-                className="input-field"
-                required
-              />
-            </div>
-            <div>
-              <label className="block text-sm font-medium text-white/70 mb-2">
-                End Time (optional)
-              </label>
-              <input
-                type="datetime-local"
-                value={endTime}
-                onChange={(e) => setEndTime(e.target.value)}
-                className="input-field"
-              />
-            </div>
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-white/70 mb-2">
-              Description (optional)
-            </label>
-            <textarea
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
-              className="input-field resize-none"
-              rows={2}
-            />
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-white/70 mb-2">
-              Location (optional)
-            </label>
-            <input
-              type="text"
-              value={location}
-              onChange={(e) => setLocation(e.target.value)}
-              className="input-field"
-              placeholder="e.g., Amsterdam Central"
-            />
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-white/70 mb-2">
-              Estimated Cost € (optional)
-            </label>
-            <input
-              type="number"
-              value={estimatedCost}
-              onChange={(e) => setEstimatedCost(e.target.value)}
-              className="input-field"
-              placeholder="e.g., 25"
-              min="0"
-              step="0.01"
-            />
-          </div>
-
-          {/* Advanced options toggle */}
-          <button
-            type="button"
-            onClick={() => setShowAdvanced(!showAdvanced)}
-            className="text-sm text-blue-400 hover:text-blue-300 transition-colors flex items-center gap-1"
-          >
-            {showAdvanced ? '- Hide' : '+ Show'} advanced options
+      <div className="bg-slate-800 border border-white/10 rounded-2xl p-6 max-w-md w-full" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <CalendarPlus className="w-5 h-5 text-blue-400" />
+            Subscribe in calendar
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full">
+            <X className="w-5 h-5" />
           </button>
+        </div>
 
-          {showAdvanced && (
-            <div className="space-y-4 p-4 bg-white/5 rounded-xl border border-white/10">
-              <div>
-                <label className="block text-sm font-medium text-white/70 mb-2">
-                  Location URL (Google Maps)
-                </label>
-                <input
-                  type="url"
-                  value={locationUrl}
-                  onChange={(e) => setLocationUrl(e.target.value)}
-                  className="input-field"
-                  placeholder="https://goo.gl/maps/..."
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-white/70 mb-2">
-                  Booking URL
-                </label>
-                <input
-                  type="url"
-                  value={bookingUrl}
-                  onChange={(e) => setBookingUrl(e.target.value)}
-                  className="input-field"
-                  placeholder="https://booking-website.com/..."
-                />
-              </div>
+        <p className="text-sm text-white/60 mb-4">
+          Add the schedule and your own tickets to your calendar app. It stays up to date, and
+          surprise activities show up as "Surprise activity" until they are revealed.
+        </p>
 
-              <div>
-                <label className="block text-sm font-medium text-white/70 mb-2">
-                  Reservation Code
-                </label>
-                <input
-                  type="text"
-                  value={reservationCode}
-                  onChange={(e) => setReservationCode(e.target.value)}
-                  className="input-field"
-                  placeholder="e.g., ABC123"
-                />
-              </div>
+        {error ? (
+          <p className="text-sm text-red-400">{error}</p>
+        ) : !feedUrl ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-white/50" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <a
+              href={toWebcalUrl(feedUrl)}
+              className="flex items-center justify-center gap-2 w-full p-3 bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/50 rounded-xl text-blue-400 font-medium transition-colors"
+            >
+              <Calendar className="w-4 h-4" />
+              Apple Calendar / Outlook
+            </a>
+            <a
+              href={`https://calendar.google.com/calendar/r?cid=${encodeURIComponent(toWebcalUrl(feedUrl))}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center justify-center gap-2 w-full p-3 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl font-medium transition-colors"
+            >
+              <ExternalLink className="w-4 h-4" />
+              Google Calendar
+            </a>
 
-              <div>
-                <label className="block text-sm font-medium text-white/70 mb-2">
-                  Contact Info
-                </label>
-                <input
-                  type="text"
-                  value={contactInfo}
-                  onChange={(e) => setContactInfo(e.target.value)}
-                  className="input-field"
-                  placeholder="e.g., +31 20 123 4567"
-                />
-              </div>
+            <div className="flex items-center gap-2">
+              <input type="text" readOnly value={feedUrl} className="input-field text-xs font-mono" />
+              <button
+                onClick={handleCopy}
+                className="p-3 bg-white/5 hover:bg-white/10 rounded-xl transition-colors"
+                title="Copy link"
+              >
+                {copied ? <Check className="w-4 h-4 text-green-400" /> : <Copy className="w-4 h-4" />}
+              </button>
             </div>
-          )}
-
-          <div className="flex gap-3 pt-4">
-            <button type="button" onClick={onClose} className="btn-secondary flex-1">
-              Cancel
-            </button>
-            <button
-              type="submit"
-              disabled={loading}
-              className="btn-primary flex-1"
-            >
-              {loading ? 'Adding...' : 'Add Activity'}
-            </button>
+            <p className="text-xs text-white/40">
+              This link is personal - anyone who has it can see your tickets.{' '}
+              <button onClick={handleReset} disabled={resetting} className="underline hover:text-white/70">
+                {resetting ? 'Resetting...' : 'Reset link'}
+              </button>
+            </p>
           </div>
-        </form>
+        )}
       </div>
     </div>
   );
 }
 
-// Activity Detail Modal with Edit functionality
-function ActivityDetailModal({
-  activity,
-  isAdmin,
+// AI Import Modal - Parse booking confirmations
+interface ParsedItem {
+  title: string;
+  type: string;
+  description?: string;
+  location?: string;
+  location_url?: string;
+  start_time: string;
+  end_time?: string;
+  estimated_cost?: number;
+  currency?: string;
+  booking_url?: string;
+  reservation_code?: string;
+  contact_info?: string;
+}
+
+const importFieldLabels: Record<ImportFieldChange['field'], string> = {
+  title: 'Titel',
+  start_time: 'Start',
+  end_time: 'Einde',
+  location: 'Locatie',
+  reservation_code: 'Reservering',
+  estimated_cost: 'Kosten',
+};
+
+function formatImportValue(field: ImportFieldChange['field'], value: ImportFieldChange['to'], item: ParsedItem): string {
+  if (value === undefined || value === null) return '-';
+  if (field === 'start_time' || field === 'end_time') {
+    return new Date(String(value)).toLocaleString('nl-NL', {
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  }
+  if (field === 'estimated_cost') {
+    return formatMoney(Number(value), getItemCurrency(item));
+  }
+  return String(value);
+}
+
+function AIImportModal({
+  tripId,
+  existingItems,
+  tripStartDate,
+  tripEndDate,
   onClose,
-  onSaved,
+  onRefreshCalendar,
 }: {
-  activity: ScheduleItem;
-  isAdmin?: boolean;
+  tripId: string;
+  existingItems: ScheduleItem[];
+  tripStartDate: string;
+  tripEndDate?: string;
   onClose: () => void;
-  onSaved?: () => void;
+  onRefreshCalendar?: () => void;
 }) {
-  const [isEditing, setIsEditing] = useState(false);
-  const [saving, setSaving] = useState(false);
-  const [copied, setCopied] = useState(false);
+  const [inputText, setInputText] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [parsedItems, setParsedItems] = useState<ParsedItem[]>([]);
+  const [error, setError] = useState('');
+  const [adding, setAdding] = useState<number | null>(null);
+  const [addedItems, setAddedItems] = useState<Set<number>>(new Set());
 
-  // Edit form state
-  const [title, setTitle] = useState(activity.title);
-  const [description, setDescription] = useState(activity.description || '');
-  const [location, setLocation] = useState(activity.location || '');
-  const [locationUrl, setLocationUrl] = useState(activity.location_url || '');
-  const [bookingUrl, setBookingUrl] = useState(activity.booking_url || '');
-  const [reservationCode, setReservationCode] = useState(activity.reservation_code || '');
-  const [contactInfo, setContactInfo] = useState(activity.contact_info || '');
-  const [estimatedCost, setEstimatedCost] = useState(activity.estimated_cost?.toString() || '');
-  const [type, setType] = useState<ScheduleItem['type']>(activity.type);
-  const [startTime, setStartTime] = useState(
-    new Date(activity.start_time).toISOString().slice(0, 16)
-  );
-  const [endTime, setEndTime] = useState(
-    activity.end_time ? new Date(activity.end_time).toISOString().slice(0, 16) : ''
+  // Compared against the live schedule, so items added a moment ago show up as duplicates
+  const diffs = useMemo(
+    () => parsedItems.map((item) => getImportDiff(item, existingItems)),
+    [parsedItems, existingItems]
   );
 
-  const displayStartTime = new Date(activity.start_time);
-  const displayEndTime = activity.end_time ? new Date(activity.end_time) : null;
-
-  async function handleSave() {
-    setSaving(true);
-
-    const { error } = await supabase.from('schedule_items').update({
-      title,
-      description: description || null,
-      location: location || null,
-      location_url: locationUrl || null,
-      booking_url: bookingUrl || null,
-      reservation_code: reservationCode || null,
-      contact_info: contactInfo || null,
-      estimated_cost: estimatedCost ? parseFloat(estimatedCost) : null,
-      type,
-      start_time: new Date(startTime).toISOString(),
-      end_time: endTime ? new Date(endTime).toISOString() : null,
-    }).eq('id', activity.id);
-
-    setSaving(false);
-
-    if (error) {
-      alert('Failed to save: ' + error.message);
-      return;
-    }
+  const isCalendarFile = /BEGIN:VCALENDAR/i.test(inputText);
 
-    onClose();
-    if (onSaved) {
-      onSaved();
+  // .ics files are parsed here, deterministically - no AI round trip needed
+  function importCalendar(ics: string) {
+    setError('');
+    setParsedItems([]);
+    const items = parseCalendar(ics);
+    if (items.length > 0) {
+      setParsedItems(items);
+    } else {
+      setError('Geen afspraken gevonden in het agendabestand.');
     }
   }
 
-  function copyToClipboard(text: string) {
-    navigator.clipboard.writeText(text);
-    setCopied(true);
-    setTimeout(() => setCopied(false), 2000);
+  async function handleFileChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    importCalendar(await file.text());
   }
 
-  // Generate Google Maps URL from location
-  function getGoogleMapsUrl(loc: string): string {
-    return `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(loc)}`;
-  }
-
-  if (isEditing && isAdmin) {
-    return (
-      <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
-        <div className="bg-slate-800 border border-white/10 rounded-2xl p-6 max-w-md w-full max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
-          <div className="flex items-center justify-between mb-6">
-            <h2 className="text-xl font-bold">Edit Activity</h2>
-            <button onClick={() => setIsEditing(false)} className="p-2 hover:bg-white/10 rounded-full">
-              <X className="w-5 h-5" />
-            </button>
-          </div>
-
-          <div className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium text-white/70 mb-2">Title</label>
-              <input
-                type="text"
-                value={title}
-                onChange={(e) => setTitle(e.target.value)}
-                className="input-field"
-                required
-              />
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-white/70 mb-2">Type</label>
-              <select
-                value={type}
-                onChange={(e) => setType(e.target.value as ScheduleItem['type'])}
-                className="input-field bg-slate-700 text-white"
-              >
-                <option value="travel" className="bg-slate-700">Travel</option>
-                <option value="activity" className="bg-slate-700">Activity</option>
-                <option value="meal" className="bg-slate-700">Meal</option>
-                <option value="accommodation" className="bg-slate-700">Accommodation</option>
-                <option value="free_time" className="bg-slate-700">Free Time</option>
-                <option value="meeting" className="bg-slate-700">Meeting Point</option>
-              </select>
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-white/70 mb-2">Description</label>
-              <textarea
-                value={description}
-                onChange={(e) => setDescription(e.target.value)}
-                className="input-field resize-none"
-                rows={2}
-              />
-            </div>
-
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-white/70 mb-2">Start Time</label>
-                <input
-                  type="datetime-local"
-                  value={startTime}
-                  onChange={(e) => setStartTime(e.target.value)}
-                  className="input-field"
-                  required
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-white/70 mb-2">End Time</label>
-                <input
-                  type="datetime-local"
-                  value={endTime}
-                  onChange={(e) => setEndTime(e.target.value)}
-                  className="input-field"
-                />
-              </div>
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-white/70 mb-2">Location</label>
-              <input
-                type="text"
-                value={location}
-                onChange={(e) => setLocation(e.target.value)}
-                className="input-field"
-                placeholder="e.g., Amsterdam Central"
-              />
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-white/70 mb-2">Location URL (Google Maps)</label>
-              <input
-                type="url"
-                value={locationUrl}
-                onChange={(e) => setLocationUrl(e.target.value)}
-                className="input-field"
-                placeholder="https://goo.gl/maps/..."
-              />
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-white/70 mb-2">Booking URL</label>
-              <input
-                type="url"
-                value={bookingUrl}
-                onChange={(e) => setBookingUrl(e.target.value)}
-                className="input-field"
-                placeholder="https://..."
-              />
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-white/70 mb-2">Reservation Code</label>
-              <input
-                type="text"
-                value={reservationCode}
-                onChange={(e) => setReservationCode(e.target.value)}
-                className="input-field"
-                placeholder="e.g., ABC123"
-              />
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-white/70 mb-2">Contact Info</label>
-              <input
-                type="text"
-                value={contactInfo}
-                onChange={(e) => setContactInfo(e.target.value)}
-                className="input-field"
-                placeholder="e.g., +31 20 123 4567"
-              />
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-white/70 mb-2">Estimated Cost (€)</label>
-              <input
-                type="number"
-                value={estimatedCost}
-                onChange={(e) => setEstimatedCost(e.target.value)}
-                className="input-field"
-                placeholder="e.g., 25"
-                min="0"
-                step="0.01"
-              />
-            </div>
-          </div>
-
-          <div className="flex gap-3 mt-6">
-            <button onClick={() => setIsEditing(false)} className="btn-secondary flex-1">
-              Cancel
-            </button>
-            <button
-              onClick={handleSave}
-              disabled={saving}
-              className="btn-primary flex-1 flex items-center justify-center gap-2"
-            >
-              {saving ? (
-                <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-              ) : (
-                <Save className="w-4 h-4" />
-              )}
-              {saving ? 'Saving...' : 'Save Changes'}
-            </button>
-          </div>
-        </div>
-      </div>
-    );
-  }
-
-  return (
-    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
-      <div className="bg-slate-800 border border-white/10 rounded-2xl p-6 max-w-md w-full max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
-        <div className="flex items-center justify-between mb-6">
-          <div className="flex items-center gap-3">
-            <span className={`p-2 rounded-xl bg-gradient-to-br ${typeColorsGradient[activity.type] || 'from-gray-500 to-gray-600'}`}>
-              {typeIcons[activity.type] || <Clock className="w-5 h-5" />}
-            </span>
-            <div>
-              <h2 className="text-xl font-bold">{activity.title}</h2>
-              <p className="text-sm text-white/50 capitalize">{activity.type.replace('_', ' ')}</p>
-            </div>
-          </div>
-          <div className="flex items-center gap-2">
-            {isAdmin && (
-              <button
-                onClick={() => setIsEditing(true)}
-                className="p-2 hover:bg-white/10 rounded-full text-blue-400"
-                title="Edit activity"
-              >
-                <Edit2 className="w-5 h-5" />
-              </button>
-            )}
-            <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full">
-              <X className="w-5 h-5" />
-            </button>
-          </div>
-        </div>
-
-        <div className="space-y-4">
-          {/* Time */}
-          <div className="flex items-center gap-3 p-3 bg-white/5 rounded-xl">
-            <Calendar className="w-5 h-5 text-blue-400" />
-            <div>
-              <p className="text-sm text-white/50">Date & Time</p>
-              <p className="font-medium">
-                {displayStartTime.toLocaleDateString('en-US', {
-                  weekday: 'long',
-                  month: 'long',
-                  day: 'numeric',
-                })}
-              </p>
-              <p className="text-sm">
-                {displayStartTime.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}
-                {displayEndTime && ` - ${displayEndTime.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}`}
-              </p>
-            </div>
-          </div>
-
-          {/* Location */}
-          {activity.location && (
-            <div className="flex items-center gap-3 p-3 bg-white/5 rounded-xl">
-              <MapPin className="w-5 h-5 text-green-400" />
-              <div className="flex-1">
-                <p className="text-sm text-white/50">Location</p>
-                <p className="font-medium">{activity.location}</p>
-              </div>
-              <a
-                href={activity.location_url || getGoogleMapsUrl(activity.location)}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="p-2 bg-green-500/20 hover:bg-green-500/30 rounded-lg transition-colors"
-                title="Open in Maps"
-              >
-                <Navigation className="w-4 h-4 text-green-400" />
-              </a>
-            </div>
-          )}
-
-          {/* Estimated Cost */}
-          {activity.estimated_cost && (
-            <div className="flex items-center gap-3 p-3 bg-white/5 rounded-xl">
-              <Euro className="w-5 h-5 text-yellow-400" />
-              <div>
-                <p className="text-sm text-white/50">Estimated Cost</p>
-                <p className="font-medium">€{activity.estimated_cost.toFixed(2)}</p>
-              </div>
-            </div>
-          )}
-
-          {/* Reservation Code */}
-          {activity.reservation_code && (
-            <div className="flex items-center gap-3 p-3 bg-white/5 rounded-xl">
-              <Copy className="w-5 h-5 text-fuchsia-400" />
-              <div className="flex-1">
-                <p className="text-sm text-white/50">Reservation Code</p>
-                <p className="font-medium font-mono">{activity.reservation_code}</p>
-              </div>
-              <button
-                onClick={() => copyToClipboard(activity.reservation_code!)}
-                className="p-2 bg-fuchsia-500/20 hover:bg-fuchsia-500/30 rounded-lg transition-colors"
-                title="Copy to clipboard"
-              >
-                {copied ? (
-                  <Check className="w-4 h-4 text-green-400" />
-                ) : (
-                  <Copy className="w-4 h-4 text-fuchsia-400" />
-                )}
-              </button>
-            </div>
-          )}
-
-          {/* Contact Info */}
-          {activity.contact_info && (
-            <div className="flex items-center gap-3 p-3 bg-white/5 rounded-xl">
-              <Phone className="w-5 h-5 text-blue-400" />
-              <div className="flex-1">
-                <p className="text-sm text-white/50">Contact</p>
-                <p className="font-medium">{activity.contact_info}</p>
-              </div>
-              <a
-                href={`tel:${activity.contact_info.replace(/\s/g, '')}`}
-                className="p-2 bg-blue-500/20 hover:bg-blue-500/30 rounded-lg transition-colors"
-                title="Call"
-              >
-                <Phone className="w-4 h-4 text-blue-400" />
-              </a>
-            </div>
-          )}
-
-          {/* Description */}
-          {activity.description && (
-            <div className="p-3 bg-white/5 rounded-xl">
-              <div className="flex items-center gap-2 mb-2">
-                <Info className="w-4 h-4 text-fuchsia-400" />
-                <p className="text-sm text-white/50">Description</p>
-              </div>
-              <p className="text-white/80 whitespace-pre-wrap">{activity.description}</p>
-            </div>
-          )}
-
-          {/* Booking URL */}
-          {activity.booking_url && (
-            <a
-              href={activity.booking_url}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="flex items-center justify-center gap-2 w-full p-3 bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/50 rounded-xl text-blue-400 font-medium transition-colors"
-            >
-              <ExternalLink className="w-4 h-4" />
-              View Booking / More Info
-            </a>
-          )}
-        </div>
-
-        <button
-          onClick={onClose}
-          className="w-full mt-6 btn-secondary"
-        >
-          Close
-        </button>
-      </div>
-    </div>
-  );
-}
-
-// AI Suggestions Modal
-interface AIActivity {
-  title: string;
-  description: string;
-  type: ScheduleItem['type'];
-  duration_hours: number;
-  estimated_cost: number;
-  best_time: string;
-  booking_url?: string;
-  location?: string;
-  address?: string;
-  rating?: number;
-  tips?: string;
-}
-
-function AISuggestionsModal({
-  tripId,
-  trip,
-  memberCount,
-  onClose,
-  onRefreshCalendar,
-}: {
-  tripId: string;
-  trip?: Trip | null;
-  memberCount?: number;
-  onClose: () => void;
-  onRefreshCalendar?: () => void;
-}) {
-  // Pre-fill with trip data
-  const [location, setLocation] = useState(trip?.destination || '');
-  const [groupSize, setGroupSize] = useState(memberCount?.toString() || '');
-  const [date, setDate] = useState(trip?.departure_time ? new Date(trip.departure_time).toISOString().split('T')[0] : '');
-  const [preferences, setPreferences] = useState('');
-  const [loading, setLoading] = useState(false);
-  const [suggestions, setSuggestions] = useState<AIActivity[]>([]);
-  const [error, setError] = useState('');
-  const [adding, setAdding] = useState<number | null>(null);
-
-  async function handleGetSuggestions(e: React.FormEvent) {
-    e.preventDefault();
-    setLoading(true);
-    setError('');
-    setSuggestions([]);
-
-    try {
-      const response = await fetch('/api/suggest-activities', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ location, groupSize, date, preferences }),
-      });
-
-      const data = await response.json();
-
-      if (data.error) {
-        setError(data.error);
-      } else if (data.activities) {
-        setSuggestions(data.activities);
-      } else if (data.raw) {
-        setError('Could not parse AI response. Try again.');
-      }
-    } catch {
-      setError('Failed to get suggestions. Please try again.');
-    }
-
-    setLoading(false);
-  }
-
-  // Generate a search URL for TripAdvisor/Google if no booking_url provided
-  function getSearchUrl(activityTitle: string, activityLocation: string): string {
-    const searchQuery = encodeURIComponent(`${activityTitle} ${activityLocation}`);
-    // Use TripAdvisor search as primary, fallback to Google
-    return `https://www.tripadvisor.com/Search?q=${searchQuery}`;
-  }
-
-  async function handleAddActivity(activity: AIActivity, index: number) {
-    setAdding(index);
-
-    // Calculate start time based on best_time
-    const activityDate = date ? new Date(date) : new Date();
-    const timeMap: Record<string, number> = {
-      morning: 9,
-      afternoon: 14,
-      evening: 18,
-      night: 21,
-    };
-    activityDate.setHours(timeMap[activity.best_time] || 10, 0, 0, 0);
-
-    const endTime = new Date(activityDate);
-    endTime.setHours(endTime.getHours() + activity.duration_hours);
-
-    // Use provided booking_url or generate a search URL
-    const bookingUrl = activity.booking_url || getSearchUrl(activity.title, activity.location || location);
-
-    // Build description with tips if available
-    let fullDescription = activity.description;
-    if (activity.tips) {
-      fullDescription += `\n\nTip: ${activity.tips}`;
-    }
-    if (activity.rating) {
-      fullDescription += `\n\nRating: ${activity.rating}/5`;
-    }
-
-    await supabase.from('schedule_items').insert({
-      trip_id: tripId,
-      title: activity.title,
-      description: fullDescription,
-      type: activity.type,
-      location: activity.address || activity.location || location,
-      booking_url: bookingUrl,
-      estimated_cost: activity.estimated_cost,
-      start_time: activityDate.toISOString(),
-      end_time: endTime.toISOString(),
-    });
-
-    // Remove from suggestions
-    setSuggestions(suggestions.filter((_, i) => i !== index));
-    setAdding(null);
-
-    // Refresh the calendar immediately after adding (without closing modal)
-    if (onRefreshCalendar) {
-      onRefreshCalendar();
-    }
-  }
-
-  return (
-    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
-      <div className="bg-slate-800 border border-white/10 rounded-2xl p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
-        <div className="flex items-center gap-3 mb-6">
-          <div className="w-10 h-10 rounded-full bg-gradient-to-br from-fuchsia-500 to-blue-500 flex items-center justify-center">
-            <Sparkles className="w-5 h-5" />
-          </div>
-          <div>
-            <h2 className="text-xl font-bold">Activity Suggestions</h2>
-            <p className="text-sm text-white/50">Get personalized activity ideas for your trip</p>
-          </div>
-        </div>
-
-        {suggestions.length === 0 ? (
-          <form onSubmit={handleGetSuggestions} className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium text-white/70 mb-2">
-                Destination
-              </label>
-              <input
-                type="text"
-                value={location}
-                onChange={(e) => setLocation(e.target.value)}
-                className="input-field"
-                placeholder="e.g., Barcelona, Spain"
-                required
-              />
-            </div>
-
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-white/70 mb-2">
-                  Group Size
-                </label>
-                <input
-                  type="number"
-                  value={groupSize}
-                  onChange={(e) => setGroupSize(e.target.value)}
-                  className="input-field"
-                  placeholder="e.g., 8"
-                  min="1"
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-white/70 mb-2">
-                  Date
-                </label>
-                <input
-                  type="date"
-                  value={date}
-                  onChange={(e) => setDate(e.target.value)}
-                  className="input-field"
-                />
-              </div>
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-white/70 mb-2">
-                Preferences (optional)
-              </label>
-              <textarea
-                value={preferences}
-                onChange={(e) => setPreferences(e.target.value)}
-                className="input-field resize-none"
-                rows={2}
-                placeholder="e.g., adventurous, local cuisine, budget-friendly, nightlife..."
-              />
-            </div>
-
-            {error && (
-              <div className="p-3 bg-red-500/20 border border-red-500/50 rounded-lg text-red-200 text-sm">
-                {error}
-              </div>
-            )}
-
-            <div className="flex gap-3 pt-4">
-              <button type="button" onClick={onClose} className="btn-secondary flex-1">
-                Cancel
-              </button>
-              <button
-                type="submit"
-                disabled={loading}
-                className="btn-primary flex-1 flex items-center justify-center gap-2"
-              >
-                {loading ? (
-                  <>
-                    <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                    Generating...
-                  </>
-                ) : (
-                  <>
-                    <Sparkles className="w-4 h-4" />
-                    Get Suggestions
-                  </>
-                )}
-              </button>
-            </div>
-          </form>
-        ) : (
-          <div className="space-y-4">
-            <p className="text-sm text-white/60 mb-4">
-              Click on an activity to add it to your schedule:
-            </p>
-
-            {suggestions.map((activity, index) => {
-              // Generate fallback search URL
-              const viewUrl = activity.booking_url || `https://www.tripadvisor.com/Search?q=${encodeURIComponent(`${activity.title} ${activity.location || location}`)}`;
-
-              return (
-                <div
-                  key={index}
-                  className="p-4 bg-white/5 border border-white/10 rounded-xl hover:border-fuchsia-500/50 transition-colors"
-                >
-                  <div className="flex items-start justify-between gap-4">
-                    <div className="flex-1">
-                      <div className="flex items-center gap-2 mb-2">
-                        <span className={`p-1.5 rounded-lg bg-gradient-to-br ${typeColorsGradient[activity.type] || 'from-gray-500 to-gray-600'}`}>
-                          {typeIcons[activity.type] || <Clock className="w-4 h-4" />}
-                        </span>
-                        <h4 className="font-semibold">{activity.title}</h4>
-                        {activity.rating && (
-                          <span className="text-xs bg-yellow-500/20 text-yellow-400 px-2 py-0.5 rounded-full">
-                            ⭐ {activity.rating}/5
-                          </span>
-                        )}
-                      </div>
-                      <p className="text-sm text-white/60 mb-2">{activity.description}</p>
-
-                      {/* Location/Address */}
-                      {(activity.address || activity.location) && (
-                        <p className="text-xs text-white/50 mb-2 flex items-center gap-1">
-                          <MapPin className="w-3 h-3" />
-                          {activity.address || activity.location}
-                        </p>
-                      )}
-
-                      {/* Tip */}
-                      {activity.tips && (
-                        <p className="text-xs text-fuchsia-400/80 mb-2 italic">
-                          💡 {activity.tips}
-                        </p>
-                      )}
-
-                      <div className="flex flex-wrap items-center gap-3 text-xs text-white/40">
-                        <span>⏱️ {activity.duration_hours}h</span>
-                        <span>💰 €{activity.estimated_cost}/person</span>
-                        <span>🌅 Best: {activity.best_time}</span>
-
-                        {/* View Details link */}
-                        <a
-                          href={viewUrl}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="text-blue-400 hover:text-blue-300 flex items-center gap-1"
-                          onClick={(e) => e.stopPropagation()}
-                        >
-                          <ExternalLink className="w-3 h-3" />
-                          View Details
-                        </a>
-                      </div>
-                    </div>
-                    <button
-                      onClick={() => handleAddActivity(activity, index)}
-                      disabled={adding !== null}
-                      className="btn-primary text-sm py-2 px-4"
-                    >
-                      {adding === index ? (
-                        <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                      ) : (
-                        <Plus className="w-4 h-4" />
-                      )}
-                    </button>
-                  </div>
-                </div>
-              );
-            })}
-
-            <div className="flex gap-3 pt-4">
-              <button onClick={onClose} className="btn-secondary flex-1">
-                Done
-              </button>
-              <button
-                onClick={() => setSuggestions([])}
-                className="btn-secondary flex-1"
-              >
-                Get New Suggestions
-              </button>
-            </div>
-          </div>
-        )}
-      </div>
-    </div>
-  );
-}
-
-// AI Import Modal - Parse booking confirmations
-interface ParsedItem {
-  title: string;
-  type: string;
-  description?: string;
-  location?: string;
-  location_url?: string;
-  start_time: string;
-  end_time?: string;
-  estimated_cost?: number;
-  reservation_code?: string;
-  contact_info?: string;
-}
-
-function AIImportModal({
-  tripId,
-  tripStartDate,
-  tripEndDate,
-  onClose,
-  onRefreshCalendar,
-}: {
-  tripId: string;
-  tripStartDate: string;
-  tripEndDate?: string;
-  onClose: () => void;
-  onRefreshCalendar?: () => void;
-}) {
-  const [inputText, setInputText] = useState('');
-  const [loading, setLoading] = useState(false);
-  const [parsedItems, setParsedItems] = useState<ParsedItem[]>([]);
-  const [error, setError] = useState('');
-  const [adding, setAdding] = useState<number | null>(null);
-  const [addedItems, setAddedItems] = useState<Set<number>>(new Set());
-
   async function handleParse() {
     if (!inputText.trim()) {
       setError('Plak een bevestigingsmail of boekingstekst');
       return;
     }
 
+    if (isCalendarFile) {
+      importCalendar(inputText);
+      return;
+    }
+
     setLoading(true);
     setError('');
     setParsedItems([]);
@@ -1684,8 +1214,6 @@ function AIImportModal({
         setError(data.error);
       } else if (data.items && data.items.length > 0) {
         setParsedItems(data.items);
-      } else if (data.raw) {
-        setError('Kon de tekst niet verwerken. Probeer het opnieuw.');
       } else {
         setError('Geen boekingen gevonden in de tekst.');
       }
@@ -1696,17 +1224,47 @@ function AIImportModal({
     setLoading(false);
   }
 
+  // Changed bookings update the matching item instead of adding a second one
+  async function handleUpdateItem(diff: Extract<ImportDiff, { status: 'changed' }>, index: number) {
+    setAdding(index);
+    setError('');
+
+    const updates: Record<string, unknown> = {};
+    for (const change of diff.changes) {
+      updates[change.field] = change.field === 'start_time' || change.field === 'end_time'
+        ? new Date(String(change.to)).toISOString()
+        : change.to;
+    }
+
+    try {
+      await updateScheduleItem(diff.existing.id, updates as ScheduleItemFields);
+    } catch (updateError) {
+      setAdding(null);
+      setError(`Kon niet bijwerken: ${updateError instanceof Error ? updateError.message : updateError}`);
+      return;
+    }
+    setAdding(null);
+
+    setAddedItems(prev => new Set(prev).add(index));
+    onRefreshCalendar?.();
+  }
+
   async function handleAddItem(item: ParsedItem, index: number) {
+    const diff = diffs[index];
+    if (diff.status === 'duplicate') return;
+    if (diff.status === 'changed') return handleUpdateItem(diff, index);
+
     setAdding(index);
     setError('');
 
     // Map type to valid schedule item type
-    const typeMap: Record<string, string> = {
+    const typeMap: Record<string, ScheduleItem['type']> = {
       accommodation: 'accommodation',
       travel: 'travel',
       activity: 'activity',
       meal: 'meal',
       meeting: 'meeting',
+      free_time: 'free_time',
     };
     const scheduleType = typeMap[item.type] || 'activity';
 
@@ -1733,56 +1291,28 @@ function AIImportModal({
       end_time: endTimeISO,
     });
 
-    const insertData: Record<string, unknown> = {
-      trip_id: tripId,
-      title: item.title,
-      description: item.description || null,
-      location: item.location || null,
-      type: scheduleType,
-      start_time: startTimeISO,
-      end_time: endTimeISO,
-    };
-
-    // Add optional fields
-    if (item.location_url) insertData.location_url = item.location_url;
-    if (item.estimated_cost) insertData.estimated_cost = item.estimated_cost;
-    if (item.reservation_code) insertData.reservation_code = item.reservation_code;
-    if (item.contact_info) insertData.contact_info = item.contact_info;
-
-    const { error: insertError } = await supabase.from('schedule_items').insert(insertData);
-
-    if (insertError) {
+    try {
+      await createScheduleItem(tripId, {
+        title: item.title,
+        description: item.description || null,
+        location: item.location || null,
+        type: scheduleType,
+        start_time: startTimeISO,
+        end_time: endTimeISO,
+        location_url: item.location_url || null,
+        booking_url: item.booking_url || null,
+        estimated_cost: item.estimated_cost || null,
+        currency: toCurrencyCode(item.currency),
+        reservation_code: item.reservation_code || null,
+        contact_info: item.contact_info || null,
+      });
+    } catch (insertError) {
       console.error('[AIImport] Insert error:', insertError);
-
-      // Try with minimal data if column error
-      if (insertError.message.includes('column')) {
-        console.log('[AIImport] Retrying with minimal data...');
-        const minimalData = {
-          trip_id: tripId,
-          title: item.title,
-          description: item.description || null,
-          location: item.location || null,
-          type: scheduleType,
-          start_time: startTimeISO,
-          end_time: endTimeISO,
-        };
-        const { error: retryError } = await supabase.from('schedule_items').insert(minimalData);
-
-        if (retryError) {
-          console.error('[AIImport] Retry also failed:', retryError);
-          setError(`Kon niet toevoegen: ${retryError.message}`);
-          setAdding(null);
-          return;
-        }
-        console.log('[AIImport] Retry succeeded');
-      } else {
-        setError(`Kon niet toevoegen: ${insertError.message}`);
-        setAdding(null);
-        return;
-      }
-    } else {
-      console.log('[AIImport] Insert succeeded');
+      setError(`Kon niet toevoegen: ${insertError instanceof Error ? insertError.message : insertError}`);
+      setAdding(null);
+      return;
     }
+    console.log('[AIImport] Insert succeeded');
 
     setAdding(null);
     setAddedItems(prev => new Set(prev).add(index));
@@ -1796,13 +1326,13 @@ function AIImportModal({
 
   async function handleAddAll() {
     for (let i = 0; i < parsedItems.length; i++) {
-      if (!addedItems.has(i)) {
+      if (!addedItems.has(i) && diffs[i].status !== 'duplicate') {
         await handleAddItem(parsedItems[i], i);
       }
     }
   }
 
-  const pendingCount = parsedItems.length - addedItems.size;
+  const pendingCount = parsedItems.filter((_, i) => !addedItems.has(i) && diffs[i].status !== 'duplicate').length;
 
   return (
     <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
@@ -1813,7 +1343,7 @@ function AIImportModal({
           </div>
           <div>
             <h2 className="text-xl font-bold">AI Import</h2>
-            <p className="text-sm text-white/50">Plak bevestigingsmails om agenda-items aan te maken</p>
+            <p className="text-sm text-white/50">Plak bevestigingsmails of kies een .ics-bestand om agenda-items aan te maken</p>
           </div>
         </div>
 
@@ -1839,6 +1369,16 @@ Adres: Lungarno Acciaiuoli, 14, Florence
 Totaalprijs: €272,98
 Referentie: ABC123456`}
               />
+              <label className="mt-2 inline-flex items-center gap-2 text-sm text-blue-400 hover:text-blue-300 cursor-pointer">
+                <Calendar className="w-4 h-4" />
+                Of kies een agendabestand (.ics)
+                <input
+                  type="file"
+                  accept=".ics,text/calendar"
+                  onChange={handleFileChange}
+                  className="hidden"
+                />
+              </label>
             </div>
 
             <div className="bg-blue-500/10 border border-blue-500/30 rounded-xl p-4 text-sm">
@@ -1848,6 +1388,7 @@ Referentie: ABC123456`}
                 <li>• Werkt met hotels, vluchten, treinen, activiteiten</li>
                 <li>• Meerdere boekingen in één tekst? Geen probleem!</li>
                 <li>• De AI herkent automatisch data, tijden en prijzen</li>
+                <li>• .ics-bijlagen en agenda-exports worden direct ingelezen</li>
               </ul>
             </div>
 
@@ -1871,6 +1412,11 @@ Referentie: ABC123456`}
                     <Loader2 className="w-4 h-4 animate-spin" />
                     Analyseren...
                   </>
+                ) : isCalendarFile ? (
+                  <>
+                    <Calendar className="w-4 h-4" />
+                    Agenda inlezen
+                  </>
                 ) : (
                   <>
                     <Sparkles className="w-4 h-4" />
@@ -1905,6 +1451,8 @@ Referentie: ABC123456`}
 
             {parsedItems.map((item, index) => {
               const isAdded = addedItems.has(index);
+              const diff = diffs[index];
+              const isDuplicate = !isAdded && diff.status === 'duplicate';
               const colors = typeColors[item.type] || typeColors.activity;
 
               return (
@@ -1913,6 +1461,10 @@ Referentie: ABC123456`}
                   className={`p-4 rounded-xl border transition-all ${
                     isAdded
                       ? 'bg-green-500/10 border-green-500/30'
+                      : isDuplicate
+                      ? 'bg-white/5 border-white/5 opacity-60'
+                      : diff.status === 'changed'
+                      ? 'bg-yellow-500/5 border-yellow-500/30 hover:border-yellow-500/50'
                       : 'bg-white/5 border-white/10 hover:border-blue-500/50'
                   }`}
                 >
@@ -1926,11 +1478,35 @@ Referentie: ABC123456`}
                         {isAdded && (
                           <span className="text-xs bg-green-500/20 text-green-400 px-2 py-0.5 rounded-full flex items-center gap-1">
                             <Check className="w-3 h-3" />
-                            Toegevoegd
+                            {diff.status === 'changed' ? 'Bijgewerkt' : 'Toegevoegd'}
                           </span>
                         )}
+                        {!isAdded && diff.status === 'new' && (
+                          <span className="text-xs bg-blue-500/20 text-blue-400 px-2 py-0.5 rounded-full">Nieuw</span>
+                        )}
+                        {!isAdded && diff.status === 'changed' && (
+                          <span className="text-xs bg-yellow-500/20 text-yellow-400 px-2 py-0.5 rounded-full">Gewijzigd</span>
+                        )}
+                        {isDuplicate && (
+                          <span className="text-xs bg-white/10 text-white/60 px-2 py-0.5 rounded-full">Al in planning</span>
+                        )}
                       </div>
 
+                      {!isAdded && diff.status === 'changed' && (
+                        <div className="mb-2 space-y-0.5 text-xs">
+                          {diff.changes.map((change) => (
+                            <p key={change.field} className="text-white/60">
+                              <span className="text-white/40">{importFieldLabels[change.field]}:</span>{' '}
+                              <span className="line-through text-red-300/70">{formatImportValue(change.field, change.from, item)}</span>
+                              {' → '}
+                              <span className="text-green-300">
+                                {formatImportValue(change.field, change.to, item)}
+                              </span>
+                            </p>
+                          ))}
+                        </div>
+                      )}
+
                       {item.description && (
                         <p className="text-sm text-white/60 mb-2">{item.description}</p>
                       )}
@@ -1965,7 +1541,7 @@ Referentie: ABC123456`}
                         {item.estimated_cost && (
                           <span className="flex items-center gap-1">
                             <Euro className="w-3 h-3" />
-                            €{item.estimated_cost.toFixed(2)}
+                            {formatMoney(item.estimated_cost, getItemCurrency(item))}
                           </span>
                         )}
                         {item.reservation_code && (
@@ -1978,17 +1554,24 @@ Referentie: ABC123456`}
 
                     <button
                       onClick={() => handleAddItem(item, index)}
-                      disabled={adding !== null || isAdded}
+                      disabled={adding !== null || isAdded || isDuplicate}
+                      title={diff.status === 'changed' ? 'Bijwerken' : isDuplicate ? 'Staat al in de planning' : 'Toevoegen'}
                       className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
                         isAdded
                           ? 'bg-green-500/20 text-green-400 cursor-default'
+                          : isDuplicate
+                          ? 'bg-white/5 text-white/30 cursor-default'
+                          : diff.status === 'changed'
+                          ? 'bg-yellow-500/20 text-yellow-400 hover:bg-yellow-500/30'
                           : 'bg-blue-500/20 text-blue-400 hover:bg-blue-500/30'
                       }`}
                     >
                       {adding === index ? (
                         <Loader2 className="w-4 h-4 animate-spin" />
-                      ) : isAdded ? (
+                      ) : isAdded || isDuplicate ? (
                         <Check className="w-4 h-4" />
+                      ) : diff.status === 'changed' ? (
+                        <RefreshCw className="w-4 h-4" />
                       ) : (
                         <Plus className="w-4 h-4" />
                       )}
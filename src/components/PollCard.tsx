@@ -0,0 +1,176 @@
+import { useEffect, useState } from 'react';
+import { BarChart3, CalendarPlus, Check, Loader2, Lock } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  canSchedule,
+  castVote,
+  closePoll,
+  fetchPoll,
+  POLL_MODE_LABELS,
+  schedulePollWinner,
+  subscribeToPoll,
+  tallyPoll,
+} from '../lib/polls';
+import type { PollOption, PollVote, TripPoll } from '../types';
+
+// A poll posted in the chat, with live results. Single choice votes on click; multiple and
+// ranked choice collect a ballot first - for ranked, the order of the clicks is the ranking.
+export default function PollCard({ pollId, isAdmin }: { pollId: string; isAdmin: boolean }) {
+  const { user } = useAuth();
+  const [poll, setPoll] = useState<TripPoll | null>(null);
+  const [votes, setVotes] = useState<PollVote[]>([]);
+  const [ballot, setBallot] = useState<string[] | null>(null); // Unsent choices, null when unchanged
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () =>
+      fetchPoll(pollId)
+        .then((data) => {
+          if (cancelled) return;
+          setPoll(data.poll);
+          setVotes(data.votes);
+        })
+        .catch((err) => console.error('[PollCard] Load error:', err));
+
+    load();
+    const channel = subscribeToPoll(pollId, load);
+    return () => {
+      cancelled = true;
+      channel.unsubscribe();
+    };
+  }, [pollId]);
+
+  if (!poll) {
+    return (
+      <div className="flex justify-center py-3">
+        <Loader2 className="w-5 h-5 animate-spin text-white/50" />
+      </div>
+    );
+  }
+
+  const myVote = votes.find((vote) => vote.user_id === user?.id);
+  const choices = ballot ?? myVote?.choices ?? [];
+  const isOpen = poll.status === 'open';
+  const canManage = isAdmin || poll.created_by === user?.id;
+  const results = tallyPoll(poll, votes);
+  const totalScore = Object.values(results.scores).reduce((sum, score) => sum + score, 0);
+  const showResults = !!myVote || !isOpen || isAdmin;
+
+  async function run(action: () => Promise<void>, failure: string) {
+    setBusy(true);
+    try {
+      await action();
+      setBallot(null);
+    } catch (err) {
+      alert(`${failure}: ${err instanceof Error ? err.message : err}`);
+    }
+    setBusy(false);
+  }
+
+  function handleOption(option: PollOption) {
+    if (!isOpen || !user || busy) return;
+    if (poll!.mode === 'single') {
+      run(() => castVote(poll!.id, user.id, [option.id]), 'Failed to vote');
+      return;
+    }
+    setBallot(choices.includes(option.id) ? choices.filter((id) => id !== option.id) : [...choices, option.id]);
+  }
+
+  const scoreLabel = (score: number) =>
+    poll.mode === 'ranked' ? `${score} pts` : `${score} vote${score === 1 ? '' : 's'}`;
+
+  return (
+    <div className="space-y-3 min-w-[220px]">
+      <div className="flex items-start gap-2">
+        <BarChart3 className="w-4 h-4 text-fuchsia-400 mt-0.5 flex-shrink-0" />
+        <div>
+          <p className="text-sm font-semibold">{poll.question}</p>
+          <p className="text-xs text-white/50">
+            {POLL_MODE_LABELS[poll.mode]}
+            {poll.mode === 'ranked' && isOpen && ' - tap in order of preference'}
+            {!isOpen && ' - closed'}
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-1.5">
+        {poll.options.map((option) => {
+          const picked = choices.indexOf(option.id);
+          const share = totalScore > 0 ? (results.scores[option.id] / totalScore) * 100 : 0;
+          const isWinner = !isOpen && results.winner?.id === option.id;
+
+          return (
+            <button
+              key={option.id}
+              type="button"
+              onClick={() => handleOption(option)}
+              disabled={!isOpen || busy}
+              className={`relative w-full text-left px-3 py-2 rounded-lg border overflow-hidden transition-colors ${
+                picked >= 0 ? 'border-fuchsia-400/60' : 'border-white/10'
+              } ${isOpen ? 'hover:bg-white/10' : ''}`}
+            >
+              {showResults && (
+                <span className="absolute inset-y-0 left-0 bg-fuchsia-500/20" style={{ width: `${share}%` }} />
+              )}
+              <span className="relative flex items-center justify-between gap-2 text-sm">
+                <span className="flex items-center gap-2 min-w-0">
+                  {picked >= 0 && (
+                    poll.mode === 'ranked'
+                      ? <span className="text-xs font-bold text-fuchsia-300">{picked + 1}</span>
+                      : <Check className="w-3 h-3 text-fuchsia-300 flex-shrink-0" />
+                  )}
+                  <span className={`truncate ${isWinner ? 'font-semibold' : ''}`}>{option.title}</span>
+                </span>
+                {showResults && (
+                  <span className="text-xs text-white/50 flex-shrink-0">{scoreLabel(results.scores[option.id])}</span>
+                )}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      {isOpen && poll.mode !== 'single' && ballot !== null && (
+        <button
+          onClick={() => user && run(() => castVote(poll.id, user.id, choices), 'Failed to vote')}
+          disabled={busy || choices.length === 0}
+          className="btn-primary w-full text-sm py-2 flex items-center justify-center gap-2"
+        >
+          {busy && <Loader2 className="w-4 h-4 animate-spin" />}
+          {myVote ? 'Update Vote' : 'Vote'}
+        </button>
+      )}
+
+      <div className="flex items-center justify-between gap-2 text-xs text-white/50">
+        <span>{results.voters} voted</span>
+        {isOpen && canManage && (
+          <button
+            onClick={() => confirm('Close this poll? No more votes can be cast.') && run(() => closePoll(poll.id), 'Failed to close the poll')}
+            disabled={busy}
+            className="flex items-center gap-1 hover:text-white/80 transition-colors"
+          >
+            <Lock className="w-3 h-3" />
+            Close poll
+          </button>
+        )}
+      </div>
+
+      {poll.scheduled_option_id ? (
+        <p className="text-xs text-green-400 flex items-center gap-1">
+          <Check className="w-3 h-3" />
+          Added to the schedule
+        </p>
+      ) : isAdmin && results.winner && canSchedule(results.winner) && (
+        <button
+          onClick={() => run(() => schedulePollWinner(poll, results.winner!), 'Failed to add to the schedule')}
+          disabled={busy}
+          className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-green-500/20 text-green-400 rounded-lg hover:bg-green-500/30 transition-colors text-sm"
+        >
+          <CalendarPlus className="w-4 h-4" />
+          Add "{results.winner.title}" to schedule
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { BarChart3, Loader2, Plus, X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { createPoll, POLL_MODE_LABELS } from '../lib/polls';
+import type { PollMode, PollOption } from '../types';
+
+type DraftOption = Omit<PollOption, 'id'>;
+
+// Poll Composer - posts a poll in the trip chat. Options passed in (e.g. a shortlist of
+// activity suggestions) keep their schedule details; typed ones are plain titles that
+// get a day when one is picked, so the winner can still be scheduled.
+export default function PollComposer({
+  tripId,
+  initialQuestion = '',
+  initialOptions = [],
+  onClose,
+  onCreated,
+}: {
+  tripId: string;
+  initialQuestion?: string;
+  initialOptions?: DraftOption[];
+  onClose: () => void;
+  onCreated: () => void;
+}) {
+  const { user } = useAuth();
+  const [question, setQuestion] = useState(initialQuestion);
+  const [mode, setMode] = useState<PollMode>('single');
+  const [options, setOptions] = useState<DraftOption[]>(
+    initialOptions.length > 0 ? initialOptions : [{ title: '' }, { title: '' }]
+  );
+  const [day, setDay] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const setTitle = (index: number, title: string) =>
+    setOptions(options.map((option, i) => (i === index ? { ...option, title } : option)));
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!user) return;
+
+    const filled = options
+      .filter((option) => option.title.trim())
+      .map((option) => ({
+        ...option,
+        title: option.title.trim(),
+        item: option.item || (day ? { type: 'activity' as const, start_time: new Date(`${day}T10:00`).toISOString() } : undefined),
+      }));
+    if (filled.length < 2) {
+      setError('Add at least two options');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      await createPoll(tripId, user.id, question.trim(), mode, filled);
+      onCreated();
+    } catch (err) {
+      setError(`Failed to post the poll: ${err instanceof Error ? err.message : err}`);
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-slate-800 border border-white/10 rounded-2xl p-6 max-w-md w-full max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center gap-3 mb-6">
+          <div className="w-10 h-10 rounded-full bg-gradient-to-br from-fuchsia-500 to-blue-500 flex items-center justify-center">
+            <BarChart3 className="w-5 h-5" />
+          </div>
+          <div>
+            <h2 className="text-xl font-bold">New Poll</h2>
+            <p className="text-sm text-white/50">Let the group decide, posted in Messages</p>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-2">
+              Question
+            </label>
+            <input
+              type="text"
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+              className="input-field"
+              placeholder="e.g., What do we do on Saturday?"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-2">
+              Voting
+            </label>
+            <select
+              value={mode}
+              onChange={(e) => setMode(e.target.value as PollMode)}
+              className="input-field bg-slate-700 text-white"
+            >
+              {Object.entries(POLL_MODE_LABELS).map(([value, label]) => (
+                <option key={value} value={value} className="bg-slate-700 text-white">{label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-white/70">Options</p>
+            {options.map((option, index) => (
+              <div key={index} className="flex gap-2">
+                <input
+                  type="text"
+                  value={option.title}
+                  onChange={(e) => setTitle(index, e.target.value)}
+                  className="input-field flex-1"
+                  placeholder={`Option ${index + 1}`}
+                />
+                <button
+                  type="button"
+                  onClick={() => setOptions(options.filter((_, i) => i !== index))}
+                  className="p-2 hover:bg-red-500/20 rounded-lg transition-colors"
+                  title="Remove option"
+                >
+                  <X className="w-4 h-4 text-red-400" />
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setOptions([...options, { title: '' }])}
+              className="text-sm text-blue-400 hover:text-blue-300 transition-colors flex items-center gap-1"
+            >
+              <Plus className="w-4 h-4" />
+              Add option
+            </button>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-2">
+              Day (optional, to add the winner to the schedule)
+            </label>
+            <input
+              type="date"
+              value={day}
+              onChange={(e) => setDay(e.target.value)}
+              className="input-field"
+            />
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-500/20 border border-red-500/50 rounded-lg text-red-200 text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            <button type="button" onClick={onClose} className="btn-secondary flex-1">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="btn-primary flex-1 flex items-center justify-center gap-2"
+            >
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <BarChart3 className="w-4 h-4" />}
+              Post Poll
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
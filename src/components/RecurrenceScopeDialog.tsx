@@ -0,0 +1,48 @@
+import { Repeat } from 'lucide-react';
+import type { RecurrenceScope } from '../lib/schedule';
+
+const ACTION_LABELS = {
+  edit: 'Save changes to',
+  move: 'Move',
+  delete: 'Delete',
+};
+
+// Asked before changing one occurrence of a recurring item. Clicks stay inside, so it can
+// open on top of another modal without closing it.
+export default function RecurrenceScopeDialog({
+  title,
+  action,
+  onChoose,
+  onCancel,
+}: {
+  title: string;
+  action: keyof typeof ACTION_LABELS;
+  onChoose: (scope: RecurrenceScope) => void;
+  onCancel: () => void;
+}) {
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={(e) => { e.stopPropagation(); onCancel(); }}>
+      <div className="bg-slate-800 border border-white/10 rounded-2xl p-6 max-w-sm w-full" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center gap-3 mb-4">
+          <Repeat className="w-5 h-5 text-blue-400" />
+          <h2 className="text-lg font-bold">Recurring item</h2>
+        </div>
+        <p className="text-sm text-white/60 mb-6">
+          {ACTION_LABELS[action]} "{title}" for this occurrence only, or for this and all following ones?
+        </p>
+
+        <div className="space-y-2">
+          <button onClick={() => onChoose('this')} className="btn-secondary w-full">
+            This occurrence
+          </button>
+          <button onClick={() => onChoose('following')} className="btn-primary w-full">
+            All following
+          </button>
+          <button onClick={onCancel} className="w-full py-2 text-sm text-white/50 hover:text-white/70 transition-colors">
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import { UserCheck } from 'lucide-react';
+import type { RsvpSummary } from '../lib/rsvp';
+
+// Going count of an RSVP item, against its capacity when it has one
+export default function RsvpHeadcount({ summary, capacity }: { summary: RsvpSummary; capacity?: number | null }) {
+  const full = !!capacity && summary.going.length >= capacity;
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 text-xs px-2 py-0.5 rounded-full ${
+        full ? 'bg-orange-500/20 text-orange-300' : 'bg-green-500/20 text-green-300'
+      }`}
+      title={`${summary.going.length} going, ${summary.maybe.length} maybe, ${summary.noResponse.length} not answered`}
+    >
+      <UserCheck className="w-3 h-3" />
+      {summary.going.length}{capacity ? `/${capacity}` : ''}
+      {summary.waitlist.length > 0 && ` +${summary.waitlist.length} waiting`}
+    </span>
+  );
+}
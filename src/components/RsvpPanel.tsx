@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { BellRing, Loader2, UserCheck } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { RSVP_LABELS, sendRsvpReminder, setRsvp, type RsvpSummary } from '../lib/rsvp';
+import type { RsvpStatus, ScheduleItem, ScheduleRsvp, TripMember } from '../types';
+import RsvpHeadcount from './RsvpHeadcount';
+
+const STATUS_STYLES: Record<RsvpStatus, string> = {
+  going: 'bg-green-500/30 text-green-300',
+  maybe: 'bg-yellow-500/30 text-yellow-300',
+  not_going: 'bg-red-500/30 text-red-300',
+};
+
+// Who's coming to an RSVP item - the member's own answer, the lists and, for admins,
+// a reminder to everyone who hasn't answered yet
+export default function RsvpPanel({
+  item,
+  summary,
+  members,
+  isAdmin,
+  onChange,
+}: {
+  item: ScheduleItem;
+  summary: RsvpSummary;
+  members: TripMember[];
+  isAdmin?: boolean;
+  onChange: () => void;
+}) {
+  const { user } = useAuth();
+  const [saving, setSaving] = useState<RsvpStatus | 'remind' | null>(null);
+
+  const nameOf = (rsvp: ScheduleRsvp) => members.find((m) => m.user_id === rsvp.user_id)?.user?.name || 'Member';
+  const mine = [...summary.going, ...summary.waitlist, ...summary.maybe, ...summary.notGoing]
+    .find((rsvp) => rsvp.user_id === user?.id);
+  const waitlistPlace = summary.waitlist.findIndex((rsvp) => rsvp.user_id === user?.id) + 1;
+  const isInvited = !!mine || summary.noResponse.some((member) => member.user_id === user?.id);
+
+  async function answer(status: RsvpStatus) {
+    if (!user) return;
+    setSaving(status);
+    try {
+      await setRsvp(item, user.id, status);
+      onChange();
+    } catch (err) {
+      alert(`Failed to save your answer: ${err instanceof Error ? err.message : err}`);
+    }
+    setSaving(null);
+  }
+
+  async function remind() {
+    if (!user || !confirm(`Post a reminder for ${summary.noResponse.length} member(s) who haven't answered?`)) return;
+    setSaving('remind');
+    try {
+      await sendRsvpReminder(user.id, item, summary.noResponse);
+      alert('Reminder posted in Messages');
+    } catch (err) {
+      alert(`Failed to post the reminder: ${err instanceof Error ? err.message : err}`);
+    }
+    setSaving(null);
+  }
+
+  const groups = [
+    { label: 'Going', rsvps: summary.going },
+    { label: 'Waitlist', rsvps: summary.waitlist },
+    { label: 'Maybe', rsvps: summary.maybe },
+    { label: 'Not going', rsvps: summary.notGoing },
+  ].filter((group) => group.rsvps.length > 0);
+
+  return (
+    <div className="p-3 bg-white/5 rounded-xl space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <UserCheck className="w-5 h-5 text-green-400" />
+          <p className="text-sm text-white/50">Who's coming</p>
+        </div>
+        <RsvpHeadcount summary={summary} capacity={item.capacity} />
+      </div>
+
+      {isInvited && (
+        <div>
+          <div className="grid grid-cols-3 gap-2">
+            {(Object.keys(RSVP_LABELS) as RsvpStatus[]).map((status) => (
+              <button
+                key={status}
+                onClick={() => answer(status)}
+                disabled={saving !== null || mine?.status === status}
+                className={`py-2 rounded-lg text-sm font-medium transition-colors flex items-center justify-center ${
+                  mine?.status === status ? STATUS_STYLES[status] : 'bg-white/5 text-white/60 hover:bg-white/10'
+                }`}
+              >
+                {saving === status ? <Loader2 className="w-4 h-4 animate-spin" /> : RSVP_LABELS[status]}
+              </button>
+            ))}
+          </div>
+          {waitlistPlace > 0 && (
+            <p className="text-xs text-orange-300 mt-2">
+              It's full - you're #{waitlistPlace} on the waitlist and move up when a place frees up
+            </p>
+          )}
+        </div>
+      )}
+
+      {groups.map((group) => (
+        <p key={group.label} className="text-sm">
+          <span className="text-white/50">{group.label}: </span>
+          {group.rsvps.map(nameOf).join(', ')}
+        </p>
+      ))}
+
+      {isAdmin && summary.noResponse.length > 0 && (
+        <div className="flex items-center justify-between gap-2 pt-2 border-t border-white/10">
+          <p className="text-sm text-white/50 min-w-0 truncate">
+            No answer: {summary.noResponse.map((member) => member.user?.name || 'Member').join(', ')}
+          </p>
+          <button
+            onClick={remind}
+            disabled={saving !== null}
+            className="flex items-center gap-1 px-3 py-1.5 bg-blue-500/20 text-blue-400 rounded-lg hover:bg-blue-500/30 transition-colors text-sm flex-shrink-0"
+          >
+            {saving === 'remind' ? <Loader2 className="w-4 h-4 animate-spin" /> : <BellRing className="w-4 h-4" />}
+            Remind
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
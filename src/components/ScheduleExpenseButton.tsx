@@ -0,0 +1,43 @@
+import { useState } from 'react';
+import { Wallet, Check, Loader2 } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { createExpenseFromScheduleItem } from '../lib/expenses';
+import type { ScheduleItem } from '../types';
+
+// Turns a schedule item's estimated cost into a shared expense paid by the current user
+export default function ScheduleExpenseButton({ item }: { item: ScheduleItem }) {
+  const { user } = useAuth();
+  const [status, setStatus] = useState<'idle' | 'saving' | 'done'>('idle');
+
+  async function handleClick() {
+    if (!user) return;
+    setStatus('saving');
+    try {
+      await createExpenseFromScheduleItem(item, user.id);
+      setStatus('done');
+    } catch (err) {
+      console.error('[ScheduleExpense] Failed to create expense:', err);
+      alert(`Failed to add expense: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      setStatus('idle');
+    }
+  }
+
+  if (!item.estimated_cost) return null;
+
+  return (
+    <button
+      onClick={handleClick}
+      disabled={status !== 'idle'}
+      className="flex items-center justify-center gap-2 w-full p-3 bg-green-500/20 hover:bg-green-500/30 border border-green-500/50 rounded-xl text-green-400 font-medium transition-colors disabled:opacity-70"
+    >
+      {status === 'saving' ? (
+        <Loader2 className="w-4 h-4 animate-spin" />
+      ) : status === 'done' ? (
+        <Check className="w-4 h-4" />
+      ) : (
+        <Wallet className="w-4 h-4" />
+      )}
+      {status === 'done' ? 'Added to expenses' : 'I paid this - split with the group'}
+    </button>
+  );
+}
@@ -0,0 +1,29 @@
+import { AlertTriangle, AlertCircle } from 'lucide-react';
+import type { ScheduleIssue } from '../lib/scheduleChecks';
+
+// Feasibility warnings from checkSchedule, for the detail modals and the admin summary
+export default function ScheduleIssueList({ issues }: { issues: ScheduleIssue[] }) {
+  if (issues.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {issues.map((issue, index) => (
+        <div
+          key={`${issue.kind}-${issue.itemIds.join('-')}-${index}`}
+          className={`flex items-start gap-2 p-3 rounded-xl text-sm ${
+            issue.severity === 'error'
+              ? 'bg-red-500/10 border border-red-500/30 text-red-200'
+              : 'bg-yellow-500/10 border border-yellow-500/30 text-yellow-100'
+          }`}
+        >
+          {issue.severity === 'error' ? (
+            <AlertCircle className="w-4 h-4 mt-0.5 shrink-0 text-red-400" />
+          ) : (
+            <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0 text-yellow-400" />
+          )}
+          <span>{issue.message}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,323 @@
+import { useState } from 'react';
+import type { ScheduleItem, TripMember, TripSubgroup } from '../types';
+import type { ScheduleItemFormValues } from '../lib/schedule';
+import { WEEKDAY_LABELS } from '../lib/recurrence';
+import { getSubgroupColor, typeLabels } from './scheduleTypes';
+
+// Form fields of a schedule item, used by both the add and the edit modal
+export default function ScheduleItemFields({
+  values,
+  onChange,
+  collapseDetails,
+  audienceOptions,
+}: {
+  values: ScheduleItemFormValues;
+  onChange: (values: ScheduleItemFormValues) => void;
+  collapseDetails?: boolean; // Links, codes and contacts behind a toggle
+  audienceOptions?: { subgroups: TripSubgroup[]; members: TripMember[] }; // Shows the "For" picker
+}) {
+  const [showAdvanced, setShowAdvanced] = useState(!collapseDetails);
+
+  const set = (field: keyof ScheduleItemFormValues) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) =>
+      onChange({ ...values, [field]: e.target.value });
+
+  const toggleRepeatDay = (day: number) => onChange({
+    ...values,
+    repeatDays: values.repeatDays.includes(day)
+      ? values.repeatDays.filter((d) => d !== day)
+      : [...values.repeatDays, day].sort(),
+  });
+
+  const toggleAudience = (field: 'audienceSubgroupIds' | 'audienceUserIds', id: string) => onChange({
+    ...values,
+    [field]: values[field].includes(id) ? values[field].filter((v) => v !== id) : [...values[field], id],
+  });
+
+  const forEveryone = values.audienceSubgroupIds.length === 0 && values.audienceUserIds.length === 0;
+
+  const details = (
+    <>
+      <div>
+        <label className="block text-sm font-medium text-white/70 mb-2">
+          Location URL (Google Maps)
+        </label>
+        <input
+          type="url"
+          value={values.locationUrl}
+          onChange={set('locationUrl')}
+          className="input-field"
+          placeholder="https://goo.gl/maps/..."
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-white/70 mb-2">
+          Booking URL
+        </label>
+        <input
+          type="url"
+          value={values.bookingUrl}
+          onChange={set('bookingUrl')}
+          className="input-field"
+          placeholder="https://booking-website.com/..."
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-white/70 mb-2">
+          Reservation Code
+        </label>
+        <input
+          type="text"
+          value={values.reservationCode}
+          onChange={set('reservationCode')}
+          className="input-field"
+          placeholder="e.g., ABC123"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-white/70 mb-2">
+          Contact Info
+        </label>
+        <input
+          type="text"
+          value={values.contactInfo}
+          onChange={set('contactInfo')}
+          className="input-field"
+          placeholder="e.g., +31 20 123 4567"
+        />
+      </div>
+    </>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-white/70 mb-2">
+          Title
+        </label>
+        <input
+          type="text"
+          value={values.title}
+          onChange={set('title')}
+          className="input-field"
+          required
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-white/70 mb-2">
+          Type
+        </label>
+        <select
+          value={values.type}
+          onChange={(e) => onChange({ ...values, type: e.target.value as ScheduleItem['type'] })}
+          className="input-field bg-slate-700 text-white"
+        >
+          {Object.entries(typeLabels).map(([type, label]) => (
+            <option key={type} value={type} className="bg-slate-700 text-white">{label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-white/70 mb-2">
+            Start Time
+          </label>
+          <input
+            type="datetime-local"
+            value={values.startTime}
+            onChange={set('startTime')}
+            className="input-field"
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-white/70 mb-2">
+            End Time (optional)
+          </label>
+          <input
+            type="datetime-local"
+            value={values.endTime}
+            onChange={set('endTime')}
+            className="input-field"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <label className="flex items-center gap-2 text-sm text-white/70 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={values.repeats}
+            onChange={(e) => onChange({ ...values, repeats: e.target.checked })}
+            className="rounded"
+          />
+          Repeat every day
+        </label>
+
+        {values.repeats && (
+          <div className="space-y-3 p-4 bg-white/5 rounded-xl border border-white/10">
+            <div>
+              <p className="text-sm text-white/50 mb-2">On (all days when none picked)</p>
+              <div className="flex flex-wrap gap-1">
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <button
+                    key={label}
+                    type="button"
+                    onClick={() => toggleRepeatDay(day)}
+                    className={`px-2.5 py-1 rounded-lg text-xs transition-colors ${
+                      values.repeatDays.includes(day)
+                        ? 'bg-blue-500/30 text-blue-300'
+                        : 'bg-white/5 text-white/50 hover:bg-white/10'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm text-white/50 mb-2">
+                Until (end of the trip when empty)
+              </label>
+              <input
+                type="date"
+                value={values.repeatUntil}
+                onChange={set('repeatUntil')}
+                className="input-field"
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {audienceOptions && (
+        <div>
+          <p className="block text-sm font-medium text-white/70 mb-2">
+            For {forEveryone && <span className="text-white/40 font-normal">(everyone when nothing is picked)</span>}
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {audienceOptions.subgroups.map((group) => (
+              <button
+                key={group.id}
+                type="button"
+                onClick={() => toggleAudience('audienceSubgroupIds', group.id)}
+                className={`flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs border transition-colors ${
+                  values.audienceSubgroupIds.includes(group.id)
+                    ? getSubgroupColor(group.color).badge
+                    : 'bg-white/5 text-white/50 border-transparent hover:bg-white/10'
+                }`}
+              >
+                <span className={`w-2 h-2 rounded-full ${getSubgroupColor(group.color).dot}`} />
+                {group.name}
+              </button>
+            ))}
+            {audienceOptions.members.map((member) => (
+              <button
+                key={member.user_id}
+                type="button"
+                onClick={() => toggleAudience('audienceUserIds', member.user_id)}
+                className={`px-2.5 py-1 rounded-lg text-xs border transition-colors ${
+                  values.audienceUserIds.includes(member.user_id)
+                    ? 'bg-blue-500/30 text-blue-300 border-blue-500/40'
+                    : 'bg-white/5 text-white/50 border-transparent hover:bg-white/10'
+                }`}
+              >
+                {member.user?.name || 'Member'}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <label className="flex items-center gap-2 text-sm text-white/70 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={values.rsvpEnabled}
+            onChange={(e) => onChange({ ...values, rsvpEnabled: e.target.checked })}
+            className="rounded"
+          />
+          Ask who's coming (RSVP)
+        </label>
+
+        {values.rsvpEnabled && (
+          <div className="p-4 bg-white/5 rounded-xl border border-white/10">
+            <label className="block text-sm text-white/50 mb-2">
+              Places (no limit when empty, the rest goes on a waitlist)
+            </label>
+            <input
+              type="number"
+              value={values.capacity}
+              onChange={set('capacity')}
+              className="input-field"
+              placeholder="e.g., 12"
+              min="1"
+              step="1"
+            />
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-white/70 mb-2">
+          Description (optional)
+        </label>
+        <textarea
+          value={values.description}
+          onChange={set('description')}
+          className="input-field resize-none"
+          rows={2}
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-white/70 mb-2">
+          Location (optional)
+        </label>
+        <input
+          type="text"
+          value={values.location}
+          onChange={set('location')}
+          className="input-field"
+          placeholder="e.g., Amsterdam Central"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-white/70 mb-2">
+          Estimated Cost € for the group (optional)
+        </label>
+        <input
+          type="number"
+          value={values.estimatedCost}
+          onChange={set('estimatedCost')}
+          className="input-field"
+          placeholder="e.g., 25"
+          min="0"
+          step="0.01"
+        />
+      </div>
+
+      {collapseDetails && (
+        <button
+          type="button"
+          onClick={() => setShowAdvanced(!showAdvanced)}
+          className="text-sm text-blue-400 hover:text-blue-300 transition-colors flex items-center gap-1"
+        >
+          {showAdvanced ? '- Hide' : '+ Show'} advanced options
+        </button>
+      )}
+
+      {showAdvanced && (collapseDetails ? (
+        <div className="space-y-4 p-4 bg-white/5 rounded-xl border border-white/10">
+          {details}
+        </div>
+      ) : details)}
+    </div>
+  );
+}
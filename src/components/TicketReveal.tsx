@@ -2,11 +2,13 @@ import { useState, useEffect } from 'react';
 import { QrCode, Plane, Train, Bus, MapPin, AlertCircle, Ticket as TicketIcon } from 'lucide-react';
 import { QRCodeSVG } from 'qrcode.react';
 import type { Ticket, TicketRevealStatus, Trip } from '../types';
+import { resolveRevealPolicy, formatRevealOffset } from '../lib/reveal';
 
 interface TicketRevealProps {
   ticket: Ticket | null;
   revealStatus: TicketRevealStatus;
-  departureTime: string;
+  nextRevealAt: string | null; // From /api/ticket-reveal
+  onRevealDue?: () => void; // Called when the next stage unlocks, to refetch the ticket
   trip?: Trip | null;
   userName?: string;
 }
@@ -22,7 +24,8 @@ const typeIcons: Record<Ticket['type'], typeof Plane> = {
 export default function TicketReveal({
   ticket,
   revealStatus,
-  departureTime,
+  nextRevealAt,
+  onRevealDue,
   trip,
   userName,
 }: TicketRevealProps) {
@@ -50,6 +53,7 @@ export default function TicketReveal({
   }
 
   const TypeIcon = typeIcons[ticket.type] || MapPin;
+  const policy = resolveRevealPolicy(trip);
 
   // Generate QR code data - use booking reference or create unique ID
   const qrData = ticket.booking_reference || `GT-${ticket.id.substring(0, 8).toUpperCase()}`;
@@ -66,7 +70,9 @@ export default function TicketReveal({
             </div>
           </div>
 
-          <h2 className="text-xl md:text-2xl font-bold mb-2">Ticket Hidden</h2>
+          <h2 className="text-xl md:text-2xl font-bold mb-2">
+            {ticket.label ? `${ticket.label} Ticket Hidden` : 'Ticket Hidden'}
+          </h2>
           <p className="text-white/60 mb-6 text-sm md:text-base">
             Your ticket will be revealed as the departure time approaches.
           </p>
@@ -77,17 +83,17 @@ export default function TicketReveal({
             </h3>
             <div className="space-y-3 text-sm">
               <div className="flex items-center justify-between">
-                <span className="text-white/50">3 hours before</span>
+                <span className="text-white/50">{formatRevealOffset(policy.ticket_qr)} before</span>
                 <span className="text-blue-400">QR code visible</span>
               </div>
               <div className="flex items-center justify-between">
-                <span className="text-white/50">1 hour before</span>
+                <span className="text-white/50">{formatRevealOffset(policy.ticket_full)} before</span>
                 <span className="text-green-400">Full ticket visible</span>
               </div>
             </div>
           </div>
 
-          <CountdownToReveal departureTime={departureTime} />
+          {nextRevealAt && <CountdownToReveal revealAt={nextRevealAt} onReached={onRevealDue} />}
         </div>
       </div>
     );
@@ -156,7 +162,7 @@ export default function TicketReveal({
                 <span className="font-medium">Destination: Hidden</span>
               </div>
               <p className="text-xs text-white/50 mt-1">
-                Will be revealed 1 hour before departure
+                Will be revealed {formatRevealOffset(policy.ticket_full)} before departure
               </p>
             </div>
 
@@ -191,7 +197,9 @@ export default function TicketReveal({
           </div>
         </div>
 
-        <CountdownToReveal departureTime={departureTime} fullReveal className="mt-6" />
+        {nextRevealAt && (
+          <CountdownToReveal revealAt={nextRevealAt} onReached={onRevealDue} fullReveal className="mt-6" />
+        )}
 
         {/* QR Modal */}
         {showQRModal && (
@@ -449,26 +457,31 @@ function QRModal({ qrData, qrUrl, onClose }: { qrData: string; qrUrl?: string; o
 }
 
 function CountdownToReveal({
-  departureTime,
+  revealAt,
+  onReached,
   fullReveal = false,
   className = '',
 }: {
-  departureTime: string;
+  revealAt: string;
+  onReached?: () => void;
   fullReveal?: boolean;
   className?: string;
 }) {
   const [timeLeft, setTimeLeft] = useState<string>('');
 
   useEffect(() => {
+    let reached = false;
+
     const update = () => {
-      const departure = new Date(departureTime);
-      const revealTime = new Date(
-        departure.getTime() - (fullReveal ? 1 : 3) * 60 * 60 * 1000
-      );
-      const diff = revealTime.getTime() - Date.now();
+      const diff = new Date(revealAt).getTime() - Date.now();
 
       if (diff <= 0) {
         setTimeLeft('Now!');
+        // The server decides what is unlocked, so ask it again once
+        if (!reached) {
+          reached = true;
+          onReached?.();
+        }
         return;
       }
 
@@ -482,7 +495,7 @@ function CountdownToReveal({
     update();
     const timer = setInterval(update, 1000);
     return () => clearInterval(timer);
-  }, [departureTime, fullReveal]);
+  }, [revealAt, onReached]);
 
   return (
     <div className={`text-center ${className}`}>
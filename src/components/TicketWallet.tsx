@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { Lock, QrCode, Check } from 'lucide-react';
+import TicketReveal from './TicketReveal';
+import type { RevealedTicket, Ticket, TicketRevealStatus, Trip } from '../types';
+
+interface TicketWalletProps {
+  tickets: RevealedTicket[]; // Ordered by departure, from /api/ticket-reveal
+  trip?: Trip | null;
+  userName?: string;
+  onRevealDue?: () => void;
+}
+
+const typeLabels: Record<Ticket['type'], string> = {
+  flight: 'Flight',
+  train: 'Train',
+  bus: 'Bus',
+  event: 'Event',
+  other: 'Ticket',
+};
+
+const statusStyles: Record<TicketRevealStatus, { className: string; icon: typeof Lock }> = {
+  hidden: { className: 'text-white/40', icon: Lock },
+  qr_only: { className: 'text-blue-400', icon: QrCode },
+  full: { className: 'text-green-400', icon: Check },
+};
+
+export default function TicketWallet({ tickets, trip, userName, onRevealDue }: TicketWalletProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  if (tickets.length === 0) {
+    return (
+      <TicketReveal
+        ticket={null}
+        revealStatus="hidden"
+        nextRevealAt={null}
+        trip={trip}
+        userName={userName}
+      />
+    );
+  }
+
+  const selected = tickets.find((t) => t.ticket.id === selectedId) || tickets[0];
+
+  return (
+    <div className="space-y-6">
+      {/* Wallet - one chip per ticket, in departure order */}
+      {tickets.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto max-w-md mx-auto pb-1">
+          {tickets.map(({ ticket, reveal_status }, index) => {
+            const { className, icon: StatusIcon } = statusStyles[reveal_status];
+            const isSelected = ticket.id === selected.ticket.id;
+            return (
+              <button
+                key={ticket.id}
+                onClick={() => setSelectedId(ticket.id)}
+                className={`shrink-0 px-3 py-2 rounded-xl text-left transition-colors border ${
+                  isSelected
+                    ? 'bg-blue-500/20 border-blue-500/40'
+                    : 'bg-white/5 border-white/10 hover:bg-white/10'
+                }`}
+              >
+                <p className="text-sm font-medium">
+                  {ticket.label || `${typeLabels[ticket.type]} ${index + 1}`}
+                </p>
+                <p className={`text-xs flex items-center gap-1 ${className}`}>
+                  <StatusIcon className="w-3 h-3" />
+                  {ticket.departure_time
+                    ? new Date(ticket.departure_time).toLocaleDateString('en-US', { day: 'numeric', month: 'short' })
+                    : reveal_status === 'hidden'
+                    ? 'Hidden'
+                    : 'Revealed'}
+                </p>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      <TicketReveal
+        key={selected.ticket.id}
+        ticket={selected.ticket}
+        revealStatus={selected.reveal_status}
+        nextRevealAt={selected.next_reveal_at}
+        onRevealDue={onRevealDue}
+        trip={trip}
+        userName={userName}
+      />
+    </div>
+  );
+}
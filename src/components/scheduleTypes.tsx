@@ -0,0 +1,43 @@
+import { Plane, Utensils, Hotel, Camera, Users, Coffee } from 'lucide-react';
+import type { ScheduleItem } from '../types';
+
+// Icons, colours and labels per schedule item type, shared by the schedule views and modals
+
+export const typeIcons: Record<string, React.ReactNode> = {
+  travel: <Plane className="w-4 h-4" />,
+  activity: <Camera className="w-4 h-4" />,
+  meal: <Utensils className="w-4 h-4" />,
+  accommodation: <Hotel className="w-4 h-4" />,
+  free_time: <Coffee className="w-4 h-4" />,
+  meeting: <Users className="w-4 h-4" />,
+};
+
+export const typeGradients: Record<string, string> = {
+  travel: 'from-blue-500 to-blue-600',
+  activity: 'from-fuchsia-500 to-fuchsia-600',
+  meal: 'from-orange-500 to-orange-600',
+  accommodation: 'from-purple-500 to-purple-600',
+  free_time: 'from-green-500 to-green-600',
+  meeting: 'from-yellow-500 to-yellow-600',
+};
+
+export const typeLabels: Record<ScheduleItem['type'], string> = {
+  travel: 'Travel',
+  activity: 'Activity',
+  meal: 'Meal',
+  accommodation: 'Accommodation',
+  free_time: 'Free Time',
+  meeting: 'Meeting Point',
+};
+
+// Sub-group colours, written out in full so Tailwind keeps the classes
+export const subgroupColors: Record<string, { dot: string; badge: string }> = {
+  sky: { dot: 'bg-sky-400', badge: 'bg-sky-500/20 text-sky-300 border-sky-500/40' },
+  rose: { dot: 'bg-rose-400', badge: 'bg-rose-500/20 text-rose-300 border-rose-500/40' },
+  amber: { dot: 'bg-amber-400', badge: 'bg-amber-500/20 text-amber-300 border-amber-500/40' },
+  emerald: { dot: 'bg-emerald-400', badge: 'bg-emerald-500/20 text-emerald-300 border-emerald-500/40' },
+  violet: { dot: 'bg-violet-400', badge: 'bg-violet-500/20 text-violet-300 border-violet-500/40' },
+  teal: { dot: 'bg-teal-400', badge: 'bg-teal-500/20 text-teal-300 border-teal-500/40' },
+};
+
+export const getSubgroupColor = (color: string) => subgroupColors[color] || subgroupColors.sky;
@@ -1,5 +1,8 @@
 import { createContext, useContext, useState, useEffect, useRef, type ReactNode } from 'react';
 import { supabase } from '../lib/supabase';
+import { DataError } from '../lib/db';
+import { createUser, fetchUser, updateUser } from '../lib/users';
+import { clearOfflineData } from '../lib/offline';
 import type { User } from '../types';
 
 // Debug logging helper - ALWAYS ON for now to diagnose payment return issue
@@ -127,11 +130,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
     try {
       authLog('Starting Supabase query...');
-      const { data, error } = await supabase
-        .from('users')
-        .select('*')
-        .eq('id', userId)
-        .single();
+      const profile = await fetchUser(userId);
 
       // Clear timeout and check if we already timed out
       clearTimeout(timeoutId);
@@ -141,44 +140,30 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       }
       completed = true;
 
-      authLog('Query completed', { hasData: !!data, hasError: !!error });
+      authLog('Profile fetched successfully', { id: profile.id, name: profile.name });
+      setUser(profile);
+    } catch (err) {
+      clearTimeout(timeoutId);
+      if (completed) return;
+      completed = true;
 
-      if (error) {
-        authLog('Error fetching user profile', { code: error.code, message: error.message });
+      if (err instanceof DataError) {
+        authLog('Error fetching user profile', { code: err.code, message: err.message });
 
         // If profile doesn't exist, try to create it in background
-        if (error.code === 'PGRST116') {
+        if (err.isNotFound) {
           authLog('Profile not found, creating one in background');
-          supabase.from('users').insert({
-            id: userId,
-            email,
-            name: fallbackUser.name
-          }).then(({ error: insertError }) => {
-            if (insertError) {
-              authLog('Could not create profile', insertError.message);
-            } else {
-              authLog('Profile created successfully');
-            }
-          });
+          createUser({ id: userId, email, name: fallbackUser.name })
+            .then(() => authLog('Profile created successfully'))
+            .catch((insertError) => authLog('Could not create profile', insertError.message));
         }
-
-        // Use fallback user immediately
-        authLog('Using fallback user');
-        setUser(fallbackUser);
-      } else if (data) {
-        authLog('Profile fetched successfully', { id: data.id, name: data.name });
-        setUser(data as User);
       } else {
-        authLog('No profile data, using fallback');
-        setUser(fallbackUser);
+        const errorMessage = err instanceof Error ? err.message : String(err);
+        authLog('Exception in fetchUserProfile', errorMessage);
       }
-    } catch (err) {
-      clearTimeout(timeoutId);
-      if (completed) return;
-      completed = true;
 
-      const errorMessage = err instanceof Error ? err.message : String(err);
-      authLog('Exception in fetchUserProfile', errorMessage);
+      // Use fallback user immediately
+      authLog('Using fallback user');
       setUser(fallbackUser);
     } finally {
       if (completed) {
@@ -230,18 +215,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       // Create user profile
       if (data.user) {
         authLog('signUp successful, creating profile', { userId: data.user.id });
-        const { error: profileError } = await supabase.from('users').insert({
-          id: data.user.id,
-          email,
-          name,
-        });
-
-        if (profileError) {
+        try {
+          await createUser({ id: data.user.id, email, name });
+          authLog('Profile created successfully');
+        } catch (profileError) {
           authLog('Profile creation error (non-fatal)', profileError);
           // Don't fail registration if profile creation fails
           // The fetchUserProfile will create it on next login
-        } else {
-          authLog('Profile created successfully');
         }
       }
 
@@ -298,6 +278,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   async function signOut() {
     authLog('signOut started');
+    clearOfflineData().catch((err) => authLog('Failed to clear offline data', err));
     try {
       await supabase.auth.signOut();
       authLog('signOut successful');
@@ -312,13 +293,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   async function updateProfile(updates: Partial<User>) {
     if (!user) return { error: 'Not authenticated' };
 
-    const { error } = await supabase
-      .from('users')
-      .update(updates)
-      .eq('id', user.id);
-
-    if (error) {
-      return { error: error.message };
+    try {
+      await updateUser(user.id, updates);
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : String(err) };
     }
 
     setUser({ ...user, ...updates });
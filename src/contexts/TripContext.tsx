@@ -1,215 +1,322 @@
-import { createContext, useContext, useState, useEffect, type ReactNode } from 'react';
-import { supabase, subscribeToTrip, subscribeToLocations } from '../lib/supabase';
+import { createContext, useContext, useEffect, useState, useRef, type ReactNode } from 'react';
+import {
+  subscribeToTrip,
+  subscribeToLocations,
+  subscribeToTripData,
+  subscribeToTicketChanges,
+  subscribeToAudienceChanges,
+  type RowChange,
+} from '../lib/supabase';
+import { applyChange, emptyCollection, listItems, removeItem, toCollection, upsertItem, type Collection } from '../lib/collection';
+import { fetchTrip } from '../lib/trips';
+import { fetchTripMembers, joinTripByLobbyCode } from '../lib/members';
+import { fetchMessages } from '../lib/messages';
+import { fetchSchedule } from '../lib/schedule';
+import { fetchLocations } from '../lib/locations';
+import { fetchTripMedia } from '../lib/media';
+import { fetchRevealedTickets } from '../lib/tickets';
+import { fetchUser } from '../lib/users';
+import { inlineQrCodes, loadTripCopy, saveTripCopy } from '../lib/offline';
+import { fetchTripSubgroups } from '../lib/subgroups';
+import { fetchTripRsvps } from '../lib/rsvp';
 import { useAuth } from './AuthContext';
-import type { Trip, TripMember, TripMessage, MemberLocation, ScheduleItem } from '../types';
+import type {
+  Trip,
+  TripMember,
+  TripMessage,
+  MemberLocation,
+  ScheduleItem,
+  TripMedia,
+  RevealedTicket,
+  TripSubgroup,
+  ScheduleRsvp,
+} from '../types';
+
+// Everything the lobby shows of one trip. Lists are normalized so a change to one row
+// only replaces that row.
+export interface TripEntry {
+  trip: Trip | null;
+  members: Collection<TripMember>;
+  messages: Collection<TripMessage>; // Latest page, newest first
+  schedule: Collection<ScheduleItem>; // Series as stored, by start time
+  locations: Collection<MemberLocation>;
+  media: Collection<TripMedia>; // Newest first
+  tickets: Collection<RevealedTicket>; // The user's own, through the reveal gate
+  subgroups: Collection<TripSubgroup>;
+  rsvps: Collection<ScheduleRsvp>;
+  loadedAt: Partial<Record<TripSlice, number>>;
+  status: 'loading' | 'ready' | 'error';
+}
+
+export type TripSlice = Exclude<keyof TripEntry, 'loadedAt' | 'status'>;
+
+const SLICES: TripSlice[] = ['trip', 'members', 'messages', 'schedule', 'locations', 'media', 'tickets', 'subgroups', 'rsvps'];
+
+const loaders: { [S in TripSlice]: (tripId: string) => Promise<TripEntry[S]> } = {
+  trip: fetchTrip,
+  members: async (tripId) => toCollection(await fetchTripMembers(tripId)),
+  messages: async (tripId) => toCollection((await fetchMessages(tripId)).items),
+  schedule: async (tripId) => toCollection(await fetchSchedule(tripId)),
+  locations: async (tripId) => toCollection(await fetchLocations(tripId)),
+  media: async (tripId) => toCollection(await fetchTripMedia(tripId)),
+  tickets: async (tripId) => toCollection(await fetchRevealedTickets(tripId), (revealed) => revealed.ticket.id),
+  subgroups: async (tripId) => toCollection(await fetchTripSubgroups(tripId)),
+  rsvps: async (tripId) => toCollection(await fetchTripRsvps(tripId)),
+};
+
+// What's kept on the device for when there's no signal, see src/lib/offline.ts
+const OFFLINE_SLICES = ['trip', 'schedule', 'members', 'tickets'] as const;
+type OfflineSlice = (typeof OFFLINE_SLICES)[number];
+type OfflineCopy = Partial<Pick<TripEntry, OfflineSlice>>;
+
+async function toOfflineValue<S extends OfflineSlice>(slice: S, value: TripEntry[S]): Promise<TripEntry[S]> {
+  if (slice !== 'tickets') return value;
+  const tickets = value as TripEntry['tickets'];
+  return toCollection(await inlineQrCodes(listItems(tickets)), (revealed) => revealed.ticket.id) as TripEntry[S];
+}
+
+// The slices of the offline copy that haven't been loaded this session
+const fromOfflineCopy = (entry: TripEntry, copy: OfflineCopy): Partial<TripEntry> =>
+  Object.fromEntries(OFFLINE_SLICES.filter((slice) => copy[slice] && !entry.loadedAt[slice]).map((slice) => [slice, copy[slice]]));
+
+const byStartTime = (a: ScheduleItem, b: ScheduleItem) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime();
+
+// Realtime rows come without the joins the fetch functions add, so they're added back here
+const joined = <T,>(change: RowChange<T>, join: (row: T) => T): RowChange<T> =>
+  change.type === 'delete' ? change : { type: 'upsert', row: join(change.row) };
+
+const memberProfile = (entry: TripEntry, userId: string) =>
+  listItems(entry.members).find((member) => member.user_id === userId)?.user;
+
+// Ticket changes often come in bursts (the admin assigning tickets to the whole group), and each
+// one means fetching the tickets again, so they're reloaded together once it's quiet for a moment
+const RELOAD_DELAY = 300;
+
+const emptyEntry = (): TripEntry => ({
+  trip: null,
+  members: emptyCollection(),
+  messages: emptyCollection(),
+  schedule: emptyCollection(),
+  locations: emptyCollection(),
+  media: emptyCollection(),
+  tickets: emptyCollection(),
+  subgroups: emptyCollection(),
+  rsvps: emptyCollection(),
+  loadedAt: {},
+  status: 'loading',
+});
 
 interface TripContextType {
-  currentTrip: Trip | null;
-  members: TripMember[];
-  messages: TripMessage[];
-  locations: MemberLocation[];
-  schedule: ScheduleItem[];
-  isAdmin: boolean;
-  loading: boolean;
-  joinTrip: (lobbyCode: string) => Promise<{ error: string | null }>;
-  leaveTrip: () => void;
-  sendMessage: (content: string, type: TripMessage['type']) => Promise<{ error: string | null }>;
-  updateLocation: (lat: number, lng: number) => Promise<void>;
-  refreshTrip: () => Promise<void>;
+  trips: Record<string, TripEntry>;
+  watchTrip: (tripId: string) => () => void;
+  reloadTrip: (tripId: string, slices?: TripSlice[]) => Promise<void>;
+  addMedia: (tripId: string, item: TripMedia) => void;
+  joinTrip: (lobbyCode: string) => Promise<{ tripId: string | null; error: string | null }>;
 }
 
 const TripContext = createContext<TripContextType | undefined>(undefined);
 
+// Cache of every trip opened this session, keyed by trip id. Opening a trip again shows what's
+// cached straight away and refreshes it in the background; while a trip is open it's kept up
+// to date through realtime.
 export function TripProvider({ children }: { children: ReactNode }) {
   const { user } = useAuth();
-  const [currentTrip, setCurrentTrip] = useState<Trip | null>(null);
-  const [members, setMembers] = useState<TripMember[]>([]);
-  const [messages, setMessages] = useState<TripMessage[]>([]);
-  const [locations, setLocations] = useState<MemberLocation[]>([]);
-  const [schedule, setSchedule] = useState<ScheduleItem[]>([]);
-  const [isAdmin, setIsAdmin] = useState(false);
-  const [loading, setLoading] = useState(false);
-
+  // Entries are kept per user, so another account's trips never show after switching
+  const [cache, setCache] = useState<{ userId?: string; trips: Record<string, TripEntry> }>({ trips: {} });
+  const trips = cache.userId === user?.id ? cache.trips : {};
+  const watchers = useRef<Record<string, { count: number; stop: () => void }>>({});
+  const pendingReloads = useRef<Record<string, { slices: Set<TripSlice>; timer: ReturnType<typeof setTimeout> }>>({});
+  const savedOffline = useRef<Record<string, OfflineCopy>>({});
+
+  // Saves the offline copy of a slice whenever it's loaded or changed through realtime
   useEffect(() => {
-    if (!currentTrip) return;
-
-    // Subscribe to real-time messages
-    const messageChannel = subscribeToTrip(currentTrip.id, (payload) => {
-      const newMessage = (payload as { new: TripMessage }).new;
-      setMessages((prev) => [...prev, newMessage]);
-    });
-
-    // Subscribe to location updates
-    const locationChannel = subscribeToLocations(currentTrip.id, (payload) => {
-      const update = (payload as { new: MemberLocation }).new;
-      setLocations((prev) => {
-        const existing = prev.findIndex((l) => l.user_id === update.user_id);
-        if (existing >= 0) {
-          const updated = [...prev];
-          updated[existing] = update;
-          return updated;
-        }
-        return [...prev, update];
-      });
-    });
-
-    return () => {
-      messageChannel.unsubscribe();
-      locationChannel.unsubscribe();
-    };
-  }, [currentTrip]);
-
-  async function joinTrip(lobbyCode: string) {
-    if (!user) return { error: 'Not authenticated' };
-
-    setLoading(true);
-
-    // Find trip by lobby code
-    const { data: trip, error: tripError } = await supabase
-      .from('trips')
-      .select('*')
-      .eq('lobby_code', lobbyCode.toUpperCase())
-      .single();
-
-    if (tripError || !trip) {
-      setLoading(false);
-      return { error: 'Invalid lobby code' };
-    }
-
-    // Check if already a member
-    const { data: existingMember } = await supabase
-      .from('trip_members')
-      .select('*')
-      .eq('trip_id', trip.id)
-      .eq('user_id', user.id)
-      .single();
-
-    if (!existingMember) {
-      // Add as member
-      const { error: joinError } = await supabase.from('trip_members').insert({
-        trip_id: trip.id,
-        user_id: user.id,
-        role: 'member',
-      });
-
-      if (joinError) {
-        setLoading(false);
-        return { error: joinError.message };
+    if (!user || cache.userId !== user.id) return;
+    for (const [tripId, entry] of Object.entries(cache.trips)) {
+      const saved = (savedOffline.current[tripId] ??= {});
+      for (const slice of OFFLINE_SLICES) {
+        const value = entry[slice];
+        if (!entry.loadedAt[slice] || saved[slice] === value) continue;
+
+        Object.assign(saved, { [slice]: value });
+        toOfflineValue(slice, value)
+          .then((offlineValue) => saveTripCopy(user.id, tripId, slice, offlineValue))
+          .catch((err) => console.error(`[TripStore] Failed to save ${slice} offline:`, err));
       }
     }
-
-    // Load trip data
-    await loadTripData(trip.id);
-    setCurrentTrip(trip as Trip);
-    setLoading(false);
-    return { error: null };
+  }, [cache, user]);
+
+  // `update` returns null when there's nothing to change, which keeps the cache as it is
+  function updateEntry(tripId: string, update: (entry: TripEntry) => Partial<TripEntry> | null) {
+    setCache((prev) => {
+      const cached = prev.userId === user?.id ? prev.trips : {};
+      const entry = cached[tripId] || emptyEntry();
+      const changes = update(entry);
+      if (!changes) return prev;
+      return { userId: user?.id, trips: { ...cached, [tripId]: { ...entry, ...changes } } };
+    });
   }
 
-  async function loadTripData(tripId: string) {
-    // Load members
-    const { data: membersData } = await supabase
-      .from('trip_members')
-      .select('*, user:users(*)')
-      .eq('trip_id', tripId);
-
-    if (membersData) {
-      setMembers(membersData as TripMember[]);
-      const userMember = membersData.find((m) => m.user_id === user?.id);
-      setIsAdmin(userMember?.role === 'admin');
-    }
-
-    // Load messages
-    const { data: messagesData } = await supabase
-      .from('trip_messages')
-      .select('*, sender:users(*)')
-      .eq('trip_id', tripId)
-      .order('created_at', { ascending: true });
+  async function loadSlice<S extends TripSlice>(tripId: string, slice: S) {
+    const value = await loaders[slice](tripId);
+    updateEntry(tripId, (entry) => ({ [slice]: value, loadedAt: { ...entry.loadedAt, [slice]: Date.now() } }));
+  }
 
-    if (messagesData) {
-      setMessages(messagesData as TripMessage[]);
-    }
+  // A slice that fails keeps what was cached; the trip itself failing means it's not there
+  async function reloadTrip(tripId: string, slices: TripSlice[] = SLICES) {
+    const results = await Promise.allSettled(slices.map((slice) => loadSlice(tripId, slice)));
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') console.error(`[TripStore] Failed to load ${slices[index]}:`, result.reason);
+    });
 
-    // Load schedule
-    const { data: scheduleData } = await supabase
-      .from('schedule_items')
-      .select('*')
-      .eq('trip_id', tripId)
-      .order('start_time', { ascending: true });
+    const tripFailed = slices.includes('trip') && results[slices.indexOf('trip')].status === 'rejected';
+    updateEntry(tripId, (entry) => ({ status: tripFailed && !entry.trip ? 'error' : 'ready' }));
+  }
 
-    if (scheduleData) {
-      setSchedule(scheduleData as ScheduleItem[]);
+  function scheduleReload(tripId: string, slice: TripSlice) {
+    const pending = pendingReloads.current[tripId];
+    if (pending) {
+      pending.slices.add(slice);
+      return;
     }
 
-    // Load locations
-    const { data: locationsData } = await supabase
-      .from('member_locations')
-      .select('*, user:users(*)')
-      .eq('trip_id', tripId);
-
-    if (locationsData) {
-      setLocations(locationsData as MemberLocation[]);
-    }
+    const slices = new Set([slice]);
+    pendingReloads.current[tripId] = {
+      slices,
+      timer: setTimeout(() => {
+        delete pendingReloads.current[tripId];
+        reloadTrip(tripId, [...slices]);
+      }, RELOAD_DELAY),
+    };
   }
 
-  function leaveTrip() {
-    setCurrentTrip(null);
-    setMembers([]);
-    setMessages([]);
-    setLocations([]);
-    setSchedule([]);
-    setIsAdmin(false);
+  // Applies a realtime change to one list of the trip. Deletes can't be filtered server-side and
+  // arrive for every trip; one that isn't in the list leaves the entry, and its views, alone.
+  function applyRowChange<S extends 'members' | 'messages' | 'schedule' | 'locations' | 'media'>(
+    tripId: string,
+    slice: S,
+    update: (entry: TripEntry) => TripEntry[S]
+  ) {
+    updateEntry(tripId, (entry) => {
+      const list = update(entry);
+      return list === entry[slice] ? null : { [slice]: list, loadedAt: { ...entry.loadedAt, [slice]: Date.now() } };
+    });
   }
 
-  async function sendMessage(content: string, type: TripMessage['type']) {
-    if (!currentTrip || !user) return { error: 'Not in a trip' };
+  function subscribe(tripId: string, userId: string) {
+    const channels = [
+      subscribeToTrip(tripId, (change) =>
+        applyRowChange(tripId, 'messages', (entry) =>
+          applyChange(
+            entry.messages,
+            joined(change, (message) => ({
+              ...message,
+              sender: entry.messages.byId[message.id]?.sender ?? memberProfile(entry, message.sender_id),
+            }))
+          )
+        )
+      ),
+      subscribeToLocations(tripId, (change) =>
+        applyRowChange(tripId, 'locations', (entry) =>
+          applyChange(
+            entry.locations,
+            joined(change, (location) => ({ ...location, user: memberProfile(entry, location.user_id) }))
+          )
+        )
+      ),
+      subscribeToTripData(tripId, {
+        trip: (change) => {
+          // Deletes can't be filtered server-side, so they arrive for every trip
+          if (change.type === 'delete') {
+            if (change.id === tripId) updateEntry(tripId, () => ({ trip: null, status: 'error' }));
+            return;
+          }
+          updateEntry(tripId, () => ({ trip: change.row, status: 'ready' }));
+        },
+        schedule: (change) =>
+          applyRowChange(tripId, 'schedule', (entry) => applyChange(entry.schedule, change, byStartTime)),
+        members: (change) => {
+          if (change.type === 'delete') {
+            applyRowChange(tripId, 'members', (entry) => removeItem(entry.members, change.id));
+            return;
+          }
+
+          // A new member's profile isn't in the store yet
+          fetchUser(change.row.user_id)
+            .then((user) => applyRowChange(tripId, 'members', (entry) => upsertItem(entry.members, { ...change.row, user })))
+            .catch((err) => console.error('[TripStore] Failed to load member profile:', err));
+        },
+        media: (change) => applyRowChange(tripId, 'media', (entry) => applyChange(entry.media, change)),
+      }),
+      subscribeToTicketChanges(tripId, userId, () => scheduleReload(tripId, 'tickets')),
+      subscribeToAudienceChanges(tripId, () => scheduleReload(tripId, 'schedule')),
+    ];
+
+    // Catch up on what realtime missed while offline
+    const onOnline = () => reloadTrip(tripId);
+    window.addEventListener('online', onOnline);
 
-    const { error } = await supabase.from('trip_messages').insert({
-      trip_id: currentTrip.id,
-      sender_id: user.id,
-      content,
-      type,
-      is_pinned: false,
-    });
+    return () => {
+      window.removeEventListener('online', onOnline);
+      channels.forEach((channel) => channel.unsubscribe());
+      clearTimeout(pendingReloads.current[tripId]?.timer);
+      delete pendingReloads.current[tripId];
+    };
+  }
 
-    if (error) {
-      return { error: error.message };
+  // Loads the trip and keeps it live until every watcher has released it
+  function watchTrip(tripId: string) {
+    const watcher = watchers.current[tripId];
+    if (watcher) {
+      watcher.count++;
+    } else if (user) {
+      watchers.current[tripId] = { count: 1, stop: subscribe(tripId, user.id) };
+      // The copy saved on this device shows first, and is what's left while offline
+      loadTripCopy(user.id, tripId)
+        .then((copy) => updateEntry(tripId, (entry) => fromOfflineCopy(entry, copy as OfflineCopy)))
+        .catch((err) => console.error('[TripStore] Failed to read offline copy:', err))
+        .finally(() => reloadTrip(tripId));
     }
-    return { error: null };
-  }
 
-  async function updateLocation(lat: number, lng: number) {
-    if (!currentTrip || !user) return;
+    return () => {
+      const current = watchers.current[tripId];
+      if (current && --current.count === 0) {
+        current.stop();
+        delete watchers.current[tripId];
+      }
+    };
+  }
 
-    await supabase.from('member_locations').upsert({
-      trip_id: currentTrip.id,
-      user_id: user.id,
-      latitude: lat,
-      longitude: lng,
-      updated_at: new Date().toISOString(),
-    });
+  // Shows an upload straight away, before realtime reports it
+  function addMedia(tripId: string, item: TripMedia) {
+    updateEntry(tripId, (entry) => ({ media: upsertItem(entry.media, item) }));
   }
 
-  async function refreshTrip() {
-    if (currentTrip) {
-      await loadTripData(currentTrip.id);
+  async function joinTrip(lobbyCode: string) {
+    if (!user) return { tripId: null, error: 'Not authenticated' };
+
+    try {
+      // Joins unless they already are a member, or the trip is full
+      const tripId = await joinTripByLobbyCode(lobbyCode);
+      if (!tripId) {
+        return { tripId: null, error: 'Invalid lobby code' };
+      }
+
+      const trip = await fetchTrip(tripId);
+      updateEntry(tripId, () => ({ trip }));
+      return { tripId, error: null };
+    } catch (err) {
+      return { tripId: null, error: err instanceof Error ? err.message : String(err) };
     }
   }
 
   return (
     <TripContext.Provider
       value={{
-        currentTrip,
-        members,
-        messages,
-        locations,
-        schedule,
-        isAdmin,
-        loading,
+        trips,
+        watchTrip,
+        reloadTrip,
+        addMedia,
         joinTrip,
-        leaveTrip,
-        sendMessage,
-        updateLocation,
-        refreshTrip,
       }}
     >
       {children}
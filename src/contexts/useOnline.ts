@@ -0,0 +1,16 @@
+import { useSyncExternalStore } from 'react';
+
+function subscribe(onChange: () => void) {
+  window.addEventListener('online', onChange);
+  window.addEventListener('offline', onChange);
+  return () => {
+    window.removeEventListener('online', onChange);
+    window.removeEventListener('offline', onChange);
+  };
+}
+
+// Whether the browser thinks there's a connection. It can be wrong about being online (a
+// captive portal), never about being offline.
+export function useOnline() {
+  return useSyncExternalStore(subscribe, () => navigator.onLine);
+}
@@ -0,0 +1,46 @@
+import { useEffect, useMemo } from 'react';
+import { useAuth } from './AuthContext';
+import { useTrip, type TripSlice } from './TripContext';
+import { listItems, type Collection } from '../lib/collection';
+import type { TripMedia } from '../types';
+
+const list = <T,>(collection?: Collection<T>): T[] => (collection ? listItems(collection) : []);
+
+// One trip from the store, loaded and kept live while the component is mounted
+export function useTripData(tripId: string) {
+  const { user } = useAuth();
+  const { trips, watchTrip, reloadTrip, addMedia } = useTrip();
+  const entry = trips[tripId];
+
+  useEffect(() => {
+    if (!user) return;
+    return watchTrip(tripId);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tripId, user?.id]);
+
+  const members = useMemo(() => list(entry?.members), [entry?.members]);
+  const messages = useMemo(() => list(entry?.messages), [entry?.messages]);
+  const schedule = useMemo(() => list(entry?.schedule), [entry?.schedule]);
+  const locations = useMemo(() => list(entry?.locations), [entry?.locations]);
+  const media = useMemo(() => list(entry?.media), [entry?.media]);
+  const tickets = useMemo(() => list(entry?.tickets), [entry?.tickets]);
+  const subgroups = useMemo(() => list(entry?.subgroups), [entry?.subgroups]);
+  const rsvps = useMemo(() => list(entry?.rsvps), [entry?.rsvps]);
+
+  return {
+    trip: entry?.trip ?? null,
+    loading: !entry || (entry.status === 'loading' && !entry.trip),
+    members,
+    messages,
+    schedule,
+    locations,
+    media,
+    tickets,
+    subgroups,
+    rsvps,
+    isAdmin: members.some((m) => m.user_id === user?.id && m.role === 'admin'),
+    loadedAt: entry?.loadedAt ?? {},
+    reload: (...slices: TripSlice[]) => reloadTrip(tripId, slices.length > 0 ? slices : undefined),
+    addMedia: (item: TripMedia) => addMedia(tripId, item),
+  };
+}
@@ -0,0 +1,32 @@
+// Schedule item audiences - an item is for the whole trip unless it names sub-groups or
+// members. The schedule RLS policy applies the same rule; this copy is for the calendar feed,
+// which reads with the service role, and for the checks, where only shared items can clash.
+// Kept free of the Supabase client so the feed can import it.
+import type { ScheduleItem, TripSubgroup } from '../types';
+
+export function hasAudience(item: ScheduleItem): boolean {
+  return !!(item.audience_subgroup_ids?.length || item.audience_user_ids?.length);
+}
+
+// Everyone the item is for, or null when it is for the whole trip
+export function getAudienceUserIds(item: ScheduleItem, subgroups: TripSubgroup[]): Set<string> | null {
+  if (!hasAudience(item)) return null;
+  const groupIds = item.audience_subgroup_ids || [];
+  return new Set([
+    ...(item.audience_user_ids || []),
+    ...subgroups.filter((group) => groupIds.includes(group.id)).flatMap((group) => group.member_ids),
+  ]);
+}
+
+export function isInAudience(item: ScheduleItem, userId: string, subgroups: TripSubgroup[]): boolean {
+  const audience = getAudienceUserIds(item, subgroups);
+  return !audience || audience.has(userId);
+}
+
+// Whether anyone is on both items, e.g. surfing and the museum at the same time is fine
+export function sharesAudience(a: ScheduleItem, b: ScheduleItem, subgroups: TripSubgroup[]): boolean {
+  const first = getAudienceUserIds(a, subgroups);
+  const second = getAudienceUserIds(b, subgroups);
+  if (!first || !second) return true;
+  return [...first].some((userId) => second.has(userId));
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { getBudgetSummary, getItemCurrency, normalizeCurrency, toCurrencyCode } from './budget';
+import type { ScheduleItem } from '../types';
+
+function costItem(estimated_cost: number, currency: string | undefined, start_time = '2026-10-20T10:00:00.000Z') {
+  return { id: `${estimated_cost}-${currency}`, type: 'activity', start_time, estimated_cost, currency } as ScheduleItem;
+}
+
+describe('toCurrencyCode', () => {
+  it('is null for values that are not a currency, so they are not saved', () => {
+    expect(toCurrencyCode('eur')).toBe('EUR');
+    expect(toCurrencyCode('£')).toBe('GBP');
+    expect(toCurrencyCode('Pounds')).toBeNull();
+    expect(toCurrencyCode('')).toBeNull();
+  });
+});
+
+describe('normalizeCurrency', () => {
+  it('upper-cases three-letter codes', () => {
+    expect(normalizeCurrency('usd')).toBe('USD');
+    expect(normalizeCurrency(' gbp ')).toBe('GBP');
+  });
+
+  it('maps common symbols and names to their code', () => {
+    expect(normalizeCurrency('€')).toBe('EUR');
+    expect(normalizeCurrency('Euro')).toBe('EUR');
+    expect(normalizeCurrency('US$')).toBe('USD');
+  });
+
+  it('falls back for anything that is not a currency code', () => {
+    expect(normalizeCurrency('dollars')).toBe('EUR');
+    expect(normalizeCurrency('E U R', 'CHF')).toBe('CHF');
+    expect(normalizeCurrency(null)).toBe('EUR');
+  });
+});
+
+describe('getItemCurrency', () => {
+  it('treats items without a currency as euros', () => {
+    expect(getItemCurrency({ currency: undefined })).toBe('EUR');
+    expect(getItemCurrency({ currency: 'jpy' })).toBe('JPY');
+    expect(getItemCurrency({ currency: 'Yen!' }, 'JPY')).toBe('JPY');
+  });
+});
+
+describe('getBudgetSummary', () => {
+  it('counts an item with an unreadable currency in the default currency', () => {
+    const summary = getBudgetSummary([costItem(100, 'eur'), costItem(50, 'EURO'), costItem(20, '?!')], 2);
+
+    expect(summary.totals).toHaveLength(1);
+    expect(summary.totals[0]).toMatchObject({ currency: 'EUR', total: 170, perPerson: 85, itemCount: 3 });
+  });
+
+  it('compares only the budget currency with the budget', () => {
+    const summary = getBudgetSummary([costItem(300, 'USD'), costItem(120, 'EUR')], 4, {
+      budget_amount: 100,
+      budget_currency: 'usd',
+    });
+
+    expect(summary.totals.map((t) => t.currency)).toEqual(['USD', 'EUR']);
+    expect(summary.budget).toMatchObject({ currency: 'USD', planned: 300, remaining: -200, isOver: true });
+    expect(summary.uncountedCurrencies).toEqual(['EUR']);
+  });
+});
@@ -0,0 +1,122 @@
+// Trip budget - totals the schedule's estimated costs and compares them with the admin's budget.
+// estimated_cost is the total for the whole group; items without a currency are in euros.
+import type { ScheduleItem, Trip } from '../types';
+
+export const DEFAULT_CURRENCY = 'EUR';
+
+export interface CurrencyTotals {
+  currency: string;
+  total: number;
+  perPerson: number;
+  byDay: { date: string; total: number }[]; // YYYY-MM-DD in local time, ascending
+  byType: Partial<Record<ScheduleItem['type'], number>>;
+  itemCount: number;
+}
+
+export interface BudgetSummary {
+  totals: CurrencyTotals[]; // Budget currency first, then by total
+  budget: {
+    amount: number;
+    currency: string;
+    planned: number; // Planned costs in the budget currency
+    remaining: number;
+    usage: number; // planned / amount, 1 = exactly on budget
+    isOver: boolean;
+  } | null;
+  // Costs in other currencies can't be compared without exchange rates
+  uncountedCurrencies: string[];
+}
+
+// Symbols and names people (and the AI import) write instead of the ISO 4217 code
+const CURRENCY_ALIASES: Record<string, string> = {
+  '€': 'EUR',
+  EURO: 'EUR',
+  EUROS: 'EUR',
+  '$': 'USD',
+  'US$': 'USD',
+  '£': 'GBP',
+  '¥': 'JPY',
+};
+
+// The three-letter ISO 4217 code `value` stands for, or null when it isn't one
+export function toCurrencyCode(value: string | null | undefined): string | null {
+  const code = value?.trim().toUpperCase();
+  if (!code) return null;
+  if (/^[A-Z]{3}$/.test(code)) return code;
+  return CURRENCY_ALIASES[code] || null;
+}
+
+// A currency code for `value`, or `fallback` when it isn't one. Intl.NumberFormat throws on
+// anything else, so every currency that gets formatted goes through here first.
+export function normalizeCurrency(value: string | null | undefined, fallback = DEFAULT_CURRENCY): string {
+  return toCurrencyCode(value) || fallback;
+}
+
+export function getItemCurrency(item: Pick<ScheduleItem, 'currency'>, fallback = DEFAULT_CURRENCY): string {
+  return normalizeCurrency(item.currency, fallback);
+}
+
+function localDateKey(iso: string): string {
+  const date = new Date(iso);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+export function getBudgetSummary(
+  schedule: ScheduleItem[],
+  memberCount: number,
+  trip?: Pick<Trip, 'budget_amount' | 'budget_currency'> | null
+): BudgetSummary {
+  const byCurrency: Record<string, { total: number; byDay: Record<string, number>; byType: CurrencyTotals['byType']; itemCount: number }> = {};
+
+  for (const item of schedule) {
+    if (!item.estimated_cost || item.estimated_cost <= 0) continue;
+
+    const currency = getItemCurrency(item);
+    const totals = byCurrency[currency] || (byCurrency[currency] = { total: 0, byDay: {}, byType: {}, itemCount: 0 });
+    const day = localDateKey(item.start_time);
+
+    totals.total += item.estimated_cost;
+    totals.byDay[day] = (totals.byDay[day] || 0) + item.estimated_cost;
+    totals.byType[item.type] = (totals.byType[item.type] || 0) + item.estimated_cost;
+    totals.itemCount++;
+  }
+
+  const budgetCurrency = normalizeCurrency(trip?.budget_currency);
+  const people = Math.max(memberCount, 1);
+
+  const totals: CurrencyTotals[] = Object.entries(byCurrency)
+    .map(([currency, t]) => ({
+      currency,
+      total: round(t.total),
+      perPerson: round(t.total / people),
+      byDay: Object.entries(t.byDay)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, total]) => ({ date, total: round(total) })),
+      byType: Object.fromEntries(Object.entries(t.byType).map(([type, total]) => [type, round(total)])),
+      itemCount: t.itemCount,
+    }))
+    .sort((a, b) => (a.currency === budgetCurrency ? -1 : b.currency === budgetCurrency ? 1 : b.total - a.total));
+
+  let budget: BudgetSummary['budget'] = null;
+  if (trip?.budget_amount && trip.budget_amount > 0) {
+    const planned = totals.find((t) => t.currency === budgetCurrency)?.total || 0;
+    budget = {
+      amount: trip.budget_amount,
+      currency: budgetCurrency,
+      planned,
+      remaining: round(trip.budget_amount - planned),
+      usage: planned / trip.budget_amount,
+      isOver: planned > trip.budget_amount,
+    };
+  }
+
+  return {
+    totals,
+    budget,
+    uncountedCurrencies: budget ? totals.filter((t) => t.currency !== budgetCurrency).map((t) => t.currency) : [],
+  };
+}
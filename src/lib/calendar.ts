@@ -0,0 +1,46 @@
+// Calendar feed helpers - each member has their own secret feed URL per trip
+import { supabase } from './supabase';
+import { check } from './db';
+
+async function getOrCreateToken(tripId: string, userId: string): Promise<string> {
+  const { data: existing, error: lookupError } = await supabase
+    .from('calendar_tokens')
+    .select('token')
+    .eq('trip_id', tripId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  check(lookupError);
+  if (existing) return existing.token;
+
+  const { data, error } = await supabase
+    .from('calendar_tokens')
+    .insert({ trip_id: tripId, user_id: userId })
+    .select('token')
+    .single();
+
+  check(error);
+  return data.token;
+}
+
+// https:// URL of the member's feed; calendar apps subscribe to the webcal:// variant
+export async function getCalendarFeedUrl(tripId: string, userId: string): Promise<string> {
+  const token = await getOrCreateToken(tripId, userId);
+  return `${window.location.origin}/api/trips/${tripId}/calendar.ics?token=${token}`;
+}
+
+// Invalidate a shared or leaked link by replacing the token
+export async function resetCalendarFeedUrl(tripId: string, userId: string): Promise<string> {
+  const { error } = await supabase
+    .from('calendar_tokens')
+    .delete()
+    .eq('trip_id', tripId)
+    .eq('user_id', userId);
+
+  check(error);
+  return getCalendarFeedUrl(tripId, userId);
+}
+
+export function toWebcalUrl(url: string): string {
+  return url.replace(/^https?:\/\//, 'webcal://');
+}
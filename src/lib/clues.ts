@@ -0,0 +1,41 @@
+// Destination teaser clues. RLS only returns clues that have unlocked to members, the clue
+// schedule tells them what's still coming without giving the content away.
+import { supabase } from './supabase';
+import { asRows, check } from './db';
+import type { TripClue, TripClueSlot } from '../types';
+
+export type ClueFields = Pick<TripClue, 'type' | 'content' | 'unlock_minutes_before'> & { image_url: string | null };
+
+// Earliest to unlock first
+export async function fetchClues(tripId: string): Promise<TripClue[]> {
+  const { data, error } = await supabase
+    .from('trip_clues')
+    .select('*')
+    .eq('trip_id', tripId)
+    .order('unlock_minutes_before', { ascending: false });
+
+  check(error);
+  return asRows<TripClue>(data);
+}
+
+// When each of the trip's clues unlocks, locked ones included
+export async function fetchClueSchedule(tripId: string): Promise<TripClueSlot[]> {
+  const { data, error } = await supabase.rpc('get_trip_clue_schedule', { p_trip_id: tripId });
+  check(error);
+  return asRows<TripClueSlot>(data);
+}
+
+export async function createClue(tripId: string, fields: ClueFields): Promise<void> {
+  const { error } = await supabase.from('trip_clues').insert({ ...fields, trip_id: tripId });
+  check(error);
+}
+
+export async function updateClue(id: string, fields: ClueFields): Promise<void> {
+  const { error } = await supabase.from('trip_clues').update(fields).eq('id', id);
+  check(error);
+}
+
+export async function deleteClue(id: string): Promise<void> {
+  const { error } = await supabase.from('trip_clues').delete().eq('id', id);
+  check(error);
+}
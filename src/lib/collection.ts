@@ -0,0 +1,56 @@
+// Normalized lists for the trip store: rows by id plus their order, so one row can be replaced
+// or dropped without copying every other one, and lookups by id don't scan the list.
+import type { RowChange } from './supabase';
+
+export interface Collection<T> {
+  ids: string[];
+  byId: Record<string, T>;
+}
+
+export const emptyCollection = <T>(): Collection<T> => ({ ids: [], byId: {} });
+
+// Keeps the order of `items`
+export function toCollection<T extends { id: string }>(items: T[]): Collection<T>;
+export function toCollection<T>(items: T[], getId: (item: T) => string): Collection<T>;
+export function toCollection<T>(items: T[], getId = (item: T) => (item as { id: string }).id): Collection<T> {
+  const byId: Record<string, T> = {};
+  for (const item of items) byId[getId(item)] = item;
+  return { ids: items.map(getId), byId };
+}
+
+export const listItems = <T>(collection: Collection<T>): T[] => collection.ids.map((id) => collection.byId[id]);
+
+// Replaces the row with the same id, or adds it at the front. With `compare` the row is (re)placed
+// in that order instead, so a moved schedule item ends up at its new time.
+export function upsertItem<T extends { id: string }>(
+  collection: Collection<T>,
+  item: T,
+  compare?: (a: T, b: T) => number
+): Collection<T> {
+  const byId = { ...collection.byId, [item.id]: item };
+  if (!compare) {
+    return { ids: item.id in collection.byId ? collection.ids : [item.id, ...collection.ids], byId };
+  }
+
+  const ids = collection.ids.filter((id) => id !== item.id);
+  const index = ids.findIndex((id) => compare(item, byId[id]) < 0);
+  ids.splice(index === -1 ? ids.length : index, 0, item.id);
+  return { ids, byId };
+}
+
+// Unchanged when there's no row with the id
+export function removeItem<T>(collection: Collection<T>, id: string): Collection<T> {
+  if (!(id in collection.byId)) return collection;
+  const byId = { ...collection.byId };
+  delete byId[id];
+  return { ids: collection.ids.filter((other) => other !== id), byId };
+}
+
+// Applies a realtime change, see subscribeToTrip() and friends
+export function applyChange<T extends { id: string }>(
+  collection: Collection<T>,
+  change: RowChange<T>,
+  compare?: (a: T, b: T) => number
+): Collection<T> {
+  return change.type === 'delete' ? removeItem(collection, change.id) : upsertItem(collection, change.row, compare);
+}
@@ -0,0 +1,77 @@
+// Day templates - an admin's library of reusable day programmes ("breakfast, museum, dinner").
+// Times are stored as HH:mm and stamped onto whichever trip day the template is applied to.
+import { supabase } from './supabase';
+import { asRows, check, toRow } from './db';
+import { createScheduleItem } from './schedule';
+import { toDateKey } from './recurrence';
+import type { DayTemplate, DayTemplateItem, ScheduleItem } from '../types';
+
+const toTime = (iso: string) => {
+  const date = new Date(iso);
+  return `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+};
+
+export async function fetchDayTemplates(): Promise<DayTemplate[]> {
+  const { data, error } = await supabase
+    .from('day_templates')
+    .select('*')
+    .order('name');
+
+  check(error);
+  return asRows<DayTemplate>(data);
+}
+
+// Items of one day, e.g. from the expanded schedule, as template items
+export function toTemplateItems(items: ScheduleItem[]): DayTemplateItem[] {
+  return items.map((item) => ({
+    title: item.title,
+    type: item.type,
+    start: toTime(item.start_time),
+    end: item.end_time ? toTime(item.end_time) : undefined,
+    description: item.description,
+    location: item.location,
+    location_url: item.location_url,
+    estimated_cost: item.estimated_cost,
+    currency: item.currency,
+  }));
+}
+
+export async function saveDayTemplate(ownerId: string, name: string, items: ScheduleItem[]): Promise<void> {
+  const { error } = await supabase
+    .from('day_templates')
+    .insert(toRow<'day_templates'>({ owner_id: ownerId, name, items: toTemplateItems(items) }));
+
+  check(error);
+}
+
+export async function deleteDayTemplate(id: string): Promise<void> {
+  const { error } = await supabase.from('day_templates').delete().eq('id', id);
+  check(error);
+}
+
+// Adds the template's items to the trip on `date` (YYYY-MM-DD)
+export async function applyDayTemplate(tripId: string, template: DayTemplate, date: string): Promise<void> {
+  for (const item of template.items) {
+    const start = new Date(`${date}T${item.start}`);
+    const end = item.end ? new Date(`${date}T${item.end}`) : null;
+    // An end before the start runs past midnight
+    if (end && end <= start) end.setDate(end.getDate() + 1);
+
+    await createScheduleItem(tripId, {
+      title: item.title,
+      type: item.type,
+      description: item.description || null,
+      location: item.location || null,
+      location_url: item.location_url || null,
+      estimated_cost: item.estimated_cost ?? null,
+      currency: item.currency || null,
+      start_time: start.toISOString(),
+      end_time: end ? end.toISOString() : null,
+    });
+  }
+}
+
+// Trip days (YYYY-MM-DD) that have something planned, for picking a day to save
+export function getPlannedDays(items: ScheduleItem[]): string[] {
+  return [...new Set(items.map((item) => toDateKey(new Date(item.start_time))))].sort();
+}
@@ -0,0 +1,72 @@
+// Shared pieces of the data-access modules (trips.ts, members.ts, schedule.ts, ...). Those are
+// the only place the app queries tables: each returns the interfaces from ../types and throws
+// a DataError when a query fails.
+import type { PostgrestError } from '@supabase/supabase-js';
+import type { Database, TablesInsert, TablesUpdate } from '../types/database';
+
+export type TableName = keyof Database['public']['Tables'];
+
+export class DataError extends Error {
+  code: string; // PostgREST or Postgres error code, e.g. 'PGRST116' or '23505'
+  details: string | null;
+
+  constructor(error: Pick<PostgrestError, 'message' | 'code' | 'details'>) {
+    super(error.message);
+    this.name = 'DataError';
+    this.code = error.code;
+    this.details = error.details || null;
+  }
+
+  // .single() found no row, or RLS hides it
+  get isNotFound() {
+    return this.code === 'PGRST116';
+  }
+
+  get isDuplicate() {
+    return this.code === '23505';
+  }
+}
+
+// Throws the error of a query result, if any
+export function check(error: PostgrestError | null): asserts error is null {
+  if (error) throw new DataError(error);
+}
+
+// Rows as the app's interfaces. The generated types can't express enums, JSON shapes or
+// joined relations, so those are trusted here; src/types/schemaCheck.ts keeps the columns in line.
+export const asRows = <T>(data: unknown[] | null): T[] => (data || []) as T[];
+export const asRow = <T>(data: unknown): T => data as T;
+
+// Fields in the shape of the app's interfaces as a row to write; JSON columns take any object
+export const toRow = <T extends TableName>(fields: object) => fields as TablesInsert<T> & TablesUpdate<T>;
+
+// Pagination - pages are numbered from 0
+export const DEFAULT_PAGE_SIZE = 50;
+
+export interface PageRequest {
+  page?: number;
+  pageSize?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  page: number;
+  pageSize: number;
+  total: number;
+  hasMore: boolean;
+}
+
+// Arguments for .range(), on a query selected with { count: 'exact' }
+export function pageRange({ page = 0, pageSize = DEFAULT_PAGE_SIZE }: PageRequest = {}): [number, number] {
+  return [page * pageSize, (page + 1) * pageSize - 1];
+}
+
+export function toPage<T>(
+  { data, error, count }: { data: unknown[] | null; error: PostgrestError | null; count: number | null },
+  { page = 0, pageSize = DEFAULT_PAGE_SIZE }: PageRequest = {}
+): Page<T> {
+  check(error);
+  const items = asRows<T>(data);
+  const total = count ?? items.length;
+  return { items, page, pageSize, total, hasMore: (page + 1) * pageSize < total };
+}
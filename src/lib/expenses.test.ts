@@ -0,0 +1,178 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { installFakeSupabase } from '../test/installFakeSupabase';
+import type { FakeSupabase } from '../test/fakeSupabase';
+import { createExpenseFromScheduleItem, formatMoney, getBalances, getExpenseShares, getSplitError, settleUp } from './expenses';
+import type { ScheduleItem, TripExpense } from '../types';
+
+let db: FakeSupabase;
+
+beforeEach(() => {
+  db = installFakeSupabase();
+  db.seed(
+    'trip_members',
+    ['user-1', 'user-2', 'user-3', 'user-4'].map((userId, index) => ({
+      trip_id: 'trip-1',
+      user_id: userId,
+      role: 'member',
+      joined_at: `2026-10-0${index + 1}T00:00:00.000Z`,
+    }))
+  );
+  db.seed('trip_subgroups', [{ id: 'surfers', trip_id: 'trip-1', name: 'Surfers', color: 'sky', member_ids: ['user-2', 'user-3'] }]);
+});
+
+const item = {
+  id: 'item-1',
+  trip_id: 'trip-1',
+  title: 'Surf lesson',
+  type: 'activity',
+  start_time: '2026-10-20T10:00:00.000Z',
+  estimated_cost: 90,
+  currency: 'EUR',
+} as ScheduleItem;
+
+const participantIds = (participants: { user_id: string }[]) => participants.map((participant) => participant.user_id);
+
+describe('createExpenseFromScheduleItem', () => {
+  it('splits an item for the whole trip between every member', async () => {
+    const expense = await createExpenseFromScheduleItem(item, 'user-1');
+
+    expect(expense).toMatchObject({ amount: 90, paid_by: 'user-1', split_mode: 'equal', schedule_item_id: 'item-1' });
+    expect(participantIds(expense.participants)).toEqual(['user-1', 'user-2', 'user-3', 'user-4']);
+  });
+
+  it('splits only between the sub-groups and members the item is for', async () => {
+    const expense = await createExpenseFromScheduleItem(
+      { ...item, audience_subgroup_ids: ['surfers'], audience_user_ids: ['user-4'] },
+      'user-1'
+    );
+
+    expect(participantIds(expense.participants)).toEqual(['user-2', 'user-3', 'user-4']);
+  });
+
+  it('leaves out audience members who have left the trip', async () => {
+    const expense = await createExpenseFromScheduleItem({ ...item, audience_user_ids: ['user-2', 'user-9'] }, 'user-1');
+
+    expect(participantIds(expense.participants)).toEqual(['user-2']);
+  });
+
+  it('refuses when nobody the item is for is a member any more', async () => {
+    await expect(createExpenseFromScheduleItem({ ...item, audience_user_ids: ['user-9'] }, 'user-1')).rejects.toThrow(
+      'Nobody this item is for is still a member of the trip'
+    );
+    expect(db.rows('trip_expenses')).toEqual([]);
+  });
+});
+
+describe('formatMoney', () => {
+  it('formats amounts in their currency', () => {
+    expect(formatMoney(1234.5, 'EUR')).toBe('€1,234.50');
+    expect(formatMoney(12, 'USD')).toBe('$12.00');
+  });
+
+  it('falls back to the plain amount for a currency Intl rejects', () => {
+    expect(formatMoney(12.5, '€')).toBe('12.50 €');
+    expect(formatMoney(3, 'EURO')).toBe('3.00 EURO');
+  });
+});
+
+function expense(amount: number, paidBy: string, participants: string[], fields: Partial<TripExpense> = {}): TripExpense {
+  return {
+    id: `${paidBy}-${amount}`,
+    description: 'Expense',
+    amount,
+    currency: 'EUR',
+    paid_by: paidBy,
+    split_mode: 'equal',
+    participants: participants.map((userId) => ({ user_id: userId })),
+    ...fields,
+  } as TripExpense;
+}
+
+describe('getExpenseShares', () => {
+  it('hands the cents that don\'t divide evenly to the first participants', () => {
+    expect(getExpenseShares(expense(100, 'a', ['a', 'b', 'c']))).toEqual({ a: 33.34, b: 33.33, c: 33.33 });
+    expect(getExpenseShares(expense(0.05, 'a', ['a', 'b', 'c']))).toEqual({ a: 0.02, b: 0.02, c: 0.01 });
+  });
+
+  it('gives a leftover cent to the largest remainder when splitting by shares', () => {
+    const split = expense(10, 'a', [], {
+      split_mode: 'shares',
+      participants: [{ user_id: 'a', share: 1 }, { user_id: 'b', share: 2 }, { user_id: 'c', share: 0 }],
+    });
+
+    expect(getExpenseShares(split)).toEqual({ a: 3.33, b: 6.67, c: 0 });
+  });
+
+  it('uses the amounts as given for exact splits', () => {
+    const split = expense(50, 'a', [], {
+      split_mode: 'exact',
+      participants: [{ user_id: 'a', amount: 20.5 }, { user_id: 'b', amount: 29.5 }],
+    });
+
+    expect(getExpenseShares(split)).toEqual({ a: 20.5, b: 29.5 });
+  });
+});
+
+describe('getSplitError', () => {
+  it('wants exact amounts to add up to the total, to the cent', () => {
+    const split = (amounts: number[]) =>
+      expense(50, 'a', [], { split_mode: 'exact', participants: amounts.map((amount, i) => ({ user_id: `user-${i}`, amount })) });
+
+    expect(getSplitError(split([20.1, 29.9]))).toBeNull();
+    expect(getSplitError(split([20, 29.99]))).toBe('Amounts fall short of the total by 0.01');
+    expect(getSplitError(split([25, 26]))).toBe('Amounts exceed the total by 1.00');
+  });
+});
+
+describe('getBalances', () => {
+  it('nets what each member paid against their shares, per currency', () => {
+    const balances = getBalances([
+      expense(90, 'a', ['a', 'b', 'c']),
+      expense(30, 'b', ['b', 'c']),
+      expense(20, 'c', ['a', 'c'], { currency: 'USD' }),
+    ]);
+
+    expect(balances).toEqual({ EUR: { a: 60, b: -15, c: -45 }, USD: { a: -10, c: 10 } });
+  });
+
+  it('adds up to exactly zero when shares are rounded', () => {
+    const balances = getBalances([expense(100, 'a', ['a', 'b', 'c']), expense(10, 'b', ['a', 'b', 'c'])]);
+
+    expect(balances.EUR).toEqual({ a: 63.32, b: -26.66, c: -36.66 });
+    expect(Object.values(balances.EUR).reduce((sum, amount) => sum + Math.round(amount * 100), 0)).toBe(0);
+  });
+});
+
+describe('settleUp', () => {
+  it('pays back the largest creditor from the largest debtor first', () => {
+    expect(settleUp({ EUR: { a: 50, b: 25, c: -40, d: -35 } })).toEqual([
+      { from: 'c', to: 'a', amount: 40, currency: 'EUR' },
+      { from: 'd', to: 'b', amount: 25, currency: 'EUR' },
+      { from: 'd', to: 'a', amount: 10, currency: 'EUR' },
+    ]);
+  });
+
+  it('pairs debts that exactly cancel out before anything else', () => {
+    expect(settleUp({ EUR: { a: 10, b: 20, c: -20, d: -10 } })).toEqual([
+      { from: 'c', to: 'b', amount: 20, currency: 'EUR' },
+      { from: 'd', to: 'a', amount: 10, currency: 'EUR' },
+    ]);
+  });
+
+  it('settles every currency on its own and leaves out members who are even', () => {
+    const transfers = settleUp(
+      getBalances([
+        expense(90, 'a', ['a', 'b', 'c']),
+        expense(30, 'b', ['b', 'c']),
+        expense(20, 'c', ['a', 'c'], { currency: 'USD' }),
+        expense(5, 'e', ['e']),
+      ])
+    );
+
+    expect(transfers).toEqual([
+      { from: 'c', to: 'a', amount: 45, currency: 'EUR' },
+      { from: 'b', to: 'a', amount: 15, currency: 'EUR' },
+      { from: 'a', to: 'c', amount: 10, currency: 'USD' },
+    ]);
+  });
+});
@@ -0,0 +1,218 @@
+// Expense ledger helpers - splitting, balances and settle-up.
+// All math is done in cents so splits always add up to the expense total.
+import { supabase } from './supabase';
+import { asRow, asRows, check, toRow } from './db';
+import { fetchTripMembers } from './members';
+import { fetchTripSubgroups } from './subgroups';
+import { getAudienceUserIds, hasAudience } from './audience';
+import { getItemCurrency } from './budget';
+import type { ExpenseTransfer, ScheduleItem, TripExpense } from '../types';
+
+const toCents = (amount: number) => Math.round(amount * 100);
+const fromCents = (cents: number) => cents / 100;
+
+// Spread `total` cents over weights, handing leftover cents to the largest remainders
+function distribute(total: number, weights: number[]): number[] {
+  const weightSum = weights.reduce((sum, w) => sum + w, 0);
+  if (weightSum <= 0) return weights.map(() => 0);
+
+  const exact = weights.map((w) => (total * w) / weightSum);
+  const result = exact.map(Math.floor);
+  let leftover = total - result.reduce((sum, c) => sum + c, 0);
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (let i = 0; leftover > 0; i = (i + 1) % byRemainder.length, leftover--) {
+    result[byRemainder[i].index]++;
+  }
+  return result;
+}
+
+type ExpenseSplit = Pick<TripExpense, 'amount' | 'split_mode' | 'participants'>;
+
+// What each participant owes for one expense, in cents
+function getShareCents(expense: ExpenseSplit): Record<string, number> {
+  const total = toCents(expense.amount);
+  const { participants } = expense;
+  const shares: Record<string, number> = {};
+  if (participants.length === 0) return shares;
+
+  let amounts: number[];
+  switch (expense.split_mode) {
+    case 'exact':
+      amounts = participants.map((p) => toCents(p.amount || 0));
+      break;
+    case 'shares':
+      amounts = distribute(total, participants.map((p) => Math.max(p.share ?? 1, 0)));
+      break;
+    default:
+      amounts = distribute(total, participants.map(() => 1));
+  }
+
+  participants.forEach((p, index) => {
+    shares[p.user_id] = (shares[p.user_id] || 0) + amounts[index];
+  });
+  return shares;
+}
+
+// What each participant owes for one expense
+export function getExpenseShares(expense: ExpenseSplit): Record<string, number> {
+  const shares = getShareCents(expense);
+  for (const userId of Object.keys(shares)) {
+    shares[userId] = fromCents(shares[userId]);
+  }
+  return shares;
+}
+
+// Exact splits have to add up to the total before they can be saved
+export function getSplitError(expense: ExpenseSplit): string | null {
+  if (!(expense.amount > 0)) return 'Amount must be more than zero';
+  if (expense.participants.length === 0) return 'Pick at least one person to split with';
+
+  if (expense.split_mode === 'exact') {
+    const assigned = expense.participants.reduce((sum, p) => sum + toCents(p.amount || 0), 0);
+    const diff = toCents(expense.amount) - assigned;
+    if (diff !== 0) {
+      return `Amounts ${diff > 0 ? 'fall short of' : 'exceed'} the total by ${fromCents(Math.abs(diff)).toFixed(2)}`;
+    }
+  }
+  if (expense.split_mode === 'shares' && !expense.participants.some((p) => (p.share ?? 1) > 0)) {
+    return 'At least one person needs a share';
+  }
+  return null;
+}
+
+// Net balance per member per currency: positive means they are owed money
+export function getBalances(expenses: TripExpense[]): Record<string, Record<string, number>> {
+  const balances: Record<string, Record<string, number>> = {};
+
+  for (const expense of expenses) {
+    const currency = balances[expense.currency] || (balances[expense.currency] = {});
+    currency[expense.paid_by] = (currency[expense.paid_by] || 0) + toCents(expense.amount);
+    for (const [userId, cents] of Object.entries(getShareCents(expense))) {
+      currency[userId] = (currency[userId] || 0) - cents;
+    }
+  }
+
+  for (const currency of Object.values(balances)) {
+    for (const userId of Object.keys(currency)) {
+      currency[userId] = fromCents(currency[userId]);
+    }
+  }
+  return balances;
+}
+
+// Turn balances into as few transfers as possible. Debts that exactly cancel out are paired
+// first, the rest is settled greedily by matching the largest debtor with the largest creditor,
+// which never needs more than (members - 1) transfers per currency.
+export function settleUp(balances: Record<string, Record<string, number>>): ExpenseTransfer[] {
+  const transfers: ExpenseTransfer[] = [];
+
+  for (const [currency, byMember] of Object.entries(balances)) {
+    const creditors = Object.entries(byMember)
+      .map(([userId, amount]) => ({ userId, cents: toCents(amount) }))
+      .filter((m) => m.cents > 0);
+    const debtors = Object.entries(byMember)
+      .map(([userId, amount]) => ({ userId, cents: -toCents(amount) }))
+      .filter((m) => m.cents > 0);
+
+    const pay = (from: string, to: string, cents: number) =>
+      transfers.push({ from, to, amount: fromCents(cents), currency });
+
+    for (const debtor of debtors) {
+      const match = creditors.find((c) => c.cents === debtor.cents);
+      if (match) {
+        pay(debtor.userId, match.userId, debtor.cents);
+        match.cents = 0;
+        debtor.cents = 0;
+      }
+    }
+
+    for (;;) {
+      const debtor = debtors.filter((d) => d.cents > 0).sort((a, b) => b.cents - a.cents)[0];
+      const creditor = creditors.filter((c) => c.cents > 0).sort((a, b) => b.cents - a.cents)[0];
+      if (!debtor || !creditor) break;
+
+      const cents = Math.min(debtor.cents, creditor.cents);
+      pay(debtor.userId, creditor.userId, cents);
+      debtor.cents -= cents;
+      creditor.cents -= cents;
+    }
+  }
+  return transfers;
+}
+
+export type ExpenseFields = Omit<TripExpense, 'id' | 'trip_id' | 'created_by' | 'created_at'>;
+
+// Most recent first
+export async function fetchExpenses(tripId: string): Promise<TripExpense[]> {
+  const { data, error } = await supabase
+    .from('trip_expenses')
+    .select('*')
+    .eq('trip_id', tripId)
+    .order('spent_at', { ascending: false });
+
+  check(error);
+  return asRows<TripExpense>(data);
+}
+
+export async function createExpense(tripId: string, createdBy: string, fields: ExpenseFields): Promise<TripExpense> {
+  const { data, error } = await supabase
+    .from('trip_expenses')
+    .insert(toRow<'trip_expenses'>({ ...fields, trip_id: tripId, created_by: createdBy }))
+    .select()
+    .single();
+
+  check(error);
+  return asRow<TripExpense>(data);
+}
+
+export async function updateExpense(id: string, fields: Partial<ExpenseFields>): Promise<void> {
+  const { error } = await supabase.from('trip_expenses').update(toRow<'trip_expenses'>(fields)).eq('id', id);
+  check(error);
+}
+
+export async function deleteExpense(id: string): Promise<void> {
+  const { error } = await supabase.from('trip_expenses').delete().eq('id', id);
+  check(error);
+}
+
+// Falls back to a plain "12.50 XYZ" for a currency Intl doesn't accept, rather than breaking the render
+export function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+// One-click expense from a schedule item. estimated_cost is the total for the group,
+// paid by the current user and split equally between the members the item is for - everyone
+// unless it has an audience.
+export async function createExpenseFromScheduleItem(item: ScheduleItem, paidBy: string): Promise<TripExpense> {
+  if (!item.estimated_cost) {
+    throw new Error('This item has no cost');
+  }
+
+  const [members, subgroups] = await Promise.all([
+    fetchTripMembers(item.trip_id),
+    hasAudience(item) ? fetchTripSubgroups(item.trip_id) : [],
+  ]);
+  const audience = getAudienceUserIds(item, subgroups);
+  const participants = members.filter((m) => !audience || audience.has(m.user_id));
+  if (!participants.length) {
+    throw new Error(audience ? 'Nobody this item is for is still a member of the trip' : 'No members found');
+  }
+
+  return createExpense(item.trip_id, paidBy, {
+    description: item.title,
+    amount: item.estimated_cost,
+    currency: getItemCurrency(item),
+    paid_by: paidBy,
+    split_mode: 'equal',
+    participants: participants.map((m) => ({ user_id: m.user_id })),
+    schedule_item_id: item.series_id || item.id,
+    spent_at: item.start_time,
+  });
+}
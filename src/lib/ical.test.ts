@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { parseCalendar } from './ical';
+import outlookBooking from '../test/fixtures/outlook-booking.ics?raw';
+import recurring from '../test/fixtures/recurring.ics?raw';
+
+const startsOf = (title: string, ics: string) =>
+  parseCalendar(ics).filter((event) => event.title === title).map((event) => event.start_time);
+
+describe('parseCalendar', () => {
+  const events = parseCalendar(outlookBooking);
+
+  it('reads every event that is not cancelled, sorted by start time', () => {
+    expect(events.map((event) => event.title)).toEqual([
+      'Flight KL 1675 Amsterdam - Barcelona',
+      'Check-in Hotel Arts, Barcelona',
+      'Picasso Museum',
+      'Flight KL 1676 Barcelona - Amsterdam',
+    ]);
+  });
+
+  it('converts times from Windows, IANA and prefixed time zones to UTC', () => {
+    expect(events.map((event) => [event.start_time, event.end_time])).toEqual([
+      ['2026-10-24T05:15:00.000Z', '2026-10-24T07:30:00.000Z'], // W. Europe Standard Time, summer time
+      ['2026-10-24T13:00:00.000Z', '2026-10-24T14:00:00.000Z'], // /citadel.org/.../Europe/Madrid
+      ['2026-10-25T08:00:00.000Z', '2026-10-25T10:00:00.000Z'], // Already UTC
+      ['2026-10-27T17:10:00.000Z', '2026-10-27T19:25:00.000Z'], // Winter time, end from DURATION
+    ]);
+  });
+
+  it('picks up the booking details', () => {
+    const [flight, hotel] = events;
+
+    expect(flight).toMatchObject({
+      type: 'travel',
+      location: 'Amsterdam Airport Schiphol',
+      description: 'Booking reference: PNR7QX\nSeat 14A',
+      booking_url: 'https://airline.example/eticket/PNR7QX.pdf',
+      reservation_code: 'PNR7QX',
+      contact_info: 'KLM - noreply@airline.example',
+    });
+    expect(hotel).toMatchObject({
+      type: 'accommodation',
+      description: 'Confirmation number: HA-88231. Breakfast included for the whole group.',
+      location_url: 'https://www.google.com/maps?q=41.3862,2.1963',
+      reservation_code: 'HA-88231',
+    });
+  });
+});
+
+describe('recurring events', () => {
+  it('expands BYDAY up to and including a date-only UNTIL, across a DST change', () => {
+    expect(startsOf('Yoga', recurring)).toEqual([
+      '2026-10-19T16:00:00.000Z',
+      // The 21st is excluded and the 23rd was moved
+      '2026-10-26T17:00:00.000Z',
+      '2026-10-28T17:00:00.000Z',
+      '2026-10-30T17:00:00.000Z',
+    ]);
+  });
+
+  it('puts an edited occurrence in place of the one it replaces', () => {
+    expect(parseCalendar(recurring).find((event) => event.title === 'Yoga (late class)')).toMatchObject({
+      start_time: '2026-10-23T18:00:00.000Z',
+      end_time: '2026-10-23T19:00:00.000Z',
+    });
+  });
+
+  it('stops after COUNT occurrences, stepping by INTERVAL', () => {
+    expect(startsOf('Breakfast', recurring)).toEqual([
+      '2026-10-20T06:00:00.000Z',
+      '2026-10-22T06:00:00.000Z',
+      '2026-10-24T06:00:00.000Z',
+    ]);
+  });
+
+  it('includes a UTC UNTIL that lands on an occurrence and skips a UTC EXDATE', () => {
+    expect(startsOf('Stand-up', recurring)).toEqual(['2026-10-22T07:00:00.000Z', '2026-10-24T07:00:00.000Z']);
+  });
+
+  it('skips months without the start day for all-day events', () => {
+    expect(parseCalendar(recurring).filter((event) => event.title === 'Pay the rent')).toEqual([
+      expect.objectContaining({ start_time: '2027-01-30T23:00:00.000Z', end_time: '2027-01-31T23:00:00.000Z' }),
+      expect.objectContaining({ start_time: '2027-03-30T22:00:00.000Z', end_time: '2027-03-31T22:00:00.000Z' }),
+      expect.objectContaining({ start_time: '2027-05-30T22:00:00.000Z', end_time: '2027-05-31T22:00:00.000Z' }),
+    ]);
+  });
+});
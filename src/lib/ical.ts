@@ -0,0 +1,447 @@
+// iCalendar (RFC 5545) helpers - renders the /api/trips/:id/calendar.ics feed, and parses
+// .ics files from booking emails and other calendars into schedule items for the import modal.
+import type { ScheduleItem } from '../types';
+
+export interface CalendarEvent {
+  uid: string;
+  start: string; // ISO timestamp
+  end?: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+}
+
+const DEFAULT_EVENT_MINUTES = 60;
+
+// 20250612T083000Z
+function formatUtc(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Commas, semicolons and backslashes are separators in iCalendar text values
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (size + charSize > limit) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+export function buildCalendar(name: string, events: CalendarEvent[], now: Date = new Date()): string {
+  const stamp = formatUtc(now.toISOString());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//GroupTrips//Schedule//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    // Reveals happen over time, so ask subscribed calendars to refresh regularly
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ];
+
+  for (const event of events) {
+    const end = event.end && new Date(event.end) > new Date(event.start)
+      ? event.end
+      : new Date(new Date(event.start).getTime() + DEFAULT_EVENT_MINUTES * 60 * 1000).toISOString();
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatUtc(event.start)}`,
+      `DTEND:${formatUtc(end)}`,
+      `SUMMARY:${escapeText(event.summary)}`
+    );
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// --- Import ---
+
+export interface ImportedEvent {
+  title: string;
+  type: ScheduleItem['type'];
+  description?: string;
+  location?: string;
+  location_url?: string;
+  start_time: string;
+  end_time?: string;
+  booking_url?: string;
+  reservation_code?: string;
+  contact_info?: string;
+}
+
+interface Property {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface LocalDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  dateOnly: boolean;
+  utc: boolean;
+  timeZone: string | null; // null = floating, read in the browser's time zone
+}
+
+// Recurring events are expanded up to this many occurrences
+const MAX_OCCURRENCES = 100;
+
+// Outlook and Exchange write Windows zone names instead of IANA ones
+const WINDOWS_TIME_ZONES: Record<string, string> = {
+  'W. Europe Standard Time': 'Europe/Berlin',
+  'Romance Standard Time': 'Europe/Paris',
+  'Central Europe Standard Time': 'Europe/Budapest',
+  'Central European Standard Time': 'Europe/Warsaw',
+  'GMT Standard Time': 'Europe/London',
+  'GTB Standard Time': 'Europe/Athens',
+  'E. Europe Standard Time': 'Europe/Chisinau',
+  'FLE Standard Time': 'Europe/Helsinki',
+  'Eastern Standard Time': 'America/New_York',
+  'Central Standard Time': 'America/Chicago',
+  'Mountain Standard Time': 'America/Denver',
+  'Pacific Standard Time': 'America/Los_Angeles',
+  'UTC': 'UTC',
+};
+
+const TYPE_KEYWORDS: [ScheduleItem['type'], RegExp][] = [
+  ['travel', /\b(flight|vlucht|boarding|airport|luchthaven|train|trein|bus|ferry|veerboot|taxi|transfer|departure|vertrek)\b/i],
+  ['accommodation', /\b(hotel|hostel|airbnb|apartment|appartement|check-?in|check-?out|inchecken|uitchecken|accommodation|accommodatie|verblijf|stay)\b/i],
+  ['meal', /\b(restaurant|dinner|diner|lunch|breakfast|ontbijt|brunch|table for|tafel voor)\b/i],
+  ['meeting', /\b(meeting|vergadering|briefing|call|verzamelen|meet-?up)\b/i],
+  ['free_time', /\b(free time|vrije tijd)\b/i],
+];
+
+// Flight numbers like "KL 1234" or "BA567" in the summary
+const FLIGHT_NUMBER = /\b[A-Z][A-Z0-9]\s?\d{2,4}\b/;
+
+const RESERVATION_CODE =
+  /(?:reservation|booking|confirmation|reference|reservering|boeking|bevestiging|referentie)[\w -]{0,20}?(?:code|number|nummer|nr\.?)?\s*[:#]\s*([A-Z0-9][A-Z0-9-]{4,})/i;
+
+// Codes are upper case; this keeps words like "confirmed" out
+function getReservationCode(text: string): string | undefined {
+  const code = text.match(RESERVATION_CODE)?.[1];
+  return code && code === code.toUpperCase() ? code : undefined;
+}
+
+export function guessScheduleType(text: string): ScheduleItem['type'] {
+  for (const [type, pattern] of TYPE_KEYWORDS) {
+    if (pattern.test(text)) return type;
+  }
+  return 'activity';
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+function parseProperty(line: string): Property | null {
+  // The value starts at the first colon outside a quoted parameter
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function resolveTimeZone(tzid: string): string | null {
+  const zone = WINDOWS_TIME_ZONES[tzid] || tzid.match(/[A-Za-z]+\/[A-Za-z_]+(?:\/[A-Za-z_]+)?$/)?.[0] || tzid;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone });
+    return zone;
+  } catch {
+    return null;
+  }
+}
+
+function parseDateTime(prop: Property): LocalDateTime | null {
+  const match = prop.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  return {
+    year: Number(match[1]),
+    month: Number(match[2]),
+    day: Number(match[3]),
+    hour: Number(match[4] || 0),
+    minute: Number(match[5] || 0),
+    second: Number(match[6] || 0),
+    dateOnly: !match[4],
+    utc: !!match[7],
+    timeZone: prop.params.TZID ? resolveTimeZone(prop.params.TZID) : null,
+  };
+}
+
+// Milliseconds a time zone is ahead of UTC at the given moment
+function getZoneOffset(timestamp: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(timestamp));
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(timestamp / 1000) * 1000;
+}
+
+function toTimestamp(date: LocalDateTime): number {
+  const { year, month, day, hour, minute, second } = date;
+  if (date.utc) return Date.UTC(year, month - 1, day, hour, minute, second);
+  if (!date.timeZone || date.dateOnly) return new Date(year, month - 1, day, hour, minute, second).getTime();
+
+  // Wall-clock time in the event's zone; checked twice so DST transitions land right
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  const guess = wallClock - getZoneOffset(wallClock, date.timeZone);
+  return wallClock - getZoneOffset(guess, date.timeZone);
+}
+
+// Shift a date by calendar units, keeping the wall-clock time (so recurrences survive DST)
+function addToDate(date: LocalDateTime, unit: 'day' | 'month' | 'year', amount: number): LocalDateTime | null {
+  const shifted = new Date(Date.UTC(
+    date.year + (unit === 'year' ? amount : 0),
+    date.month - 1 + (unit === 'month' ? amount : 0),
+    date.day + (unit === 'day' ? amount : 0)
+  ));
+  // The 31st of a shorter month doesn't exist and is skipped, as RFC 5545 requires
+  if (unit !== 'day' && shifted.getUTCDate() !== date.day) return null;
+  return { ...date, year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+}
+
+// P1DT2H30M, PT90M, P1W
+function parseDuration(value: string): number | null {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match.map((part) => part || '0');
+  const ms = ((((Number(weeks) * 7 + Number(days)) * 24 + Number(hours)) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Start times of every occurrence of a (possibly recurring) event
+function expandOccurrences(start: LocalDateTime, rrule: string | undefined, excluded: Set<number>): number[] {
+  if (!rrule) return [toTimestamp(start)];
+
+  const rule = Object.fromEntries(
+    rrule.split(';').map((part) => {
+      const [key, value] = part.split('=');
+      return [key.toUpperCase(), value || ''];
+    })
+  );
+  const interval = Math.max(Number(rule.INTERVAL) || 1, 1);
+  const count = rule.COUNT ? Number(rule.COUNT) : Infinity;
+  const untilProp = rule.UNTIL ? parseDateTime({ name: 'UNTIL', params: {}, value: rule.UNTIL }) : null;
+  // A date-only UNTIL includes that whole day, so the series runs up to the next midnight
+  const until = !untilProp
+    ? Infinity
+    : untilProp.dateOnly
+    ? toTimestamp({ ...addToDate(untilProp, 'day', 1)!, dateOnly: false, timeZone: start.timeZone }) - 1
+    : toTimestamp({ ...untilProp, timeZone: start.timeZone });
+  const byDay = rule.BYDAY
+    ? rule.BYDAY.split(',').map((day: string) => WEEKDAYS.indexOf(day.slice(-2))).filter((day: number) => day >= 0)
+    : [];
+
+  const unit = ({ DAILY: 'day', WEEKLY: 'day', MONTHLY: 'month', YEARLY: 'year' } as const)[rule.FREQ as string];
+  if (!unit) return [toTimestamp(start)];
+
+  const occurrences: number[] = [];
+  let generated = 0;
+  const emit = (date: LocalDateTime) => {
+    const timestamp = toTimestamp(date);
+    if (timestamp > until || generated >= count) return false;
+    generated++;
+    if (!excluded.has(timestamp)) occurrences.push(timestamp);
+    return true;
+  };
+
+  for (let step = 0; occurrences.length < MAX_OCCURRENCES && generated < count; step++) {
+    if (rule.FREQ === 'WEEKLY' && byDay.length > 0) {
+      // Walk the days of this week and emit the ones listed in BYDAY, from the start date on
+      const weekStart = addToDate(start, 'day', step * 7 * interval)!;
+      const firstWeekday = new Date(Date.UTC(weekStart.year, weekStart.month - 1, weekStart.day)).getUTCDay();
+      let more = true;
+      for (let offset = 0; offset < 7 && more; offset++) {
+        if (byDay.includes((firstWeekday + offset) % 7)) {
+          more = emit(addToDate(weekStart, 'day', offset)!);
+        }
+      }
+      if (!more) break;
+      continue;
+    }
+
+    const amount = (rule.FREQ === 'WEEKLY' ? 7 : 1) * interval * step;
+    const date = addToDate(start, unit, amount);
+    if (date && !emit(date)) break;
+    if (step > MAX_OCCURRENCES * 12) break;
+  }
+  return occurrences;
+}
+
+function eventToItems(props: Property[], overridden: Set<number>): ImportedEvent[] {
+  const get = (name: string) => props.find((prop) => prop.name === name);
+  const text = (name: string) => {
+    const prop = get(name);
+    return prop ? unescapeText(prop.value).trim() || undefined : undefined;
+  };
+
+  if (get('STATUS')?.value.toUpperCase() === 'CANCELLED') return [];
+
+  const startProp = get('DTSTART');
+  const start = startProp && parseDateTime(startProp);
+  if (!start) return [];
+
+  const startTime = toTimestamp(start);
+  const endProp = get('DTEND');
+  const end = endProp && parseDateTime(endProp);
+  const duration = end
+    ? toTimestamp(end) - startTime
+    : parseDuration(get('DURATION')?.value || '') ?? (start.dateOnly ? 24 * 60 * 60 * 1000 : 0);
+
+  const excluded = new Set(overridden);
+  for (const prop of props.filter((p) => p.name === 'EXDATE')) {
+    for (const value of prop.value.split(',')) {
+      const date = parseDateTime({ ...prop, value });
+      if (date) excluded.add(toTimestamp({ ...date, timeZone: date.timeZone || start.timeZone }));
+    }
+  }
+
+  const title = text('SUMMARY') || 'Untitled event';
+  const description = text('DESCRIPTION');
+  const location = text('LOCATION');
+
+  // Linked attachments (e-tickets, vouchers); inline binary attachments are skipped
+  const attachments = props
+    .filter((p) => p.name === 'ATTACH' && p.params.VALUE !== 'BINARY' && /^https?:\/\//.test(p.value))
+    .map((p) => p.value);
+  const url = get('URL')?.value || attachments[0];
+
+  const geo = get('GEO')?.value.split(/[;,]/).map(Number);
+  const organizer = get('ORGANIZER');
+  const organizerEmail = organizer?.value.replace(/^mailto:/i, '');
+
+  const type = FLIGHT_NUMBER.test(title)
+    ? 'travel'
+    : guessScheduleType([title, location, description].filter(Boolean).join(' '));
+
+  const base = {
+    title,
+    type,
+    description: [description, ...attachments.filter((a) => a !== url).map((a) => `Attachment: ${a}`)]
+      .filter(Boolean)
+      .join('\n') || undefined,
+    location,
+    location_url: geo?.length === 2 && geo.every(Number.isFinite)
+      ? `https://www.google.com/maps?q=${geo[0]},${geo[1]}`
+      : undefined,
+    booking_url: url,
+    reservation_code: getReservationCode([title, description].join('\n')),
+    contact_info: organizer
+      ? [organizer.params.CN, organizerEmail].filter(Boolean).join(' - ')
+      : undefined,
+  };
+
+  return expandOccurrences(start, get('RRULE')?.value, excluded).map((timestamp) => ({
+    ...base,
+    start_time: new Date(timestamp).toISOString(),
+    end_time: duration > 0 ? new Date(timestamp + duration).toISOString() : undefined,
+  }));
+}
+
+// Turn an .ics file into schedule items, one per event occurrence, sorted by start time
+export function parseCalendar(ics: string): ImportedEvent[] {
+  const lines = ics.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: Property[][] = [];
+  let current: Property[] | null = null;
+  let nested = 0; // VALARM and friends inside a VEVENT
+
+  for (const line of lines) {
+    const prop = parseProperty(line);
+    if (!prop) continue;
+
+    if (prop.name === 'BEGIN') {
+      if (current) nested++;
+      else if (prop.value.toUpperCase() === 'VEVENT') current = [];
+    } else if (prop.name === 'END') {
+      if (nested > 0) nested--;
+      else if (current && prop.value.toUpperCase() === 'VEVENT') {
+        events.push(current);
+        current = null;
+      }
+    } else if (current && nested === 0) {
+      current.push(prop);
+    }
+  }
+
+  // Edited occurrences (RECURRENCE-ID) replace their slot in the series they belong to
+  const overrides: Record<string, Set<number>> = {};
+  for (const props of events) {
+    const uid = props.find((p) => p.name === 'UID')?.value;
+    const recurrenceProp = props.find((p) => p.name === 'RECURRENCE-ID');
+    const recurrenceId = recurrenceProp && parseDateTime(recurrenceProp);
+    if (uid && recurrenceId) {
+      (overrides[uid] ||= new Set()).add(toTimestamp(recurrenceId));
+    }
+  }
+
+  return events
+    .flatMap((props) => {
+      const uid = props.find((p) => p.name === 'UID')?.value;
+      const isOverride = props.some((p) => p.name === 'RECURRENCE-ID');
+      return eventToItems(props, uid && !isOverride ? overrides[uid] || new Set() : new Set());
+    })
+    .sort((a, b) => a.start_time.localeCompare(b.start_time));
+}
@@ -0,0 +1,35 @@
+// Live locations of members who share them, one row per member per trip
+import { supabase } from './supabase';
+import { asRows, check } from './db';
+import type { MemberLocation } from '../types';
+
+// With the member's profile
+export async function fetchLocations(tripId: string): Promise<MemberLocation[]> {
+  const { data, error } = await supabase
+    .from('member_locations')
+    .select('*, user:users(*)')
+    .eq('trip_id', tripId);
+
+  check(error);
+  return asRows<MemberLocation>(data);
+}
+
+export async function saveLocation(tripId: string, userId: string, latitude: number, longitude: number): Promise<void> {
+  const { error } = await supabase.from('member_locations').upsert(
+    { trip_id: tripId, user_id: userId, latitude, longitude, updated_at: new Date().toISOString() },
+    { onConflict: 'trip_id,user_id' }
+  );
+
+  check(error);
+}
+
+// Stops sharing
+export async function clearLocation(tripId: string, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('member_locations')
+    .delete()
+    .eq('trip_id', tripId)
+    .eq('user_id', userId);
+
+  check(error);
+}
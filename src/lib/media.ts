@@ -0,0 +1,51 @@
+// Trip photos and videos, in the trip-media storage bucket
+import { supabase } from './supabase';
+import { asRow, asRows, check } from './db';
+import type { TripMedia } from '../types';
+
+// Newest first
+export async function fetchTripMedia(tripId: string): Promise<TripMedia[]> {
+  const { data, error } = await supabase
+    .from('trip_media')
+    .select('*')
+    .eq('trip_id', tripId)
+    .order('created_at', { ascending: false });
+
+  check(error);
+  return asRows<TripMedia>(data);
+}
+
+// Uploads the file and saves it with where it was taken from, if known
+export async function uploadTripMedia(
+  tripId: string,
+  userId: string,
+  file: File,
+  location?: { lat: number; lng: number } | null
+): Promise<TripMedia> {
+  const fileExt = file.name.split('.').pop()?.toLowerCase();
+  const fileName = `${tripId}/${Date.now()}-${Math.random().toString(36).substr(2, 9)}.${fileExt}`;
+
+  const { error: storageError } = await supabase.storage
+    .from('trip-media')
+    .upload(fileName, file, { cacheControl: '3600', upsert: false });
+
+  if (storageError) throw new Error(storageError.message);
+
+  const { data: { publicUrl } } = supabase.storage.from('trip-media').getPublicUrl(fileName);
+
+  const { data, error } = await supabase
+    .from('trip_media')
+    .insert({
+      trip_id: tripId,
+      uploaded_by: userId,
+      file_url: publicUrl,
+      type: file.type.startsWith('video/') ? 'video' : 'photo',
+      latitude: location?.lat ?? null,
+      longitude: location?.lng ?? null,
+    })
+    .select()
+    .single();
+
+  check(error);
+  return asRow<TripMedia>(data);
+}
@@ -0,0 +1,48 @@
+// Trip members and their roles
+import { supabase } from './supabase';
+import { asRow, asRows, check } from './db';
+import type { TripMember } from '../types';
+
+// With their user profiles, in the order they joined
+export async function fetchTripMembers(tripId: string): Promise<TripMember[]> {
+  const { data, error } = await supabase
+    .from('trip_members')
+    .select('*, user:users(*)')
+    .eq('trip_id', tripId)
+    .order('joined_at');
+
+  check(error);
+  return asRows<TripMember>(data);
+}
+
+// null when the user isn't a member of the trip
+export async function fetchMembership(tripId: string, userId: string): Promise<TripMember | null> {
+  const { data, error } = await supabase
+    .from('trip_members')
+    .select('*')
+    .eq('trip_id', tripId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  check(error);
+  return data && asRow<TripMember>(data);
+}
+
+// Joins the current user to the trip with the code and returns its id, or null when no trip has
+// the code. Already being a member is fine; a trip that has all the members its plan allows
+// fails with a DataError that says so (join_trip RPC).
+export async function joinTripByLobbyCode(lobbyCode: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc('join_trip', { p_lobby_code: lobbyCode.toUpperCase() });
+  check(error);
+  return data;
+}
+
+export async function setMemberRole(id: string, role: TripMember['role']): Promise<void> {
+  const { error } = await supabase.from('trip_members').update({ role }).eq('id', id);
+  check(error);
+}
+
+export async function removeMember(id: string): Promise<void> {
+  const { error } = await supabase.from('trip_members').delete().eq('id', id);
+  check(error);
+}
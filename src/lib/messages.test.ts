@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { installFakeSupabase } from '../test/installFakeSupabase';
+import type { FakeSupabase } from '../test/fakeSupabase';
+import { fetchMessages, postMessage, postQueuedMessage, setMessagePinned } from './messages';
+
+let db: FakeSupabase;
+
+beforeEach(() => {
+  db = installFakeSupabase();
+});
+
+function seedMessages(tripId: string, count: number) {
+  db.seed(
+    'trip_messages',
+    Array.from({ length: count }, (_, index) => ({
+      id: `msg-${index}`,
+      trip_id: tripId,
+      sender_id: 'user-1',
+      content: `Message ${index}`,
+      type: 'update',
+      is_pinned: false,
+      created_at: new Date(Date.UTC(2026, 9, 1, 12, index)).toISOString(),
+    }))
+  );
+}
+
+describe('fetchMessages', () => {
+  it('pages through the trip chat newest first', async () => {
+    seedMessages('trip-1', 5);
+    seedMessages('trip-2', 3);
+
+    const first = await fetchMessages('trip-1', { pageSize: 2 });
+    expect(first.items.map((message) => message.id)).toEqual(['msg-4', 'msg-3']);
+    expect(first).toMatchObject({ page: 0, total: 5, hasMore: true });
+
+    const last = await fetchMessages('trip-1', { page: 2, pageSize: 2 });
+    expect(last.items.map((message) => message.id)).toEqual(['msg-0']);
+    expect(last.hasMore).toBe(false);
+  });
+});
+
+describe('postMessage', () => {
+  it('stores an unpinned update from the sender unless told otherwise', async () => {
+    const message = await postMessage('trip-1', 'user-1', { content: 'Hello' });
+
+    expect(message).toMatchObject({ trip_id: 'trip-1', sender_id: 'user-1', content: 'Hello', type: 'update', is_pinned: false });
+    expect(db.rows('trip_messages')).toHaveLength(1);
+
+    const announcement = await postMessage('trip-1', 'user-1', { content: 'Bus leaves at 8', type: 'announcement', is_pinned: true });
+    expect(announcement).toMatchObject({ type: 'announcement', is_pinned: true });
+  });
+});
+
+describe('postQueuedMessage', () => {
+  it('posts a queued message only once, however often it is sent', async () => {
+    await postQueuedMessage('trip-1', 'user-1', 'queued-1', { content: 'Landed!' });
+    await postQueuedMessage('trip-1', 'user-1', 'queued-1', { content: 'Landed!' });
+    await postQueuedMessage('trip-1', 'user-1', 'queued-2', { content: 'Landed!' });
+
+    expect(db.rows('trip_messages')).toEqual([
+      expect.objectContaining({ client_id: 'queued-1', content: 'Landed!', type: 'update', sender_id: 'user-1' }),
+      expect.objectContaining({ client_id: 'queued-2' }),
+    ]);
+  });
+});
+
+describe('setMessagePinned', () => {
+  it('pins only the given message', async () => {
+    seedMessages('trip-1', 2);
+
+    await setMessagePinned('msg-1', true);
+
+    expect(db.rows('trip_messages').map((message) => message.is_pinned)).toEqual([false, true]);
+  });
+});
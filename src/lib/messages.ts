@@ -0,0 +1,62 @@
+// Trip chat messages - the lobby chat, announcements and the messages polls and reminders post
+import { supabase } from './supabase';
+import { asRow, check, pageRange, toPage, toRow } from './db';
+import type { Page, PageRequest } from './db';
+import type { TripMessage } from '../types';
+
+export type NewMessage = Pick<TripMessage, 'content'> &
+  Partial<Pick<TripMessage, 'type' | 'is_pinned' | 'media_url' | 'poll_id'>>;
+
+// Newest first, with the sender; page 0 is the latest messages
+export async function fetchMessages(tripId: string, request?: PageRequest): Promise<Page<TripMessage>> {
+  const result = await supabase
+    .from('trip_messages')
+    .select('*, sender:users(*)', { count: 'exact' })
+    .eq('trip_id', tripId)
+    .order('created_at', { ascending: false })
+    .range(...pageRange(request));
+
+  return toPage<TripMessage>(result, request);
+}
+
+export async function postMessage(tripId: string, senderId: string, message: NewMessage): Promise<TripMessage> {
+  const { data, error } = await supabase
+    .from('trip_messages')
+    .insert(toRow<'trip_messages'>({ type: 'update', is_pinned: false, ...message, trip_id: tripId, sender_id: senderId }))
+    .select()
+    .single();
+
+  check(error);
+  return asRow<TripMessage>(data);
+}
+
+// A message written offline, sent with the id it was queued under. Sending the same one again
+// does nothing, so a replay that was cut off after the insert can't post it twice.
+export async function postQueuedMessage(tripId: string, senderId: string, clientId: string, message: NewMessage): Promise<void> {
+  const { error } = await supabase
+    .from('trip_messages')
+    .upsert(
+      toRow<'trip_messages'>({ type: 'update', is_pinned: false, ...message, trip_id: tripId, sender_id: senderId, client_id: clientId }),
+      { onConflict: 'sender_id,client_id', ignoreDuplicates: true }
+    );
+
+  check(error);
+}
+
+export async function setMessagePinned(id: string, isPinned: boolean): Promise<void> {
+  const { error } = await supabase.from('trip_messages').update({ is_pinned: isPinned }).eq('id', id);
+  check(error);
+}
+
+// Photo for a chat message, returns its public URL
+export async function uploadChatMedia(tripId: string, file: File): Promise<string> {
+  const fileExt = file.name.split('.').pop()?.toLowerCase();
+  const fileName = `${tripId}/chat/${Date.now()}-${Math.random().toString(36).substr(2, 9)}.${fileExt}`;
+
+  const { error } = await supabase.storage
+    .from('trip-media')
+    .upload(fileName, file, { cacheControl: '3600', upsert: false });
+
+  if (error) throw new Error(error.message);
+  return supabase.storage.from('trip-media').getPublicUrl(fileName).data.publicUrl;
+}
@@ -0,0 +1,137 @@
+// What travellers need without signal, kept in IndexedDB: a copy of each opened trip with its
+// schedule, members and the user's own tickets (saved by TripContext), and chat messages sent
+// while offline (queued by MessagesPanel). The service worker keeps the app itself available.
+import type { NewMessage } from './messages';
+import type { RevealedTicket } from '../types';
+
+const DB_NAME = 'grouptrips-offline';
+const DB_VERSION = 1;
+
+type StoreName = 'trip_copies' | 'outbox';
+
+interface TripCopyRow {
+  userId: string;
+  tripId: string;
+  slice: string;
+  value: unknown;
+  savedAt: string;
+}
+
+export interface QueuedMessage {
+  id: string;
+  tripId: string;
+  senderId: string;
+  message: NewMessage;
+  queuedAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore('trip_copies', { keyPath: ['userId', 'tripId', 'slice'] });
+      db.createObjectStore('outbox', { keyPath: 'id' }).createIndex('by_sender_trip', ['senderId', 'tripId']);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch((err) => {
+    // Try again next time, e.g. after the user allowed storage
+    dbPromise = null;
+    throw err;
+  });
+
+  return dbPromise;
+}
+
+// Runs one request in its own transaction
+async function run<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function saveTripCopy(userId: string, tripId: string, slice: string, value: unknown): Promise<void> {
+  const row: TripCopyRow = { userId, tripId, slice, value, savedAt: new Date().toISOString() };
+  await run('trip_copies', 'readwrite', (store) => store.put(row));
+}
+
+// Every saved slice of the trip by name, empty when it was never opened on this device
+export async function loadTripCopy(userId: string, tripId: string): Promise<Record<string, unknown>> {
+  const rows = await run<TripCopyRow[]>('trip_copies', 'readonly', (store) =>
+    store.getAll(IDBKeyRange.bound([userId, tripId, ''], [userId, tripId, '\uffff']))
+  );
+
+  return Object.fromEntries(rows.map((row) => [row.slice, row.value]));
+}
+
+export async function queueMessage(tripId: string, senderId: string, message: NewMessage): Promise<QueuedMessage> {
+  const queued: QueuedMessage = {
+    id: crypto.randomUUID(),
+    tripId,
+    senderId,
+    message,
+    queuedAt: new Date().toISOString(),
+  };
+
+  await run('outbox', 'readwrite', (store) => store.add(queued));
+  return queued;
+}
+
+// Oldest first, the order they're sent in
+export async function fetchQueuedMessages(tripId: string, senderId: string): Promise<QueuedMessage[]> {
+  const queued = await run<QueuedMessage[]>('outbox', 'readonly', (store) =>
+    store.index('by_sender_trip').getAll([senderId, tripId])
+  );
+
+  return queued.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+}
+
+export async function removeQueuedMessage(id: string): Promise<void> {
+  await run('outbox', 'readwrite', (store) => store.delete(id));
+}
+
+// On sign out, so the next user of the device doesn't find someone else's tickets
+export async function clearOfflineData(): Promise<void> {
+  await run('trip_copies', 'readwrite', (store) => store.clear());
+  await run('outbox', 'readwrite', (store) => store.clear());
+}
+
+function toDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Uploaded QR codes are short-lived signed URLs, so the offline copy holds the images themselves.
+// A ticket whose image can't be fetched keeps its URL.
+export async function inlineQrCodes(tickets: RevealedTicket[]): Promise<RevealedTicket[]> {
+  return Promise.all(
+    tickets.map(async (revealed) => {
+      const url = revealed.ticket.qr_code_url;
+      if (!url || url.startsWith('data:')) return revealed;
+
+      try {
+        const response = await fetch(url);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const qrCodeUrl = await toDataUrl(await response.blob());
+        return { ...revealed, ticket: { ...revealed.ticket, qr_code_url: qrCodeUrl } };
+      } catch (err) {
+        console.error('[Offline] Failed to save QR code:', err);
+        return revealed;
+      }
+    })
+  );
+}
@@ -0,0 +1,129 @@
+// Group polls - posted in the trip chat, voted on by members and, once decided, optionally
+// added to the schedule. Single and multiple choice count votes; ranked choice gives each
+// option points by its place on a ballot (a Borda count), so second choices still count.
+import { supabase } from './supabase';
+import { asRow, asRows, check, toRow } from './db';
+import { postMessage } from './messages';
+import { createScheduleItem } from './schedule';
+import type { PollMode, PollOption, PollVote, TripPoll } from '../types';
+
+export const POLL_MODE_LABELS: Record<PollMode, string> = {
+  single: 'Single choice',
+  multiple: 'Multiple choice',
+  ranked: 'Ranked choice',
+};
+
+export interface PollResults {
+  scores: Record<string, number>; // Votes, or points for ranked polls, per option id
+  voters: number;
+  winner: PollOption | null; // Highest score, null on a tie or without votes
+}
+
+export async function fetchPoll(pollId: string): Promise<{ poll: TripPoll; votes: PollVote[] }> {
+  const [{ data: poll, error: pollError }, { data: votes, error: votesError }] = await Promise.all([
+    supabase.from('trip_polls').select('*').eq('id', pollId).single(),
+    supabase.from('poll_votes').select('*').eq('poll_id', pollId),
+  ]);
+
+  check(pollError);
+  check(votesError);
+  return { poll: asRow<TripPoll>(poll), votes: asRows<PollVote>(votes) };
+}
+
+// Creates the poll and posts it in the trip chat
+export async function createPoll(
+  tripId: string,
+  createdBy: string,
+  question: string,
+  mode: PollMode,
+  options: Omit<PollOption, 'id'>[]
+): Promise<void> {
+  const { data: poll, error } = await supabase
+    .from('trip_polls')
+    .insert(toRow<'trip_polls'>({
+      trip_id: tripId,
+      created_by: createdBy,
+      question,
+      mode,
+      options: options.map((option, index) => ({ ...option, id: String(index + 1) })),
+    }))
+    .select('id')
+    .single();
+
+  check(error);
+  await postMessage(tripId, createdBy, { content: `📊 ${question}`, poll_id: poll.id });
+}
+
+export async function castVote(pollId: string, userId: string, choices: string[]): Promise<void> {
+  const { error } = await supabase
+    .from('poll_votes')
+    .upsert({ poll_id: pollId, user_id: userId, choices }, { onConflict: 'poll_id,user_id' });
+
+  check(error);
+}
+
+export async function closePoll(pollId: string): Promise<void> {
+  const { error } = await supabase.from('trip_polls').update({ status: 'closed' }).eq('id', pollId);
+  check(error);
+}
+
+export function tallyPoll(poll: TripPoll, votes: PollVote[]): PollResults {
+  const scores: Record<string, number> = Object.fromEntries(poll.options.map((option) => [option.id, 0]));
+
+  for (const vote of votes) {
+    vote.choices.forEach((optionId, rank) => {
+      if (!(optionId in scores)) return;
+      scores[optionId] += poll.mode === 'ranked' ? poll.options.length - rank : 1;
+    });
+  }
+
+  const best = Math.max(0, ...Object.values(scores));
+  const leaders = poll.options.filter((option) => scores[option.id] === best);
+  return {
+    scores,
+    voters: votes.length,
+    winner: best > 0 && leaders.length === 1 ? leaders[0] : null,
+  };
+}
+
+// Whether an option carries enough to become a schedule item in one go
+export const canSchedule = (option: PollOption) => !!option.item?.start_time;
+
+// Adds the winning option to the schedule and closes the poll
+export async function schedulePollWinner(poll: TripPoll, option: PollOption): Promise<void> {
+  if (!option.item?.start_time) throw new Error('This option has no date to schedule it on');
+
+  await createScheduleItem(poll.trip_id, {
+    title: option.title,
+    type: option.item.type,
+    description: option.item.description || option.description || null,
+    location: option.item.location || null,
+    booking_url: option.item.booking_url || null,
+    estimated_cost: option.item.estimated_cost ?? null,
+    start_time: option.item.start_time,
+    end_time: option.item.end_time || null,
+  });
+
+  const { error } = await supabase
+    .from('trip_polls')
+    .update({ status: 'closed', scheduled_option_id: option.id })
+    .eq('id', poll.id);
+  check(error);
+}
+
+// Calls onChange whenever a vote is cast or the poll itself changes
+export function subscribeToPoll(pollId: string, onChange: () => void) {
+  return supabase
+    .channel(`poll-${pollId}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'poll_votes', filter: `poll_id=eq.${pollId}` },
+      onChange
+    )
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'trip_polls', filter: `id=eq.${pollId}` },
+      onChange
+    )
+    .subscribe();
+}
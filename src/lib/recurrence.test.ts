@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, describeRecurrence, expandRecurringItems, getOccurrences } from './recurrence';
+import type { ScheduleItem } from '../types';
+
+// Tests run in Europe/Amsterdam (see vitest.config.ts): summer time ends on 25 October 2026
+function series(fields: Partial<ScheduleItem> = {}): ScheduleItem {
+  return {
+    id: 'breakfast',
+    trip_id: 'trip-1',
+    title: 'Breakfast',
+    type: 'meal',
+    start_time: new Date('2026-10-19T08:00').toISOString(), // A Monday
+    end_time: new Date('2026-10-19T09:30').toISOString(),
+    recurrence: { until: '2026-10-23' },
+    ...fields,
+  } as ScheduleItem;
+}
+
+const dates = (items: ScheduleItem[]) => items.map((item) => item.occurrence_date);
+
+describe('getOccurrences', () => {
+  it('returns an item without a rule as it is', () => {
+    const item = series({ recurrence: null });
+    expect(getOccurrences(item)).toEqual([item]);
+  });
+
+  it('repeats daily up to and including the end date', () => {
+    const occurrences = getOccurrences(series());
+
+    expect(dates(occurrences)).toEqual(['2026-10-19', '2026-10-20', '2026-10-21', '2026-10-22', '2026-10-23']);
+    expect(occurrences[2]).toMatchObject({
+      id: 'breakfast:2026-10-21',
+      series_id: 'breakfast',
+      start_time: new Date('2026-10-21T08:00').toISOString(),
+      end_time: new Date('2026-10-21T09:30').toISOString(),
+    });
+  });
+
+  it('only repeats on the chosen weekdays', () => {
+    const occurrences = getOccurrences(series({ recurrence: { days: [1, 3, 5], until: '2026-10-30' } }));
+
+    expect(dates(occurrences)).toEqual(['2026-10-19', '2026-10-21', '2026-10-23', '2026-10-26', '2026-10-28', '2026-10-30']);
+  });
+
+  it('ends with the trip when the rule has no end date, and after 100 days without either', () => {
+    const open = series({ recurrence: {} });
+
+    expect(dates(getOccurrences(open, new Date('2026-10-21T12:00').toISOString()))).toEqual([
+      '2026-10-19',
+      '2026-10-20',
+      '2026-10-21',
+    ]);
+    expect(getOccurrences(open)).toHaveLength(100);
+  });
+
+  it('prefers the rule\'s own end date to the end of the trip', () => {
+    expect(getOccurrences(series(), new Date('2026-10-20T12:00').toISOString())).toHaveLength(5);
+  });
+
+  it('leaves out skipped days', () => {
+    const occurrences = getOccurrences(series({ recurrence_exceptions: ['2026-10-20', '2026-10-22'] }));
+
+    expect(dates(occurrences)).toEqual(['2026-10-19', '2026-10-21', '2026-10-23']);
+  });
+
+  it('keeps the local time of day across the change to winter time', () => {
+    const occurrences = getOccurrences(
+      series({ start_time: new Date('2026-10-24T08:00').toISOString(), end_time: null, recurrence: { until: '2026-10-26' } })
+    );
+
+    expect(occurrences.map((item) => item.start_time)).toEqual([
+      '2026-10-24T06:00:00.000Z',
+      '2026-10-25T07:00:00.000Z',
+      '2026-10-26T07:00:00.000Z',
+    ]);
+    expect(occurrences[0].end_time).toBeUndefined();
+  });
+});
+
+describe('expandRecurringItems', () => {
+  it('puts an edited occurrence, saved on its own, in place of the skipped one', () => {
+    const edited = series({
+      id: 'brunch',
+      title: 'Brunch',
+      start_time: new Date('2026-10-20T10:00').toISOString(),
+      end_time: null,
+      recurrence: null,
+    });
+
+    const expanded = expandRecurringItems([edited, series({ recurrence_exceptions: ['2026-10-20'] })]);
+
+    expect(expanded.map((item) => item.title)).toEqual(['Breakfast', 'Brunch', 'Breakfast', 'Breakfast', 'Breakfast']);
+    expect(expandRecurringItems(expanded)).toEqual(expanded);
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('names the weekdays in order, or says daily', () => {
+    expect(describeRecurrence(series({ recurrence: { days: [5, 1] } }))).toBe('Every Mon, Fri');
+    expect(describeRecurrence(series())).toBe('Daily until 2026-10-23');
+  });
+});
+
+describe('addDays', () => {
+  it('steps calendar days, also over a DST change', () => {
+    expect(addDays('2026-10-24', 2)).toBe('2026-10-26');
+    expect(addDays('2026-03-01', -1)).toBe('2026-02-28');
+  });
+});
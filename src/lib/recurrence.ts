@@ -0,0 +1,78 @@
+// Recurring schedule items - a series is one stored row with a repeat rule, expanded into an
+// occurrence per day on read. Occurrences keep the series' time of day and duration.
+// Kept free of the Supabase client so the calendar feed can expand series as well.
+import type { ScheduleItem } from '../types';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// A rule without an end on a trip without a return date stops after this many days
+const MAX_DAYS = 100;
+
+// Local calendar day as YYYY-MM-DD
+export function toDateKey(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function addDays(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T12:00:00`);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+}
+
+// Last moment an occurrence may start: the rule's own end, otherwise the end of the trip
+function getSeriesEnd(item: ScheduleItem, tripEnd?: string): number {
+  if (item.recurrence?.until) return new Date(`${item.recurrence.until}T23:59:59`).getTime();
+  if (tripEnd) return new Date(tripEnd).getTime();
+  return Infinity;
+}
+
+export function getOccurrences(item: ScheduleItem, tripEnd?: string): ScheduleItem[] {
+  if (!item.recurrence) return [item];
+
+  const start = new Date(item.start_time);
+  const duration = item.end_time ? new Date(item.end_time).getTime() - start.getTime() : null;
+  const last = getSeriesEnd(item, tripEnd);
+  const days = item.recurrence.days?.length ? item.recurrence.days : null;
+  const skipped = new Set(item.recurrence_exceptions || []);
+  const occurrences: ScheduleItem[] = [];
+
+  for (let i = 0; i < MAX_DAYS; i++) {
+    // Stepping the local date keeps the time of day across DST changes
+    const occurrenceStart = new Date(start);
+    occurrenceStart.setDate(start.getDate() + i);
+    if (occurrenceStart.getTime() > last) break;
+
+    const dateKey = toDateKey(occurrenceStart);
+    if (days && !days.includes(occurrenceStart.getDay())) continue;
+    if (skipped.has(dateKey)) continue;
+
+    occurrences.push({
+      ...item,
+      id: `${item.id}:${dateKey}`,
+      start_time: occurrenceStart.toISOString(),
+      end_time: duration !== null ? new Date(occurrenceStart.getTime() + duration).toISOString() : undefined,
+      series_id: item.id,
+      occurrence_date: dateKey,
+    });
+  }
+
+  return occurrences;
+}
+
+// Stored items with every series replaced by its occurrences, in time order.
+// Already expanded occurrences pass through, so expanding twice is harmless.
+export function expandRecurringItems(items: ScheduleItem[], tripEnd?: string): ScheduleItem[] {
+  return items
+    .flatMap((item) => (item.series_id ? [item] : getOccurrences(item, tripEnd)))
+    .sort((a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime());
+}
+
+export function describeRecurrence(item: ScheduleItem): string | null {
+  if (!item.recurrence) return null;
+  const days = item.recurrence.days;
+  const when = days?.length && days.length < 7
+    ? `Every ${[...days].sort().map((day) => WEEKDAY_LABELS[day]).join(', ')}`
+    : 'Daily';
+  return item.recurrence.until ? `${when} until ${item.recurrence.until}` : when;
+}
@@ -0,0 +1,115 @@
+// Reveal policy evaluator - shared by the ticket, destination and schedule views,
+// and by the api/ routes, so client and server always agree on what is unlocked.
+import type { RevealPolicy, RevealStage, TicketRevealStatus, Trip } from '../types';
+
+export const DEFAULT_REVEAL_POLICY: RevealPolicy = {
+  destination_country: 60,
+  destination_city: 60,
+  ticket_qr: 3 * 60,
+  ticket_full: 60,
+  schedule_item: 60,
+};
+
+export const REVEAL_STAGE_LABELS: Record<RevealStage, string> = {
+  destination_country: 'Destination country',
+  destination_city: 'Destination city',
+  ticket_qr: 'Ticket QR code',
+  ticket_full: 'Full ticket',
+  schedule_item: 'Schedule items',
+};
+
+// Merge a trip's stored policy over the defaults, ignoring invalid values
+export function resolveRevealPolicy(trip?: Pick<Trip, 'reveal_policy'> | null): RevealPolicy {
+  const policy = { ...DEFAULT_REVEAL_POLICY };
+  const stored = trip?.reveal_policy;
+  if (!stored) return policy;
+
+  for (const stage of Object.keys(policy) as RevealStage[]) {
+    const minutes = stored[stage];
+    if (typeof minutes === 'number' && Number.isFinite(minutes) && minutes >= 0) {
+      policy[stage] = minutes;
+    }
+  }
+  return policy;
+}
+
+// Why a policy can't be saved, or null when it can. The full ticket includes the QR code, so
+// unlocking it first would skip the QR stage.
+export function validateRevealPolicy(policy: RevealPolicy): string | null {
+  if (policy.ticket_full > policy.ticket_qr) {
+    return 'The full ticket can\'t unlock before the QR code.';
+  }
+  return null;
+}
+
+// Moment a stage unlocks, given the time it counts back from
+export function getStageRevealTime(policy: RevealPolicy, stage: RevealStage, anchorTime: string): Date {
+  return new Date(new Date(anchorTime).getTime() - policy[stage] * 60 * 1000);
+}
+
+export function isStageRevealed(
+  policy: RevealPolicy,
+  stage: RevealStage,
+  anchorTime: string,
+  now: number = Date.now()
+): boolean {
+  return now >= getStageRevealTime(policy, stage, anchorTime).getTime();
+}
+
+// Time left until a stage unlocks, or null when it already has
+export function getTimeUntilStage(
+  policy: RevealPolicy,
+  stage: RevealStage,
+  anchorTime: string,
+  now: number = Date.now()
+): { hours: number; minutes: number } | null {
+  const diff = getStageRevealTime(policy, stage, anchorTime).getTime() - now;
+  if (diff <= 0) return null;
+
+  const hours = Math.floor(diff / (1000 * 60 * 60));
+  const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
+  return { hours, minutes };
+}
+
+// Helper function to determine ticket reveal status
+export function getTicketRevealStatus(
+  departureTime: string,
+  policy: RevealPolicy = DEFAULT_REVEAL_POLICY,
+  now: number = Date.now()
+): TicketRevealStatus {
+  if (isStageRevealed(policy, 'ticket_full', departureTime, now)) {
+    return 'full';
+  } else if (isStageRevealed(policy, 'ticket_qr', departureTime, now)) {
+    return 'qr_only';
+  }
+  return 'hidden';
+}
+
+// Helper function to get the moment the next ticket stage unlocks: the earliest stage still to
+// come, so a stored policy that unlocks the full ticket first counts down to that
+export function getNextTicketRevealTime(
+  departureTime: string,
+  policy: RevealPolicy = DEFAULT_REVEAL_POLICY,
+  now: number = Date.now()
+): string | null {
+  if (getTicketRevealStatus(departureTime, policy, now) === 'full') return null;
+
+  const upcoming = (['ticket_qr', 'ticket_full'] as const)
+    .map((stage) => getStageRevealTime(policy, stage, departureTime).getTime())
+    .filter((time) => time > now);
+
+  return upcoming.length > 0 ? new Date(Math.min(...upcoming)).toISOString() : null;
+}
+
+// "3 hours", "30 minutes", "1 day"
+export function formatRevealOffset(minutes: number): string {
+  if (minutes > 0 && minutes % (24 * 60) === 0) {
+    const days = minutes / (24 * 60);
+    return `${days} ${days === 1 ? 'day' : 'days'}`;
+  }
+  if (minutes > 0 && minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+  }
+  return `${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`;
+}
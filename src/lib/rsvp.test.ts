@@ -0,0 +1,34 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { installFakeSupabase } from '../test/installFakeSupabase';
+import type { FakeSupabase } from '../test/fakeSupabase';
+import { setRsvp } from './rsvp';
+import type { ScheduleItem } from '../types';
+
+let db: FakeSupabase;
+
+beforeEach(() => {
+  db = installFakeSupabase();
+});
+
+const item = { id: 'item-1', trip_id: 'trip-1', rsvp_enabled: true, capacity: 2 } as ScheduleItem;
+
+describe('setRsvp', () => {
+  it('leaves responded_at to the database, so answering again keeps the place in line', async () => {
+    db.seed('schedule_rsvps', [
+      { trip_id: 'trip-1', schedule_item_id: 'item-1', user_id: 'user-1', status: 'going', responded_at: '2026-10-01T09:00:00.000Z' },
+    ]);
+
+    await setRsvp(item, 'user-1', 'going');
+
+    expect(db.rows('schedule_rsvps')).toEqual([
+      expect.objectContaining({ user_id: 'user-1', status: 'going', responded_at: '2026-10-01T09:00:00.000Z' }),
+    ]);
+  });
+
+  it('answers for the whole series from one of its occurrences', async () => {
+    await setRsvp({ ...item, id: 'item-1:2026-10-22', series_id: 'item-1' }, 'user-2', 'maybe');
+
+    expect(db.rows('schedule_rsvps')).toEqual([expect.objectContaining({ schedule_item_id: 'item-1', user_id: 'user-2', status: 'maybe' })]);
+    expect(db.rows('schedule_rsvps')[0]).not.toHaveProperty('responded_at');
+  });
+});
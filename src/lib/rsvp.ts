@@ -0,0 +1,87 @@
+// RSVPs for schedule items that ask who's coming. With a capacity, the first members to say
+// they're going get the places and the rest wait in line in the order they responded, so a
+// place that frees up goes to the next in line without anyone having to move them.
+import { supabase } from './supabase';
+import { asRows, check } from './db';
+import { postMessage } from './messages';
+import { getAudienceUserIds } from './audience';
+import type { RsvpStatus, ScheduleItem, ScheduleRsvp, TripMember, TripSubgroup } from '../types';
+
+export const RSVP_LABELS: Record<RsvpStatus, string> = {
+  going: 'Going',
+  maybe: 'Maybe',
+  not_going: 'Not going',
+};
+
+export interface RsvpSummary {
+  going: ScheduleRsvp[]; // Within capacity
+  waitlist: ScheduleRsvp[]; // Going, but past capacity - in line order
+  maybe: ScheduleRsvp[];
+  notGoing: ScheduleRsvp[];
+  noResponse: TripMember[]; // Members the item is for who haven't answered yet
+}
+
+// Occurrences of a recurring item answer for the whole series, like its expenses
+const getRsvpItemId = (item: ScheduleItem) => item.series_id || item.id;
+
+export async function fetchTripRsvps(tripId: string): Promise<ScheduleRsvp[]> {
+  const { data, error } = await supabase
+    .from('schedule_rsvps')
+    .select('*')
+    .eq('trip_id', tripId)
+    .order('responded_at');
+
+  check(error);
+  return asRows<ScheduleRsvp>(data);
+}
+
+// responded_at is set by the database, and only moves when the status changes, so answering
+// 'going' again keeps the member's place in line
+export async function setRsvp(item: ScheduleItem, userId: string, status: RsvpStatus): Promise<void> {
+  const { error } = await supabase
+    .from('schedule_rsvps')
+    .upsert(
+      { trip_id: item.trip_id, schedule_item_id: getRsvpItemId(item), user_id: userId, status },
+      { onConflict: 'schedule_item_id,user_id' }
+    );
+
+  check(error);
+}
+
+// Answers of current members the item is for, sorted into places, waitlist and the rest
+export function summarizeRsvps(
+  item: ScheduleItem,
+  rsvps: ScheduleRsvp[],
+  members: TripMember[],
+  subgroups: TripSubgroup[]
+): RsvpSummary {
+  const audience = getAudienceUserIds(item, subgroups);
+  const invited = members.filter((member) => !audience || audience.has(member.user_id));
+  const invitedIds = new Set(invited.map((member) => member.user_id));
+  const answers = rsvps
+    .filter((rsvp) => rsvp.schedule_item_id === getRsvpItemId(item) && invitedIds.has(rsvp.user_id))
+    .sort((a, b) => a.responded_at.localeCompare(b.responded_at));
+
+  const allGoing = answers.filter((rsvp) => rsvp.status === 'going');
+  const places = item.capacity ?? allGoing.length;
+  const answered = new Set(answers.map((rsvp) => rsvp.user_id));
+
+  return {
+    going: allGoing.slice(0, places),
+    waitlist: allGoing.slice(places),
+    maybe: answers.filter((rsvp) => rsvp.status === 'maybe'),
+    notGoing: answers.filter((rsvp) => rsvp.status === 'not_going'),
+    noResponse: invited.filter((member) => !answered.has(member.user_id)),
+  };
+}
+
+// Posts a 'reminder' message naming everyone who still has to answer
+export async function sendRsvpReminder(senderId: string, item: ScheduleItem, noResponse: TripMember[]): Promise<void> {
+  const when = new Date(item.start_time).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  const names = noResponse.map((member) => member.user?.name || 'a member').join(', ');
+
+  await postMessage(item.trip_id, senderId, {
+    content: `Reminder: let us know if you're coming to "${item.title}" on ${when}. Still waiting on ${names}.`,
+    type: 'reminder',
+  });
+}
@@ -0,0 +1,206 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { installFakeSupabase } from '../test/installFakeSupabase';
+import type { FakeSupabase } from '../test/fakeSupabase';
+import {
+  createScheduleItem,
+  getScheduleFormValues,
+  toScheduleItemFields,
+  updateRecurringItem,
+  updateScheduleItem,
+  validateScheduleForm,
+  type ScheduleItemFormValues,
+} from './schedule';
+import type { ScheduleItem } from '../types';
+
+let db: FakeSupabase;
+
+beforeEach(() => {
+  db = installFakeSupabase();
+});
+
+// Local times, as the datetime-local inputs hold them
+const START = '2026-10-20T10:00';
+const END = '2026-10-20T12:30';
+
+function formValues(overrides: Partial<ScheduleItemFormValues> = {}): ScheduleItemFormValues {
+  return { ...getScheduleFormValues(), title: 'Sagrada Familia', startTime: START, ...overrides };
+}
+
+describe('toScheduleItemFields', () => {
+  it('clears empty optional fields instead of saving empty strings', () => {
+    expect(toScheduleItemFields(formValues())).toEqual({
+      title: 'Sagrada Familia',
+      description: null,
+      location: null,
+      location_url: null,
+      booking_url: null,
+      reservation_code: null,
+      contact_info: null,
+      estimated_cost: null,
+      type: 'activity',
+      start_time: new Date(START).toISOString(),
+      end_time: null,
+      recurrence: null,
+      audience_subgroup_ids: null,
+      audience_user_ids: null,
+      rsvp_enabled: false,
+      capacity: null,
+    });
+  });
+
+  it('converts the inputs to column values', () => {
+    const fields = toScheduleItemFields(
+      formValues({ endTime: END, estimatedCost: '120.50', audienceUserIds: ['user-1'], rsvpEnabled: true, capacity: '12' })
+    );
+
+    expect(fields).toMatchObject({
+      end_time: new Date(END).toISOString(),
+      estimated_cost: 120.5,
+      audience_user_ids: ['user-1'],
+      rsvp_enabled: true,
+      capacity: 12,
+    });
+  });
+
+  it('drops the capacity when RSVPs are off', () => {
+    expect(toScheduleItemFields(formValues({ rsvpEnabled: false, capacity: '12' })).capacity).toBeNull();
+  });
+
+  it('stores every day of the week as a daily series', () => {
+    const daily = toScheduleItemFields(formValues({ repeats: true, repeatDays: [0, 1, 2, 3, 4, 5, 6], repeatUntil: '2026-10-25' }));
+    const weekends = toScheduleItemFields(formValues({ repeats: true, repeatDays: [0, 6] }));
+
+    expect(daily.recurrence).toEqual({ days: undefined, until: '2026-10-25' });
+    expect(weekends.recurrence).toEqual({ days: [0, 6], until: undefined });
+  });
+
+  it('turns the values of an existing item back into the same fields', () => {
+    const item: Partial<ScheduleItem> = {
+      title: 'Dinner',
+      type: 'meal',
+      location: 'El Nacional',
+      start_time: new Date('2026-10-20T20:00').toISOString(),
+      end_time: new Date('2026-10-20T22:00').toISOString(),
+      estimated_cost: 300,
+      recurrence: { days: [5], until: '2026-10-30' },
+      audience_subgroup_ids: ['sg-1'],
+      rsvp_enabled: true,
+      capacity: 8,
+    };
+
+    expect(toScheduleItemFields(getScheduleFormValues(item))).toMatchObject({
+      ...item,
+      description: null,
+      audience_user_ids: null,
+    });
+  });
+});
+
+describe('validateScheduleForm', () => {
+  it('accepts a complete form', () => {
+    expect(validateScheduleForm(formValues({ endTime: END, estimatedCost: '40', rsvpEnabled: true, capacity: '10' }))).toBeNull();
+  });
+
+  it('needs a title and a start time', () => {
+    expect(validateScheduleForm(formValues({ title: '  ' }))).toBe('Please enter a title');
+    expect(validateScheduleForm(formValues({ startTime: '' }))).toBe('Please select a start time');
+  });
+
+  it('rejects an end before the start', () => {
+    expect(validateScheduleForm(formValues({ endTime: '2026-10-20T09:00' }))).toBe('The end time can\'t be before the start time');
+  });
+
+  it('rejects negative costs and capacities below one', () => {
+    expect(validateScheduleForm(formValues({ estimatedCost: '-5' }))).toBe('The estimated cost must be a positive amount');
+    expect(validateScheduleForm(formValues({ rsvpEnabled: true, capacity: '0' }))).toBe('The number of places must be at least 1');
+    // The capacity isn't saved without RSVPs, so it isn't checked either
+    expect(validateScheduleForm(formValues({ rsvpEnabled: false, capacity: '0' }))).toBeNull();
+  });
+
+  it('rejects a series that ends before it starts', () => {
+    expect(validateScheduleForm(formValues({ repeats: true, repeatUntil: '2026-10-19' }))).toBe(
+      'The series can\'t end before its first day'
+    );
+    expect(validateScheduleForm(formValues({ repeats: true, repeatUntil: '2026-10-20' }))).toBeNull();
+  });
+});
+
+describe('createScheduleItem', () => {
+  it('inserts the fields for the trip', async () => {
+    await createScheduleItem('trip-1', toScheduleItemFields(formValues()));
+
+    expect(db.rows('schedule_items')).toEqual([
+      expect.objectContaining({ trip_id: 'trip-1', title: 'Sagrada Familia', start_time: new Date(START).toISOString() }),
+    ]);
+  });
+});
+
+describe('updateScheduleItem', () => {
+  it('clears the fields that were emptied', async () => {
+    db.seed('schedule_items', [{ id: 'item-1', trip_id: 'trip-1', title: 'Dinner', location: 'El Nacional', capacity: 8 }]);
+
+    await updateScheduleItem('item-1', toScheduleItemFields(formValues({ title: 'Dinner' })));
+
+    expect(db.rows('schedule_items')[0]).toMatchObject({ title: 'Dinner', location: null, capacity: null, trip_id: 'trip-1' });
+  });
+});
+
+describe('updateRecurringItem', () => {
+  const series = {
+    id: 'series-1',
+    trip_id: 'trip-1',
+    title: 'Breakfast',
+    type: 'meal',
+    start_time: '2026-10-20T07:00:00.000Z',
+    recurrence: { until: '2026-10-25' },
+    recurrence_exceptions: [],
+  } as unknown as ScheduleItem;
+
+  const occurrence = {
+    ...series,
+    id: 'series-1:2026-10-22',
+    series_id: 'series-1',
+    occurrence_date: '2026-10-22',
+    start_time: '2026-10-22T07:00:00.000Z',
+  } as ScheduleItem;
+
+  beforeEach(() => {
+    db.seed('schedule_items', [{ ...series, recurrence_exceptions: [] }]);
+  });
+
+  it('replaces one occurrence with a standalone item', async () => {
+    await updateRecurringItem(series, occurrence, { title: 'Brunch' }, 'this');
+
+    const [stored, replacement] = db.rows('schedule_items');
+    expect(stored.recurrence_exceptions).toEqual(['2026-10-22']);
+    expect(replacement).toMatchObject({ title: 'Brunch', start_time: occurrence.start_time, recurrence: null });
+  });
+
+  it('removes the replacement again when the occurrence can\'t be skipped', async () => {
+    db.failNext('schedule_items', 'update');
+
+    await expect(updateRecurringItem(series, occurrence, { title: 'Brunch' }, 'this')).rejects.toThrow('update on schedule_items failed');
+
+    expect(db.rows('schedule_items')).toEqual([expect.objectContaining({ id: 'series-1', recurrence_exceptions: [] })]);
+  });
+
+  it('leaves the series alone when the replacement can\'t be saved', async () => {
+    db.failNext('schedule_items', 'insert');
+
+    await expect(updateRecurringItem(series, occurrence, { title: 'Brunch' }, 'this')).rejects.toThrow();
+
+    expect(db.rows('schedule_items')).toEqual([expect.objectContaining({ id: 'series-1', recurrence_exceptions: [] })]);
+  });
+
+  it('starts a new series for the following occurrences, and keeps the old one when that fails', async () => {
+    db.failNext('schedule_items', 'update');
+    await expect(updateRecurringItem(series, occurrence, { title: 'Brunch' }, 'following')).rejects.toThrow();
+    expect(db.rows('schedule_items')).toHaveLength(1);
+
+    await updateRecurringItem(series, occurrence, { title: 'Brunch' }, 'following');
+
+    const [stored, following] = db.rows('schedule_items');
+    expect(stored.recurrence).toEqual({ until: '2026-10-21' });
+    expect(following).toMatchObject({ title: 'Brunch', start_time: occurrence.start_time, recurrence: { until: '2026-10-25' } });
+  });
+});
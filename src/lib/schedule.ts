@@ -0,0 +1,260 @@
+// Schedule item reads and writes shared by the timeline, the calendar view and the importers.
+import { supabase } from './supabase';
+import { asRow, asRows, check, toRow } from './db';
+import { addDays, toDateKey } from './recurrence';
+import type { ScheduleItem } from '../types';
+
+type EditableField = Exclude<keyof ScheduleItem, 'id' | 'trip_id' | 'created_at' | 'series_id' | 'occurrence_date'>;
+
+// null clears an optional field
+export type ScheduleItemFields = { [K in EditableField]?: ScheduleItem[K] | null };
+
+// Series as stored - expandRecurringItems() turns them into occurrences
+export async function fetchSchedule(tripId: string): Promise<ScheduleItem[]> {
+  const { data, error } = await supabase
+    .from('schedule_items')
+    .select('*')
+    .eq('trip_id', tripId)
+    .order('start_time', { ascending: true });
+
+  check(error);
+  return asRows<ScheduleItem>(data);
+}
+
+export async function createScheduleItem(tripId: string, fields: ScheduleItemFields): Promise<ScheduleItem> {
+  const { data, error } = await supabase
+    .from('schedule_items')
+    .insert({ ...toRow<'schedule_items'>(fields), trip_id: tripId })
+    .select()
+    .single();
+  check(error);
+  return asRow<ScheduleItem>(data);
+}
+
+export async function updateScheduleItem(id: string, fields: ScheduleItemFields): Promise<void> {
+  const { error } = await supabase.from('schedule_items').update(toRow<'schedule_items'>(fields)).eq('id', id);
+  check(error);
+}
+
+export async function deleteScheduleItem(id: string): Promise<void> {
+  const { error } = await supabase.from('schedule_items').delete().eq('id', id);
+  check(error);
+}
+
+// The schedule is ordered by time, so moving an item is how it gets reordered
+export async function moveScheduleItem(id: string, startTime: string, endTime?: string): Promise<void> {
+  await updateScheduleItem(id, { start_time: startTime, end_time: endTime ?? null });
+}
+
+export type RecurrenceScope = 'this' | 'following';
+
+// An occurrence as a standalone item, for detaching it or starting a new series from it
+function getOccurrenceFields(occurrence: ScheduleItem): ScheduleItemFields {
+  return {
+    title: occurrence.title,
+    description: occurrence.description,
+    location: occurrence.location,
+    location_url: occurrence.location_url,
+    type: occurrence.type,
+    booking_url: occurrence.booking_url,
+    reservation_code: occurrence.reservation_code,
+    contact_info: occurrence.contact_info,
+    estimated_cost: occurrence.estimated_cost,
+    currency: occurrence.currency,
+    start_time: occurrence.start_time,
+    end_time: occurrence.end_time,
+    audience_subgroup_ids: occurrence.audience_subgroup_ids,
+    audience_user_ids: occurrence.audience_user_ids,
+    rsvp_enabled: occurrence.rsvp_enabled,
+    capacity: occurrence.capacity,
+  };
+}
+
+const isFirstOccurrence = (series: ScheduleItem, dateKey: string) =>
+  dateKey <= toDateKey(new Date(series.start_time));
+
+async function skipOccurrence(series: ScheduleItem, dateKey: string): Promise<void> {
+  await updateScheduleItem(series.id, {
+    recurrence_exceptions: [...(series.recurrence_exceptions || []), dateKey],
+  });
+}
+
+async function endSeriesBefore(series: ScheduleItem, dateKey: string): Promise<void> {
+  await updateScheduleItem(series.id, {
+    recurrence: { ...series.recurrence, until: addDays(dateKey, -1) },
+  });
+}
+
+// Saves the item that takes over from part of a series, then takes that part out of the series.
+// In that order, a failure leaves the occurrence doubled for a moment rather than gone; when the
+// series can't be changed the new item is removed again, so the schedule is as it was.
+async function replaceInSeries(
+  series: ScheduleItem,
+  fields: ScheduleItemFields,
+  removeFromSeries: () => Promise<void>
+): Promise<void> {
+  const replacement = await createScheduleItem(series.trip_id, fields);
+
+  try {
+    await removeFromSeries();
+  } catch (err) {
+    await deleteScheduleItem(replacement.id).catch((cleanupError) =>
+      console.error('[Schedule] Failed to remove the replacement item again:', cleanupError)
+    );
+    throw err;
+  }
+}
+
+// Edit one occurrence of a series ('this'), or it and everything after it ('following').
+// Changing the following occurrences ends the series the day before and starts a new one.
+export async function updateRecurringItem(
+  series: ScheduleItem,
+  occurrence: ScheduleItem,
+  fields: ScheduleItemFields,
+  scope: RecurrenceScope
+): Promise<void> {
+  const dateKey = occurrence.occurrence_date || toDateKey(new Date(occurrence.start_time));
+
+  if (scope === 'this') {
+    await replaceInSeries(series, { ...getOccurrenceFields(occurrence), ...fields, recurrence: null }, () =>
+      skipOccurrence(series, dateKey)
+    );
+    return;
+  }
+
+  if (isFirstOccurrence(series, dateKey)) {
+    await updateScheduleItem(series.id, fields);
+    return;
+  }
+
+  await replaceInSeries(
+    series,
+    {
+      ...getOccurrenceFields(occurrence),
+      recurrence: series.recurrence,
+      recurrence_exceptions: (series.recurrence_exceptions || []).filter((skipped) => skipped > dateKey),
+      ...fields,
+    },
+    () => endSeriesBefore(series, dateKey)
+  );
+}
+
+export async function deleteRecurringItem(
+  series: ScheduleItem,
+  occurrence: ScheduleItem,
+  scope: RecurrenceScope
+): Promise<void> {
+  const dateKey = occurrence.occurrence_date || toDateKey(new Date(occurrence.start_time));
+
+  if (scope === 'this') {
+    await skipOccurrence(series, dateKey);
+  } else if (isFirstOccurrence(series, dateKey)) {
+    await deleteScheduleItem(series.id);
+  } else {
+    await endSeriesBefore(series, dateKey);
+  }
+}
+
+// datetime-local inputs want local "YYYY-MM-DDTHH:mm"
+export function toDateTimeLocal(value?: string): string {
+  if (!value) return '';
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return '';
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+// Form state for the add and edit modals - everything is a string, as the inputs hold it
+export interface ScheduleItemFormValues {
+  title: string;
+  description: string;
+  location: string;
+  locationUrl: string;
+  bookingUrl: string;
+  reservationCode: string;
+  contactInfo: string;
+  estimatedCost: string;
+  type: ScheduleItem['type'];
+  startTime: string;
+  endTime: string;
+  repeats: boolean;
+  repeatDays: number[]; // Weekdays (0 = Sunday), every day when empty
+  repeatUntil: string; // YYYY-MM-DD, the end of the trip when empty
+  audienceSubgroupIds: string[]; // Whole trip when both audience lists are empty
+  audienceUserIds: string[];
+  rsvpEnabled: boolean;
+  capacity: string; // No limit when empty
+}
+
+export function getScheduleFormValues(item?: Partial<ScheduleItem>): ScheduleItemFormValues {
+  return {
+    title: item?.title || '',
+    description: item?.description || '',
+    location: item?.location || '',
+    locationUrl: item?.location_url || '',
+    bookingUrl: item?.booking_url || '',
+    reservationCode: item?.reservation_code || '',
+    contactInfo: item?.contact_info || '',
+    estimatedCost: item?.estimated_cost?.toString() || '',
+    type: item?.type || 'activity',
+    startTime: toDateTimeLocal(item?.start_time),
+    endTime: toDateTimeLocal(item?.end_time),
+    repeats: !!item?.recurrence,
+    repeatDays: item?.recurrence?.days || [],
+    repeatUntil: item?.recurrence?.until || '',
+    audienceSubgroupIds: item?.audience_subgroup_ids || [],
+    audienceUserIds: item?.audience_user_ids || [],
+    rsvpEnabled: !!item?.rsvp_enabled,
+    capacity: item?.capacity?.toString() || '',
+  };
+}
+
+export function toScheduleItemFields(values: ScheduleItemFormValues): ScheduleItemFields {
+  return {
+    title: values.title,
+    description: values.description || null,
+    location: values.location || null,
+    location_url: values.locationUrl || null,
+    booking_url: values.bookingUrl || null,
+    reservation_code: values.reservationCode || null,
+    contact_info: values.contactInfo || null,
+    estimated_cost: values.estimatedCost ? parseFloat(values.estimatedCost) : null,
+    type: values.type,
+    start_time: new Date(values.startTime).toISOString(),
+    end_time: values.endTime ? new Date(values.endTime).toISOString() : null,
+    recurrence: values.repeats
+      ? {
+          days: values.repeatDays.length > 0 && values.repeatDays.length < 7 ? values.repeatDays : undefined,
+          until: values.repeatUntil || undefined,
+        }
+      : null,
+    audience_subgroup_ids: values.audienceSubgroupIds.length > 0 ? values.audienceSubgroupIds : null,
+    audience_user_ids: values.audienceUserIds.length > 0 ? values.audienceUserIds : null,
+    rsvp_enabled: values.rsvpEnabled,
+    capacity: values.rsvpEnabled && values.capacity ? parseInt(values.capacity, 10) : null,
+  };
+}
+
+// Why the form can't be saved, or null when it can. The inputs enforce most of this already,
+// but a cleared or half-typed datetime-local input still submits.
+export function validateScheduleForm(values: ScheduleItemFormValues): string | null {
+  const start = new Date(values.startTime);
+  if (!values.title.trim()) return 'Please enter a title';
+  if (!values.startTime || isNaN(start.getTime())) return 'Please select a start time';
+
+  if (values.endTime) {
+    const end = new Date(values.endTime);
+    if (isNaN(end.getTime())) return 'Please select a valid end time';
+    if (end < start) return 'The end time can\'t be before the start time';
+  }
+
+  if (values.estimatedCost && !(parseFloat(values.estimatedCost) >= 0)) {
+    return 'The estimated cost must be a positive amount';
+  }
+  if (values.rsvpEnabled && values.capacity && !(parseInt(values.capacity, 10) > 0)) {
+    return 'The number of places must be at least 1';
+  }
+  if (values.repeats && values.repeatUntil && values.repeatUntil < toDateKey(start)) {
+    return 'The series can\'t end before its first day';
+  }
+  return null;
+}
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { checkSchedule, getIssuesByItem, getOverlappingItems } from './scheduleChecks';
+import type { ScheduleItem, TripSubgroup } from '../types';
+
+const SAGRADA = 'https://www.google.com/maps?q=41.4036,2.1744';
+const PARK_GUELL = 'https://www.google.com/maps/place/Park+G%C3%BCell/@41.4145,2.1527,17z';
+const SAGRADA_SHOP = 'https://www.google.com/maps?q=41.4040,2.1750';
+
+// Times on 20 October 2026, in UTC
+function item(id: string, start: string, end: string | null, fields: Partial<ScheduleItem> = {}): ScheduleItem {
+  return {
+    id,
+    trip_id: 'trip-1',
+    title: id,
+    type: 'activity',
+    start_time: `2026-10-20T${start}:00.000Z`,
+    end_time: end ? `2026-10-20T${end}:00.000Z` : undefined,
+    ...fields,
+  } as ScheduleItem;
+}
+
+// [kind, ...item ids] per issue
+const kinds = (...args: Parameters<typeof checkSchedule>) =>
+  checkSchedule(...args).map((issue) => [issue.kind, ...issue.itemIds]);
+
+describe('checkSchedule overlaps', () => {
+  it('reports items that overlap, in schedule order', () => {
+    expect(kinds([item('lunch', '12:00', '13:30'), item('tour', '10:00', '12:30')])).toEqual([['overlap', 'tour', 'lunch']]);
+  });
+
+  it('lets items touch, and counts an item without an end as an hour long', () => {
+    expect(kinds([item('tour', '10:00', '12:00'), item('lunch', '12:00', '13:00')])).toEqual([]);
+    expect(kinds([item('tour', '10:00', null), item('lunch', '10:45', '12:00')])).toEqual([['overlap', 'tour', 'lunch']]);
+  });
+
+  it('leaves stays and free time out', () => {
+    const hotel = item('hotel', '08:00', '20:00', { type: 'accommodation' });
+    const beach = item('beach', '09:00', '12:00', { type: 'free_time' });
+
+    expect(kinds([hotel, beach, item('tour', '10:00', '11:00')])).toEqual([]);
+  });
+
+  it('reports transport running into the next item as a late arrival', () => {
+    const flight = item('flight', '09:00', '11:30', { type: 'travel' });
+
+    expect(checkSchedule([flight, item('tour', '11:00', '12:00')])).toEqual([
+      expect.objectContaining({ kind: 'late_arrival', severity: 'error', itemIds: ['flight', 'tour'] }),
+    ]);
+  });
+
+  it('only lets items for different sub-groups clash when someone is on both', () => {
+    const subgroups = [
+      { id: 'surfers', member_ids: ['user-1', 'user-2'] },
+      { id: 'hikers', member_ids: ['user-3'] },
+      { id: 'divers', member_ids: ['user-2'] },
+    ] as TripSubgroup[];
+    const surf = item('surf', '10:00', '12:00', { audience_subgroup_ids: ['surfers'] });
+
+    expect(kinds([surf, item('hike', '10:00', '12:00', { audience_subgroup_ids: ['hikers'] })], null, subgroups)).toEqual([]);
+    expect(kinds([surf, item('dive', '11:00', '12:00', { audience_subgroup_ids: ['divers'] })], null, subgroups)).toEqual([
+      ['overlap', 'surf', 'dive'],
+    ]);
+  });
+});
+
+describe('checkSchedule transfers', () => {
+  it('needs travel time between places that are apart, estimated from their coordinates', () => {
+    const issues = checkSchedule([
+      item('sagrada', '10:00', '11:00', { location_url: SAGRADA }),
+      item('park', '11:05', '12:00', { location_url: PARK_GUELL }),
+    ]);
+
+    expect(issues).toEqual([expect.objectContaining({ kind: 'tight_transfer', itemIds: ['sagrada', 'park'] })]);
+    expect(issues[0].message).toMatch(/^5 min to get from "sagrada" to "park", about 1\d min needed$/);
+  });
+
+  it('is fine with enough time, or places next to each other', () => {
+    expect(kinds([
+      item('sagrada', '10:00', '11:00', { location_url: SAGRADA }),
+      item('park', '11:30', '12:00', { location_url: PARK_GUELL }),
+    ])).toEqual([]);
+    expect(kinds([
+      item('sagrada', '10:00', '11:00', { location_url: SAGRADA }),
+      item('shop', '11:00', '11:30', { location_url: SAGRADA_SHOP }),
+    ])).toEqual([]);
+  });
+
+  it('asks for a quarter of an hour between differently named places without coordinates', () => {
+    const museum = item('museum', '10:00', '11:00', { location: 'Picasso Museum' });
+
+    expect(kinds([museum, item('lunch', '11:10', '12:00', { location: 'El Xampanyet' })])).toEqual([['tight_transfer', 'museum', 'lunch']]);
+    expect(kinds([museum, item('shop', '11:00', '11:30', { location: ' picasso museum' })])).toEqual([]);
+    expect(kinds([museum, item('walk', '11:00', '12:00')])).toEqual([]);
+  });
+
+  it('leaves transport to the late arrival check', () => {
+    expect(kinds([
+      item('museum', '10:00', '11:00', { location: 'Picasso Museum' }),
+      item('train', '11:05', '13:00', { type: 'travel', location: 'Sants' }),
+    ])).toEqual([]);
+  });
+});
+
+describe('checkSchedule trip dates', () => {
+  const trip = { departure_time: '2026-10-20T08:00:00.000Z', return_time: '2026-10-22T18:00:00.000Z' };
+
+  it('allows three hours around departure and return for getting there and back', () => {
+    expect(kinds([item('taxi', '05:00', '06:00'), item('tour', '10:00', '12:00')], trip)).toEqual([]);
+  });
+
+  it('reports items before the departure or after the return', () => {
+    const early = item('early', '04:00', '05:00');
+    const late = { ...item('late', '10:00', null), start_time: '2026-10-22T21:00:00.000Z' };
+
+    expect(checkSchedule([late, early], trip).map((issue) => issue.message)).toEqual([
+      '"early" is before the departure',
+      '"late" is after the return',
+    ]);
+  });
+
+  it('has no end to the trip without a return time', () => {
+    expect(kinds([{ ...item('later', '10:00', null), start_time: '2027-01-01T10:00:00.000Z' }], { departure_time: trip.departure_time })).toEqual([]);
+  });
+
+  it('reports a stay without a check-out', () => {
+    expect(kinds([item('hotel', '15:00', null, { type: 'accommodation' })])).toEqual([['missing_checkout', 'hotel']]);
+  });
+});
+
+describe('getOverlappingItems', () => {
+  it('finds what a new slot would overlap, leaving the item itself out', () => {
+    const tour = item('tour', '10:00', '12:00');
+    const items = [tour, item('lunch', '12:00', '13:00'), item('hotel', '08:00', '20:00', { type: 'accommodation' })];
+
+    const overlapping = getOverlappingItems(tour, Date.parse('2026-10-20T11:00:00Z'), Date.parse('2026-10-20T12:30:00Z'), items);
+    expect(overlapping.map((other) => other.id)).toEqual(['lunch']);
+  });
+});
+
+describe('getIssuesByItem', () => {
+  it('lists every issue under each item it is about', () => {
+    const issues = checkSchedule([item('a', '10:00', '12:00'), item('b', '11:00', '13:00'), item('c', '12:30', '14:00')]);
+    const byItem = getIssuesByItem(issues);
+
+    expect(Object.fromEntries(Object.entries(byItem).map(([id, list]) => [id, list.length]))).toEqual({ a: 1, b: 2, c: 1 });
+  });
+});
@@ -0,0 +1,173 @@
+// Schedule feasibility checks - overlaps, items outside the trip, stays without a check-out,
+// transport arriving too late and transfers too short for the distance between two places.
+// Items for different sub-groups only clash when someone is on both, see audience.ts.
+import { sharesAudience } from './audience';
+import type { ScheduleItem, Trip, TripSubgroup } from '../types';
+
+export type ScheduleIssueKind = 'overlap' | 'outside_trip' | 'missing_checkout' | 'late_arrival' | 'tight_transfer';
+
+export interface ScheduleIssue {
+  kind: ScheduleIssueKind;
+  severity: 'error' | 'warning';
+  itemIds: string[]; // In schedule order
+  message: string;
+}
+
+export const SCHEDULE_ISSUE_LABELS: Record<ScheduleIssueKind, string> = {
+  overlap: 'Overlapping items',
+  outside_trip: 'Outside the trip dates',
+  missing_checkout: 'Missing check-out',
+  late_arrival: 'Transport arrives too late',
+  tight_transfer: 'Not enough time to get there',
+};
+
+const MINUTE_MS = 60 * 1000;
+
+// Getting to the airport before departure or home after return shouldn't count as outside the trip
+const TRIP_WINDOW_GRACE_MS = 3 * 60 * MINUTE_MS;
+// Transfers between two different places, when there are no coordinates to estimate from
+const MIN_TRANSFER_MINUTES = 15;
+// City travel mix of walking, transit and taxis, plus time to get going
+const AVERAGE_SPEED_KMH = 25;
+const TRANSFER_BUFFER_MINUTES = 10;
+
+const getStart = (item: ScheduleItem) => new Date(item.start_time).getTime();
+
+// Items without an end time are treated as lasting an hour
+export function getItemEnd(item: ScheduleItem): number {
+  return item.end_time ? new Date(item.end_time).getTime() : getStart(item) + 60 * MINUTE_MS;
+}
+
+// Stays span whole days and free time can be interrupted, so neither blocks a slot
+const blocksTime = (item: ScheduleItem) => item.type !== 'accommodation' && item.type !== 'free_time';
+
+// Items that a slot from `start` to `end` would overlap, ignoring `item` itself
+export function getOverlappingItems(
+  item: ScheduleItem,
+  start: number,
+  end: number,
+  items: ScheduleItem[],
+  subgroups: TripSubgroup[] = []
+): ScheduleItem[] {
+  return items.filter((other) =>
+    other.id !== item.id && blocksTime(other) && getStart(other) < end && start < getItemEnd(other)
+    && sharesAudience(item, other, subgroups)
+  );
+}
+
+// Coordinates from a maps link: ?q=52.37,4.89 or /@52.37,4.89,15z
+function getCoordinates(item: ScheduleItem): [number, number] | null {
+  const match = item.location_url?.match(/(?:[?&](?:q|query|ll|destination)=|@)(-?\d{1,2}(?:\.\d+)?),\s*(-?\d{1,3}(?:\.\d+)?)/);
+  return match ? [Number(match[1]), Number(match[2])] : null;
+}
+
+function distanceKm([lat1, lng1]: [number, number], [lat2, lng2]: [number, number]): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+// Minutes needed to get from one item to the next, or null when they are in the same place
+function getTransferMinutes(from: ScheduleItem, to: ScheduleItem): number | null {
+  const fromCoords = getCoordinates(from);
+  const toCoords = getCoordinates(to);
+  if (fromCoords && toCoords) {
+    const km = distanceKm(fromCoords, toCoords);
+    return km < 0.2 ? null : Math.round((km / AVERAGE_SPEED_KMH) * 60 + TRANSFER_BUFFER_MINUTES);
+  }
+
+  const fromPlace = from.location?.trim().toLowerCase();
+  const toPlace = to.location?.trim().toLowerCase();
+  return fromPlace && toPlace && fromPlace !== toPlace ? MIN_TRANSFER_MINUTES : null;
+}
+
+export function checkSchedule(
+  items: ScheduleItem[],
+  trip?: Pick<Trip, 'departure_time' | 'return_time'> | null,
+  subgroups: TripSubgroup[] = []
+): ScheduleIssue[] {
+  const issues: ScheduleIssue[] = [];
+  const sorted = [...items].sort((a, b) => getStart(a) - getStart(b));
+  const timed = sorted.filter(blocksTime);
+
+  // Overlaps - a transport leg running into the next item is reported as a late arrival instead
+  for (let i = 0; i < timed.length; i++) {
+    for (let j = i + 1; j < timed.length && getStart(timed[j]) < getItemEnd(timed[i]); j++) {
+      const [first, second] = [timed[i], timed[j]];
+      if (!sharesAudience(first, second, subgroups)) continue;
+      if (first.type === 'travel' && first.end_time && getStart(second) > getStart(first)) {
+        issues.push({
+          kind: 'late_arrival',
+          severity: 'error',
+          itemIds: [first.id, second.id],
+          message: `"${first.title}" arrives after "${second.title}" starts`,
+        });
+      } else {
+        issues.push({
+          kind: 'overlap',
+          severity: 'warning',
+          itemIds: [first.id, second.id],
+          message: `"${first.title}" overlaps with "${second.title}"`,
+        });
+      }
+    }
+  }
+
+  // Consecutive items in different places need time in between - the next item someone on
+  // this one goes to, skipping what other sub-groups do meanwhile
+  for (let i = 0; i + 1 < timed.length; i++) {
+    const from = timed[i];
+    const to = timed.slice(i + 1).find((next) => sharesAudience(from, next, subgroups));
+    if (!to) continue;
+    if (from.type === 'travel' || to.type === 'travel') continue;
+
+    const gapMinutes = (getStart(to) - getItemEnd(from)) / MINUTE_MS;
+    const needed = getTransferMinutes(from, to);
+    if (gapMinutes >= 0 && needed !== null && gapMinutes < needed) {
+      issues.push({
+        kind: 'tight_transfer',
+        severity: 'warning',
+        itemIds: [from.id, to.id],
+        message: `${Math.round(gapMinutes)} min to get from "${from.title}" to "${to.title}", about ${needed} min needed`,
+      });
+    }
+  }
+
+  for (const item of sorted) {
+    if (item.type === 'accommodation' && (!item.end_time || getItemEnd(item) <= getStart(item))) {
+      issues.push({
+        kind: 'missing_checkout',
+        severity: 'warning',
+        itemIds: [item.id],
+        message: `"${item.title}" has a check-in but no check-out`,
+      });
+    }
+
+    if (trip?.departure_time) {
+      const windowStart = new Date(trip.departure_time).getTime() - TRIP_WINDOW_GRACE_MS;
+      const windowEnd = trip.return_time ? new Date(trip.return_time).getTime() + TRIP_WINDOW_GRACE_MS : Infinity;
+      if (getStart(item) < windowStart || getItemEnd(item) > windowEnd) {
+        issues.push({
+          kind: 'outside_trip',
+          severity: 'warning',
+          itemIds: [item.id],
+          message: `"${item.title}" is ${getStart(item) < windowStart ? 'before the departure' : 'after the return'}`,
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+export function getIssuesByItem(issues: ScheduleIssue[]): Record<string, ScheduleIssue[]> {
+  const byItem: Record<string, ScheduleIssue[]> = {};
+  for (const issue of issues) {
+    for (const id of issue.itemIds) {
+      (byItem[id] ||= []).push(issue);
+    }
+  }
+  return byItem;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { getImportDiff } from './scheduleImport';
+import { parseCalendar } from './ical';
+import outlookBooking from '../test/fixtures/outlook-booking.ics?raw';
+import type { ScheduleItem } from '../types';
+
+const [flightOut, hotel, museum, flightBack] = parseCalendar(outlookBooking);
+
+function scheduled(fields: Partial<ScheduleItem>): ScheduleItem {
+  return { id: fields.title || 'item', trip_id: 'trip-1', type: 'activity', ...fields } as ScheduleItem;
+}
+
+describe('getImportDiff', () => {
+  it('reports an event that is on the schedule already as a duplicate', () => {
+    const existing = scheduled({ ...flightOut, title: 'flight kl 1675 amsterdam - barcelona ' });
+
+    expect(getImportDiff(flightOut, [existing])).toEqual({ status: 'duplicate', existing });
+  });
+
+  it('tells the outbound and return flight of one booking apart by their time', () => {
+    const outbound = scheduled(flightOut);
+    const back = scheduled({ ...flightBack, start_time: '2026-10-27T19:10:00.000Z' });
+
+    expect(getImportDiff(flightOut, [back, outbound])).toEqual({ status: 'duplicate', existing: outbound });
+    // Same code, no item at that time: the booking was moved
+    expect(getImportDiff(flightBack, [outbound, back])).toEqual({
+      status: 'changed',
+      existing: back,
+      changes: [{ field: 'start_time', from: '2026-10-27T19:10:00.000Z', to: flightBack.start_time }],
+    });
+  });
+
+  it('matches items without a code on their time and title or type', () => {
+    const existing = scheduled({ ...museum, title: 'Museu Picasso' });
+
+    expect(getImportDiff(museum, [existing])).toEqual({
+      status: 'changed',
+      existing,
+      changes: [{ field: 'title', from: 'Museu Picasso', to: 'Picasso Museum' }],
+    });
+    expect(getImportDiff(museum, [{ ...existing, type: 'meal' }])).toEqual({ status: 'new' });
+  });
+
+  it('does not count fields the import leaves out as changes', () => {
+    const existing = scheduled({ ...hotel, location: 'Carrer de la Marina 19', estimated_cost: 640 });
+
+    expect(getImportDiff({ ...hotel, location: undefined }, [existing])).toEqual({ status: 'duplicate', existing });
+  });
+
+  it('treats anything else as new', () => {
+    expect(getImportDiff(hotel, [scheduled(flightOut), scheduled(museum)])).toEqual({ status: 'new' });
+  });
+});
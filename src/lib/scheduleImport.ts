@@ -0,0 +1,77 @@
+// Import preview - compares imported items (AI or .ics) with what is already on the schedule,
+// so re-importing the same confirmation doesn't create duplicates and changed bookings update.
+import type { ScheduleItem } from '../types';
+
+export interface ImportCandidate {
+  title: string;
+  type: string;
+  start_time: string;
+  end_time?: string;
+  location?: string;
+  reservation_code?: string;
+  estimated_cost?: number;
+}
+
+const COMPARED_FIELDS = ['title', 'start_time', 'end_time', 'location', 'reservation_code', 'estimated_cost'] as const;
+type ComparedField = (typeof COMPARED_FIELDS)[number];
+
+export interface ImportFieldChange {
+  field: ComparedField;
+  from: string | number | undefined;
+  to: string | number | undefined;
+}
+
+export type ImportDiff =
+  | { status: 'new' }
+  | { status: 'duplicate'; existing: ScheduleItem }
+  | { status: 'changed'; existing: ScheduleItem; changes: ImportFieldChange[] };
+
+// Starts within this window count as the same time slot
+const SAME_TIME_MS = 60 * 1000;
+
+const normalize = (value: string | undefined) => (value || '').trim().toLowerCase();
+
+function sameTime(a: string | undefined, b: string | undefined): boolean {
+  if (!a || !b) return !a && !b;
+  return Math.abs(new Date(a).getTime() - new Date(b).getTime()) < SAME_TIME_MS;
+}
+
+function findMatch(item: ImportCandidate, existing: ScheduleItem[]): ScheduleItem | undefined {
+  // One reservation code can cover several items (outbound and return flight), so the time decides
+  const code = normalize(item.reservation_code);
+  if (code) {
+    const sameCode = existing.filter((e) => normalize(e.reservation_code) === code);
+    const match = sameCode.find((e) => sameTime(e.start_time, item.start_time))
+      || sameCode.find((e) => normalize(e.title) === normalize(item.title));
+    if (match) return match;
+  }
+
+  return existing.find((e) =>
+    sameTime(e.start_time, item.start_time)
+    && (normalize(e.title) === normalize(item.title) || e.type === item.type)
+  );
+}
+
+export function getImportDiff(item: ImportCandidate, existing: ScheduleItem[]): ImportDiff {
+  const match = findMatch(item, existing);
+  if (!match) return { status: 'new' };
+
+  const changes: ImportFieldChange[] = [];
+  for (const field of COMPARED_FIELDS) {
+    const to = item[field];
+    const from = match[field] ?? undefined;
+    // Imports only add information - a field missing from the import is not a change
+    if (to === undefined || to === '') continue;
+
+    const unchanged = field === 'start_time' || field === 'end_time'
+      ? sameTime(from as string | undefined, to as string)
+      : field === 'estimated_cost'
+      ? Number(from) === Number(to)
+      : normalize(from as string | undefined) === normalize(to as string);
+    if (!unchanged) changes.push({ field, from, to });
+  }
+
+  return changes.length > 0
+    ? { status: 'changed', existing: match, changes }
+    : { status: 'duplicate', existing: match };
+}
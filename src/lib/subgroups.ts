@@ -0,0 +1,53 @@
+// Trip sub-groups - named sets of members that schedule items can be aimed at, see audience.ts
+import { supabase } from './supabase';
+import { asRows, check } from './db';
+import type { TripSubgroup } from '../types';
+
+export async function fetchTripSubgroups(tripId: string): Promise<TripSubgroup[]> {
+  const { data, error } = await supabase
+    .from('trip_subgroups')
+    .select('*')
+    .eq('trip_id', tripId)
+    .order('created_at');
+
+  check(error);
+  return asRows<TripSubgroup>(data);
+}
+
+export async function createSubgroup(tripId: string, name: string, color: string): Promise<void> {
+  const { error } = await supabase
+    .from('trip_subgroups')
+    .insert({ trip_id: tripId, name, color, member_ids: [] });
+
+  check(error);
+}
+
+export async function updateSubgroup(
+  id: string,
+  fields: Partial<Pick<TripSubgroup, 'name' | 'color' | 'member_ids'>>
+): Promise<void> {
+  const { error } = await supabase.from('trip_subgroups').update(fields).eq('id', id);
+  check(error);
+}
+
+// Items aimed only at this sub-group would be hidden from every member once it is gone,
+// so it is taken off their audience first and they go back to the whole trip
+export async function deleteSubgroup(id: string): Promise<void> {
+  const { data: items, error: itemsError } = await supabase
+    .from('schedule_items')
+    .select('id, audience_subgroup_ids')
+    .contains('audience_subgroup_ids', [id]);
+
+  check(itemsError);
+
+  for (const item of items) {
+    const { error } = await supabase
+      .from('schedule_items')
+      .update({ audience_subgroup_ids: (item.audience_subgroup_ids || []).filter((groupId) => groupId !== id) })
+      .eq('id', item.id);
+    check(error);
+  }
+
+  const { error } = await supabase.from('trip_subgroups').delete().eq('id', id);
+  check(error);
+}
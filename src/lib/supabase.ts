@@ -1,4 +1,7 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, type RealtimeChannel, type SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../types/database';
+import type { TableName } from './db';
+import type { MemberLocation, ScheduleItem, Trip, TripMedia, TripMember, TripMessage } from '../types';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || '';
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY || '';
@@ -13,7 +16,7 @@ if (!supabaseUrl || !supabaseAnonKey) {
   console.error('[Supabase] VITE_SUPABASE_ANON_KEY:', supabaseAnonKey ? 'SET' : 'NOT SET');
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+export let supabase: SupabaseClient<Database> = createClient<Database>(supabaseUrl, supabaseAnonKey, {
   auth: {
     persistSession: true,
     autoRefreshToken: true,
@@ -30,14 +33,10 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
   },
 });
 
-// Helper function to generate a unique lobby code
-export function generateLobbyCode(): string {
-  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // Removed ambiguous characters
-  let code = '';
-  for (let i = 0; i < 6; i++) {
-    code += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  return code;
+// Replaces the client every data-access module in src/lib uses. Tests swap in the in-memory
+// client from src/test/fakeSupabase.ts, or a client for a local Supabase stack.
+export function setSupabaseClient(client: SupabaseClient<Database>) {
+  supabase = client;
 }
 
 // Helper function to upload file to storage
@@ -70,42 +69,91 @@ export async function uploadFile(
   return data.publicUrl;
 }
 
+// A row change from realtime: the row as it is now for inserts and updates, only its id for
+// deletes. Rows come without the joins the fetch functions add (sender, user, ...).
+export type RowChange<T> = { type: 'upsert'; row: T } | { type: 'delete'; id: string };
+
+// Listens to one table on the channel. Deletes can't be filtered and carry only the primary key,
+// so they come in for every row of the table the user could see; ids that aren't in the store
+// are simply not there to remove.
+function onRowChanges<T>(
+  channel: RealtimeChannel,
+  table: TableName,
+  filter: string,
+  onChange: (change: RowChange<T>) => void
+) {
+  return channel
+    .on('postgres_changes', { event: 'INSERT', schema: 'public', table, filter }, (payload) =>
+      onChange({ type: 'upsert', row: payload.new as T })
+    )
+    .on('postgres_changes', { event: 'UPDATE', schema: 'public', table, filter }, (payload) =>
+      onChange({ type: 'upsert', row: payload.new as T })
+    )
+    .on('postgres_changes', { event: 'DELETE', schema: 'public', table }, (payload) =>
+      onChange({ type: 'delete', id: (payload.old as { id: string }).id })
+    );
+}
+
 // Subscribe to real-time updates for a trip
 export function subscribeToTrip(
   tripId: string,
-  onMessage: (payload: unknown) => void
+  onMessage: (change: RowChange<TripMessage>) => void
 ) {
+  return onRowChanges(supabase.channel(`trip-${tripId}`), 'trip_messages', `trip_id=eq.${tripId}`, onMessage).subscribe();
+}
+
+// Subscribe to location updates
+export function subscribeToLocations(
+  tripId: string,
+  onUpdate: (change: RowChange<MemberLocation>) => void
+) {
+  return onRowChanges(supabase.channel(`locations-${tripId}`), 'member_locations', `trip_id=eq.${tripId}`, onUpdate).subscribe();
+}
+
+export interface TripDataHandlers {
+  trip: (change: RowChange<Trip>) => void;
+  schedule: (change: RowChange<ScheduleItem>) => void;
+  members: (change: RowChange<TripMember>) => void;
+  media: (change: RowChange<TripMedia>) => void;
+}
+
+// Subscribe to changes of the trip itself and its schedule, members and media. RLS applies, so
+// members only get the schedule items meant for them.
+export function subscribeToTripData(tripId: string, handlers: TripDataHandlers) {
+  const channel = supabase.channel(`trip-data-${tripId}`);
+  onRowChanges(channel, 'trips', `id=eq.${tripId}`, handlers.trip);
+  onRowChanges(channel, 'schedule_items', `trip_id=eq.${tripId}`, handlers.schedule);
+  onRowChanges(channel, 'trip_members', `trip_id=eq.${tripId}`, handlers.members);
+  onRowChanges(channel, 'trip_media', `trip_id=eq.${tripId}`, handlers.media);
+  return channel.subscribe();
+}
+
+// Calls onChange when who a schedule item is for changes, or who is in a sub-group. Realtime
+// leaves out the update for members who can't see the item afterwards, so the schedule is
+// fetched again to drop it.
+export function subscribeToAudienceChanges(tripId: string, onChange: () => void) {
   return supabase
-    .channel(`trip-${tripId}`)
+    .channel(`audience-changes-${tripId}`)
     .on(
       'postgres_changes',
-      {
-        event: '*',
-        schema: 'public',
-        table: 'trip_messages',
-        filter: `trip_id=eq.${tripId}`,
-      },
-      onMessage
+      { event: '*', schema: 'public', table: 'schedule_audience_changes', filter: `trip_id=eq.${tripId}` },
+      () => onChange()
     )
     .subscribe();
 }
 
-// Subscribe to location updates
-export function subscribeToLocations(
-  tripId: string,
-  onUpdate: (payload: unknown) => void
-) {
+// Calls onChange when one of the user's own tickets for the trip is added, changed or removed.
+// Members can't read ticket rows, so this listens to ticket_changes, which only says that they
+// changed; the tickets themselves are fetched again through /api/ticket-reveal.
+export function subscribeToTicketChanges(tripId: string, userId: string, onChange: () => void) {
   return supabase
-    .channel(`locations-${tripId}`)
+    .channel(`ticket-changes-${tripId}`)
     .on(
       'postgres_changes',
-      {
-        event: '*',
-        schema: 'public',
-        table: 'member_locations',
-        filter: `trip_id=eq.${tripId}`,
-      },
-      onUpdate
+      { event: '*', schema: 'public', table: 'ticket_changes', filter: `member_id=eq.${userId}` },
+      (payload) => {
+        if ((payload.new as { trip_id?: string }).trip_id === tripId) onChange();
+      }
     )
     .subscribe();
 }
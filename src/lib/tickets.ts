@@ -0,0 +1,63 @@
+// Ticket API helpers
+import { supabase } from './supabase';
+import { asRows, check, toRow } from './db';
+import type { RevealedTicket, Ticket } from '../types';
+
+type EditableField = Exclude<keyof Ticket, 'id' | 'trip_id' | 'member_id' | 'created_at'>;
+
+// null clears an optional field
+export type TicketFields = { [K in EditableField]?: Ticket[K] | null };
+
+// Every ticket of the trip, unfiltered - RLS only lets admins do this, members go through
+// fetchRevealedTickets() below
+export async function fetchTripTickets(tripId: string): Promise<Ticket[]> {
+  const { data, error } = await supabase.from('tickets').select('*').eq('trip_id', tripId);
+  check(error);
+  return asRows<Ticket>(data);
+}
+
+// Members can have several tickets, so this always adds one
+export async function createTicket(tripId: string, memberId: string, fields: TicketFields): Promise<void> {
+  const { error } = await supabase
+    .from('tickets')
+    .insert({ ...toRow<'tickets'>(fields), trip_id: tripId, member_id: memberId });
+  check(error);
+}
+
+export async function updateTicket(id: string, fields: TicketFields & { member_id?: string }): Promise<void> {
+  const { error } = await supabase.from('tickets').update(toRow<'tickets'>(fields)).eq('id', id);
+  check(error);
+}
+
+export async function deleteTicket(id: string): Promise<void> {
+  const { error } = await supabase.from('tickets').delete().eq('id', id);
+  check(error);
+}
+
+export async function deleteMemberTickets(tripId: string, memberId: string): Promise<void> {
+  const { error } = await supabase.from('tickets').delete().eq('trip_id', tripId).eq('member_id', memberId);
+  check(error);
+}
+
+// Fetch the current user's tickets through the server-side reveal gate, ordered by departure.
+// Only the fields unlocked for each ticket's current stage are returned, with signed storage URLs.
+export async function fetchRevealedTickets(tripId: string): Promise<RevealedTicket[]> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const response = await fetch('/api/ticket-reveal', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session?.access_token || ''}`,
+    },
+    body: JSON.stringify({ tripId }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to load tickets');
+  }
+
+  const data = await response.json();
+  return data.tickets || [];
+}
@@ -0,0 +1,76 @@
+// Trips, and the trip details kept while a new trip is being paid for
+import { supabase } from './supabase';
+import { asRow, asRows, check, toRow } from './db';
+import type { TablesInsert } from '../types/database';
+import type { Trip, TripMember } from '../types';
+
+export type TripWithMembers = Trip & { members: TripMember[] };
+
+type EditableField = Exclude<keyof Trip, 'id' | 'admin_id' | 'lobby_code' | 'created_at' | 'updated_at'>;
+
+// null clears an optional field
+export type TripFields = { [K in EditableField]?: Trip[K] | null };
+
+export async function fetchTrip(id: string): Promise<Trip> {
+  const { data, error } = await supabase.from('trips').select('*').eq('id', id).single();
+  check(error);
+  return asRow<Trip>(data);
+}
+
+// Every trip the user is a member of, soonest departure first
+export async function fetchMemberTrips(userId: string): Promise<TripWithMembers[]> {
+  const { data: memberships, error: membershipsError } = await supabase
+    .from('trip_members')
+    .select('trip_id')
+    .eq('user_id', userId);
+
+  check(membershipsError);
+  if (memberships.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('trips')
+    .select('*, members:trip_members(*)')
+    .in('id', memberships.map((m) => m.trip_id))
+    .order('departure_time', { ascending: true });
+
+  check(error);
+  return asRows<TripWithMembers>(data);
+}
+
+// The trip /api/stripe-webhook created for a checkout: by its session id when the return URL
+// has one, otherwise the newest paid trip of the user created since `since`
+export async function findPaidTrip(userId: string, sessionId: string | null, since: string): Promise<Trip | null> {
+  let query = supabase
+    .from('trips')
+    .select('*')
+    .eq('admin_id', userId)
+    .not('stripe_session_id', 'is', null);
+
+  query = sessionId ? query.eq('stripe_session_id', sessionId) : query.gte('created_at', since);
+
+  const { data, error } = await query.order('created_at', { ascending: false }).limit(1);
+  check(error);
+  return data[0] ? asRow<Trip>(data[0]) : null;
+}
+
+export async function updateTrip(id: string, fields: TripFields): Promise<void> {
+  const { error } = await supabase.from('trips').update(toRow<'trips'>(fields)).eq('id', id);
+  check(error);
+}
+
+export async function deleteTrip(id: string): Promise<void> {
+  const { error } = await supabase.from('trips').delete().eq('id', id);
+  check(error);
+}
+
+// What /api/stripe-webhook creates the trip from once the checkout is paid, one per user
+export async function savePendingTrip(
+  userId: string,
+  details: Omit<TablesInsert<'pending_trips'>, 'user_id' | 'created_at'>
+): Promise<void> {
+  const { error } = await supabase
+    .from('pending_trips')
+    .upsert({ ...details, user_id: userId }, { onConflict: 'user_id' });
+
+  check(error);
+}
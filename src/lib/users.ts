@@ -0,0 +1,21 @@
+// User profiles - the public.users row next to each auth user
+import { supabase } from './supabase';
+import { asRow, check, toRow } from './db';
+import type { User } from '../types';
+
+// Throws a DataError that isNotFound when the profile hasn't been created yet
+export async function fetchUser(id: string): Promise<User> {
+  const { data, error } = await supabase.from('users').select('*').eq('id', id).single();
+  check(error);
+  return asRow<User>(data);
+}
+
+export async function createUser(profile: Pick<User, 'id' | 'email' | 'name'>): Promise<void> {
+  const { error } = await supabase.from('users').insert(profile);
+  check(error);
+}
+
+export async function updateUser(id: string, updates: Partial<User>): Promise<void> {
+  const { error } = await supabase.from('users').update(toRow<'users'>(updates)).eq('id', id);
+  check(error);
+}
@@ -13,8 +13,8 @@ import {
   CreditCard,
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase, generateLobbyCode } from '../lib/supabase';
-import type { Trip, TripMember } from '../types';
+import { fetchMemberTrips, findPaidTrip, savePendingTrip, type TripWithMembers } from '../lib/trips';
+import type { Trip, PlanId, PlanCurrency, PlansResponse } from '../types';
 
 // Debug logging - always on for now to diagnose issues
 function debugLog(context: string, message: string, data?: unknown) {
@@ -22,11 +22,41 @@ function debugLog(context: string, message: string, data?: unknown) {
   console.log(`[${timestamp}][${context}] ${message}`, data !== undefined ? data : '');
 }
 
+// Trip details collected before checkout
+interface PendingTripDetails {
+  name: string;
+  groupName: string;
+  description: string;
+  departureTime: string;
+  returnTime: string;
+}
+
+const PROVISION_POLL_INTERVAL = 2000;
+const PROVISION_TIMEOUT = 60000;
+const PAYMENT_CLOCK_MARGIN = 5 * 60 * 1000; // Browser and database clocks can differ
+
+// Plans priced in the currency that fits the browser locale
+async function fetchPlans(): Promise<PlansResponse | null> {
+  try {
+    const response = await fetch(`/api/plans?locale=${encodeURIComponent(navigator.language)}`);
+    if (!response.ok) return null;
+    return await response.json();
+  } catch (err) {
+    debugLog('fetchPlans', 'Failed to load plans', String(err));
+    return null;
+  }
+}
+
+function formatPrice(amount: number, currency: PlanCurrency): string {
+  return new Intl.NumberFormat(navigator.language, { style: 'currency', currency: currency.toUpperCase() })
+    .format(amount / 100);
+}
+
 export default function DashboardPage() {
   const { user, loading: authLoading } = useAuth();
   const { signOut } = useAuth();
   const navigate = useNavigate();
-  const [trips, setTrips] = useState<(Trip & { members: TripMember[] })[]>([]);
+  const [trips, setTrips] = useState<TripWithMembers[]>([]);
   const [loading, setLoading] = useState(true);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [paymentReturnDetected, setPaymentReturnDetected] = useState(false);
@@ -42,32 +72,28 @@ export default function DashboardPage() {
     const paymentStatus = urlParams.get('payment');
     const sessionId = urlParams.get('session_id');
     // Use localStorage instead of sessionStorage (more persistent across redirects)
-    const savedTripData = localStorage.getItem('pendingTripData');
     const pendingPayment = localStorage.getItem('pendingPayment');
 
     debugLog('Dashboard', 'Payment check on mount', {
       paymentStatus,
       sessionId: sessionId ? `${sessionId.slice(0, 20)}...` : null,
-      hasSavedTripData: !!savedTripData,
-      savedTripDataPreview: savedTripData?.slice(0, 100),
       pendingPayment,
       url: window.location.href,
     });
 
-    // If returning from payment with session_id, we can retrieve trip data from Stripe
+    // If returning from payment with session_id, we can wait for that exact session's trip
     if (paymentStatus === 'success' && sessionId) {
-      debugLog('Dashboard', 'Payment return with session_id - will verify via API');
+      debugLog('Dashboard', 'Payment return with session_id - waiting for trip');
       setPaymentSessionId(sessionId);
       setPaymentReturnDetected(true);
       setShowCreateModal(true);
     }
     // Payment Link flow: no session_id but payment=success
-    // Try to use localStorage trip data, or verify via userId fallback
-    else if (paymentStatus === 'success' || pendingPayment === 'true') {
-      debugLog('Dashboard', 'Payment return detected - opening modal for verification');
+    else if (paymentStatus === 'success' || pendingPayment) {
+      debugLog('Dashboard', 'Payment return detected - waiting for trip');
       setPaymentReturnDetected(true);
       setShowCreateModal(true);
-      // Modal will handle verification using localStorage or userId fallback
+      // Modal waits for the webhook to create the trip
     } else if (paymentStatus === 'cancelled') {
       debugLog('Dashboard', 'Payment cancelled');
       window.history.replaceState({}, '', window.location.pathname);
@@ -99,10 +125,7 @@ export default function DashboardPage() {
         setLoading(false);
       }, 8000);
 
-      const { data: memberData, error: memberError } = await supabase
-        .from('trip_members')
-        .select('trip_id')
-        .eq('user_id', user.id);
+      const tripsData = await fetchMemberTrips(user.id);
 
       if (timedOut) {
         debugLog('loadTrips', 'Query completed after timeout, ignoring');
@@ -110,37 +133,11 @@ export default function DashboardPage() {
       }
       clearTimeout(timeoutId);
 
-      debugLog('loadTrips', 'Member data', { count: memberData?.length, error: memberError?.message });
-
-      if (memberError) {
-        console.error('[loadTrips] Error fetching memberships:', memberError);
-        setLoading(false);
-        return;
-      }
-
-      if (memberData && memberData.length > 0) {
-        const tripIds = memberData.map((m: { trip_id: string }) => m.trip_id);
-        debugLog('loadTrips', 'Fetching trips', tripIds);
-
-        const { data: tripsData, error: tripsError } = await supabase
-          .from('trips')
-          .select('*, members:trip_members(*)')
-          .in('id', tripIds)
-          .order('departure_time', { ascending: true });
-
-        debugLog('loadTrips', 'Trips result', { count: tripsData?.length, error: tripsError?.message });
-
-        if (tripsError) {
-          console.error('[loadTrips] Error fetching trips:', tripsError);
-        } else if (tripsData) {
-          setTrips(tripsData as (Trip & { members: TripMember[] })[]);
-        }
-      } else {
-        debugLog('loadTrips', 'No memberships found');
-      }
+      debugLog('loadTrips', 'Trips result', { count: tripsData.length });
+      setTrips(tripsData);
     } catch (err) {
       const errMsg = err instanceof Error ? err.message : String(err);
-      console.error('[loadTrips] Unexpected error:', errMsg);
+      console.error('[loadTrips] Error loading trips:', errMsg);
       debugLog('loadTrips', 'Error (possibly timeout)', errMsg);
       // Don't show error to user for loadTrips - just fail silently and show empty state
     }
@@ -265,6 +262,8 @@ export default function DashboardPage() {
             setShowCreateModal(false);
             setPaymentReturnDetected(false);
             setPaymentSessionId(null);
+            localStorage.removeItem('pendingPayment');
+            loadTrips();
           }}
           onCreated={() => {
             setShowCreateModal(false);
@@ -284,7 +283,7 @@ function TripCard({
   trip,
   status,
 }: {
-  trip: Trip & { members: TripMember[] };
+  trip: TripWithMembers;
   status: { label: string; color: string };
 }) {
   return (
@@ -341,7 +340,9 @@ function CreateTripModal({
   sessionId: string | null;
 }) {
   const { user } = useAuth();
-  const [step, setStep] = useState<'details' | 'payment' | 'creating' | 'success'>('details');
+  const [step, setStep] = useState<'details' | 'payment' | 'creating' | 'success'>(
+    isPaymentReturn ? 'creating' : 'details'
+  );
   const [name, setName] = useState('');
   const [groupName, setGroupName] = useState('');
   const [description, setDescription] = useState('');
@@ -353,361 +354,64 @@ function CreateTripModal({
   const [error, setError] = useState('');
   const [createdTrip, setCreatedTrip] = useState<Trip | null>(null);
   const [copied, setCopied] = useState(false);
-  const hasProcessedPayment = useRef(false);
+  const [tripDetails, setTripDetails] = useState<PendingTripDetails | null>(null);
+  const [pricing, setPricing] = useState<PlansResponse | null>(null);
+  const [plansLoading, setPlansLoading] = useState(false);
+  const [planId, setPlanId] = useState<PlanId>('small_group');
+  const [groupSize, setGroupSize] = useState(4);
+  const [promoCode, setPromoCode] = useState('');
+  const [waitAttempt, setWaitAttempt] = useState(0);
+  // When checkout started, so a Payment Link return (no session_id) only matches newer trips
+  const [pendingSince] = useState(() => localStorage.getItem('pendingPayment'));
 
   // Add debug info (console only)
   function addDebug(msg: string) {
     debugLog('CreateTripModal', msg);
   }
 
-  // Check for payment success on mount
+  // After payment /api/stripe-webhook creates the trip server-side, so all we do here is wait for it
   useEffect(() => {
-    addDebug(`Modal mounted. isPaymentReturn=${isPaymentReturn}, sessionId=${sessionId ? 'present' : 'null'}, user=${user?.id || 'null'}, hasProcessed=${hasProcessedPayment.current}`);
-
-    // If not a payment return, don't do anything special
-    if (!isPaymentReturn) {
-      addDebug('Not a payment return, showing details form');
-      return;
-    }
+    if (!isPaymentReturn || !user) return;
 
-    // Prevent double processing
-    if (hasProcessedPayment.current) {
-      addDebug('Already processed payment, skipping');
-      return;
-    }
+    const userId = user.id;
+    const startedAt = Date.now();
+    const since = new Date(
+      (pendingSince ? new Date(pendingSince).getTime() : startedAt) - PAYMENT_CLOCK_MARGIN
+    ).toISOString();
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
 
-    // Wait for user to be loaded
-    if (!user) {
-      addDebug('User not loaded yet, waiting...');
-      return;
-    }
-
-    // Mark as processed
-    hasProcessedPayment.current = true;
-
-    // Clear URL params immediately
+    debugLog('CreateTripModal', `Waiting for trip: sessionId=${sessionId ? 'present' : 'null'}, since=${since}`);
     window.history.replaceState({}, '', window.location.pathname);
 
-    // If we have a session_id, verify payment via API and get trip data from Stripe metadata
-    if (sessionId) {
-      addDebug('Verifying payment via API with session_id...');
-      setStep('creating');
-      setLoading(true);
-
-      fetch('/api/verify-payment', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ sessionId }),
-      })
-        .then(res => res.json())
-        .then(data => {
-          addDebug(`API response: ${JSON.stringify(data)}`);
-
-          if (data.success && data.tripName) {
-            // Got trip data from Stripe metadata
-            const tripData = {
-              name: data.tripName,
-              groupName: data.groupName || '',
-              description: data.description || '',
-              departureTime: data.departureTime || '',
-              returnTime: data.returnTime || '',
-            };
-
-            addDebug(`Trip data from Stripe: ${JSON.stringify(tripData)}`);
-
-            // Populate form fields
-            setName(tripData.name);
-            setGroupName(tripData.groupName);
-            setDescription(tripData.description);
-
-            if (tripData.departureTime) {
-              const [date, time] = tripData.departureTime.split('T');
-              setDepartureDate(date || '');
-              setDepartureTime(time?.slice(0, 5) || '');
-            }
-            if (tripData.returnTime) {
-              const [date, time] = tripData.returnTime.split('T');
-              setReturnDate(date || '');
-              setReturnTime(time?.slice(0, 5) || '');
-            }
-
-            // Clear localStorage
-            localStorage.removeItem('pendingTripData');
-            localStorage.removeItem('pendingPayment');
-
-            // Create the trip
-            createTripAfterPayment(tripData);
-          } else {
-            // API verification failed, try localStorage as fallback
-            addDebug('API verification failed, trying localStorage fallback');
-            tryLocalStorageFallback();
-          }
-        })
-        .catch(err => {
-          addDebug(`API error: ${err}, trying localStorage fallback`);
-          tryLocalStorageFallback();
-        });
-
-      return;
-    }
-
-    // No session_id (Payment Link flow) - verify payment via userId and use localStorage for trip data
-    addDebug('No session_id - Payment Link flow, verifying via userId...');
-    setStep('creating');
-    setLoading(true);
-
-    // First, verify payment was made for this user
-    fetch('/api/verify-payment', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ userId: user.id }),
-    })
-      .then(res => res.json())
-      .then(data => {
-        addDebug(`Payment verification response: ${JSON.stringify(data)}`);
-
-        if (data.success) {
-          addDebug('Payment verified for user, now checking localStorage for trip data');
-          tryLocalStorageFallback();
-        } else {
-          addDebug('Payment verification failed');
-          setError('Could not verify payment. If you paid, please contact support.');
-          setStep('details');
-          setLoading(false);
-        }
-      })
-      .catch(err => {
-        addDebug(`Payment verification error: ${err}`);
-        // Still try localStorage as fallback
-        tryLocalStorageFallback();
+    async function poll() {
+      // A failed query counts as not there yet
+      const trip = await findPaidTrip(userId, sessionId, since).catch((err) => {
+        debugLog('findPaidTrip', 'Query failed', err instanceof Error ? err.message : String(err));
+        return null;
       });
+      if (cancelled) return;
 
-    async function tryLocalStorageFallback() {
-      // First try to fetch from Supabase pending_trips table
-      if (user?.id) {
-        addDebug(`Checking Supabase pending_trips for user ${user.id}`);
-        const { data: pendingTrip, error: fetchError } = await supabase
-          .from('pending_trips')
-          .select('*')
-          .eq('user_id', user.id)
-          .single();
-
-        if (!fetchError && pendingTrip) {
-          addDebug(`Found pending trip in Supabase: ${JSON.stringify(pendingTrip)}`);
-
-          // Delete the pending trip from Supabase
-          await supabase.from('pending_trips').delete().eq('user_id', user.id);
-          localStorage.removeItem('pendingTripData');
-          localStorage.removeItem('pendingPayment');
-
-          const tripData = {
-            name: pendingTrip.name,
-            groupName: pendingTrip.group_name || '',
-            description: pendingTrip.description || '',
-            departureTime: pendingTrip.departure_time,
-            returnTime: pendingTrip.return_time,
-          };
-
-          // Populate form fields
-          setName(tripData.name || '');
-          setGroupName(tripData.groupName || '');
-          setDescription(tripData.description || '');
-
-          if (tripData.departureTime) {
-            const dt = new Date(tripData.departureTime);
-            setDepartureDate(dt.toISOString().split('T')[0]);
-            setDepartureTime(dt.toTimeString().slice(0, 5));
-          }
-          if (tripData.returnTime) {
-            const rt = new Date(tripData.returnTime);
-            setReturnDate(rt.toISOString().split('T')[0]);
-            setReturnTime(rt.toTimeString().slice(0, 5));
-          }
-
-          setStep('creating');
-          addDebug('Starting trip creation from Supabase data...');
-          createTripAfterPayment(tripData);
-          return;
-        } else {
-          addDebug(`Supabase fetch failed or empty: ${fetchError?.message || 'no data'}`);
-        }
-      }
-
-      // Fallback to localStorage
-      const savedTripData = localStorage.getItem('pendingTripData');
-      addDebug(`localStorage fallback: hasTripData=${!!savedTripData}`);
-
-      if (!savedTripData) {
-        addDebug('ERROR: No saved trip data found in localStorage or Supabase!');
-        setError('Payment was successful but trip data was lost. This can happen if you used a different browser tab. Please create the trip again - you will NOT be charged twice.');
-        setStep('details');
-        setLoading(false);
-        return;
-      }
-
-      try {
-        const tripData = JSON.parse(savedTripData);
-        addDebug(`Parsed trip data from localStorage: ${JSON.stringify(tripData)}`);
-
-        // Clear localStorage to prevent re-triggering
-        localStorage.removeItem('pendingTripData');
+      if (trip) {
+        debugLog('CreateTripModal', `Trip provisioned: ${trip.id}`);
         localStorage.removeItem('pendingPayment');
-
-        // Populate form fields
-        setName(tripData.name || '');
-        setGroupName(tripData.groupName || '');
-        setDescription(tripData.description || '');
-
-        if (tripData.departureTime) {
-          const [date, time] = tripData.departureTime.split('T');
-          setDepartureDate(date || '');
-          setDepartureTime(time?.slice(0, 5) || '');
-        }
-        if (tripData.returnTime) {
-          const [date, time] = tripData.returnTime.split('T');
-          setReturnDate(date || '');
-          setReturnTime(time?.slice(0, 5) || '');
-        }
-
-        // Set to creating state and create trip
-        setStep('creating');
-        addDebug('Starting trip creation from localStorage...');
-        createTripAfterPayment(tripData);
-
-      } catch (err) {
-        addDebug(`ERROR parsing trip data: ${err}`);
-        setError('Failed to parse trip data. Please try again.');
-        setStep('details');
-        setLoading(false);
-      }
-    }
-  }, [isPaymentReturn, sessionId, user]);
-
-  async function createTripAfterPayment(tripData: { name: string; groupName?: string; description: string; departureTime: string; returnTime?: string }) {
-    addDebug('createTripAfterPayment called');
-
-    if (!user) {
-      addDebug('ERROR: No user available');
-      setError('User not logged in. Please refresh and try again.');
-      setStep('details');
-      return;
-    }
-
-    setLoading(true);
-    setError('');
-
-    // Flag-based timeout to prevent indefinite hanging
-    let timedOut = false;
-    const timeoutId = setTimeout(() => {
-      if (!timedOut) {
-        timedOut = true;
-        addDebug('TIMEOUT: Trip creation timed out after 15s');
-        setError('Database connection timed out. Please check your internet connection and try again. If the problem persists, there may be an issue with the database configuration.');
-        setStep('details');
-        setLoading(false);
-      }
-    }, 15000); // 15 second overall timeout
-
-    try {
-      addDebug(`Creating trip: ${tripData.name}`);
-
-      const departureDateObj = new Date(tripData.departureTime);
-      if (isNaN(departureDateObj.getTime())) {
-        throw new Error(`Invalid departure date: ${tripData.departureTime}`);
-      }
-      addDebug(`Departure date parsed: ${departureDateObj.toISOString()}`);
-
-      let returnDateObj: Date | null = null;
-      if (tripData.returnTime) {
-        returnDateObj = new Date(tripData.returnTime);
-        if (isNaN(returnDateObj.getTime())) {
-          addDebug(`Invalid return date, ignoring: ${tripData.returnTime}`);
-          returnDateObj = null;
-        }
-      }
-
-      const lobbyCode = generateLobbyCode();
-      addDebug(`Generated lobby code: ${lobbyCode}`);
-
-      const insertData = {
-        name: tripData.name,
-        group_name: tripData.groupName || null,
-        description: tripData.description || null,
-        lobby_code: lobbyCode,
-        admin_id: user.id,
-        departure_time: departureDateObj.toISOString(),
-        return_time: returnDateObj?.toISOString() || null,
-        status: 'planning' as const,
-      };
-      addDebug(`Insert data: ${JSON.stringify(insertData)}`);
-
-      addDebug('Sending insert query...');
-      const { data: trip, error: tripError } = await supabase
-        .from('trips')
-        .insert(insertData)
-        .select()
-        .single();
-
-      // Check if we already timed out
-      if (timedOut) {
-        addDebug('Query completed after timeout, ignoring result');
-        return;
-      }
-
-      if (tripError) {
-        addDebug(`ERROR creating trip: ${tripError.message} (${tripError.code})`);
-        console.error('[createTripAfterPayment] Trip error:', tripError);
-        setError(`Failed to create trip: ${tripError.message}`);
-        setStep('details');
-        setLoading(false);
-        clearTimeout(timeoutId);
-        return;
-      }
-
-      addDebug(`Trip created successfully: ${trip.id}`);
-
-      // Add creator as admin member
-      addDebug('Adding member...');
-      const { error: memberError } = await supabase.from('trip_members').insert({
-        trip_id: trip.id,
-        user_id: user.id,
-        role: 'admin',
-      });
-
-      // Check if we timed out during member insert
-      if (timedOut) {
-        addDebug('Member insert completed after timeout');
-        return;
-      }
-
-      if (memberError) {
-        addDebug(`WARNING: Failed to add member: ${memberError.message}`);
-        console.error('[createTripAfterPayment] Member error:', memberError);
-        // Don't fail - trip was created
+        setCreatedTrip(trip);
+        setStep('success');
+      } else if (Date.now() - startedAt > PROVISION_TIMEOUT) {
+        debugLog('CreateTripModal', 'Trip did not appear in time');
+        setError('Your payment went through, but your trip is still being set up. Check again in a moment - you will NOT be charged twice.');
       } else {
-        addDebug('Member added successfully');
+        timer = setTimeout(poll, PROVISION_POLL_INTERVAL);
       }
+    }
 
-      clearTimeout(timeoutId);
-      setCreatedTrip(trip as Trip);
-      setStep('success');
-      addDebug('Trip creation complete!');
-
-    } catch (err) {
-      clearTimeout(timeoutId);
-      if (timedOut) return;
+    poll();
 
-      const errMsg = err instanceof Error ? err.message : String(err);
-      addDebug(`EXCEPTION: ${errMsg}`);
-      console.error('[createTripAfterPayment] Unexpected error:', err);
-      setError(`Unexpected error: ${errMsg}`);
-      setStep('details');
-    } finally {
-      if (!timedOut) {
-        setLoading(false);
-      }
-    }
-  }
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isPaymentReturn, sessionId, user, pendingSince, waitAttempt]);
 
   async function handleProceedToPayment(e: React.FormEvent) {
     e.preventDefault();
@@ -724,18 +428,16 @@ function CreateTripModal({
     }
 
     // Combine date and time fields
-    const departureDateTimeStr = `${departureDate}T${departureTime || '12:00'}`;
-    const departureDateObj = new Date(departureDateTimeStr);
+    const departureDateObj = new Date(`${departureDate}T${departureTime || '12:00'}`);
     if (isNaN(departureDateObj.getTime())) {
       setError('Invalid departure date');
       return;
     }
 
     // Validate return date if provided
-    let returnDateTimeStr: string | undefined;
+    let returnDateObj: Date | null = null;
     if (returnDate) {
-      returnDateTimeStr = `${returnDate}T${returnTime || '12:00'}`;
-      const returnDateObj = new Date(returnDateTimeStr);
+      returnDateObj = new Date(`${returnDate}T${returnTime || '12:00'}`);
       if (isNaN(returnDateObj.getTime())) {
         setError('Invalid return date');
         return;
@@ -748,50 +450,98 @@ function CreateTripModal({
 
     setError('');
 
-    // Save trip data for after payment
-    const tripData = {
+    // Times are sent as ISO strings so the server doesn't have to guess the user's timezone
+    const details: PendingTripDetails = {
       name: name.trim(),
       groupName: groupName.trim(),
       description: description.trim(),
-      departureTime: departureDateTimeStr,
-      returnTime: returnDateTimeStr
+      departureTime: departureDateObj.toISOString(),
+      returnTime: returnDateObj?.toISOString() || '',
     };
 
-    // Save to Supabase pending_trips table (survives cross-domain redirects)
+    // Payment Link sessions can't carry metadata, so the webhook reads the trip from pending_trips
     if (user?.id) {
       addDebug(`Saving trip data to Supabase pending_trips for user ${user.id}`);
-      const { error: upsertError } = await supabase
-        .from('pending_trips')
-        .upsert({
-          user_id: user.id,
-          name: tripData.name,
-          group_name: tripData.groupName,
-          description: tripData.description,
-          departure_time: tripData.departureTime,
-          return_time: tripData.returnTime,
-        }, { onConflict: 'user_id' });
-
-      if (upsertError) {
-        addDebug(`Failed to save to Supabase: ${upsertError.message}, falling back to localStorage`);
-      } else {
-        addDebug('Trip data saved to Supabase successfully');
+      try {
+        await savePendingTrip(user.id, {
+          name: details.name,
+          group_name: details.groupName || null,
+          description: details.description || null,
+          departure_time: details.departureTime,
+          return_time: details.returnTime || null,
+        });
+      } catch (upsertError) {
+        addDebug(`Failed to save to Supabase: ${upsertError instanceof Error ? upsertError.message : upsertError}`);
+        if (import.meta.env.VITE_STRIPE_PAYMENT_LINK) {
+          setError('Could not save your trip details. Please try again.');
+          return;
+        }
       }
     }
 
-    // Also save to localStorage as backup
-    addDebug(`Saving trip data to localStorage: ${JSON.stringify(tripData)}`);
-    localStorage.setItem('pendingTripData', JSON.stringify(tripData));
+    setTripDetails(details);
     setStep('payment');
+
+    if (!pricing) {
+      setPlansLoading(true);
+      fetchPlans().then((result) => {
+        setPricing(result);
+        setPlansLoading(false);
+      });
+    }
   }
 
   async function handlePayment() {
     addDebug('handlePayment called');
+    if (!tripDetails) return;
     setLoading(true);
+    setError('');
+
+    // Checkout through our own plans when they loaded, so the price matches the chosen plan and group size
+    if (pricing) {
+      try {
+        const response = await fetch('/api/create-checkout', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            tripName: tripDetails.name,
+            userId: user?.id,
+            email: user?.email,
+            groupName: tripDetails.groupName,
+            description: tripDetails.description,
+            departureTime: tripDetails.departureTime,
+            returnTime: tripDetails.returnTime,
+            planId,
+            groupSize,
+            locale: navigator.language,
+            promoCode: promoCode.trim() || undefined,
+            successUrl: `${window.location.origin}/dashboard?payment=success&session_id={CHECKOUT_SESSION_ID}`,
+            cancelUrl: `${window.location.origin}/dashboard?payment=cancelled`,
+          }),
+        });
 
-    // Use Payment Link first if configured (supports coupon codes)
+        const data = await response.json();
+        addDebug(`API response: ${JSON.stringify(data)}`);
+
+        if (data.url) {
+          localStorage.setItem('pendingPayment', new Date().toISOString());
+          window.location.href = data.url;
+          return;
+        }
+        if (response.status === 400 && data.error) {
+          setError(data.error);
+          setLoading(false);
+          return;
+        }
+      } catch (err) {
+        addDebug(`API error: ${err}`);
+      }
+    }
+
+    // Fall back to the Payment Link if configured (supports coupon codes)
     const paymentLink = import.meta.env.VITE_STRIPE_PAYMENT_LINK;
     if (paymentLink) {
-      addDebug('Using Payment Link (supports coupon codes)');
+      addDebug('Using Payment Link fallback');
       const url = new URL(paymentLink);
       if (user?.id) {
         url.searchParams.set('client_reference_id', user.id);
@@ -800,54 +550,12 @@ function CreateTripModal({
         url.searchParams.set('prefilled_email', user.email);
       }
 
-      localStorage.setItem('pendingPayment', 'true');
+      localStorage.setItem('pendingPayment', new Date().toISOString());
       addDebug(`Redirecting to Stripe Payment Link: ${url.toString()}`);
       window.location.href = url.toString();
       return;
     }
 
-    // Fallback to API if no Payment Link configured
-    addDebug('No Payment Link configured, using API');
-    const savedTripData = localStorage.getItem('pendingTripData');
-    let tripData: { name: string; groupName: string; description: string; departureTime: string; returnTime?: string } | null = null;
-
-    if (savedTripData) {
-      try {
-        tripData = JSON.parse(savedTripData);
-      } catch {
-        addDebug('Failed to parse saved trip data');
-      }
-    }
-
-    try {
-      const response = await fetch('/api/create-checkout', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          tripName: tripData?.name || name,
-          userId: user?.id,
-          email: user?.email,
-          groupName: tripData?.groupName || groupName,
-          description: tripData?.description || description,
-          departureTime: tripData?.departureTime || `${departureDate}T${departureTime || '12:00'}`,
-          returnTime: tripData?.returnTime || (returnDate ? `${returnDate}T${returnTime || '12:00'}` : ''),
-          successUrl: `${window.location.origin}/dashboard?payment=success&session_id={CHECKOUT_SESSION_ID}`,
-          cancelUrl: `${window.location.origin}/dashboard?payment=cancelled`,
-        }),
-      });
-
-      const data = await response.json();
-      addDebug(`API response: ${JSON.stringify(data)}`);
-
-      if (data.url) {
-        localStorage.setItem('pendingPayment', 'true');
-        window.location.href = data.url;
-        return;
-      }
-    } catch (err) {
-      addDebug(`API error: ${err}`);
-    }
-
     setError('Payment system unavailable. Please try again later.');
     setLoading(false);
   }
@@ -910,12 +618,34 @@ function CreateTripModal({
     );
   }
 
-  // Creating state (after payment)
+  // Waiting for the webhook to create the trip (after payment)
   if (step === 'creating') {
     return (
       <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
         <div className="card p-8 max-w-md w-full text-center">
-          {loading ? (
+          {error ? (
+            <>
+              <div className="w-16 h-16 rounded-full bg-yellow-500/20 flex items-center justify-center mx-auto mb-4">
+                <span className="text-3xl">⏳</span>
+              </div>
+              <h2 className="text-xl font-bold mb-2">Still Setting Up</h2>
+              <p className="text-white/60 mb-6">{error}</p>
+              <div className="flex gap-3">
+                <button onClick={onClose} className="btn-secondary flex-1">
+                  Close
+                </button>
+                <button
+                  onClick={() => {
+                    setError('');
+                    setWaitAttempt((attempt) => attempt + 1);
+                  }}
+                  className="btn-primary flex-1"
+                >
+                  Check Again
+                </button>
+              </div>
+            </>
+          ) : (
             <>
               <div className="animate-spin w-12 h-12 border-3 border-blue-500 border-t-transparent rounded-full mx-auto mb-4" />
               <h2 className="text-xl font-bold mb-2">Creating your trip...</h2>
@@ -923,19 +653,7 @@ function CreateTripModal({
                 Payment successful! Setting up your trip now.
               </p>
             </>
-          ) : error ? (
-            <>
-              <div className="w-16 h-16 rounded-full bg-red-500/20 flex items-center justify-center mx-auto mb-4">
-                <span className="text-3xl">❌</span>
-              </div>
-              <h2 className="text-xl font-bold mb-2">Error Creating Trip</h2>
-              <p className="text-red-400 mb-4">{error}</p>
-              <button onClick={() => setStep('details')} className="btn-primary">
-                Try Again
-              </button>
-            </>
-          ) : null}
-
+          )}
         </div>
       </div>
     );
@@ -943,9 +661,13 @@ function CreateTripModal({
 
   // Payment step
   if (step === 'payment') {
+    const selectedPlan = pricing?.plans.find((plan) => plan.id === planId);
+    const selectedTier = selectedPlan?.tiers.find((tier) => groupSize <= tier.max_members);
+    const canPay = pricing ? !!selectedTier : !!import.meta.env.VITE_STRIPE_PAYMENT_LINK;
+
     return (
       <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
-        <div className="card p-8 max-w-md w-full">
+        <div className="card p-8 max-w-md w-full max-h-[90vh] overflow-y-auto">
           <h2 className="text-2xl font-bold mb-2">Complete Payment</h2>
           <p className="text-white/60 mb-6">
             One-time payment to create your trip
@@ -957,33 +679,91 @@ function CreateTripModal({
             </div>
           )}
 
-          <div className="bg-white/5 rounded-xl p-6 mb-6">
-            <div className="flex items-center justify-between mb-4">
-              <div className="text-left">
-                <span className="text-white/70">Trip: {name}</span>
-                {groupName && <p className="text-sm text-white/50">Group: {groupName}</p>}
+          <div className="mb-4 text-left">
+            <span className="text-white/70">Trip: {name}</span>
+            {groupName && <p className="text-sm text-white/50">Group: {groupName}</p>}
+          </div>
+
+          {plansLoading ? (
+            <div className="text-center py-8">
+              <div className="animate-spin w-8 h-8 border-2 border-blue-500 border-t-transparent rounded-full mx-auto mb-2" />
+              <p className="text-sm text-white/50">Loading plans...</p>
+            </div>
+          ) : pricing ? (
+            <div className="space-y-4 mb-6">
+              <div>
+                <label className="block text-sm font-medium text-white/70 mb-2">
+                  Group size
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  value={groupSize}
+                  onChange={(e) => setGroupSize(Math.max(1, parseInt(e.target.value) || 1))}
+                  className="input-field"
+                />
+              </div>
+
+              <div className="space-y-2">
+                {pricing.plans.map((plan) => {
+                  const tier = plan.tiers.find((t) => groupSize <= t.max_members);
+                  const isSelected = plan.id === planId;
+                  return (
+                    <button
+                      key={plan.id}
+                      type="button"
+                      onClick={() => setPlanId(plan.id)}
+                      disabled={!tier}
+                      className={`w-full p-4 rounded-xl border text-left transition-colors disabled:opacity-40 ${
+                        isSelected ? 'bg-blue-500/20 border-blue-500/50' : 'bg-white/5 border-white/10 hover:bg-white/10'
+                      }`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">{plan.name}</span>
+                        <span className="font-bold">
+                          {tier ? formatPrice(tier.amount, pricing.currency) : '-'}
+                        </span>
+                      </div>
+                      <p className="text-xs text-white/50 mt-1">
+                        {tier
+                          ? `${plan.description} · up to ${tier.max_members} members`
+                          : `Up to ${plan.tiers[plan.tiers.length - 1].max_members} members`}
+                      </p>
+                    </button>
+                  );
+                })}
+              </div>
+
+              {selectedPlan && (
+                <ul className="space-y-2 text-sm text-white/60">
+                  {selectedPlan.features.map((feature) => (
+                    <li key={feature} className="flex items-center gap-2">
+                      <Check className="w-4 h-4 text-green-400" />
+                      {feature}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-white/70 mb-2">
+                  Promo code (optional)
+                </label>
+                <input
+                  type="text"
+                  value={promoCode}
+                  onChange={(e) => setPromoCode(e.target.value.toUpperCase())}
+                  className="input-field font-mono"
+                  placeholder="SUMMER25"
+                />
               </div>
-              <span className="text-2xl font-bold">€24.99</span>
             </div>
-            <ul className="space-y-2 text-sm text-white/60">
-              <li className="flex items-center gap-2">
-                <Check className="w-4 h-4 text-green-400" />
-                Unlimited group members
-              </li>
-              <li className="flex items-center gap-2">
-                <Check className="w-4 h-4 text-green-400" />
-                AI-powered ticket scanning
-              </li>
-              <li className="flex items-center gap-2">
-                <Check className="w-4 h-4 text-green-400" />
-                Aftermovie generation
-              </li>
-              <li className="flex items-center gap-2">
-                <Check className="w-4 h-4 text-green-400" />
-                Real-time location sharing
-              </li>
-            </ul>
-          </div>
+          ) : (
+            <div className="bg-white/5 rounded-xl p-4 mb-6 text-sm text-white/60">
+              Plans could not be loaded.
+              {import.meta.env.VITE_STRIPE_PAYMENT_LINK && ' You can still pay with the standard plan.'}
+            </div>
+          )}
 
           <div className="flex gap-3">
             <button
@@ -995,7 +775,7 @@ function CreateTripModal({
             </button>
             <button
               onClick={handlePayment}
-              disabled={loading}
+              disabled={loading || plansLoading || !canPay}
               className="btn-primary flex-1 flex items-center justify-center gap-2"
             >
               {loading ? (
@@ -1003,7 +783,7 @@ function CreateTripModal({
               ) : (
                 <>
                   <CreditCard className="w-5 h-5" />
-                  Pay €24.99
+                  {pricing && selectedTier ? `Pay ${formatPrice(selectedTier.amount, pricing.currency)}` : 'Pay'}
                 </>
               )}
             </button>
@@ -29,13 +29,13 @@ export default function JoinPage() {
     }
 
     setLoading(true);
-    const { error } = await joinTrip(lobbyCode);
+    const { tripId, error } = await joinTrip(lobbyCode);
 
     if (error) {
       setError(error);
       setLoading(false);
     } else {
-      navigate('/trip');
+      navigate(`/trip/${tripId}`);
     }
   }
 
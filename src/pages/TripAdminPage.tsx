@@ -13,10 +13,25 @@ import {
   Sparkles,
   Crown,
   Loader2,
+  EyeOff,
+  CalendarCheck,
+  Group,
+  Plus,
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase, uploadFile } from '../lib/supabase';
-import type { Trip, TripMember, Ticket } from '../types';
+import { uploadFile } from '../lib/supabase';
+import { deleteTrip, fetchTrip, updateTrip } from '../lib/trips';
+import { fetchMembership, fetchTripMembers, removeMember, setMemberRole } from '../lib/members';
+import { createTicket, deleteMemberTickets, deleteTicket, fetchTripTickets, updateTicket } from '../lib/tickets';
+import { createClue, deleteClue, fetchClues, updateClue } from '../lib/clues';
+import { fetchSchedule } from '../lib/schedule';
+import type { Trip, TripMember, Ticket, TripClue, RevealPolicy, RevealStage, ScheduleItem, TripSubgroup } from '../types';
+import { resolveRevealPolicy, validateRevealPolicy, REVEAL_STAGE_LABELS, formatRevealOffset } from '../lib/reveal';
+import { expandRecurringItems } from '../lib/recurrence';
+import { checkSchedule, SCHEDULE_ISSUE_LABELS, type ScheduleIssueKind } from '../lib/scheduleChecks';
+import { createSubgroup, deleteSubgroup, fetchTripSubgroups, updateSubgroup } from '../lib/subgroups';
+import ScheduleIssueList from '../components/ScheduleIssueList';
+import { getSubgroupColor, subgroupColors } from '../components/scheduleTypes';
 
 export default function TripAdminPage() {
   const { tripId } = useParams<{ tripId: string }>();
@@ -25,8 +40,10 @@ export default function TripAdminPage() {
   const [trip, setTrip] = useState<Trip | null>(null);
   const [members, setMembers] = useState<TripMember[]>([]);
   const [tickets, setTickets] = useState<Ticket[]>([]);
+  const [schedule, setSchedule] = useState<ScheduleItem[]>([]);
+  const [subgroups, setSubgroups] = useState<TripSubgroup[]>([]);
   const [loading, setLoading] = useState(true);
-  const [activeSection, setActiveSection] = useState<'settings' | 'tickets' | 'members'>('tickets');
+  const [activeSection, setActiveSection] = useState<'settings' | 'tickets' | 'members' | 'subgroups' | 'clues' | 'schedule'>('tickets');
   const [copied, setCopied] = useState(false);
 
   useEffect(() => {
@@ -38,52 +55,37 @@ export default function TripAdminPage() {
   async function loadData() {
     if (!tripId || !user) return;
 
-    // Load trip
-    const { data: tripData } = await supabase
-      .from('trips')
-      .select('*')
-      .eq('id', tripId)
-      .single();
+    try {
+      // Load trip, for admins only
+      const [tripData, memberData] = await Promise.all([fetchTrip(tripId), fetchMembership(tripId, user.id)]);
 
-    if (!tripData) {
-      navigate('/dashboard');
-      return;
-    }
+      if (memberData?.role !== 'admin') {
+        navigate(`/trip/${tripId}`);
+        return;
+      }
 
-    // Verify admin access
-    const { data: memberData } = await supabase
-      .from('trip_members')
-      .select('*')
-      .eq('trip_id', tripId)
-      .eq('user_id', user.id)
-      .eq('role', 'admin')
-      .single();
-
-    if (!memberData) {
-      navigate(`/trip/${tripId}`);
+      setTrip(tripData);
+
+      // Load members, tickets and the schedule for the feasibility check
+      const [membersData, ticketsData, scheduleData] = await Promise.all([
+        fetchTripMembers(tripId),
+        fetchTripTickets(tripId),
+        fetchSchedule(tripId),
+      ]);
+      setMembers(membersData);
+      setTickets(ticketsData);
+      setSchedule(scheduleData);
+    } catch (err) {
+      console.error('[TripAdmin] Load error:', err);
+      navigate('/dashboard');
       return;
     }
 
-    setTrip(tripData as Trip);
-
-    // Load members
-    const { data: membersData } = await supabase
-      .from('trip_members')
-      .select('*, user:users(*)')
-      .eq('trip_id', tripId);
-
-    if (membersData) {
-      setMembers(membersData as TripMember[]);
-    }
-
-    // Load tickets
-    const { data: ticketsData } = await supabase
-      .from('tickets')
-      .select('*')
-      .eq('trip_id', tripId);
-
-    if (ticketsData) {
-      setTickets(ticketsData as Ticket[]);
+    // Load sub-groups
+    try {
+      setSubgroups(await fetchTripSubgroups(tripId));
+    } catch (err) {
+      console.error('[TripAdmin] Sub-groups error:', err);
     }
 
     setLoading(false);
@@ -158,6 +160,24 @@ export default function TripAdminPage() {
                 icon={<Users className="w-5 h-5" />}
                 label="Manage Members"
               />
+              <NavButton
+                active={activeSection === 'subgroups'}
+                onClick={() => setActiveSection('subgroups')}
+                icon={<Group className="w-5 h-5" />}
+                label="Sub-groups"
+              />
+              <NavButton
+                active={activeSection === 'clues'}
+                onClick={() => setActiveSection('clues')}
+                icon={<Sparkles className="w-5 h-5" />}
+                label="Destination Clues"
+              />
+              <NavButton
+                active={activeSection === 'schedule'}
+                onClick={() => setActiveSection('schedule')}
+                icon={<CalendarCheck className="w-5 h-5" />}
+                label="Schedule Check"
+              />
               <NavButton
                 active={activeSection === 'settings'}
                 onClick={() => setActiveSection('settings')}
@@ -180,6 +200,15 @@ export default function TripAdminPage() {
             {activeSection === 'members' && (
               <MembersSection members={members} tripId={tripId!} currentUserId={user?.id || ''} onRefresh={loadData} />
             )}
+            {activeSection === 'subgroups' && (
+              <SubgroupsSection tripId={tripId!} members={members} subgroups={subgroups} onRefresh={loadData} />
+            )}
+            {activeSection === 'clues' && (
+              <CluesSection trip={trip} />
+            )}
+            {activeSection === 'schedule' && (
+              <ScheduleCheckSection trip={trip} schedule={schedule} subgroups={subgroups} />
+            )}
             {activeSection === 'settings' && (
               <SettingsSection trip={trip} onUpdate={loadData} />
             )}
@@ -229,13 +258,38 @@ function TicketsSection({
 }) {
   const [showUploadModal, setShowUploadModal] = useState(false);
   const [selectedMember, setSelectedMember] = useState<TripMember | null>(null);
+  const [editingTicket, setEditingTicket] = useState<Ticket | null>(null);
+
+  function openModal(member: TripMember | null, ticket: Ticket | null = null) {
+    setSelectedMember(member);
+    setEditingTicket(ticket);
+    setShowUploadModal(true);
+  }
+
+  function closeModal() {
+    setShowUploadModal(false);
+    setSelectedMember(null);
+    setEditingTicket(null);
+  }
+
+  async function handleDeleteTicket(ticket: Ticket) {
+    if (!confirm(`Delete ${ticket.label || 'this'} ticket?`)) return;
+
+    try {
+      await deleteTicket(ticket.id);
+    } catch (err) {
+      alert(`Failed to delete ticket: ${err instanceof Error ? err.message : err}`);
+      return;
+    }
+    onRefresh();
+  }
 
   return (
     <div>
       <div className="flex items-center justify-between mb-6">
         <h2 className="text-2xl font-bold">Manage Tickets</h2>
         <button
-          onClick={() => setShowUploadModal(true)}
+          onClick={() => openModal(null)}
           className="btn-primary flex items-center gap-2"
         >
           <Upload className="w-5 h-5" />
@@ -244,50 +298,81 @@ function TicketsSection({
       </div>
 
       <div className="card p-6 mb-6">
-        <h3 className="font-semibold mb-4">Ticket Status by Member</h3>
+        <h3 className="font-semibold mb-4">Tickets by Member</h3>
         <div className="space-y-3">
           {members.map((member) => {
-            const ticket = tickets.find((t) => t.member_id === member.user_id);
+            const memberTickets = tickets
+              .filter((t) => t.member_id === member.user_id)
+              .sort((a, b) => (a.departure_time || '').localeCompare(b.departure_time || ''));
             return (
-              <div
-                key={member.id}
-                className="flex items-center justify-between p-4 bg-white/5 rounded-xl"
-              >
-                <div className="flex items-center gap-3">
-                  <div className="w-10 h-10 rounded-full bg-gradient-to-br from-blue-500 to-fuchsia-500 flex items-center justify-center">
-                    {member.user?.name?.charAt(0) || '?'}
-                  </div>
-                  <div>
-                    <p className="font-medium">{member.user?.name}</p>
-                    <p className="text-sm text-white/50">{member.user?.email}</p>
+              <div key={member.id} className="p-4 bg-white/5 rounded-xl">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <div className="w-10 h-10 rounded-full bg-gradient-to-br from-blue-500 to-fuchsia-500 flex items-center justify-center">
+                      {member.user?.name?.charAt(0) || '?'}
+                    </div>
+                    <div>
+                      <p className="font-medium">{member.user?.name}</p>
+                      <p className="text-sm text-white/50">
+                        {memberTickets.length > 0
+                          ? `${memberTickets.length} ${memberTickets.length === 1 ? 'ticket' : 'tickets'}`
+                          : member.user?.email}
+                      </p>
+                    </div>
                   </div>
+                  <button
+                    onClick={() => openModal(member)}
+                    className={memberTickets.length > 0 ? 'btn-secondary text-sm' : 'btn-primary text-sm'}
+                  >
+                    {memberTickets.length > 0 ? 'Add Ticket' : 'Upload Ticket'}
+                  </button>
                 </div>
-                <div className="flex items-center gap-3">
-                  {ticket ? (
-                    <>
-                      <span className="text-sm text-green-400">Ticket uploaded</span>
-                      <button
-                        onClick={() => {
-                          setSelectedMember(member);
-                          setShowUploadModal(true);
-                        }}
-                        className="btn-secondary text-sm"
+
+                {memberTickets.length > 0 && (
+                  <div className="mt-3 space-y-2">
+                    {memberTickets.map((ticket) => (
+                      <div
+                        key={ticket.id}
+                        className="flex items-center justify-between p-3 bg-white/5 rounded-lg"
                       >
-                        Edit
-                      </button>
-                    </>
-                  ) : (
-                    <button
-                      onClick={() => {
-                        setSelectedMember(member);
-                        setShowUploadModal(true);
-                      }}
-                      className="btn-primary text-sm"
-                    >
-                      Upload Ticket
-                    </button>
-                  )}
-                </div>
+                        <div className="flex items-center gap-3 min-w-0">
+                          <FileText className="w-4 h-4 text-green-400 shrink-0" />
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium truncate">
+                              {ticket.label || ticket.type.charAt(0).toUpperCase() + ticket.type.slice(1)}
+                              {ticket.carrier && <span className="text-white/50"> · {ticket.carrier}</span>}
+                            </p>
+                            <p className="text-xs text-white/50">
+                              {ticket.departure_time
+                                ? new Date(ticket.departure_time).toLocaleString('en-US', {
+                                    day: 'numeric',
+                                    month: 'short',
+                                    hour: '2-digit',
+                                    minute: '2-digit',
+                                  })
+                                : 'No departure time - uses trip departure'}
+                            </p>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => openModal(member, ticket)}
+                            className="btn-secondary text-sm"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => handleDeleteTicket(ticket)}
+                            className="p-2 text-red-400 hover:bg-red-500/20 rounded-lg"
+                            title="Delete ticket"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             );
           })}
@@ -298,14 +383,11 @@ function TicketsSection({
         <TicketUploadModal
           tripId={tripId}
           member={selectedMember}
+          ticket={editingTicket}
           members={members}
-          onClose={() => {
-            setShowUploadModal(false);
-            setSelectedMember(null);
-          }}
+          onClose={closeModal}
           onUploaded={() => {
-            setShowUploadModal(false);
-            setSelectedMember(null);
+            closeModal();
             onRefresh();
           }}
         />
@@ -314,34 +396,45 @@ function TicketsSection({
   );
 }
 
+// datetime-local inputs want local "YYYY-MM-DDTHH:mm"
+function toDateTimeLocal(value?: string): string {
+  if (!value) return '';
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return '';
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
 function TicketUploadModal({
   tripId,
   member,
+  ticket,
   members,
   onClose,
   onUploaded,
 }: {
   tripId: string;
   member: TripMember | null;
+  ticket: Ticket | null; // Set when editing an existing ticket
   members: TripMember[];
   onClose: () => void;
   onUploaded: () => void;
 }) {
-  const [selectedMemberId, setSelectedMemberId] = useState(member?.user_id || '');
-  const [ticketType, setTicketType] = useState<Ticket['type']>('flight');
-  const [carrier, setCarrier] = useState('');
-  const [flightNumber, setFlightNumber] = useState('');
-  const [departureLocation, setDepartureLocation] = useState('');
-  const [arrivalLocation, setArrivalLocation] = useState('');
-  const [departureTime, setDepartureTime] = useState('');
-  const [arrivalTime, setArrivalTime] = useState('');
-  const [seatNumber, setSeatNumber] = useState('');
-  const [gate, setGate] = useState('');
-  const [bookingReference, setBookingReference] = useState('');
+  const [selectedMemberId, setSelectedMemberId] = useState(ticket?.member_id || member?.user_id || '');
+  const [ticketType, setTicketType] = useState<Ticket['type']>(ticket?.type || 'flight');
+  const [label, setLabel] = useState(ticket?.label || '');
+  const [carrier, setCarrier] = useState(ticket?.carrier || '');
+  const [flightNumber, setFlightNumber] = useState(ticket?.flight_number || '');
+  const [departureLocation, setDepartureLocation] = useState(ticket?.departure_location || '');
+  const [arrivalLocation, setArrivalLocation] = useState(ticket?.arrival_location || '');
+  const [departureTime, setDepartureTime] = useState(toDateTimeLocal(ticket?.departure_time));
+  const [arrivalTime, setArrivalTime] = useState(toDateTimeLocal(ticket?.arrival_time));
+  const [seatNumber, setSeatNumber] = useState(ticket?.seat_number || '');
+  const [gate, setGate] = useState(ticket?.gate || '');
+  const [bookingReference, setBookingReference] = useState(ticket?.booking_reference || '');
   const [fullTicketFile, setFullTicketFile] = useState<File | null>(null);
   const [loading, setLoading] = useState(false);
   const [analyzing, setAnalyzing] = useState(false);
-  const [showManualEntry, setShowManualEntry] = useState(false);
+  const [showManualEntry, setShowManualEntry] = useState(!!ticket);
   const [aiError, setAiError] = useState('');
 
   // AI Ticket Analysis using GPT-4 Vision
@@ -411,7 +504,7 @@ function TicketUploadModal({
     setLoading(true);
 
     try {
-      let fullTicketUrl = null;
+      let fullTicketUrl = ticket?.full_ticket_url || null;
 
       if (fullTicketFile) {
         console.log('[TicketUpload] Uploading file to storage...');
@@ -444,15 +537,11 @@ function TicketUploadModal({
         flight_number: flightNumber,
       });
 
-      // Always insert new ticket (multiple tickets per person are allowed)
-      console.log('[TicketUpload] Inserting new ticket...');
-
       // For event tickets, set sensible defaults for transport fields
       const isEvent = ticketType === 'event';
-      const { error } = await supabase.from('tickets').insert({
-        trip_id: tripId,
-        member_id: selectedMemberId,
+      const ticketData = {
         type: ticketType,
+        label: label || null,
         carrier: carrier || null,
         flight_number: isEvent ? null : (flightNumber || null),
         departure_location: isEvent ? (carrier || 'Event') : (departureLocation || 'TBD'),
@@ -463,12 +552,18 @@ function TicketUploadModal({
         gate: isEvent ? null : (gate || null),
         booking_reference: bookingReference || null,
         full_ticket_url: fullTicketUrl,
-      });
-
-      if (error) {
+      };
+
+      // Multiple tickets per person are allowed, so a new upload always inserts
+      try {
+        if (ticket) {
+          await updateTicket(ticket.id, { ...ticketData, member_id: selectedMemberId });
+        } else {
+          await createTicket(tripId, selectedMemberId, ticketData);
+        }
+      } catch (error) {
         console.error('[TicketUpload] Database error:', error);
-        alert(`Failed to save ticket: ${error.message}`);
-        setLoading(false);
+        alert(`Failed to save ticket: ${error instanceof Error ? error.message : error}`);
         return;
       }
 
@@ -485,7 +580,7 @@ function TicketUploadModal({
   return (
     <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
       <div className="card p-6 max-w-lg w-full max-h-[90vh] overflow-y-auto">
-        <h2 className="text-xl font-bold mb-6">Upload Ticket</h2>
+        <h2 className="text-xl font-bold mb-6">{ticket ? 'Edit Ticket' : 'Upload Ticket'}</h2>
 
         <form onSubmit={handleSubmit} className="space-y-4">
           {/* Member Selection */}
@@ -508,6 +603,26 @@ function TicketUploadModal({
             </select>
           </div>
 
+          {/* Label - tells a member's tickets apart in their wallet */}
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-2">
+              Label
+            </label>
+            <input
+              type="text"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              className="input-field"
+              placeholder="Outbound, Return, Day Trip"
+              list="ticket-labels"
+            />
+            <datalist id="ticket-labels">
+              <option value="Outbound" />
+              <option value="Return" />
+              <option value="Day Trip" />
+            </datalist>
+          </div>
+
           {/* AI Ticket Upload */}
           <div className="border-2 border-dashed border-white/20 rounded-xl p-6 text-center">
             {analyzing ? (
@@ -544,7 +659,9 @@ function TicketUploadModal({
                     <Sparkles className="w-8 h-8 text-blue-400" />
                   </div>
                   <div>
-                    <p className="font-medium">Upload ticket image or PDF</p>
+                    <p className="font-medium">
+                      {ticket?.full_ticket_url ? 'Replace ticket image or PDF' : 'Upload ticket image or PDF'}
+                    </p>
                     <p className="text-sm text-white/50 mt-1">AI will extract all details automatically</p>
                   </div>
                 </div>
@@ -773,16 +890,17 @@ function MembersSection({
     setLoading(member.id);
     const newRole = member.role === 'admin' ? 'member' : 'admin';
 
-    await supabase
-      .from('trip_members')
-      .update({ role: newRole })
-      .eq('id', member.id);
+    try {
+      await setMemberRole(member.id, newRole);
+    } catch (err) {
+      alert(`Failed to change role: ${err instanceof Error ? err.message : err}`);
+    }
 
     onRefresh();
     setLoading(null);
   }
 
-  async function removeMember(member: TripMember) {
+  async function handleRemove(member: TripMember) {
     if (member.user_id === currentUserId) {
       alert("You can't remove yourself from the trip");
       return;
@@ -794,9 +912,13 @@ function MembersSection({
 
     setLoading(member.id);
 
-    // Also remove their ticket if they have one
-    await supabase.from('tickets').delete().eq('trip_id', tripId).eq('member_id', member.user_id);
-    await supabase.from('trip_members').delete().eq('id', member.id);
+    // Also remove their tickets if they have any
+    try {
+      await deleteMemberTickets(tripId, member.user_id);
+      await removeMember(member.id);
+    } catch (err) {
+      alert(`Failed to remove member: ${err instanceof Error ? err.message : err}`);
+    }
 
     onRefresh();
     setLoading(null);
@@ -849,7 +971,7 @@ function MembersSection({
                       )}
                     </button>
                     <button
-                      onClick={() => removeMember(member)}
+                      onClick={() => handleRemove(member)}
                       disabled={loading === member.id}
                       className="p-1.5 rounded-lg text-red-400 hover:bg-red-500/20 transition-colors"
                       title="Remove member"
@@ -867,6 +989,417 @@ function MembersSection({
   );
 }
 
+const clueTypeLabels: Record<TripClue['type'], string> = {
+  text: 'Text',
+  image: 'Image',
+  emoji: 'Emoji',
+  weather: 'Weather hint',
+};
+
+function CluesSection({ trip }: { trip: Trip }) {
+  const [clues, setClues] = useState<TripClue[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [type, setType] = useState<TripClue['type']>('text');
+  const [content, setContent] = useState('');
+  const [imageFile, setImageFile] = useState<File | null>(null);
+  const [hoursBefore, setHoursBefore] = useState(24);
+  const [saving, setSaving] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    fetchClues(trip.id)
+      .then(setClues)
+      .catch((err) => console.error('[Clues] Load error:', err));
+  }, [trip.id, reloadKey]);
+
+  function resetForm() {
+    setEditingId(null);
+    setType('text');
+    setContent('');
+    setImageFile(null);
+    setHoursBefore(24);
+  }
+
+  function startEdit(clue: TripClue) {
+    setEditingId(clue.id);
+    setType(clue.type);
+    setContent(clue.content);
+    setImageFile(null);
+    setHoursBefore(clue.unlock_minutes_before / 60);
+  }
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+
+    let imageUrl = editingId ? clues.find((c) => c.id === editingId)?.image_url || null : null;
+    if (type === 'image' && imageFile) {
+      imageUrl = await uploadFile(
+        'trip-media',
+        `${trip.id}/clues/clue-${Date.now()}.${imageFile.name.split('.').pop()}`,
+        imageFile
+      );
+    }
+
+    const clueData = {
+      type,
+      content,
+      image_url: type === 'image' ? imageUrl : null,
+      unlock_minutes_before: Math.max(0, Math.round(hoursBefore * 60)),
+    };
+
+    try {
+      if (editingId) {
+        await updateClue(editingId, clueData);
+      } else {
+        await createClue(trip.id, clueData);
+      }
+    } catch (err) {
+      alert(`Failed to save clue: ${err instanceof Error ? err.message : err}`);
+      return;
+    } finally {
+      setSaving(false);
+    }
+    resetForm();
+    setReloadKey((key) => key + 1);
+  }
+
+  async function handleDelete(clue: TripClue) {
+    if (!confirm('Delete this clue?')) return;
+    try {
+      await deleteClue(clue.id);
+    } catch (err) {
+      alert(`Failed to delete clue: ${err instanceof Error ? err.message : err}`);
+      return;
+    }
+    if (editingId === clue.id) resetForm();
+    setReloadKey((key) => key + 1);
+  }
+
+  const cityRevealMinutes = resolveRevealPolicy(trip).destination_city;
+
+  return (
+    <div>
+      <h2 className="text-2xl font-bold mb-2">Destination Clues</h2>
+      <p className="text-white/50 text-sm mb-6">
+        Clues unlock one by one on the Overview tab. Members can't read a clue before it unlocks.
+        The destination itself is revealed {formatRevealOffset(cityRevealMinutes)} before departure.
+      </p>
+
+      <div className="card p-6 mb-6">
+        <h3 className="font-semibold mb-4">Clue Sequence</h3>
+        {clues.length === 0 ? (
+          <p className="text-white/50 text-sm">No clues yet. Add the first one below.</p>
+        ) : (
+          <div className="space-y-3">
+            {clues.map((clue, index) => (
+              <div key={clue.id} className="flex items-center justify-between gap-4 p-4 bg-white/5 rounded-xl">
+                <div className="min-w-0">
+                  <p className="text-xs text-white/50 mb-1">
+                    #{index + 1} · {clueTypeLabels[clue.type]} · unlocks {formatRevealOffset(clue.unlock_minutes_before)} before departure
+                  </p>
+                  <p className="truncate">{clue.content}</p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <button onClick={() => startEdit(clue)} className="btn-secondary text-sm">
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(clue)}
+                    className="p-1.5 rounded-lg text-red-400 hover:bg-red-500/20 transition-colors"
+                    title="Delete clue"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <form onSubmit={handleSave} className="card p-6 space-y-4">
+        <h3 className="font-semibold">{editingId ? 'Edit Clue' : 'Add Clue'}</h3>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-2">Type</label>
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as TripClue['type'])}
+              className="input-field"
+            >
+              {Object.entries(clueTypeLabels).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-2">Unlocks (hours before departure)</label>
+            <input
+              type="number"
+              min={0}
+              step={0.25}
+              value={hoursBefore}
+              onChange={(e) => setHoursBefore(Number(e.target.value))}
+              className="input-field"
+              required
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-white/70 mb-2">
+            {type === 'emoji' ? 'Emoji' : type === 'weather' ? 'Weather hint' : type === 'image' ? 'Caption' : 'Clue'}
+          </label>
+          <input
+            type="text"
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            className="input-field"
+            placeholder={
+              type === 'emoji'
+                ? '🥘 💃 ☀️'
+                : type === 'weather'
+                ? 'Pack your sunglasses: around 28°C'
+                : 'They invented the croissant here... or did they?'
+            }
+            required
+          />
+        </div>
+
+        {type === 'image' && (
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-2">Image</label>
+            <input
+              type="file"
+              accept="image/*"
+              onChange={(e) => setImageFile(e.target.files?.[0] || null)}
+              className="input-field"
+            />
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          {editingId && (
+            <button type="button" onClick={resetForm} className="btn-secondary flex-1">
+              Cancel
+            </button>
+          )}
+          <button type="submit" disabled={saving} className="btn-primary flex-1">
+            {saving ? 'Saving...' : editingId ? 'Save Clue' : 'Add Clue'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+function SubgroupsSection({
+  tripId,
+  members,
+  subgroups,
+  onRefresh,
+}: {
+  tripId: string;
+  members: TripMember[];
+  subgroups: TripSubgroup[];
+  onRefresh: () => void;
+}) {
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(Object.keys(subgroupColors)[0]);
+  const [saving, setSaving] = useState<string | null>(null); // Sub-group id being changed, 'new' while adding
+
+  async function run(id: string, action: () => Promise<void>): Promise<boolean> {
+    setSaving(id);
+    try {
+      await action();
+      onRefresh();
+      return true;
+    } catch (err) {
+      alert(`Failed to save the sub-group: ${err instanceof Error ? err.message : err}`);
+      return false;
+    } finally {
+      setSaving(null);
+    }
+  }
+
+  async function handleAdd(e: React.FormEvent) {
+    e.preventDefault();
+    if (!name.trim()) return;
+    if (await run('new', () => createSubgroup(tripId, name.trim(), color))) {
+      setName('');
+    }
+  }
+
+  function toggleMember(group: TripSubgroup, userId: string) {
+    const memberIds = group.member_ids.includes(userId)
+      ? group.member_ids.filter((id) => id !== userId)
+      : [...group.member_ids, userId];
+    run(group.id, () => updateSubgroup(group.id, { member_ids: memberIds }));
+  }
+
+  function handleDelete(group: TripSubgroup) {
+    if (!confirm(`Delete "${group.name}"? Its schedule items go back to the whole group.`)) return;
+    run(group.id, () => deleteSubgroup(group.id));
+  }
+
+  return (
+    <div>
+      <h2 className="text-2xl font-bold mb-2">Sub-groups</h2>
+      <p className="text-white/50 mb-6">
+        Split the group up, e.g. surfers and museum-goers. Schedule items aimed at a sub-group are
+        only shown to its members.
+      </p>
+
+      <div className="space-y-4">
+        {subgroups.map((group) => (
+          <div key={group.id} className="card p-6">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-3">
+                <span className={`w-3 h-3 rounded-full ${getSubgroupColor(group.color).dot}`} />
+                <h3 className="font-semibold">{group.name}</h3>
+                <span className="text-sm text-white/50">{group.member_ids.length} members</span>
+                {saving === group.id && <Loader2 className="w-4 h-4 animate-spin text-white/50" />}
+              </div>
+              <button
+                onClick={() => handleDelete(group)}
+                disabled={saving !== null}
+                className="p-1.5 rounded-lg text-red-400 hover:bg-red-500/20 transition-colors"
+                title="Delete sub-group"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {members.map((member) => (
+                <button
+                  key={member.user_id}
+                  onClick={() => toggleMember(group, member.user_id)}
+                  disabled={saving !== null}
+                  className={`px-3 py-1.5 rounded-lg text-sm border transition-colors ${
+                    group.member_ids.includes(member.user_id)
+                      ? getSubgroupColor(group.color).badge
+                      : 'bg-white/5 text-white/50 border-transparent hover:bg-white/10'
+                  }`}
+                >
+                  {member.user?.name || 'Member'}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        <form onSubmit={handleAdd} className="card p-6 space-y-4">
+          <h3 className="font-semibold">New sub-group</h3>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="input-field"
+            placeholder="e.g., Surfers"
+            required
+          />
+          <div className="flex gap-2">
+            {Object.entries(subgroupColors).map(([key, classes]) => (
+              <button
+                key={key}
+                type="button"
+                onClick={() => setColor(key)}
+                className={`w-7 h-7 rounded-full ${classes.dot} ${color === key ? 'ring-2 ring-white ring-offset-2 ring-offset-slate-900' : 'opacity-60'}`}
+                title={key}
+              />
+            ))}
+          </div>
+          <button type="submit" disabled={saving !== null} className="btn-primary flex items-center gap-2">
+            {saving === 'new' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            Add Sub-group
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+function ScheduleCheckSection({
+  trip,
+  schedule: storedSchedule,
+  subgroups,
+}: {
+  trip: Trip;
+  schedule: ScheduleItem[];
+  subgroups: TripSubgroup[];
+}) {
+  const schedule = expandRecurringItems(storedSchedule, trip.return_time);
+  const issues = checkSchedule(schedule, trip, subgroups);
+  const itemsById = Object.fromEntries(schedule.map((item) => [item.id, item]));
+  const errorCount = issues.filter((issue) => issue.severity === 'error').length;
+  const kinds = Object.keys(SCHEDULE_ISSUE_LABELS) as ScheduleIssueKind[];
+
+  return (
+    <div>
+      <h2 className="text-2xl font-bold mb-2">Schedule Check</h2>
+      <p className="text-white/50 text-sm mb-6">
+        Overlaps, items outside the trip dates, stays without a check-out, late transport and tight
+        transfers across all {schedule.length} schedule items.
+      </p>
+
+      {issues.length === 0 ? (
+        <div className="card p-6 flex items-center gap-3">
+          <Check className="w-5 h-5 text-green-400" />
+          <p>No problems found in the schedule.</p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-4 mb-6">
+            <div className="card p-4">
+              <p className="text-3xl font-bold text-red-400">{errorCount}</p>
+              <p className="text-sm text-white/50">{errorCount === 1 ? 'Problem' : 'Problems'}</p>
+            </div>
+            <div className="card p-4">
+              <p className="text-3xl font-bold text-yellow-400">{issues.length - errorCount}</p>
+              <p className="text-sm text-white/50">{issues.length - errorCount === 1 ? 'Warning' : 'Warnings'}</p>
+            </div>
+          </div>
+
+          <div className="space-y-6">
+            {kinds.map((kind) => {
+              const ofKind = issues.filter((issue) => issue.kind === kind);
+              if (ofKind.length === 0) return null;
+
+              return (
+                <div key={kind} className="card p-6">
+                  <h3 className="font-semibold mb-3">
+                    {SCHEDULE_ISSUE_LABELS[kind]} ({ofKind.length})
+                  </h3>
+                  <div className="space-y-3">
+                    {ofKind.map((issue, index) => {
+                      const first = itemsById[issue.itemIds[0]];
+                      return (
+                        <div key={index}>
+                          <p className="text-xs text-white/40 mb-1">
+                            {new Date(first.start_time).toLocaleString('en-US', {
+                              weekday: 'short',
+                              day: 'numeric',
+                              month: 'short',
+                              hour: '2-digit',
+                              minute: '2-digit',
+                            })}
+                          </p>
+                          <ScheduleIssueList issues={[issue]} />
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
 function SettingsSection({
   trip,
   onUpdate,
@@ -879,37 +1412,51 @@ function SettingsSection({
   const [groupName, setGroupName] = useState(trip.group_name || '');
   const [description, setDescription] = useState(trip.description || '');
   const [destination, setDestination] = useState(trip.destination || '');
+  const [destinationCountry, setDestinationCountry] = useState(trip.destination_country || '');
+  const [revealPolicy, setRevealPolicy] = useState<RevealPolicy>(() => resolveRevealPolicy(trip));
   const [departureTime, setDepartureTime] = useState(
     trip.departure_time ? new Date(trip.departure_time).toISOString().slice(0, 16) : ''
   );
   const [returnTime, setReturnTime] = useState(
     trip.return_time ? new Date(trip.return_time).toISOString().slice(0, 16) : ''
   );
+  const [budgetAmount, setBudgetAmount] = useState(trip.budget_amount?.toString() || '');
+  const [budgetCurrency, setBudgetCurrency] = useState(trip.budget_currency || 'EUR');
   const [loading, setLoading] = useState(false);
   const [saved, setSaved] = useState(false);
 
   async function handleSave(e: React.FormEvent) {
     e.preventDefault();
+
+    const policyError = validateRevealPolicy(revealPolicy);
+    if (policyError) {
+      alert(policyError);
+      return;
+    }
+
     setLoading(true);
     setSaved(false);
 
-    const { error } = await supabase
-      .from('trips')
-      .update({
+    try {
+      await updateTrip(trip.id, {
         name,
         group_name: groupName || null,
         description: description || null,
         destination: destination || null,
+        destination_country: destinationCountry || null,
+        reveal_policy: revealPolicy,
         departure_time: departureTime ? new Date(departureTime).toISOString() : null,
         return_time: returnTime ? new Date(returnTime).toISOString() : null,
-      })
-      .eq('id', trip.id);
-
-    setLoading(false);
-    if (!error) {
+        budget_amount: budgetAmount ? parseFloat(budgetAmount) : null,
+        budget_currency: budgetCurrency,
+      });
       setSaved(true);
       setTimeout(() => setSaved(false), 2000);
+    } catch (err) {
+      alert(`Failed to save settings: ${err instanceof Error ? err.message : err}`);
     }
+
+    setLoading(false);
     onUpdate();
   }
 
@@ -921,7 +1468,12 @@ function SettingsSection({
     )
       return;
 
-    await supabase.from('trips').delete().eq('id', trip.id);
+    try {
+      await deleteTrip(trip.id);
+    } catch (err) {
+      alert(`Failed to delete trip: ${err instanceof Error ? err.message : err}`);
+      return;
+    }
     navigate('/dashboard');
   }
 
@@ -986,6 +1538,22 @@ function SettingsSection({
             </p>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-white/70 mb-2">
+              Destination Country
+            </label>
+            <input
+              type="text"
+              value={destinationCountry}
+              onChange={(e) => setDestinationCountry(e.target.value)}
+              className="input-field"
+              placeholder="Spain, France, etc."
+            />
+            <p className="text-xs text-white/50 mt-1">
+              Can be revealed earlier than the city as a first hint.
+            </p>
+          </div>
+
           {/* Date Range */}
           <div className="bg-white/5 rounded-xl p-4 border border-white/10">
             <label className="block text-sm font-medium text-white/70 mb-3">
@@ -1012,11 +1580,40 @@ function SettingsSection({
                 />
               </div>
             </div>
+          </div>
+
+          {/* Budget */}
+          <div className="bg-white/5 rounded-xl p-4 border border-white/10">
+            <label className="block text-sm font-medium text-white/70 mb-3">
+              Group Budget (optional)
+            </label>
+            <div className="grid grid-cols-3 gap-4">
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={budgetAmount}
+                onChange={(e) => setBudgetAmount(e.target.value)}
+                className="input-field col-span-2"
+                placeholder="2500"
+              />
+              <select
+                value={budgetCurrency}
+                onChange={(e) => setBudgetCurrency(e.target.value)}
+                className="input-field"
+              >
+                {['EUR', 'USD', 'GBP', 'CHF'].map((code) => (
+                  <option key={code} value={code}>{code}</option>
+                ))}
+              </select>
+            </div>
             <p className="text-xs text-white/50 mt-2">
-              QR codes reveal 3 hours before, full tickets 1 hour before departure
+              Total for the whole group. Planned schedule costs are compared against it.
             </p>
           </div>
 
+          <RevealPolicyEditor policy={revealPolicy} onChange={setRevealPolicy} />
+
           <button
             type="submit"
             disabled={loading}
@@ -1059,3 +1656,74 @@ function SettingsSection({
     </div>
   );
 }
+
+// Trip-level stages are edited in hours before departure, schedule items in minutes before start
+const tripRevealStages: RevealStage[] = ['destination_country', 'destination_city', 'ticket_qr', 'ticket_full'];
+
+function RevealPolicyEditor({
+  policy,
+  onChange,
+}: {
+  policy: RevealPolicy;
+  onChange: (policy: RevealPolicy) => void;
+}) {
+  function setStage(stage: RevealStage, minutes: number) {
+    onChange({ ...policy, [stage]: Math.max(0, Math.round(minutes)) });
+  }
+
+  const warnings: string[] = [];
+  const policyError = validateRevealPolicy(policy);
+  if (policyError) {
+    warnings.push(policyError);
+  }
+  if (policy.destination_city > policy.destination_country) {
+    warnings.push('The city unlocks before the country.');
+  }
+
+  return (
+    <div className="bg-white/5 rounded-xl p-4 border border-white/10">
+      <label className="text-sm font-medium text-white/70 mb-3 flex items-center gap-2">
+        <EyeOff className="w-4 h-4" />
+        Reveal Schedule
+      </label>
+      <div className="space-y-3">
+        {tripRevealStages.map((stage) => (
+          <div key={stage} className="flex items-center justify-between gap-4">
+            <span className="text-sm">{REVEAL_STAGE_LABELS[stage]}</span>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={0}
+                step={0.25}
+                value={policy[stage] / 60}
+                onChange={(e) => setStage(stage, Number(e.target.value) * 60)}
+                className="input-field w-24"
+              />
+              <span className="text-xs text-white/50 w-36">hours before departure</span>
+            </div>
+          </div>
+        ))}
+        <div className="flex items-center justify-between gap-4">
+          <span className="text-sm">{REVEAL_STAGE_LABELS.schedule_item}</span>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min={0}
+              step={5}
+              value={policy.schedule_item}
+              onChange={(e) => setStage('schedule_item', Number(e.target.value))}
+              className="input-field w-24"
+            />
+            <span className="text-xs text-white/50 w-36">minutes before start</span>
+          </div>
+        </div>
+      </div>
+      {warnings.map((warning) => (
+        <p key={warning} className="text-xs text-yellow-400 mt-2 flex items-center gap-1">
+          <AlertTriangle className="w-3 h-3" />
+          {warning}
+        </p>
+      ))}
+    </div>
+  );
+}
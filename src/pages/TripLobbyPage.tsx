@@ -28,136 +28,50 @@ import {
   Download,
   EyeOff,
   ZoomIn,
+  Wallet,
+  WifiOff,
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase } from '../lib/supabase';
+import { useTripData } from '../contexts/useTripData';
+import { useOnline } from '../contexts/useOnline';
 import type {
   Trip,
-  TripMember,
   TripMessage,
   ScheduleItem,
-  Ticket,
+  RevealedTicket,
+  TripMedia,
 } from '../types';
-import { getTicketRevealStatus } from '../types';
-import TicketReveal from '../components/TicketReveal';
+import { clearLocation, saveLocation } from '../lib/locations';
+import { uploadTripMedia } from '../lib/media';
+import { expandRecurringItems } from '../lib/recurrence';
+import {
+  resolveRevealPolicy,
+  isStageRevealed,
+  getTimeUntilStage,
+  getStageRevealTime,
+  formatRevealOffset,
+} from '../lib/reveal';
+import TicketWallet from '../components/TicketWallet';
 import Timeline from '../components/Timeline';
 import OutlookSchedule from '../components/OutlookSchedule';
 import MembersList from '../components/MembersList';
 import MessagesPanel from '../components/MessagesPanel';
+import CluesFeed from '../components/CluesFeed';
+import ExpensesPanel from '../components/ExpensesPanel';
+import BudgetPanel from '../components/BudgetPanel';
 import GoogleMapComponent from '../components/GoogleMap';
 
-type Tab = 'overview' | 'tickets' | 'schedule' | 'members' | 'location' | 'media' | 'messages' | 'route';
-
-interface MediaItem {
-  id: string;
-  file_url: string;
-  type: string;
-  created_at: string;
-  latitude?: number;
-  longitude?: number;
-  caption?: string;
-}
+type Tab = 'overview' | 'tickets' | 'schedule' | 'expenses' | 'members' | 'location' | 'media' | 'messages' | 'route';
 
 export default function TripLobbyPage() {
   const { tripId } = useParams<{ tripId: string }>();
   const { user } = useAuth();
-  const [trip, setTrip] = useState<Trip | null>(null);
-  const [members, setMembers] = useState<TripMember[]>([]);
-  const [messages, setMessages] = useState<TripMessage[]>([]);
-  const [schedule, setSchedule] = useState<ScheduleItem[]>([]);
-  const [ticket, setTicket] = useState<Ticket | null>(null);
-  const [isAdmin, setIsAdmin] = useState(false);
-  const [loading, setLoading] = useState(true);
+  const { trip, members, messages, schedule, subgroups, rsvps, tickets, isAdmin, loading, reload } = useTripData(tripId!);
+  const online = useOnline();
   const [activeTab, setActiveTab] = useState<Tab>('overview');
   const [copied, setCopied] = useState(false);
   const [scheduleView, setScheduleView] = useState<'calendar' | 'timeline'>('calendar');
 
-  useEffect(() => {
-    if (tripId && user) {
-      loadTripData();
-    }
-  }, [tripId, user]);
-
-  async function loadTripData() {
-    if (!tripId || !user) return;
-
-    console.log('[TripLobby] Loading data for trip:', tripId);
-
-    try {
-      // Load trip
-      const { data: tripData, error: tripError } = await supabase
-        .from('trips')
-        .select('*')
-        .eq('id', tripId)
-        .single();
-
-      console.log('[TripLobby] Trip:', tripData, 'Error:', tripError);
-
-      if (tripData) {
-        setTrip(tripData as Trip);
-      }
-
-      // Load members
-      const { data: membersData, error: membersError } = await supabase
-        .from('trip_members')
-        .select('*, user:users(*)')
-        .eq('trip_id', tripId);
-
-      console.log('[TripLobby] Members:', membersData, 'Error:', membersError);
-
-      if (membersData) {
-        setMembers(membersData as TripMember[]);
-        const userMember = membersData.find((m) => m.user_id === user.id);
-        setIsAdmin(userMember?.role === 'admin');
-      }
-
-      // Load messages
-      const { data: messagesData, error: messagesError } = await supabase
-        .from('trip_messages')
-        .select('*, sender:users(*)')
-        .eq('trip_id', tripId)
-        .order('created_at', { ascending: false })
-        .limit(50);
-
-      console.log('[TripLobby] Messages:', messagesData?.length, 'Error:', messagesError);
-
-      if (messagesData) {
-        setMessages(messagesData as TripMessage[]);
-      }
-
-      // Load schedule
-      const { data: scheduleData, error: scheduleError } = await supabase
-        .from('schedule_items')
-        .select('*')
-        .eq('trip_id', tripId)
-        .order('start_time', { ascending: true });
-
-      console.log('[TripLobby] Schedule:', scheduleData?.length, 'Error:', scheduleError);
-
-      if (scheduleData) {
-        setSchedule(scheduleData as ScheduleItem[]);
-      }
-
-      // Load user's ticket - use maybeSingle to avoid 406 error when no ticket exists
-      const { data: ticketData, error: ticketError } = await supabase
-        .from('tickets')
-        .select('*')
-        .eq('trip_id', tripId)
-        .eq('member_id', user.id)
-        .maybeSingle();
-
-      console.log('[TripLobby] Ticket:', ticketData, 'Error:', ticketError);
-
-      if (ticketData) {
-        setTicket(ticketData as Ticket);
-      }
-    } catch (err) {
-      console.error('[TripLobby] Unexpected error:', err);
-    }
-
-    setLoading(false);
-  }
-
   async function copyLobbyCode() {
     if (trip) {
       await navigator.clipboard.writeText(trip.lobby_code);
@@ -191,7 +105,6 @@ export default function TripLobbyPage() {
   }
 
   const departure = new Date(trip.departure_time);
-  const revealStatus = ticket ? getTicketRevealStatus(trip.departure_time) : 'hidden';
 
   return (
     <div className="min-h-screen">
@@ -248,6 +161,15 @@ export default function TripLobbyPage() {
         </div>
       </header>
 
+      {!online && (
+        <div className="bg-yellow-500/10 border-b border-yellow-500/20">
+          <div className="max-w-7xl mx-auto px-6 py-2 flex items-center gap-2 text-sm text-yellow-300">
+            <WifiOff className="w-4 h-4" />
+            <span>You're offline - showing the trip as saved on this device</span>
+          </div>
+        </div>
+      )}
+
       {/* Countdown Banner */}
       <CountdownBanner departureTime={trip.departure_time} />
 
@@ -265,7 +187,7 @@ export default function TripLobbyPage() {
               active={activeTab === 'tickets'}
               onClick={() => setActiveTab('tickets')}
               icon={<FileText className="w-4 h-4" />}
-              label="Ticket"
+              label={tickets.length > 1 ? `Tickets (${tickets.length})` : 'Ticket'}
             />
             <TabButton
               active={activeTab === 'schedule'}
@@ -273,6 +195,12 @@ export default function TripLobbyPage() {
               icon={<Clock className="w-4 h-4" />}
               label="Schedule"
             />
+            <TabButton
+              active={activeTab === 'expenses'}
+              onClick={() => setActiveTab('expenses')}
+              icon={<Wallet className="w-4 h-4" />}
+              label="Expenses"
+            />
             <TabButton
               active={activeTab === 'members'}
               onClick={() => setActiveTab('members')}
@@ -312,19 +240,18 @@ export default function TripLobbyPage() {
         {activeTab === 'overview' && (
           <OverviewTab
             trip={trip}
-            ticket={ticket}
+            tickets={tickets}
             messages={messages}
             schedule={schedule}
-            revealStatus={revealStatus}
+            memberCount={members.length}
             onViewTicket={() => setActiveTab('tickets')}
             isAdmin={isAdmin}
           />
         )}
         {activeTab === 'tickets' && (
-          <TicketReveal
-            ticket={ticket}
-            revealStatus={revealStatus}
-            departureTime={trip.departure_time}
+          <TicketWallet
+            tickets={tickets}
+            onRevealDue={() => reload('tickets')}
             trip={trip}
             userName={(user as unknown as { user_metadata?: { name?: string } })?.user_metadata?.name || user?.email?.split('@')[0]}
           />
@@ -367,32 +294,56 @@ export default function TripLobbyPage() {
                 tripId={tripId!}
                 trip={trip}
                 memberCount={members.length}
-                onRefresh={loadTripData}
+                members={members}
+                subgroups={subgroups}
+                rsvps={rsvps}
+                onRsvpChange={() => reload('rsvps')}
+                onRefresh={() => reload('schedule')}
               />
             ) : (
-              <Timeline schedule={schedule} isAdmin={isAdmin} tripId={tripId!} trip={trip} memberCount={members.length} />
+              <Timeline
+                schedule={schedule}
+                isAdmin={isAdmin}
+                tripId={tripId!}
+                trip={trip}
+                memberCount={members.length}
+                members={members}
+                subgroups={subgroups}
+                rsvps={rsvps}
+                onRsvpChange={() => reload('rsvps')}
+                onRefresh={() => reload('schedule')}
+              />
             )}
           </div>
         )}
+        {activeTab === 'expenses' && (
+          <ExpensesPanel tripId={tripId!} members={members} isAdmin={isAdmin} />
+        )}
         {activeTab === 'members' && (
-          <MembersList members={members} isAdmin={isAdmin} tripId={tripId!} lobbyCode={trip?.lobby_code} />
+          <MembersList
+            members={members}
+            isAdmin={isAdmin}
+            tripId={tripId!}
+            lobbyCode={trip?.lobby_code}
+            onRefresh={() => reload('members')}
+          />
         )}
         {activeTab === 'location' && (
-          <LocationTab tripId={tripId!} members={members} tripEndTime={trip?.return_time} />
+          <LocationTab tripId={tripId!} tripEndTime={trip?.return_time} />
         )}
         {activeTab === 'messages' && (
           <MessagesPanel
             messages={messages}
             tripId={tripId!}
             isAdmin={isAdmin}
-            onRefresh={loadTripData}
+            onRefresh={() => reload('messages')}
           />
         )}
         {activeTab === 'media' && (
           <MediaTab tripId={tripId!} isAdmin={isAdmin} />
         )}
         {activeTab === 'route' && (
-          <RouteTab tripId={tripId!} schedule={schedule} trip={trip} />
+          <RouteTab tripId={tripId!} />
         )}
       </main>
     </div>
@@ -486,33 +437,28 @@ function TimeUnit({ value, label }: { value: number; label: string }) {
   );
 }
 
-// Check if activity should be revealed (1 hour before start time)
-function isActivityRevealed(startTime: string): boolean {
-  const activityTime = new Date(startTime).getTime();
-  const now = Date.now();
-  const oneHourBefore = activityTime - (60 * 60 * 1000);
-  return now >= oneHourBefore;
-}
-
 function OverviewTab({
   trip,
-  ticket,
+  tickets,
   messages,
   schedule,
-  revealStatus,
+  memberCount,
   onViewTicket,
   isAdmin,
 }: {
   trip: Trip;
-  ticket: Ticket | null;
+  tickets: RevealedTicket[];
   messages: TripMessage[];
   schedule: ScheduleItem[];
-  revealStatus: string;
+  memberCount: number;
   onViewTicket: () => void;
   isAdmin: boolean;
 }) {
   const pinnedMessages = messages.filter((m) => m.is_pinned);
-  const upcomingSchedule = schedule.slice(0, 3);
+  const upcomingSchedule = expandRecurringItems(schedule, trip.return_time).slice(0, 3);
+  const revealPolicy = resolveRevealPolicy(trip);
+  const countryRevealed = isAdmin || isStageRevealed(revealPolicy, 'destination_country', trip.departure_time);
+  const cityRevealed = isAdmin || isStageRevealed(revealPolicy, 'destination_city', trip.departure_time);
 
   return (
     <div className="grid lg:grid-cols-3 gap-6">
@@ -522,22 +468,28 @@ function OverviewTab({
         <div className="card p-6">
           <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
             <FileText className="w-5 h-5 text-blue-400" />
-            Your Ticket
+            {tickets.length > 1 ? 'Your Tickets' : 'Your Ticket'}
           </h2>
-          {ticket ? (
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-white/60 text-sm mb-1">Status</p>
-                <p className="font-medium">
-                  {revealStatus === 'full'
-                    ? 'Fully visible'
-                    : revealStatus === 'qr_only'
-                    ? 'QR code available'
-                    : 'Still hidden'}
-                </p>
+          {tickets.length > 0 ? (
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-2">
+                {tickets.map(({ ticket, reveal_status }, index) => (
+                  <div key={ticket.id}>
+                    <p className="text-white/60 text-sm">
+                      {tickets.length > 1 ? ticket.label || `Ticket ${index + 1}` : 'Status'}
+                    </p>
+                    <p className="font-medium">
+                      {reveal_status === 'full'
+                        ? 'Fully visible'
+                        : reveal_status === 'qr_only'
+                        ? 'QR code available'
+                        : 'Still hidden'}
+                    </p>
+                  </div>
+                ))}
               </div>
-              <button onClick={onViewTicket} className="btn-primary text-sm">
-                View Ticket
+              <button onClick={onViewTicket} className="btn-primary text-sm shrink-0">
+                {tickets.length > 1 ? 'View Tickets' : 'View Ticket'}
               </button>
             </div>
           ) : (
@@ -547,6 +499,9 @@ function OverviewTab({
           )}
         </div>
 
+        {/* Destination teaser clues */}
+        <CluesFeed trip={trip} isAdmin={isAdmin} />
+
         {/* Announcements */}
         {pinnedMessages.length > 0 && (
           <div className="card p-6">
@@ -579,10 +534,8 @@ function OverviewTab({
             </h2>
             <div className="space-y-3">
               {upcomingSchedule.map((item) => {
-                const revealed = isAdmin || isActivityRevealed(item.start_time);
-                const timeUntil = new Date(item.start_time).getTime() - Date.now();
-                const hoursUntil = Math.floor(timeUntil / (1000 * 60 * 60));
-                const minsUntil = Math.floor((timeUntil % (1000 * 60 * 60)) / (1000 * 60));
+                const revealed = isAdmin || isStageRevealed(revealPolicy, 'schedule_item', item.start_time);
+                const timeUntil = getTimeUntilStage(revealPolicy, 'schedule_item', item.start_time);
 
                 return (
                   <div
@@ -597,9 +550,11 @@ function OverviewTab({
                           </div>
                           <p className="text-sm font-medium text-fuchsia-400">Surprise Activity!</p>
                           <p className="text-xs text-white/50 mt-1">
-                            Reveals in {hoursUntil}h {minsUntil}m
+                            Reveals in {timeUntil?.hours ?? 0}h {timeUntil?.minutes ?? 0}m
+                          </p>
+                          <p className="text-[10px] text-white/30 mt-1">
+                            {formatRevealOffset(revealPolicy.schedule_item)} before start time
                           </p>
-                          <p className="text-[10px] text-white/30 mt-1">1 hour before start time</p>
                         </div>
                       </div>
                     )}
@@ -664,14 +619,31 @@ function OverviewTab({
                 })}
               </span>
             </div>
+            {(trip.destination || trip.destination_country) && (
+              <div className="flex items-center gap-3">
+                <MapPin className="w-5 h-5 text-white/40" />
+                <span className="text-sm">
+                  {cityRevealed && trip.destination
+                    ? [trip.destination, trip.destination_country].filter(Boolean).join(', ')
+                    : countryRevealed && trip.destination_country
+                    ? `Somewhere in ${trip.destination_country}`
+                    : 'Destination: Surprise!'}
+                </span>
+              </div>
+            )}
           </div>
         </div>
 
+        {/* Planned costs vs budget */}
+        <BudgetPanel schedule={schedule} memberCount={memberCount} trip={trip} />
+
         {/* Weather Card */}
         <WeatherCard
           destination={trip.destination}
           departureDate={trip.departure_time}
           isAdmin={isAdmin}
+          isDestinationRevealed={cityRevealed}
+          cityRevealAt={getStageRevealTime(revealPolicy, 'destination_city', trip.departure_time).getTime()}
         />
       </div>
     </div>
@@ -679,7 +651,19 @@ function OverviewTab({
 }
 
 // Weather component using Open-Meteo API (free, no API key required)
-function WeatherCard({ destination, departureDate, isAdmin }: { destination?: string; departureDate: string; isAdmin: boolean }) {
+function WeatherCard({
+  destination,
+  departureDate,
+  isAdmin,
+  isDestinationRevealed,
+  cityRevealAt,
+}: {
+  destination?: string;
+  departureDate: string;
+  isAdmin: boolean;
+  isDestinationRevealed: boolean;
+  cityRevealAt: number;
+}) {
   const [weather, setWeather] = useState<{
     temperature: number;
     condition: string;
@@ -782,14 +766,12 @@ function WeatherCard({ destination, departureDate, isAdmin }: { destination?: st
     return conditions[code] || { text: 'Unknown', icon: '❓' };
   }
 
-  // Check if destination should be hidden
-  // - More than 3 hours: Show approximate weather for packing, hide destination
-  // - 1-3 hours: Show approximate weather, hide destination
-  // - Less than 1 hour: Full reveal with destination name
+  // Destination stays hidden until the trip's 'destination_city' reveal stage;
+  // before that only approximate weather is shown for packing
   const departureTime = new Date(departureDate).getTime();
   const now = Date.now();
   const hoursUntilDeparture = (departureTime - now) / (1000 * 60 * 60);
-  const isDestinationRevealed = isAdmin || hoursUntilDeparture <= 1;
+  const hoursUntilReveal = (cityRevealAt - now) / (1000 * 60 * 60);
   const showApproximateWeather = hoursUntilDeparture <= 72; // Show approximate weather up to 3 days before
 
   // Helper to approximate temperatures (+/- 3 degrees range)
@@ -884,9 +866,9 @@ function WeatherCard({ destination, departureDate, isAdmin }: { destination?: st
           </div>
 
           <p className="text-xs text-white/40 text-center">
-            🎁 Exact location reveals {hoursUntilDeparture > 24
-              ? `in ${Math.floor(hoursUntilDeparture / 24)} days`
-              : `in ${Math.floor(hoursUntilDeparture)} hours`}
+            🎁 Exact location reveals {hoursUntilReveal > 24
+              ? `in ${Math.floor(hoursUntilReveal / 24)} days`
+              : `in ${Math.floor(hoursUntilReveal)} hours`}
           </p>
         </div>
       </div>
@@ -987,28 +969,20 @@ function WeatherCard({ destination, departureDate, isAdmin }: { destination?: st
   );
 }
 
-interface MemberLocation {
-  user_id: string;
-  latitude: number;
-  longitude: number;
-  updated_at: string;
-  user?: { name: string };
-}
-
 // Debug logging for location sharing
 function locationLog(message: string, data?: unknown) {
   const timestamp = new Date().toISOString().split('T')[1].slice(0, 12);
   console.log(`[${timestamp}][Location] ${message}`, data !== undefined ? data : '');
 }
 
-function LocationTab({ tripId, members, tripEndTime }: { tripId: string; members: TripMember[]; tripEndTime?: string }) {
+function LocationTab({ tripId, tripEndTime }: { tripId: string; tripEndTime?: string }) {
   const { user } = useAuth();
+  const { members, locations, loadedAt, reload } = useTripData(tripId);
   const [sharing, setSharing] = useState(false);
-  const [locations, setLocations] = useState<MemberLocation[]>([]);
   const [myLocation, setMyLocation] = useState<{ lat: number; lng: number } | null>(null);
   const [error, setError] = useState('');
   const [debugMsg, setDebugMsg] = useState('');
-  const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
+  const lastUpdate = loadedAt.locations ? new Date(loadedAt.locations) : null;
   const [watchId, setWatchId] = useState<number | null>(null);
   const [gettingLocation, setGettingLocation] = useState(false);
 
@@ -1030,35 +1004,6 @@ function LocationTab({ tripId, members, tripEndTime }: { tripId: string; members
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isSharingDisabled]);
 
-  useEffect(() => {
-    locationLog('LocationTab mounted', { tripId, userId: user?.id });
-    loadLocations();
-
-    // Set up realtime subscription
-    const channel = supabase
-      .channel(`trip-locations-${tripId}`)
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'member_locations',
-          filter: `trip_id=eq.${tripId}`,
-        },
-        (payload) => {
-          locationLog('Realtime update received', payload);
-          loadLocations();
-        }
-      )
-      .subscribe((status) => {
-        locationLog('Subscription status', status);
-      });
-
-    return () => {
-      channel.unsubscribe();
-    };
-  }, [tripId]);
-
   // Cleanup geolocation watcher on unmount
   useEffect(() => {
     return () => {
@@ -1068,24 +1013,6 @@ function LocationTab({ tripId, members, tripEndTime }: { tripId: string; members
     };
   }, [watchId]);
 
-  async function loadLocations() {
-    locationLog('Loading locations from database...');
-    const { data, error: fetchError } = await supabase
-      .from('member_locations')
-      .select('*, user:users(name)')
-      .eq('trip_id', tripId);
-
-    if (fetchError) {
-      locationLog('Error loading locations', fetchError);
-      setDebugMsg(`Load error: ${fetchError.message}`);
-    } else if (data) {
-      locationLog('Locations loaded', { count: data.length, data });
-      setLocations(data);
-      setLastUpdate(new Date());
-      setDebugMsg(`Loaded ${data.length} locations`);
-    }
-  }
-
   async function startSharing() {
     locationLog('startSharing called', { userId: user?.id });
 
@@ -1117,21 +1044,14 @@ function LocationTab({ tripId, members, tripEndTime }: { tripId: string; members
         setDebugMsg(`Got location: ${latitude.toFixed(4)}, ${longitude.toFixed(4)} (accuracy: ${Math.round(accuracy)}m)`);
 
         // Update location in database
-        const { error: upsertError } = await supabase.from('member_locations').upsert({
-          trip_id: tripId,
-          user_id: user.id,
-          latitude,
-          longitude,
-          updated_at: new Date().toISOString(),
-        });
-
-        if (upsertError) {
-          locationLog('Error upserting location', upsertError);
-          setDebugMsg(`DB error: ${upsertError.message}`);
-        } else {
+        try {
+          await saveLocation(tripId, user.id, latitude, longitude);
           locationLog('Location saved to database');
           // Reload to get the updated list
-          loadLocations();
+          reload('locations');
+        } catch (upsertError) {
+          locationLog('Error upserting location', upsertError);
+          setDebugMsg(`DB error: ${(upsertError as Error).message}`);
         }
       },
       (err) => {
@@ -1178,17 +1098,12 @@ function LocationTab({ tripId, members, tripEndTime }: { tripId: string; members
 
     // Remove location from database
     if (user?.id) {
-      const { error: deleteError } = await supabase
-        .from('member_locations')
-        .delete()
-        .eq('trip_id', tripId)
-        .eq('user_id', user.id);
-
-      if (deleteError) {
-        locationLog('Error deleting location', deleteError);
-      } else {
+      try {
+        await clearLocation(tripId, user.id);
         locationLog('Location deleted from database');
-        loadLocations();
+        reload('locations');
+      } catch (deleteError) {
+        locationLog('Error deleting location', deleteError);
       }
     }
   }
@@ -1335,7 +1250,7 @@ function LocationTab({ tripId, members, tripEndTime }: { tripId: string; members
           <div className="flex items-center justify-between mt-4 text-sm text-white/40">
             <span>Last updated: {lastUpdate.toLocaleTimeString('en-US')}</span>
             <button
-              onClick={loadLocations}
+              onClick={() => reload('locations')}
               className="flex items-center gap-1 hover:text-white/60 transition-colors"
             >
               <RefreshCw className="w-4 h-4" />
@@ -1399,7 +1314,7 @@ function LocationTab({ tripId, members, tripEndTime }: { tripId: string; members
 
 function MediaTab({ tripId, isAdmin }: { tripId: string; isAdmin: boolean }) {
   const { user } = useAuth();
-  const [media, setMedia] = useState<MediaItem[]>([]);
+  const { media, addMedia } = useTripData(tripId);
   const [uploading, setUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState({ current: 0, total: 0 });
   const [uploadError, setUploadError] = useState('');
@@ -1410,7 +1325,7 @@ function MediaTab({ tripId, isAdmin }: { tripId: string; isAdmin: boolean }) {
   const [currentSlide, setCurrentSlide] = useState(0);
   const [editMode, setEditMode] = useState(false);
   const [selectedPhotos, setSelectedPhotos] = useState<string[]>([]);
-  const [enlargedItem, setEnlargedItem] = useState<MediaItem | null>(null);
+  const [enlargedItem, setEnlargedItem] = useState<TripMedia | null>(null);
   const [isPlaying, setIsPlaying] = useState(true);
   const [musicEnabled, setMusicEnabled] = useState(true);
   const [currentLocation, setCurrentLocation] = useState<{ lat: number; lng: number } | null>(null);
@@ -1434,10 +1349,6 @@ function MediaTab({ tripId, isAdmin }: { tripId: string; isAdmin: boolean }) {
     }
   }, []);
 
-  useEffect(() => {
-    loadMedia();
-  }, [tripId]);
-
   // Slideshow effect for aftermovie preview - now includes videos
   const photos = media.filter(m => m.type === 'photo');
   const videos = media.filter(m => m.type === 'video');
@@ -1517,24 +1428,10 @@ function MediaTab({ tripId, isAdmin }: { tripId: string; isAdmin: boolean }) {
     }
   }
 
-  async function loadMedia() {
-    console.log('[MediaTab] Loading media for trip:', tripId);
-    const { data, error } = await supabase
-      .from('trip_media')
-      .select('*')
-      .eq('trip_id', tripId)
-      .order('created_at', { ascending: false });
-
-    console.log('[MediaTab] Media loaded:', data?.length, 'Error:', error);
-
-    if (data) {
-      setMedia(data);
-    }
-  }
-
   async function handleUpload(e: React.ChangeEvent<HTMLInputElement>) {
     const files = e.target.files;
-    if (!files?.length) return;
+    if (!files?.length || !user) return;
+    const userId = user.id;
 
     setUploading(true);
     setUploadError('');
@@ -1546,50 +1443,13 @@ function MediaTab({ tripId, isAdmin }: { tripId: string; isAdmin: boolean }) {
     // Upload function for a single file
     async function uploadSingleFile(file: File, index: number): Promise<boolean> {
       try {
-        const fileExt = file.name.split('.').pop()?.toLowerCase();
-        const fileName = `${tripId}/${Date.now()}-${index}-${Math.random().toString(36).substr(2, 9)}.${fileExt}`;
-        const isVideo = file.type.startsWith('video/');
-
-        console.log('[MediaTab] Uploading file:', fileName, 'Type:', file.type);
-
-        // Upload to storage
-        const { error: storageError, data: uploadData } = await supabase.storage
-          .from('trip-media')
-          .upload(fileName, file, {
-            cacheControl: '3600',
-            upsert: false
-          });
-
-        if (storageError) {
-          console.error('[MediaTab] Storage upload error:', storageError);
-          return false;
-        }
-
-        console.log('[MediaTab] Storage upload success:', uploadData);
-
-        // Get public URL
-        const { data: { publicUrl } } = supabase.storage
-          .from('trip-media')
-          .getPublicUrl(fileName);
-
-        // Save to database with geolocation
-        const { error: dbError } = await supabase.from('trip_media').insert({
-          trip_id: tripId,
-          uploaded_by: user?.id,
-          file_url: publicUrl,
-          type: isVideo ? 'video' : 'photo',
-          latitude: currentLocation?.lat,
-          longitude: currentLocation?.lng,
-        });
-
-        if (dbError) {
-          console.error('[MediaTab] Database insert error:', dbError);
-          return false;
-        }
+        console.log('[MediaTab] Uploading file:', index, file.name, 'Type:', file.type);
 
+        // Upload to storage and save with geolocation, then show it right away
+        addMedia(await uploadTripMedia(tripId, userId, file, currentLocation));
         return true;
       } catch (err) {
-        console.error('[MediaTab] Unexpected upload error:', err);
+        console.error('[MediaTab] Upload error:', err);
         return false;
       }
     }
@@ -1617,7 +1477,6 @@ function MediaTab({ tripId, isAdmin }: { tripId: string; isAdmin: boolean }) {
       setUploadError(`${failCount} of ${fileArray.length} files failed to upload`);
     }
 
-    await loadMedia();
     setUploading(false);
     setUploadProgress({ current: 0, total: 0 });
     if (fileInputRef.current) {
@@ -2228,29 +2087,18 @@ function MediaTab({ tripId, isAdmin }: { tripId: string; isAdmin: boolean }) {
   );
 }
 
-type RouteItem = (MediaItem & { itemType: 'media'; lat?: number; lng?: number }) | (ScheduleItem & { itemType: 'schedule'; lat: number; lng: number });
+type RouteItem = (TripMedia & { itemType: 'media'; lat?: number; lng?: number }) | (ScheduleItem & { itemType: 'schedule'; lat: number; lng: number });
 
 // Route Tab - Shows trip route with schedule waypoints and media pins
-function RouteTab({ tripId, schedule, trip }: { tripId: string; schedule: ScheduleItem[]; trip: Trip | null }) {
-  const [media, setMedia] = useState<MediaItem[]>([]);
+function RouteTab({ tripId }: { tripId: string }) {
+  const { trip, schedule, media: allMedia } = useTripData(tripId);
   const [selectedItem, setSelectedItem] = useState<RouteItem | null>(null);
 
-  useEffect(() => {
-    loadMediaWithLocation();
-  }, [tripId]);
-
-  async function loadMediaWithLocation() {
-    const { data } = await supabase
-      .from('trip_media')
-      .select('*')
-      .eq('trip_id', tripId)
-      .not('latitude', 'is', null)
-      .order('created_at', { ascending: true });
-
-    if (data) {
-      setMedia(data);
-    }
-  }
+  // Media with a location, oldest first - the route in the order it was travelled
+  const media = React.useMemo(
+    () => allMedia.filter((item) => item.latitude != null).reverse(),
+    [allMedia]
+  );
 
   // Calculate trip progress (0-100%)
   const now = new Date();
@@ -2327,7 +2175,7 @@ function RouteTab({ tripId, schedule, trip }: { tripId: string; schedule: Schedu
                   start_time: item.itemType === 'schedule' ? (item as ScheduleItem).start_time : item.created_at,
                   isRevealed: true,
                   // Pass photo URL for media items to render photo markers
-                  photoUrl: item.itemType === 'media' ? (item as MediaItem).file_url : undefined,
+                  photoUrl: item.itemType === 'media' ? (item as TripMedia).file_url : undefined,
                 }))}
               showRoute={true}
               height="500px"
@@ -2380,7 +2228,7 @@ function RouteTab({ tripId, schedule, trip }: { tripId: string; schedule: Schedu
                     <div className="flex-shrink-0">
                       {item.itemType === 'media' ? (
                         <div className="w-12 h-12 rounded-lg overflow-hidden">
-                          <img src={(item as MediaItem).file_url} alt="" className="w-full h-full object-cover" />
+                          <img src={(item as TripMedia).file_url} alt="" className="w-full h-full object-cover" />
                         </div>
                       ) : (
                         <div className="w-12 h-12 rounded-lg bg-purple-500/20 flex items-center justify-center">
@@ -2398,7 +2246,7 @@ function RouteTab({ tripId, schedule, trip }: { tripId: string; schedule: Schedu
                         {new Date(
                           item.itemType === 'schedule'
                             ? (item as ScheduleItem).start_time
-                            : (item as MediaItem).created_at
+                            : (item as TripMedia).created_at
                         ).toLocaleString('en-US', {
                           month: 'short',
                           day: 'numeric',
@@ -2440,7 +2288,7 @@ function RouteTab({ tripId, schedule, trip }: { tripId: string; schedule: Schedu
 
             {selectedItem.itemType === 'media' && (
               <img
-                src={(selectedItem as MediaItem).file_url}
+                src={(selectedItem as TripMedia).file_url}
                 alt=""
                 className="w-full rounded-xl mb-4"
               />
@@ -2452,7 +2300,7 @@ function RouteTab({ tripId, schedule, trip }: { tripId: string; schedule: Schedu
                 {new Date(
                   selectedItem.itemType === 'schedule'
                     ? (selectedItem as ScheduleItem).start_time
-                    : (selectedItem as MediaItem).created_at
+                    : (selectedItem as TripMedia).created_at
                 ).toLocaleString('en-US', {
                   weekday: 'long',
                   month: 'long',
@@ -2467,10 +2315,10 @@ function RouteTab({ tripId, schedule, trip }: { tripId: string; schedule: Schedu
                   {(selectedItem as ScheduleItem).location}
                 </p>
               )}
-              {selectedItem.itemType === 'media' && (selectedItem as MediaItem).latitude && (
+              {selectedItem.itemType === 'media' && (selectedItem as TripMedia).latitude && (
                 <p className="text-white/60">
                   <MapPin className="w-4 h-4 inline mr-2" />
-                  {(selectedItem as MediaItem).latitude?.toFixed(4)}, {(selectedItem as MediaItem).longitude?.toFixed(4)}
+                  {(selectedItem as TripMedia).latitude?.toFixed(4)}, {(selectedItem as TripMedia).longitude?.toFixed(4)}
                 </p>
               )}
               {selectedItem.itemType === 'schedule' && (selectedItem as ScheduleItem).description && (
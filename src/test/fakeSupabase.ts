@@ -0,0 +1,327 @@
+// In-memory stand-in for the Supabase client in tests. It covers the PostgREST calls the data
+// access modules and api/ routes make (select, insert, update, upsert, delete, the common filters,
+// order, range, single, rpc) against plain arrays of rows. Joins in a select are ignored and RLS
+// doesn't apply; unique keys can be declared per table so duplicates fail with 23505 like Postgres,
+// and failNext() makes a single query fail.
+type Row = Record<string, unknown>;
+
+interface FakeError {
+  message: string;
+  code: string;
+  details: string | null;
+}
+
+interface FakeResult {
+  data: unknown;
+  error: FakeError | null;
+  count?: number | null;
+}
+
+export interface FakeSupabaseOptions {
+  // Column sets that must be unique per table, e.g. { payments: [['stripe_session_id']] }
+  unique?: Record<string, string[][]>;
+  rpc?: Record<string, (args: Record<string, unknown>, db: FakeSupabase) => unknown>;
+}
+
+type Filter = (row: Row) => boolean;
+
+type Operation = 'select' | 'insert' | 'update' | 'upsert' | 'delete';
+
+const noRows: FakeError = {
+  message: 'JSON object requested, multiple (or no) rows returned',
+  code: 'PGRST116',
+  details: 'The result contains 0 rows',
+};
+
+// Plain column names from a select list, or null for every column. Joins like sender:users(*)
+// are left out.
+function selectedColumns(columns: string): string[] | null {
+  const names = columns
+    .replace(/\w+:\w+\([^)]*\)/g, '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+  return names.includes('*') ? null : names;
+}
+
+class FakeQuery implements PromiseLike<FakeResult> {
+  private op: Operation = 'select';
+  private payload: Row[] = [];
+  private changes: Row = {};
+  private onConflict: string[] = [];
+  private ignoreDuplicates = false;
+  private filters: Filter[] = [];
+  private columns: string[] | null = null;
+  private returning = false;
+  private countRows = false;
+  private sort: { column: string; ascending: boolean }[] = [];
+  private window: { from: number; to: number } | null = null;
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  private db: FakeSupabase;
+  private table: string;
+
+  constructor(db: FakeSupabase, table: string) {
+    this.db = db;
+    this.table = table;
+  }
+
+  select(columns = '*', options?: { count?: 'exact' }) {
+    this.columns = selectedColumns(columns);
+    this.countRows = options?.count === 'exact';
+    if (this.op !== 'select') this.returning = true;
+    return this;
+  }
+
+  insert(rows: Row | Row[]) {
+    this.op = 'insert';
+    this.payload = Array.isArray(rows) ? rows : [rows];
+    return this;
+  }
+
+  upsert(rows: Row | Row[], options?: { onConflict?: string; ignoreDuplicates?: boolean }) {
+    this.op = 'upsert';
+    this.payload = Array.isArray(rows) ? rows : [rows];
+    this.onConflict = options?.onConflict?.split(',').map((column) => column.trim()) ?? ['id'];
+    this.ignoreDuplicates = options?.ignoreDuplicates ?? false;
+    return this;
+  }
+
+  update(changes: Row) {
+    this.op = 'update';
+    this.changes = changes;
+    return this;
+  }
+
+  delete() {
+    this.op = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    return this.where((row) => row[column] === value);
+  }
+
+  neq(column: string, value: unknown) {
+    return this.where((row) => row[column] !== value);
+  }
+
+  in(column: string, values: unknown[]) {
+    return this.where((row) => values.includes(row[column]));
+  }
+
+  is(column: string, value: null | boolean) {
+    return this.where((row) => (row[column] ?? null) === value);
+  }
+
+  not(column: string, operator: 'is', value: null) {
+    return this.where((row) => operator === 'is' && (row[column] ?? null) !== value);
+  }
+
+  gt(column: string, value: string | number) {
+    return this.where((row) => (row[column] as string | number) > value);
+  }
+
+  gte(column: string, value: string | number) {
+    return this.where((row) => (row[column] as string | number) >= value);
+  }
+
+  lt(column: string, value: string | number) {
+    return this.where((row) => (row[column] as string | number) < value);
+  }
+
+  lte(column: string, value: string | number) {
+    return this.where((row) => (row[column] as string | number) <= value);
+  }
+
+  order(column: string, options?: { ascending?: boolean }) {
+    this.sort.push({ column, ascending: options?.ascending ?? true });
+    return this;
+  }
+
+  limit(count: number) {
+    this.window = { from: 0, to: count - 1 };
+    return this;
+  }
+
+  range(from: number, to: number) {
+    this.window = { from, to };
+    return this;
+  }
+
+  single() {
+    this.mode = 'single';
+    return this;
+  }
+
+  maybeSingle() {
+    this.mode = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = FakeResult, TResult2 = never>(
+    onfulfilled?: ((value: FakeResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.run()).then(onfulfilled, onrejected);
+  }
+
+  private where(filter: Filter) {
+    this.filters.push(filter);
+    return this;
+  }
+
+  private matches(row: Row) {
+    return this.filters.every((filter) => filter(row));
+  }
+
+  private run(): FakeResult {
+    const failure = this.db.takeFailure(this.table, this.op);
+    if (failure) return { data: null, error: failure };
+
+    const rows = this.db.rows(this.table);
+    let affected: Row[];
+
+    switch (this.op) {
+      case 'select':
+        affected = rows.filter((row) => this.matches(row));
+        break;
+      case 'insert': {
+        const inserted = this.payload.map((row) => this.db.withDefaults(row));
+        const conflict = inserted.map((row, index) => this.db.conflict(this.table, row, inserted.slice(0, index))).find(Boolean);
+        if (conflict) return { data: null, error: conflict };
+        rows.push(...inserted);
+        affected = inserted;
+        break;
+      }
+      case 'upsert':
+        affected = [];
+        for (const row of this.payload) {
+          const existing = rows.find((other) => this.onConflict.every((column) => other[column] === row[column]));
+          if (existing) {
+            if (this.ignoreDuplicates) continue;
+            Object.assign(existing, row);
+            affected.push(existing);
+          } else {
+            const inserted = this.db.withDefaults(row);
+            const conflict = this.db.conflict(this.table, inserted);
+            if (conflict) return { data: null, error: conflict };
+            rows.push(inserted);
+            affected.push(inserted);
+          }
+        }
+        break;
+      case 'update':
+        affected = rows.filter((row) => this.matches(row));
+        for (const row of affected) {
+          const updated = { ...row, ...this.changes };
+          const conflict = this.db.conflict(this.table, updated, [], row);
+          if (conflict) return { data: null, error: conflict };
+        }
+        affected.forEach((row) => Object.assign(row, this.changes));
+        break;
+      case 'delete':
+        affected = rows.filter((row) => this.matches(row));
+        this.db.setRows(this.table, rows.filter((row) => !affected.includes(row)));
+        break;
+    }
+
+    if (this.op !== 'select' && !this.returning) return { data: null, error: null };
+    return this.shape(affected);
+  }
+
+  private shape(rows: Row[]): FakeResult {
+    const sorted = [...rows].sort((a, b) => {
+      for (const { column, ascending } of this.sort) {
+        const [x, y] = [a[column] as string | number, b[column] as string | number];
+        if (x !== y) return (x < y ? -1 : 1) * (ascending ? 1 : -1);
+      }
+      return 0;
+    });
+    const windowed = this.window ? sorted.slice(this.window.from, this.window.to + 1) : sorted;
+    const data = windowed.map((row) => (this.columns ? Object.fromEntries(this.columns.map((c) => [c, row[c]])) : { ...row }));
+    const count = this.countRows ? rows.length : null;
+
+    if (this.mode === 'many') return { data, error: null, count };
+    if (data.length > 1) return { data: null, error: { ...noRows, details: `The result contains ${data.length} rows` } };
+    if (data.length === 0) return this.mode === 'single' ? { data: null, error: noRows } : { data: null, error: null };
+    return { data: data[0], error: null, count };
+  }
+}
+
+export class FakeSupabase {
+  private tables: Record<string, Row[]> = {};
+  private failures: { table: string; op: Operation; error: FakeError }[] = [];
+  private options: FakeSupabaseOptions;
+
+  constructor(options: FakeSupabaseOptions = {}) {
+    this.options = options;
+  }
+
+  from(table: string) {
+    return new FakeQuery(this, table);
+  }
+
+  async rpc(name: string, args: Record<string, unknown> = {}): Promise<FakeResult> {
+    const fn = this.options.rpc?.[name];
+    if (!fn) return { data: null, error: { message: `function ${name} does not exist`, code: '42883', details: null } };
+
+    try {
+      return { data: fn(args, this) ?? null, error: null };
+    } catch (err) {
+      const error = err as Partial<FakeError>;
+      return { data: null, error: { message: error.message ?? String(err), code: error.code ?? 'P0001', details: null } };
+    }
+  }
+
+  // The table's rows, live: tests can seed and inspect them directly
+  rows(table: string): Row[] {
+    return (this.tables[table] ??= []);
+  }
+
+  setRows(table: string, rows: Row[]) {
+    this.tables[table] = rows;
+  }
+
+  seed(table: string, rows: Row[]) {
+    this.rows(table).push(...rows.map((row) => this.withDefaults(row)));
+  }
+
+  reset() {
+    this.tables = {};
+    this.failures = [];
+  }
+
+  // Makes the next `op` on the table fail with the error, e.g. to test what happens halfway a change
+  failNext(table: string, op: Operation, error: Partial<FakeError> = {}) {
+    this.failures.push({ table, op, error: { message: `${op} on ${table} failed`, code: 'XX000', details: null, ...error } });
+  }
+
+  takeFailure(table: string, op: Operation): FakeError | null {
+    const index = this.failures.findIndex((failure) => failure.table === table && failure.op === op);
+    if (index === -1) return null;
+    return this.failures.splice(index, 1)[0].error;
+  }
+
+  withDefaults(row: Row): Row {
+    return { id: crypto.randomUUID(), created_at: new Date().toISOString(), ...row };
+  }
+
+  // The unique violation the row would cause, ignoring `self` (the row being updated)
+  conflict(table: string, row: Row, pending: Row[] = [], self?: Row): FakeError | null {
+    const keys = [['id'], ...(this.options.unique?.[table] ?? [])];
+    const others = [...this.rows(table), ...pending].filter((other) => other !== self);
+
+    for (const columns of keys) {
+      if (columns.some((column) => row[column] == null)) continue;
+      if (others.some((other) => columns.every((column) => other[column] === row[column]))) {
+        return {
+          message: `duplicate key value violates unique constraint "${table}_${columns.join('_')}_key"`,
+          code: '23505',
+          details: `Key (${columns.join(', ')}) already exists.`,
+        };
+      }
+    }
+    return null;
+  }
+}
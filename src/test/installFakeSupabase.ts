@@ -0,0 +1,11 @@
+// Points the data-access modules in src/lib at a fresh in-memory database, see setSupabaseClient
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { setSupabaseClient } from '../lib/supabase';
+import { FakeSupabase, type FakeSupabaseOptions } from './fakeSupabase';
+import type { Database } from '../types/database';
+
+export function installFakeSupabase(options?: FakeSupabaseOptions): FakeSupabase {
+  const db = new FakeSupabase(options);
+  setSupabaseClient(db as unknown as SupabaseClient<Database>);
+  return db;
+}
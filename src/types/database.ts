@@ -0,0 +1,1170 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      after_movies: {
+        Row: {
+          created_at: string | null
+          created_by: string
+          duration: number
+          id: string
+          music_track: string | null
+          status: string | null
+          thumbnail_url: string | null
+          title: string
+          trip_id: string
+          video_url: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by: string
+          duration: number
+          id?: string
+          music_track?: string | null
+          status?: string | null
+          thumbnail_url?: string | null
+          title: string
+          trip_id: string
+          video_url?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string
+          duration?: number
+          id?: string
+          music_track?: string | null
+          status?: string | null
+          thumbnail_url?: string | null
+          title?: string
+          trip_id?: string
+          video_url?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "after_movies_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "after_movies_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      calendar_tokens: {
+        Row: {
+          created_at: string | null
+          token: string
+          trip_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          token?: string
+          trip_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          token?: string
+          trip_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_tokens_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "calendar_tokens_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      day_templates: {
+        Row: {
+          created_at: string | null
+          id: string
+          items: Json
+          name: string
+          owner_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          items?: Json
+          name: string
+          owner_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          items?: Json
+          name?: string
+          owner_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "day_templates_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      member_locations: {
+        Row: {
+          accuracy: number | null
+          id: string
+          latitude: number
+          longitude: number
+          trip_id: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          accuracy?: number | null
+          id?: string
+          latitude: number
+          longitude: number
+          trip_id: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          accuracy?: number | null
+          id?: string
+          latitude?: number
+          longitude?: number
+          trip_id?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "member_locations_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "member_locations_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          amount_total: number | null
+          claimed_at: string | null
+          consumed_at: string | null
+          currency: string | null
+          stripe_session_id: string
+          trip_id: string | null
+          user_id: string
+        }
+        Insert: {
+          amount_total?: number | null
+          claimed_at?: string | null
+          consumed_at?: string | null
+          currency?: string | null
+          stripe_session_id: string
+          trip_id?: string | null
+          user_id: string
+        }
+        Update: {
+          amount_total?: number | null
+          claimed_at?: string | null
+          consumed_at?: string | null
+          currency?: string | null
+          stripe_session_id?: string
+          trip_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: true
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pending_trips: {
+        Row: {
+          created_at: string | null
+          departure_time: string
+          description: string | null
+          group_name: string | null
+          name: string
+          return_time: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          departure_time: string
+          description?: string | null
+          group_name?: string | null
+          name: string
+          return_time?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          departure_time?: string
+          description?: string | null
+          group_name?: string | null
+          name?: string
+          return_time?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pending_trips_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      poll_votes: {
+        Row: {
+          choices: Json
+          created_at: string | null
+          id: string
+          poll_id: string
+          user_id: string
+        }
+        Insert: {
+          choices?: Json
+          created_at?: string | null
+          id?: string
+          poll_id: string
+          user_id: string
+        }
+        Update: {
+          choices?: Json
+          created_at?: string | null
+          id?: string
+          poll_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "poll_votes_poll_id_fkey"
+            columns: ["poll_id"]
+            isOneToOne: false
+            referencedRelation: "trip_polls"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "poll_votes_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      schedule_audience_changes: {
+        Row: {
+          changed_at: string
+          trip_id: string
+        }
+        Insert: {
+          changed_at?: string
+          trip_id: string
+        }
+        Update: {
+          changed_at?: string
+          trip_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "schedule_audience_changes_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: true
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      schedule_items: {
+        Row: {
+          audience_subgroup_ids: string[] | null
+          audience_user_ids: string[] | null
+          booking_url: string | null
+          capacity: number | null
+          contact_info: string | null
+          created_at: string | null
+          currency: string | null
+          description: string | null
+          end_time: string | null
+          estimated_cost: number | null
+          id: string
+          is_transport: boolean | null
+          location: string | null
+          location_url: string | null
+          recurrence: Json | null
+          recurrence_exceptions: Json | null
+          reservation_code: string | null
+          rsvp_enabled: boolean | null
+          start_time: string
+          title: string
+          trip_id: string
+          type: string
+        }
+        Insert: {
+          audience_subgroup_ids?: string[] | null
+          audience_user_ids?: string[] | null
+          booking_url?: string | null
+          capacity?: number | null
+          contact_info?: string | null
+          created_at?: string | null
+          currency?: string | null
+          description?: string | null
+          end_time?: string | null
+          estimated_cost?: number | null
+          id?: string
+          is_transport?: boolean | null
+          location?: string | null
+          location_url?: string | null
+          recurrence?: Json | null
+          recurrence_exceptions?: Json | null
+          reservation_code?: string | null
+          rsvp_enabled?: boolean | null
+          start_time: string
+          title: string
+          trip_id: string
+          type: string
+        }
+        Update: {
+          audience_subgroup_ids?: string[] | null
+          audience_user_ids?: string[] | null
+          booking_url?: string | null
+          capacity?: number | null
+          contact_info?: string | null
+          created_at?: string | null
+          currency?: string | null
+          description?: string | null
+          end_time?: string | null
+          estimated_cost?: number | null
+          id?: string
+          is_transport?: boolean | null
+          location?: string | null
+          location_url?: string | null
+          recurrence?: Json | null
+          recurrence_exceptions?: Json | null
+          reservation_code?: string | null
+          rsvp_enabled?: boolean | null
+          start_time?: string
+          title?: string
+          trip_id?: string
+          type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "schedule_items_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      schedule_rsvps: {
+        Row: {
+          id: string
+          responded_at: string | null
+          schedule_item_id: string
+          status: string
+          trip_id: string
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          responded_at?: string | null
+          schedule_item_id: string
+          status: string
+          trip_id: string
+          user_id: string
+        }
+        Update: {
+          id?: string
+          responded_at?: string | null
+          schedule_item_id?: string
+          status?: string
+          trip_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "schedule_rsvps_schedule_item_id_fkey"
+            columns: ["schedule_item_id"]
+            isOneToOne: false
+            referencedRelation: "schedule_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "schedule_rsvps_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "schedule_rsvps_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ticket_changes: {
+        Row: {
+          changed_at: string
+          member_id: string
+          trip_id: string
+        }
+        Insert: {
+          changed_at?: string
+          member_id: string
+          trip_id: string
+        }
+        Update: {
+          changed_at?: string
+          member_id?: string
+          trip_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ticket_changes_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_changes_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tickets: {
+        Row: {
+          arrival_location: string | null
+          arrival_time: string | null
+          booking_reference: string | null
+          carrier: string | null
+          created_at: string | null
+          departure_location: string | null
+          departure_time: string | null
+          event_name: string | null
+          flight_number: string | null
+          full_ticket_url: string | null
+          gate: string | null
+          id: string
+          label: string | null
+          member_id: string
+          qr_code_url: string | null
+          seat_number: string | null
+          trip_id: string
+          type: string
+          venue: string | null
+        }
+        Insert: {
+          arrival_location?: string | null
+          arrival_time?: string | null
+          booking_reference?: string | null
+          carrier?: string | null
+          created_at?: string | null
+          departure_location?: string | null
+          departure_time?: string | null
+          event_name?: string | null
+          flight_number?: string | null
+          full_ticket_url?: string | null
+          gate?: string | null
+          id?: string
+          label?: string | null
+          member_id: string
+          qr_code_url?: string | null
+          seat_number?: string | null
+          trip_id: string
+          type: string
+          venue?: string | null
+        }
+        Update: {
+          arrival_location?: string | null
+          arrival_time?: string | null
+          booking_reference?: string | null
+          carrier?: string | null
+          created_at?: string | null
+          departure_location?: string | null
+          departure_time?: string | null
+          event_name?: string | null
+          flight_number?: string | null
+          full_ticket_url?: string | null
+          gate?: string | null
+          id?: string
+          label?: string | null
+          member_id?: string
+          qr_code_url?: string | null
+          seat_number?: string | null
+          trip_id?: string
+          type?: string
+          venue?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tickets_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tickets_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trip_clues: {
+        Row: {
+          content: string
+          created_at: string | null
+          id: string
+          image_url: string | null
+          trip_id: string
+          type: string
+          unlock_minutes_before: number
+        }
+        Insert: {
+          content: string
+          created_at?: string | null
+          id?: string
+          image_url?: string | null
+          trip_id: string
+          type: string
+          unlock_minutes_before: number
+        }
+        Update: {
+          content?: string
+          created_at?: string | null
+          id?: string
+          image_url?: string | null
+          trip_id?: string
+          type?: string
+          unlock_minutes_before?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trip_clues_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trip_documents: {
+        Row: {
+          created_at: string | null
+          file_url: string
+          id: string
+          is_private: boolean | null
+          name: string
+          trip_id: string
+          type: string
+          uploaded_by: string
+        }
+        Insert: {
+          created_at?: string | null
+          file_url: string
+          id?: string
+          is_private?: boolean | null
+          name: string
+          trip_id: string
+          type: string
+          uploaded_by: string
+        }
+        Update: {
+          created_at?: string | null
+          file_url?: string
+          id?: string
+          is_private?: boolean | null
+          name?: string
+          trip_id?: string
+          type?: string
+          uploaded_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trip_documents_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "trip_documents_uploaded_by_fkey"
+            columns: ["uploaded_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trip_expenses: {
+        Row: {
+          amount: number
+          created_at: string | null
+          created_by: string
+          currency: string
+          description: string
+          id: string
+          paid_by: string
+          participants: Json
+          schedule_item_id: string | null
+          spent_at: string | null
+          split_mode: string
+          trip_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          created_by: string
+          currency?: string
+          description: string
+          id?: string
+          paid_by: string
+          participants?: Json
+          schedule_item_id?: string | null
+          spent_at?: string | null
+          split_mode?: string
+          trip_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          created_by?: string
+          currency?: string
+          description?: string
+          id?: string
+          paid_by?: string
+          participants?: Json
+          schedule_item_id?: string | null
+          spent_at?: string | null
+          split_mode?: string
+          trip_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trip_expenses_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "trip_expenses_paid_by_fkey"
+            columns: ["paid_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "trip_expenses_schedule_item_id_fkey"
+            columns: ["schedule_item_id"]
+            isOneToOne: false
+            referencedRelation: "schedule_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "trip_expenses_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trip_media: {
+        Row: {
+          caption: string | null
+          created_at: string | null
+          file_url: string
+          id: string
+          latitude: number | null
+          longitude: number | null
+          taken_at: string | null
+          thumbnail_url: string | null
+          trip_id: string
+          type: string
+          uploaded_by: string
+        }
+        Insert: {
+          caption?: string | null
+          created_at?: string | null
+          file_url: string
+          id?: string
+          latitude?: number | null
+          longitude?: number | null
+          taken_at?: string | null
+          thumbnail_url?: string | null
+          trip_id: string
+          type: string
+          uploaded_by: string
+        }
+        Update: {
+          caption?: string | null
+          created_at?: string | null
+          file_url?: string
+          id?: string
+          latitude?: number | null
+          longitude?: number | null
+          taken_at?: string | null
+          thumbnail_url?: string | null
+          trip_id?: string
+          type?: string
+          uploaded_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trip_media_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "trip_media_uploaded_by_fkey"
+            columns: ["uploaded_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trip_members: {
+        Row: {
+          id: string
+          joined_at: string | null
+          role: string | null
+          trip_id: string
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          joined_at?: string | null
+          role?: string | null
+          trip_id: string
+          user_id: string
+        }
+        Update: {
+          id?: string
+          joined_at?: string | null
+          role?: string | null
+          trip_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trip_members_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "trip_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trip_messages: {
+        Row: {
+          client_id: string | null
+          content: string
+          created_at: string | null
+          id: string
+          is_pinned: boolean | null
+          media_url: string | null
+          poll_id: string | null
+          sender_id: string
+          trip_id: string
+          type: string
+        }
+        Insert: {
+          client_id?: string | null
+          content: string
+          created_at?: string | null
+          id?: string
+          is_pinned?: boolean | null
+          media_url?: string | null
+          poll_id?: string | null
+          sender_id: string
+          trip_id: string
+          type: string
+        }
+        Update: {
+          client_id?: string | null
+          content?: string
+          created_at?: string | null
+          id?: string
+          is_pinned?: boolean | null
+          media_url?: string | null
+          poll_id?: string | null
+          sender_id?: string
+          trip_id?: string
+          type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trip_messages_sender_id_fkey"
+            columns: ["sender_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "trip_messages_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trip_polls: {
+        Row: {
+          created_at: string | null
+          created_by: string
+          id: string
+          mode: string
+          options: Json
+          question: string
+          scheduled_option_id: string | null
+          status: string
+          trip_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          created_by: string
+          id?: string
+          mode?: string
+          options?: Json
+          question: string
+          scheduled_option_id?: string | null
+          status?: string
+          trip_id: string
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string
+          id?: string
+          mode?: string
+          options?: Json
+          question?: string
+          scheduled_option_id?: string | null
+          status?: string
+          trip_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trip_polls_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "trip_polls_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trip_subgroups: {
+        Row: {
+          color: string
+          created_at: string | null
+          id: string
+          member_ids: string[]
+          name: string
+          trip_id: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string | null
+          id?: string
+          member_ids?: string[]
+          name: string
+          trip_id: string
+        }
+        Update: {
+          color?: string
+          created_at?: string | null
+          id?: string
+          member_ids?: string[]
+          name?: string
+          trip_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trip_subgroups_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trips: {
+        Row: {
+          admin_id: string
+          budget_amount: number | null
+          budget_currency: string | null
+          cover_image_url: string | null
+          created_at: string | null
+          departure_time: string
+          description: string | null
+          destination: string | null
+          destination_country: string | null
+          group_name: string | null
+          id: string
+          lobby_code: string
+          max_members: number | null
+          name: string
+          plan_id: string | null
+          return_time: string | null
+          reveal_policy: Json | null
+          status: string | null
+          stripe_session_id: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          admin_id: string
+          budget_amount?: number | null
+          budget_currency?: string | null
+          cover_image_url?: string | null
+          created_at?: string | null
+          departure_time: string
+          description?: string | null
+          destination?: string | null
+          destination_country?: string | null
+          group_name?: string | null
+          id?: string
+          lobby_code: string
+          max_members?: number | null
+          name: string
+          plan_id?: string | null
+          return_time?: string | null
+          reveal_policy?: Json | null
+          status?: string | null
+          stripe_session_id?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          admin_id?: string
+          budget_amount?: number | null
+          budget_currency?: string | null
+          cover_image_url?: string | null
+          created_at?: string | null
+          departure_time?: string
+          description?: string | null
+          destination?: string | null
+          destination_country?: string | null
+          group_name?: string | null
+          id?: string
+          lobby_code?: string
+          max_members?: number | null
+          name?: string
+          plan_id?: string | null
+          return_time?: string | null
+          reveal_policy?: Json | null
+          status?: string | null
+          stripe_session_id?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trips_admin_id_fkey"
+            columns: ["admin_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      users: {
+        Row: {
+          avatar_url: string | null
+          created_at: string | null
+          email: string
+          id: string
+          name: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string | null
+          email: string
+          id: string
+          name: string
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string | null
+          email?: string
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      get_trip_clue_schedule: {
+        Args: { p_trip_id: string }
+        Returns: {
+          id: string
+          unlock_at: string
+        }[]
+      }
+      join_trip: { Args: { p_lobby_code: string }; Returns: string }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database[Extract<keyof Database, "public">]
+
+export type Tables<
+  PublicTableNameOrOptions extends
+    | keyof (PublicSchema["Tables"] & PublicSchema["Views"])
+    | { schema: keyof Database },
+  TableName extends PublicTableNameOrOptions extends { schema: keyof Database }
+    ? keyof (Database[PublicTableNameOrOptions["schema"]]["Tables"] &
+        Database[PublicTableNameOrOptions["schema"]]["Views"])
+    : never = never,
+> = PublicTableNameOrOptions extends { schema: keyof Database }
+  ? (Database[PublicTableNameOrOptions["schema"]]["Tables"] &
+      Database[PublicTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : PublicTableNameOrOptions extends keyof (PublicSchema["Tables"] &
+        PublicSchema["Views"])
+    ? (PublicSchema["Tables"] &
+        PublicSchema["Views"])[PublicTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  PublicTableNameOrOptions extends
+    | keyof PublicSchema["Tables"]
+    | { schema: keyof Database },
+  TableName extends PublicTableNameOrOptions extends { schema: keyof Database }
+    ? keyof Database[PublicTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = PublicTableNameOrOptions extends { schema: keyof Database }
+  ? Database[PublicTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : PublicTableNameOrOptions extends keyof PublicSchema["Tables"]
+    ? PublicSchema["Tables"][PublicTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  PublicTableNameOrOptions extends
+    | keyof PublicSchema["Tables"]
+    | { schema: keyof Database },
+  TableName extends PublicTableNameOrOptions extends { schema: keyof Database }
+    ? keyof Database[PublicTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = PublicTableNameOrOptions extends { schema: keyof Database }
+  ? Database[PublicTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : PublicTableNameOrOptions extends keyof PublicSchema["Tables"]
+    ? PublicSchema["Tables"][PublicTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
+
+export type Enums<
+  PublicEnumNameOrOptions extends
+    | keyof PublicSchema["Enums"]
+    | { schema: keyof Database },
+  EnumName extends PublicEnumNameOrOptions extends { schema: keyof Database }
+    ? keyof Database[PublicEnumNameOrOptions["schema"]]["Enums"]
+    : never = never,
+> = PublicEnumNameOrOptions extends { schema: keyof Database }
+  ? Database[PublicEnumNameOrOptions["schema"]]["Enums"][EnumName]
+  : PublicEnumNameOrOptions extends keyof PublicSchema["Enums"]
+    ? PublicSchema["Enums"][PublicEnumNameOrOptions]
+    : never
@@ -18,8 +18,15 @@ export interface Trip {
   departure_time: string;
   return_time?: string; // End date of the trip
   destination?: string; // Hidden until reveal time
+  destination_country?: string; // Revealed before the destination itself
   cover_image_url?: string;
+  reveal_policy?: Partial<RevealPolicy>; // Missing stages fall back to DEFAULT_REVEAL_POLICY
   status: 'planning' | 'active' | 'completed';
+  stripe_session_id?: string; // Checkout session that paid for the trip
+  plan_id?: PlanId;
+  max_members?: number; // Group size tier that was paid for
+  budget_amount?: number; // Admin-set budget for the whole group
+  budget_currency?: string; // ISO 4217, defaults to EUR
   created_at: string;
   updated_at: string;
 }
@@ -34,6 +41,28 @@ export interface TripMember {
   user?: User;
 }
 
+export type RsvpStatus = 'going' | 'maybe' | 'not_going';
+
+// One member's answer for a schedule item, recurring items share one RSVP for the series
+export interface ScheduleRsvp {
+  id: string;
+  trip_id: string;
+  schedule_item_id: string;
+  user_id: string;
+  status: RsvpStatus;
+  responded_at: string; // Last change of status, the place in line for the waitlist
+}
+
+// Named set of members that can be given their own schedule items, e.g. "Surfers"
+export interface TripSubgroup {
+  id: string;
+  trip_id: string;
+  name: string;
+  color: string; // Key of subgroupColors in src/components/scheduleTypes.tsx
+  member_ids: string[]; // User ids
+  created_at: string;
+}
+
 // Ticket types
 export interface Ticket {
   id: string;
@@ -57,6 +86,23 @@ export interface Ticket {
   created_at: string;
 }
 
+// Destination teaser clues - members can only read a clue once it has unlocked (enforced by RLS)
+export interface TripClue {
+  id: string;
+  trip_id: string;
+  type: 'text' | 'image' | 'emoji' | 'weather';
+  content: string; // Clue text, emoji, or weather hint
+  image_url?: string; // For image clues
+  unlock_minutes_before: number; // Minutes before departure at which the clue unlocks
+  created_at: string;
+}
+
+// Unlock schedule of all clues in a trip, without their content (get_trip_clue_schedule RPC)
+export interface TripClueSlot {
+  id: string;
+  unlock_at: string;
+}
+
 // Document types
 export interface TripDocument {
   id: string;
@@ -83,11 +129,79 @@ export interface ScheduleItem {
   booking_url?: string;
   reservation_code?: string;
   contact_info?: string;
-  estimated_cost?: number;
+  estimated_cost?: number; // Total for the whole group
+  currency?: string; // ISO 4217 of estimated_cost, defaults to EUR
   is_transport?: boolean; // For flights, trains, buses
+  recurrence?: ScheduleRecurrence | null;
+  recurrence_exceptions?: string[]; // Days (YYYY-MM-DD) taken out of the series
+  audience_subgroup_ids?: string[] | null; // With audience_user_ids: who it is for, everyone when both are empty
+  audience_user_ids?: string[] | null;
+  rsvp_enabled?: boolean; // Members say whether they're coming, see src/lib/rsvp.ts
+  capacity?: number | null; // Places for RSVP items, the rest goes on the waitlist
+  series_id?: string; // Set on occurrences expanded from a recurring item, never stored
+  occurrence_date?: string; // Day (YYYY-MM-DD) of such an occurrence
+  created_at: string;
+}
+
+// Repeat rule of a recurring schedule item, see src/lib/recurrence.ts
+export interface ScheduleRecurrence {
+  days?: number[]; // Weekdays it repeats on (0 = Sunday), every day when empty
+  until?: string; // Last day (YYYY-MM-DD), the end of the trip when not set
+}
+
+// Reusable day programme an admin can stamp onto any trip day
+export interface DayTemplateItem {
+  title: string;
+  type: ScheduleItem['type'];
+  start: string; // HH:mm
+  end?: string; // HH:mm, the next day when before start
+  description?: string;
+  location?: string;
+  location_url?: string;
+  estimated_cost?: number;
+  currency?: string;
+}
+
+export interface DayTemplate {
+  id: string;
+  owner_id: string;
+  name: string;
+  items: DayTemplateItem[];
   created_at: string;
 }
 
+// Expense types
+export type ExpenseSplitMode = 'equal' | 'shares' | 'exact';
+
+export interface ExpenseParticipant {
+  user_id: string;
+  share?: number; // Weight, for 'shares' splits
+  amount?: number; // Exact amount owed, for 'exact' splits
+}
+
+export interface TripExpense {
+  id: string;
+  trip_id: string;
+  description: string;
+  amount: number;
+  currency: string; // ISO 4217, e.g. "EUR"
+  paid_by: string;
+  split_mode: ExpenseSplitMode;
+  participants: ExpenseParticipant[];
+  schedule_item_id?: string; // Set when the expense was created from a schedule item's cost
+  created_by: string;
+  spent_at: string;
+  created_at: string;
+}
+
+// One payment that settles (part of) a debt between two members
+export interface ExpenseTransfer {
+  from: string;
+  to: string;
+  amount: number;
+  currency: string;
+}
+
 // Message/Notification types
 export interface TripMessage {
   id: string;
@@ -97,10 +211,50 @@ export interface TripMessage {
   type: 'announcement' | 'update' | 'reminder' | 'alert';
   is_pinned: boolean;
   media_url?: string;
+  poll_id?: string; // Shown as the poll instead of the text
   created_at: string;
   sender?: User;
 }
 
+// Poll types
+export type PollMode = 'single' | 'multiple' | 'ranked';
+
+export interface PollOption {
+  id: string;
+  title: string;
+  description?: string;
+  // Schedule item the option becomes when it wins, e.g. from an activity suggestion
+  item?: {
+    type: ScheduleItem['type'];
+    start_time?: string;
+    end_time?: string;
+    description?: string;
+    location?: string;
+    booking_url?: string;
+    estimated_cost?: number;
+  };
+}
+
+export interface TripPoll {
+  id: string;
+  trip_id: string;
+  created_by: string;
+  question: string;
+  mode: PollMode;
+  options: PollOption[];
+  status: 'open' | 'closed';
+  scheduled_option_id?: string; // Set once that option has been added to the schedule
+  created_at: string;
+}
+
+export interface PollVote {
+  id: string;
+  poll_id: string;
+  user_id: string;
+  choices: string[]; // Option ids, most preferred first for ranked polls
+  created_at: string;
+}
+
 // Location sharing types
 export interface MemberLocation {
   id: string;
@@ -123,6 +277,8 @@ export interface TripMedia {
   thumbnail_url?: string;
   caption?: string;
   taken_at?: string;
+  latitude?: number; // Where the uploader was, for the route map
+  longitude?: number;
   created_at: string;
   uploader?: User;
 }
@@ -163,16 +319,44 @@ export interface WeatherForecast {
 // Reveal status helper type
 export type TicketRevealStatus = 'hidden' | 'qr_only' | 'full';
 
-// Helper function to determine ticket reveal status
-export function getTicketRevealStatus(departureTime: string): TicketRevealStatus {
-  const now = new Date();
-  const departure = new Date(departureTime);
-  const hoursUntilDeparture = (departure.getTime() - now.getTime()) / (1000 * 60 * 60);
-
-  if (hoursUntilDeparture <= 1) {
-    return 'full';
-  } else if (hoursUntilDeparture <= 3) {
-    return 'qr_only';
-  }
-  return 'hidden';
+// Ticket as returned by /api/ticket-reveal - fields not yet revealed are left out
+export interface RevealedTicket {
+  ticket: Ticket;
+  reveal_status: TicketRevealStatus;
+  next_reveal_at: string | null; // When the next stage unlocks, null once fully revealed
+}
+
+// Reveal stages an organiser can schedule. Trip-level stages count back from the trip
+// departure, 'schedule_item' counts back from each item's own start time.
+export type RevealStage =
+  | 'destination_country'
+  | 'destination_city'
+  | 'ticket_qr'
+  | 'ticket_full'
+  | 'schedule_item';
+
+// Minutes before the anchor time at which each stage unlocks
+export type RevealPolicy = Record<RevealStage, number>;
+
+// Pricing types - plans are configured server-side in api/_lib/plans.ts
+export type PlanId = 'small_group' | 'large_group' | 'festival_pack';
+export type PlanCurrency = 'eur' | 'usd' | 'gbp';
+
+export interface PlanTier {
+  max_members: number;
+  amount: number; // In the smallest currency unit (cents)
+}
+
+export interface PricingPlan {
+  id: PlanId;
+  name: string;
+  description: string;
+  features: string[];
+  tiers: PlanTier[]; // Ascending by max_members
+}
+
+// Response of /api/plans - tier amounts are already in the requested currency
+export interface PlansResponse {
+  currency: PlanCurrency;
+  plans: PricingPlan[];
 }
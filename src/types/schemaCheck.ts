@@ -0,0 +1,64 @@
+// Compile-time check that the interfaces in ./index.ts match the database. database.ts is
+// generated from the migrations (npm run db:types); when an interface names a field the table
+// doesn't have, or types it differently, the type-check fails on SchemaCheck below, naming
+// the table and the field.
+import type { Database } from './database';
+import type {
+  AfterMovie,
+  DayTemplate,
+  MemberLocation,
+  PollVote,
+  ScheduleItem,
+  ScheduleRsvp,
+  Ticket,
+  Trip,
+  TripClue,
+  TripDocument,
+  TripExpense,
+  TripMedia,
+  TripMember,
+  TripMessage,
+  TripPoll,
+  TripSubgroup,
+  User,
+} from './index';
+
+type TableName = keyof Database['public']['Tables'];
+type Row<T extends TableName> = Database['public']['Tables'][T]['Row'];
+
+// Enums are plain text columns and JSON columns hold any object, so only the kind is compared
+type Kind<T> = [NonNullable<T>] extends [string]
+  ? 'string'
+  : [NonNullable<T>] extends [number]
+    ? 'number'
+    : [NonNullable<T>] extends [boolean]
+      ? 'boolean'
+      : 'json';
+
+// Fields of the interface without a column, or with a column of another kind
+type Drift<I, T extends TableName> =
+  | Exclude<keyof I, keyof Row<T>>
+  | { [K in keyof I & keyof Row<T>]: Kind<I[K]> extends Kind<Row<T>[K]> ? never : K }[keyof I & keyof Row<T>];
+
+type AssertNoDrift<T extends { [Table in TableName]?: never }> = T;
+
+// Joined relations (user, sender, ...) and fields that are never stored are left out
+export type SchemaCheck = AssertNoDrift<{
+  users: Drift<User, 'users'>;
+  trips: Drift<Trip, 'trips'>;
+  trip_members: Drift<Omit<TripMember, 'user'>, 'trip_members'>;
+  tickets: Drift<Ticket, 'tickets'>;
+  trip_documents: Drift<TripDocument, 'trip_documents'>;
+  schedule_items: Drift<Omit<ScheduleItem, 'series_id' | 'occurrence_date'>, 'schedule_items'>;
+  trip_messages: Drift<Omit<TripMessage, 'sender'>, 'trip_messages'>;
+  member_locations: Drift<Omit<MemberLocation, 'user'>, 'member_locations'>;
+  trip_media: Drift<Omit<TripMedia, 'uploader'>, 'trip_media'>;
+  after_movies: Drift<AfterMovie, 'after_movies'>;
+  trip_clues: Drift<TripClue, 'trip_clues'>;
+  trip_expenses: Drift<TripExpense, 'trip_expenses'>;
+  day_templates: Drift<DayTemplate, 'day_templates'>;
+  trip_subgroups: Drift<TripSubgroup, 'trip_subgroups'>;
+  schedule_rsvps: Drift<ScheduleRsvp, 'schedule_rsvps'>;
+  trip_polls: Drift<TripPoll, 'trip_polls'>;
+  poll_votes: Drift<PollVote, 'poll_votes'>;
+}>;
@@ -0,0 +1,3 @@
+-- Tickets: admin can manage. Members get their ticket only through /api/ticket-reveal,
+-- which strips the fields that aren't revealed yet, so there is no member SELECT policy.
+DROP POLICY IF EXISTS "Users can view own ticket" ON public.tickets;
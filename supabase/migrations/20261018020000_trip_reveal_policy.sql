@@ -0,0 +1,4 @@
+-- Per-trip reveal settings: the destination country for the countdown and the minutes before
+-- departure/start at which each reveal stage unlocks (see src/lib/reveal.ts)
+ALTER TABLE public.trips ADD COLUMN IF NOT EXISTS destination_country TEXT;
+ALTER TABLE public.trips ADD COLUMN IF NOT EXISTS reveal_policy JSONB;
@@ -0,0 +1,40 @@
+-- Trip clues table (destination teasers that unlock one by one before departure)
+CREATE TABLE IF NOT EXISTS public.trip_clues (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  trip_id UUID NOT NULL REFERENCES public.trips(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('text', 'image', 'emoji', 'weather')),
+  content TEXT NOT NULL,
+  image_url TEXT,
+  unlock_minutes_before INTEGER NOT NULL CHECK (unlock_minutes_before >= 0),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_trip_clues_trip_id ON public.trip_clues(trip_id);
+
+ALTER TABLE public.trip_clues ENABLE ROW LEVEL SECURITY;
+
+-- Clues: members can only read clues that have unlocked, admin can manage
+DROP POLICY IF EXISTS "Trip members can view unlocked clues" ON public.trip_clues;
+CREATE POLICY "Trip members can view unlocked clues" ON public.trip_clues FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.trips t
+    JOIN public.trip_members tm ON tm.trip_id = t.id AND tm.user_id = auth.uid()
+    WHERE t.id = trip_clues.trip_id
+      AND NOW() >= t.departure_time - make_interval(mins => trip_clues.unlock_minutes_before)
+  ));
+DROP POLICY IF EXISTS "Admin can manage clues" ON public.trip_clues;
+CREATE POLICY "Admin can manage clues" ON public.trip_clues FOR ALL
+  USING (EXISTS (SELECT 1 FROM public.trips WHERE id = trip_id AND admin_id = auth.uid()));
+
+-- Clue unlock times without content, so members can see how many clues are still coming
+CREATE OR REPLACE FUNCTION public.get_trip_clue_schedule(p_trip_id UUID)
+RETURNS TABLE (id UUID, unlock_at TIMESTAMPTZ)
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT c.id, t.departure_time - make_interval(mins => c.unlock_minutes_before) AS unlock_at
+  FROM public.trip_clues c
+  JOIN public.trips t ON t.id = c.trip_id
+  WHERE c.trip_id = p_trip_id
+    AND EXISTS (SELECT 1 FROM public.trip_members WHERE trip_id = p_trip_id AND user_id = auth.uid())
+  ORDER BY unlock_at;
+$$;
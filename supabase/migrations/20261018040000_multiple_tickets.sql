@@ -0,0 +1,9 @@
+-- A member can have several tickets: outbound, return, events. Event tickets have no departure.
+ALTER TABLE public.tickets DROP CONSTRAINT IF EXISTS tickets_trip_id_member_id_key;
+ALTER TABLE public.tickets DROP CONSTRAINT IF EXISTS tickets_type_check;
+ALTER TABLE public.tickets ADD CONSTRAINT tickets_type_check CHECK (type IN ('flight', 'train', 'bus', 'event', 'other'));
+ALTER TABLE public.tickets ADD COLUMN IF NOT EXISTS label TEXT;
+ALTER TABLE public.tickets ADD COLUMN IF NOT EXISTS flight_number TEXT;
+ALTER TABLE public.tickets ALTER COLUMN departure_time DROP NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_member_id ON public.tickets(trip_id, member_id);
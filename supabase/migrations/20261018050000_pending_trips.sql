@@ -0,0 +1,21 @@
+-- Checkout session that paid for the trip, set by /api/stripe-webhook
+ALTER TABLE public.trips ADD COLUMN IF NOT EXISTS stripe_session_id TEXT UNIQUE;
+
+-- Pending trips table (trip details saved before a Payment Link checkout, which can't carry metadata)
+CREATE TABLE IF NOT EXISTS public.pending_trips (
+  user_id UUID PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  group_name TEXT,
+  description TEXT,
+  departure_time TIMESTAMPTZ NOT NULL,
+  return_time TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.pending_trips ENABLE ROW LEVEL SECURITY;
+
+-- Pending trips: users manage their own. Trips themselves are created by /api/stripe-webhook
+-- once the payment has gone through.
+DROP POLICY IF EXISTS "Users can manage own pending trip" ON public.pending_trips;
+CREATE POLICY "Users can manage own pending trip" ON public.pending_trips FOR ALL
+  USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
@@ -0,0 +1,20 @@
+-- Payments ledger (one row per paid checkout session, claimed by /api/stripe-webhook).
+-- The session id is the primary key, so a payment can only ever be consumed by one trip.
+CREATE TABLE IF NOT EXISTS public.payments (
+  stripe_session_id TEXT PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.users(id),
+  trip_id UUID UNIQUE REFERENCES public.trips(id) ON DELETE SET NULL,
+  amount_total INTEGER,
+  currency TEXT,
+  claimed_at TIMESTAMPTZ DEFAULT NOW(),
+  consumed_at TIMESTAMPTZ
+);
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+-- Payments: users can see their own, only the service role writes the ledger
+DROP POLICY IF EXISTS "Users can view own payments" ON public.payments;
+CREATE POLICY "Users can view own payments" ON public.payments FOR SELECT USING (user_id = auth.uid());
+
+-- No INSERT policy on trips: they are only created server-side once a payment has been claimed
+DROP POLICY IF EXISTS "Anyone can create trips" ON public.trips;
@@ -0,0 +1,4 @@
+-- Pricing plan from api/_lib/plans.ts (NULL for Payment Link purchases) and the group size
+-- tier that was paid for
+ALTER TABLE public.trips ADD COLUMN IF NOT EXISTS plan_id TEXT;
+ALTER TABLE public.trips ADD COLUMN IF NOT EXISTS max_members INTEGER;
@@ -0,0 +1,36 @@
+-- Trip expenses table (who paid what, and how it is split between members)
+CREATE TABLE IF NOT EXISTS public.trip_expenses (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  trip_id UUID NOT NULL REFERENCES public.trips(id) ON DELETE CASCADE,
+  description TEXT NOT NULL,
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL DEFAULT 'EUR',
+  paid_by UUID NOT NULL REFERENCES public.users(id),
+  split_mode TEXT NOT NULL DEFAULT 'equal' CHECK (split_mode IN ('equal', 'shares', 'exact')),
+  participants JSONB NOT NULL DEFAULT '[]', -- [{ user_id, share?, amount? }], see src/lib/expenses.ts
+  schedule_item_id UUID REFERENCES public.schedule_items(id) ON DELETE SET NULL,
+  created_by UUID NOT NULL REFERENCES public.users(id),
+  spent_at TIMESTAMPTZ DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_trip_expenses_trip_id ON public.trip_expenses(trip_id);
+
+ALTER TABLE public.trip_expenses ENABLE ROW LEVEL SECURITY;
+
+-- Expenses: trip members can view and add, the creator or admin can edit and delete
+DROP POLICY IF EXISTS "Trip members can view expenses" ON public.trip_expenses;
+CREATE POLICY "Trip members can view expenses" ON public.trip_expenses FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.trip_members WHERE trip_id = trip_expenses.trip_id AND user_id = auth.uid()));
+DROP POLICY IF EXISTS "Trip members can add expenses" ON public.trip_expenses;
+CREATE POLICY "Trip members can add expenses" ON public.trip_expenses FOR INSERT
+  WITH CHECK (created_by = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.trip_members WHERE trip_id = trip_expenses.trip_id AND user_id = auth.uid()));
+DROP POLICY IF EXISTS "Creator or admin can update expenses" ON public.trip_expenses;
+CREATE POLICY "Creator or admin can update expenses" ON public.trip_expenses FOR UPDATE
+  USING (created_by = auth.uid()
+    OR EXISTS (SELECT 1 FROM public.trips WHERE id = trip_expenses.trip_id AND admin_id = auth.uid()));
+DROP POLICY IF EXISTS "Creator or admin can delete expenses" ON public.trip_expenses;
+CREATE POLICY "Creator or admin can delete expenses" ON public.trip_expenses FOR DELETE
+  USING (created_by = auth.uid()
+    OR EXISTS (SELECT 1 FROM public.trips WHERE id = trip_expenses.trip_id AND admin_id = auth.uid()));
@@ -0,0 +1,5 @@
+-- Admin-set budget for the whole group (see src/lib/budget.ts) and what each activity costs
+ALTER TABLE public.trips ADD COLUMN IF NOT EXISTS budget_amount NUMERIC(10, 2);
+ALTER TABLE public.trips ADD COLUMN IF NOT EXISTS budget_currency TEXT DEFAULT 'EUR';
+ALTER TABLE public.schedule_items ADD COLUMN IF NOT EXISTS estimated_cost NUMERIC(10, 2); -- Total for the whole group
+ALTER TABLE public.schedule_items ADD COLUMN IF NOT EXISTS currency TEXT; -- ISO 4217 of estimated_cost, NULL means EUR
@@ -0,0 +1,23 @@
+-- Calendar feed tokens (one secret per member per trip, the only credential of /api/trips/:id/calendar.ics)
+CREATE TABLE IF NOT EXISTS public.calendar_tokens (
+  token UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  trip_id UUID NOT NULL REFERENCES public.trips(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(trip_id, user_id)
+);
+
+ALTER TABLE public.calendar_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Calendar tokens: members create, read and reset their own. The feed itself is served by
+-- /api/calendar with the service role, which applies the reveal rules.
+DROP POLICY IF EXISTS "Users can view own calendar token" ON public.calendar_tokens;
+CREATE POLICY "Users can view own calendar token" ON public.calendar_tokens FOR SELECT
+  USING (user_id = auth.uid());
+DROP POLICY IF EXISTS "Trip members can create own calendar token" ON public.calendar_tokens;
+CREATE POLICY "Trip members can create own calendar token" ON public.calendar_tokens FOR INSERT
+  WITH CHECK (user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.trip_members WHERE trip_id = calendar_tokens.trip_id AND user_id = auth.uid()));
+DROP POLICY IF EXISTS "Users can delete own calendar token" ON public.calendar_tokens;
+CREATE POLICY "Users can delete own calendar token" ON public.calendar_tokens FOR DELETE
+  USING (user_id = auth.uid());
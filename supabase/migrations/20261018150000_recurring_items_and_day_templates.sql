@@ -0,0 +1,20 @@
+-- Repeating schedule items
+ALTER TABLE public.schedule_items ADD COLUMN IF NOT EXISTS recurrence JSONB; -- Repeat rule ({ days, until }), see src/lib/recurrence.ts
+ALTER TABLE public.schedule_items ADD COLUMN IF NOT EXISTS recurrence_exceptions JSONB DEFAULT '[]'; -- Days (YYYY-MM-DD) taken out of the series
+
+-- Day templates (an admin's own library of day programmes, reusable across trips)
+CREATE TABLE IF NOT EXISTS public.day_templates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  owner_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  items JSONB NOT NULL DEFAULT '[]', -- [{ title, type, start: 'HH:mm', end, ... }], see DayTemplateItem
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.day_templates ENABLE ROW LEVEL SECURITY;
+
+-- Day templates: private to the admin who saved them
+DROP POLICY IF EXISTS "Users can manage own day templates" ON public.day_templates;
+CREATE POLICY "Users can manage own day templates" ON public.day_templates FOR ALL
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
@@ -0,0 +1,41 @@
+-- Who a schedule item is for, everyone when both are empty
+ALTER TABLE public.schedule_items ADD COLUMN IF NOT EXISTS audience_subgroup_ids UUID[];
+ALTER TABLE public.schedule_items ADD COLUMN IF NOT EXISTS audience_user_ids UUID[];
+
+-- Trip sub-groups (named sets of members, e.g. "Surfers", that schedule items can be aimed at)
+CREATE TABLE IF NOT EXISTS public.trip_subgroups (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  trip_id UUID NOT NULL REFERENCES public.trips(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  color TEXT NOT NULL DEFAULT 'sky',
+  member_ids UUID[] NOT NULL DEFAULT '{}', -- User ids
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_trip_subgroups_trip_id ON public.trip_subgroups(trip_id);
+
+ALTER TABLE public.trip_subgroups ENABLE ROW LEVEL SECURITY;
+
+-- Sub-groups: trip members can view, admin can manage
+DROP POLICY IF EXISTS "Trip members can view sub-groups" ON public.trip_subgroups;
+CREATE POLICY "Trip members can view sub-groups" ON public.trip_subgroups FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.trip_members WHERE trip_id = trip_subgroups.trip_id AND user_id = auth.uid()));
+DROP POLICY IF EXISTS "Admin can manage sub-groups" ON public.trip_subgroups;
+CREATE POLICY "Admin can manage sub-groups" ON public.trip_subgroups FOR ALL
+  USING (EXISTS (SELECT 1 FROM public.trips WHERE id = trip_id AND admin_id = auth.uid()));
+
+-- Schedule items: trip members can view the items meant for them (everyone's, their own and
+-- their sub-groups'), admin can manage all of them. src/lib/audience.ts has the same rule.
+DROP POLICY IF EXISTS "Trip members can view schedule" ON public.schedule_items;
+CREATE POLICY "Trip members can view schedule" ON public.schedule_items FOR SELECT
+  USING (
+    EXISTS (SELECT 1 FROM public.trip_members WHERE trip_id = schedule_items.trip_id AND user_id = auth.uid())
+    AND (
+      (COALESCE(cardinality(audience_subgroup_ids), 0) = 0 AND COALESCE(cardinality(audience_user_ids), 0) = 0)
+      OR auth.uid() = ANY(audience_user_ids)
+      OR EXISTS (
+        SELECT 1 FROM public.trip_subgroups sg
+        WHERE sg.id = ANY(schedule_items.audience_subgroup_ids) AND auth.uid() = ANY(sg.member_ids)
+      )
+    )
+  );
@@ -0,0 +1,38 @@
+-- RSVP items: members say whether they're coming, up to the capacity (NULL means no limit)
+ALTER TABLE public.schedule_items ADD COLUMN IF NOT EXISTS rsvp_enabled BOOLEAN DEFAULT false;
+ALTER TABLE public.schedule_items ADD COLUMN IF NOT EXISTS capacity INTEGER CHECK (capacity > 0);
+
+-- Schedule RSVPs (one answer per member per item; past capacity, 'going' answers form a
+-- waitlist in responded_at order, see src/lib/rsvp.ts)
+CREATE TABLE IF NOT EXISTS public.schedule_rsvps (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  trip_id UUID NOT NULL REFERENCES public.trips(id) ON DELETE CASCADE,
+  schedule_item_id UUID NOT NULL REFERENCES public.schedule_items(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL CHECK (status IN ('going', 'maybe', 'not_going')),
+  responded_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(schedule_item_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedule_rsvps_trip_id ON public.schedule_rsvps(trip_id);
+
+ALTER TABLE public.schedule_rsvps ENABLE ROW LEVEL SECURITY;
+
+-- RSVPs: trip members can view all answers and give their own for items they can see,
+-- admin can manage
+DROP POLICY IF EXISTS "Trip members can view RSVPs" ON public.schedule_rsvps;
+CREATE POLICY "Trip members can view RSVPs" ON public.schedule_rsvps FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.trip_members WHERE trip_id = schedule_rsvps.trip_id AND user_id = auth.uid()));
+DROP POLICY IF EXISTS "Users can manage own RSVP" ON public.schedule_rsvps;
+CREATE POLICY "Users can manage own RSVP" ON public.schedule_rsvps FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.schedule_items si
+      WHERE si.id = schedule_item_id AND si.trip_id = schedule_rsvps.trip_id AND si.rsvp_enabled
+    )
+  );
+DROP POLICY IF EXISTS "Admin can manage RSVPs" ON public.schedule_rsvps;
+CREATE POLICY "Admin can manage RSVPs" ON public.schedule_rsvps FOR ALL
+  USING (EXISTS (SELECT 1 FROM public.trips WHERE id = trip_id AND admin_id = auth.uid()));
@@ -0,0 +1,80 @@
+-- Chat messages that show a poll instead of their text
+ALTER TABLE public.trip_messages ADD COLUMN IF NOT EXISTS poll_id UUID; -- References trip_polls
+
+-- Trip polls (posted in the chat; options are [{ id, title, description, item }], see PollOption)
+CREATE TABLE IF NOT EXISTS public.trip_polls (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  trip_id UUID NOT NULL REFERENCES public.trips(id) ON DELETE CASCADE,
+  created_by UUID NOT NULL REFERENCES public.users(id),
+  question TEXT NOT NULL,
+  mode TEXT NOT NULL DEFAULT 'single' CHECK (mode IN ('single', 'multiple', 'ranked')),
+  options JSONB NOT NULL DEFAULT '[]',
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  scheduled_option_id TEXT, -- Option that was added to the schedule
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Poll votes (one ballot per member; choices are option ids, most preferred first for ranked polls)
+CREATE TABLE IF NOT EXISTS public.poll_votes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  poll_id UUID NOT NULL REFERENCES public.trip_polls(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  choices JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(poll_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trip_polls_trip_id ON public.trip_polls(trip_id);
+CREATE INDEX IF NOT EXISTS idx_poll_votes_poll_id ON public.poll_votes(poll_id);
+
+ALTER TABLE public.trip_polls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.poll_votes ENABLE ROW LEVEL SECURITY;
+
+-- Polls: trip members can view and post them, the poster or admin can close or remove them
+DROP POLICY IF EXISTS "Trip members can view polls" ON public.trip_polls;
+CREATE POLICY "Trip members can view polls" ON public.trip_polls FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.trip_members WHERE trip_id = trip_polls.trip_id AND user_id = auth.uid()));
+DROP POLICY IF EXISTS "Trip members can create polls" ON public.trip_polls;
+CREATE POLICY "Trip members can create polls" ON public.trip_polls FOR INSERT
+  WITH CHECK (
+    created_by = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.trip_members WHERE trip_id = trip_polls.trip_id AND user_id = auth.uid())
+  );
+DROP POLICY IF EXISTS "Poster or admin can manage polls" ON public.trip_polls;
+CREATE POLICY "Poster or admin can manage polls" ON public.trip_polls FOR UPDATE
+  USING (created_by = auth.uid() OR EXISTS (SELECT 1 FROM public.trips WHERE id = trip_id AND admin_id = auth.uid()));
+DROP POLICY IF EXISTS "Poster or admin can delete polls" ON public.trip_polls;
+CREATE POLICY "Poster or admin can delete polls" ON public.trip_polls FOR DELETE
+  USING (created_by = auth.uid() OR EXISTS (SELECT 1 FROM public.trips WHERE id = trip_id AND admin_id = auth.uid()));
+
+-- Poll votes: trip members can view all ballots and cast their own while the poll is open
+DROP POLICY IF EXISTS "Trip members can view votes" ON public.poll_votes;
+CREATE POLICY "Trip members can view votes" ON public.poll_votes FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.trip_polls p
+    JOIN public.trip_members tm ON tm.trip_id = p.trip_id AND tm.user_id = auth.uid()
+    WHERE p.id = poll_votes.poll_id
+  ));
+DROP POLICY IF EXISTS "Trip members can vote on open polls" ON public.poll_votes;
+CREATE POLICY "Trip members can vote on open polls" ON public.poll_votes FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.trip_polls p
+      JOIN public.trip_members tm ON tm.trip_id = p.trip_id AND tm.user_id = auth.uid()
+      WHERE p.id = poll_votes.poll_id AND p.status = 'open'
+    )
+  );
+
+-- Realtime for poll results. Databases set up from a later supabase-setup.sql already publish them.
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'trip_polls') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.trip_polls;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'poll_votes') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.poll_votes;
+  END IF;
+END;
+$$;
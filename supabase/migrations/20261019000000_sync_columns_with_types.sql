@@ -0,0 +1,27 @@
+-- Columns the app reads and writes that the initial schema never created, so the tables match
+-- src/types/index.ts again (checked by src/types/schemaCheck.ts). They were added by hand to the
+-- existing database, so every statement here is a no-op there.
+
+-- Trips
+ALTER TABLE public.trips ADD COLUMN IF NOT EXISTS group_name TEXT;
+ALTER TABLE public.trips ADD COLUMN IF NOT EXISTS return_time TIMESTAMPTZ; -- End date of the trip
+
+-- Tickets: event tickets have no departure and arrival locations
+ALTER TABLE public.tickets ADD COLUMN IF NOT EXISTS event_name TEXT;
+ALTER TABLE public.tickets ADD COLUMN IF NOT EXISTS venue TEXT;
+ALTER TABLE public.tickets ALTER COLUMN departure_location DROP NOT NULL;
+ALTER TABLE public.tickets ALTER COLUMN arrival_location DROP NOT NULL;
+
+-- Schedule items
+ALTER TABLE public.schedule_items ADD COLUMN IF NOT EXISTS location_url TEXT; -- Google Maps link
+ALTER TABLE public.schedule_items ADD COLUMN IF NOT EXISTS booking_url TEXT;
+ALTER TABLE public.schedule_items ADD COLUMN IF NOT EXISTS reservation_code TEXT;
+ALTER TABLE public.schedule_items ADD COLUMN IF NOT EXISTS contact_info TEXT;
+ALTER TABLE public.schedule_items ADD COLUMN IF NOT EXISTS is_transport BOOLEAN DEFAULT false;
+
+-- Messages
+ALTER TABLE public.trip_messages ADD COLUMN IF NOT EXISTS media_url TEXT;
+
+-- Media
+ALTER TABLE public.trip_media ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION;
+ALTER TABLE public.trip_media ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION;
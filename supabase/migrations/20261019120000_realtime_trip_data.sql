@@ -0,0 +1,18 @@
+-- Realtime for the tables the lobby keeps in sync (see subscribeToTripData in src/lib/supabase.ts),
+-- so an activity added or a member removed by the admin shows up without reloading
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'schedule_items') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.schedule_items;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'trip_members') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.trip_members;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'tickets') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.tickets;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'trip_media') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.trip_media;
+  END IF;
+END;
+$$;
@@ -0,0 +1,67 @@
+-- Realtime for the trip itself, so a changed departure time or destination reaches the lobby
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'trips') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.trips;
+  END IF;
+END;
+$$;
+
+-- Members can't read ticket rows (see the tickets policies), so realtime on tickets only ever
+-- reached the admin. Instead each member is told through ticket_changes that one of their own
+-- tickets changed, and fetches it again through /api/ticket-reveal. It says nothing about the
+-- ticket itself.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'tickets') THEN
+    ALTER PUBLICATION supabase_realtime DROP TABLE public.tickets;
+  END IF;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS public.ticket_changes (
+  trip_id UUID NOT NULL REFERENCES public.trips(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (trip_id, member_id)
+);
+
+ALTER TABLE public.ticket_changes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own ticket changes" ON public.ticket_changes;
+CREATE POLICY "Users can view own ticket changes" ON public.ticket_changes FOR SELECT
+  USING (member_id = auth.uid());
+
+-- A ticket moved to another member is a change for both of them. Tickets removed because their
+-- trip is deleted aren't recorded, the trip is gone.
+CREATE OR REPLACE FUNCTION public.record_ticket_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.ticket_changes (trip_id, member_id)
+  SELECT t.trip_id, t.member_id
+  FROM (
+    SELECT NEW.trip_id, NEW.member_id WHERE TG_OP <> 'DELETE'
+    UNION
+    SELECT OLD.trip_id, OLD.member_id WHERE TG_OP <> 'INSERT'
+  ) AS t (trip_id, member_id)
+  WHERE EXISTS (SELECT 1 FROM public.trips WHERE id = t.trip_id)
+  ON CONFLICT (trip_id, member_id) DO UPDATE SET changed_at = NOW();
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_ticket_change ON public.tickets;
+CREATE TRIGGER on_ticket_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.tickets
+  FOR EACH ROW EXECUTE FUNCTION public.record_ticket_change();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'ticket_changes') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.ticket_changes;
+  END IF;
+END;
+$$;
@@ -0,0 +1,22 @@
+-- The waitlist is ordered by responded_at, so it is set here rather than by the client: when a
+-- member first answers, and again only when they change their answer. Saving the same answer
+-- twice keeps their place in line, and nobody can move up by sending an earlier time.
+CREATE OR REPLACE FUNCTION public.set_rsvp_responded_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status = OLD.status THEN
+    NEW.responded_at := OLD.responded_at;
+  ELSE
+    NEW.responded_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_rsvp_change ON public.schedule_rsvps;
+CREATE TRIGGER on_rsvp_change
+  BEFORE INSERT OR UPDATE ON public.schedule_rsvps
+  FOR EACH ROW EXECUTE FUNCTION public.set_rsvp_responded_at();
@@ -0,0 +1,35 @@
+-- Joining goes through join_trip() instead of inserting into trip_members directly, so a trip
+-- never gets more members than its plan paid for (trips.max_members, NULL means no limit).
+-- The trip row is locked while counting, so two people can't take the last place at once.
+-- It also finds the trip by its lobby code, which a non-member can't read through RLS.
+DROP POLICY IF EXISTS "Anyone can join trips" ON public.trip_members;
+
+CREATE OR REPLACE FUNCTION public.join_trip(p_lobby_code TEXT)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_trip public.trips%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO v_trip FROM public.trips WHERE lobby_code = upper(p_lobby_code) FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.trip_members WHERE trip_id = v_trip.id AND user_id = auth.uid()) THEN
+    RETURN v_trip.id;
+  END IF;
+
+  IF v_trip.max_members IS NOT NULL
+    AND (SELECT count(*) FROM public.trip_members WHERE trip_id = v_trip.id) >= v_trip.max_members THEN
+    RAISE EXCEPTION 'This trip is full: it has room for % members', v_trip.max_members USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO public.trip_members (trip_id, user_id, role) VALUES (v_trip.id, auth.uid(), 'member');
+  RETURN v_trip.id;
+END;
+$$;
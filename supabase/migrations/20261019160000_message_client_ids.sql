@@ -0,0 +1,6 @@
+-- Messages written offline are sent with the id they were queued under on the device. When the
+-- app sends one again (because it couldn't remove it from the outbox after it went through), the
+-- insert is ignored instead of posting the message twice.
+ALTER TABLE public.trip_messages ADD COLUMN IF NOT EXISTS client_id UUID;
+ALTER TABLE public.trip_messages DROP CONSTRAINT IF EXISTS trip_messages_sender_id_client_id_key;
+ALTER TABLE public.trip_messages ADD CONSTRAINT trip_messages_sender_id_client_id_key UNIQUE (sender_id, client_id);
@@ -0,0 +1,50 @@
+-- Realtime only sends members the schedule items they can see after a change, so a member who is
+-- taken out of an item's audience (or out of one of its sub-groups) never hears about it and keeps
+-- the item. Instead every audience change is recorded here per trip, and members refetch the
+-- schedule when it changes. It says nothing about the items themselves.
+CREATE TABLE IF NOT EXISTS public.schedule_audience_changes (
+  trip_id UUID PRIMARY KEY REFERENCES public.trips(id) ON DELETE CASCADE,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.schedule_audience_changes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Trip members can view audience changes" ON public.schedule_audience_changes;
+CREATE POLICY "Trip members can view audience changes" ON public.schedule_audience_changes FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.trip_members WHERE trip_id = schedule_audience_changes.trip_id AND user_id = auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.record_audience_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.schedule_audience_changes (trip_id)
+  VALUES (NEW.trip_id)
+  ON CONFLICT (trip_id) DO UPDATE SET changed_at = NOW();
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_schedule_audience_change ON public.schedule_items;
+CREATE TRIGGER on_schedule_audience_change
+  AFTER UPDATE OF audience_subgroup_ids, audience_user_ids ON public.schedule_items
+  FOR EACH ROW
+  WHEN (OLD.audience_subgroup_ids IS DISTINCT FROM NEW.audience_subgroup_ids
+    OR OLD.audience_user_ids IS DISTINCT FROM NEW.audience_user_ids)
+  EXECUTE FUNCTION public.record_audience_change();
+
+DROP TRIGGER IF EXISTS on_subgroup_members_change ON public.trip_subgroups;
+CREATE TRIGGER on_subgroup_members_change
+  AFTER UPDATE OF member_ids ON public.trip_subgroups
+  FOR EACH ROW
+  WHEN (OLD.member_ids IS DISTINCT FROM NEW.member_ids)
+  EXECUTE FUNCTION public.record_audience_change();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'schedule_audience_changes') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.schedule_audience_changes;
+  END IF;
+END;
+$$;
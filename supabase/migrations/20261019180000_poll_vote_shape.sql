@@ -0,0 +1,46 @@
+-- Ballots are checked here and not only in PollCard, since members can write their vote through
+-- the API directly: exactly one choice in a single-choice poll and at least one otherwise, each
+-- an option of the poll, and none twice (a ranking with an option in two places counts it twice).
+CREATE OR REPLACE FUNCTION public.check_poll_vote()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  poll_mode TEXT;
+  option_ids JSONB;
+  choice_count INT;
+BEGIN
+  SELECT mode, jsonb_path_query_array(options, '$[*].id')
+  INTO poll_mode, option_ids
+  FROM public.trip_polls
+  WHERE id = NEW.poll_id;
+
+  IF poll_mode IS NULL THEN
+    RAISE EXCEPTION 'This poll does not exist' USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  choice_count := CASE WHEN jsonb_typeof(NEW.choices) = 'array' THEN jsonb_array_length(NEW.choices) ELSE 0 END;
+  IF choice_count = 0 THEN
+    RAISE EXCEPTION 'A vote needs at least one choice' USING ERRCODE = 'check_violation';
+  END IF;
+  IF poll_mode = 'single' AND choice_count > 1 THEN
+    RAISE EXCEPTION 'This poll takes a single choice' USING ERRCODE = 'check_violation';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(NEW.choices) AS c (choice)
+    WHERE NOT option_ids @> jsonb_build_array(c.choice)
+  ) THEN
+    RAISE EXCEPTION 'A vote can only choose options of its poll' USING ERRCODE = 'check_violation';
+  END IF;
+  IF (SELECT COUNT(DISTINCT c.choice) FROM jsonb_array_elements(NEW.choices) AS c (choice)) < choice_count THEN
+    RAISE EXCEPTION 'A vote can choose each option only once' USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_poll_vote ON public.poll_votes;
+CREATE TRIGGER on_poll_vote
+  BEFORE INSERT OR UPDATE ON public.poll_votes
+  FOR EACH ROW EXECUTE FUNCTION public.check_poll_vote();
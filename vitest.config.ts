@@ -0,0 +1,16 @@
+import { defineConfig } from 'vitest/config'
+
+// Kept apart from vite.config.ts so the tests don't build the PWA
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts', 'api/**/*.test.ts'],
+    environment: 'node',
+    // src/lib/supabase.ts creates its client on import; tests replace it with installFakeSupabase()
+    env: {
+      // Floating and all-day times are read in the local zone; pin it so results don't depend on the machine
+      TZ: 'Europe/Amsterdam',
+      VITE_SUPABASE_URL: 'http://127.0.0.1:54321',
+      VITE_SUPABASE_ANON_KEY: 'test-anon-key',
+    },
+  },
+})